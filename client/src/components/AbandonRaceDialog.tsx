@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { Race } from "@shared/schema";
+
+// Abandonment signals from the Race Signals page of the RRS
+export type AbandonSignal = "N" | "N over H" | "N over A";
+
+const ABANDON_SIGNALS: { value: AbandonSignal; description: string }[] = [
+  { value: "N", description: "Return to the starting area" },
+  { value: "N over H", description: "Further signals ashore" },
+  { value: "N over A", description: "No more racing today" },
+];
+
+export interface AbandonRaceResult {
+  signal: AbandonSignal;
+  reason: string;
+  restoreCourse: boolean;
+}
+
+interface AbandonRaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  race: Race | null;
+  // The course is shortened and can be put back with the abandonment
+  canRestoreCourse: boolean;
+  onConfirm: (race: Race, result: AbandonRaceResult) => void;
+  isPending?: boolean;
+}
+
+export function AbandonRaceDialog({
+  open,
+  onOpenChange,
+  race,
+  canRestoreCourse,
+  onConfirm,
+  isPending = false,
+}: AbandonRaceDialogProps) {
+  const [signal, setSignal] = useState<AbandonSignal>("N");
+  const [reason, setReason] = useState("");
+  const [restoreCourse, setRestoreCourse] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setSignal("N");
+    setReason("");
+    setRestoreCourse(true);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-abandon-race">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="h-5 w-5" />
+            Abandon {race ? `Race ${race.raceNumber}${race.fleet ? ` · ${race.fleet}` : ""}` : "Race"}
+          </DialogTitle>
+          <DialogDescription>Display the signal with three sounds. The time is recorded in the race log.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-2">
+            {ABANDON_SIGNALS.map(s => (
+              <Button
+                key={s.value}
+                variant="outline"
+                className={cn(
+                  "h-auto flex flex-col gap-1 py-3 toggle-elevate",
+                  signal === s.value && "toggle-elevated ring-2 ring-primary"
+                )}
+                onClick={() => setSignal(s.value)}
+                data-testid={`button-abandon-signal-${s.value.replace(/ /g, "-").toLowerCase()}`}
+              >
+                <span className="text-lg font-black">{s.value}</span>
+                <span className="text-[10px] text-muted-foreground whitespace-normal leading-tight">{s.description}</span>
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Reason (optional)</Label>
+            <Input
+              value={reason}
+              placeholder="e.g. wind dropped below 4 kn"
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-abandon-reason"
+            />
+          </div>
+
+          {canRestoreCourse && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="abandon-restore-course"
+                checked={restoreCourse}
+                onCheckedChange={(checked) => setRestoreCourse(checked === true)}
+                data-testid="checkbox-abandon-restore-course"
+              />
+              <Label htmlFor="abandon-restore-course" className="text-sm">Restore the course from before it was shortened</Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-abandon">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!race || isPending}
+            onClick={() => race && onConfirm(race, { signal, reason: reason.trim(), restoreCourse: canRestoreCourse && restoreCourse })}
+            data-testid="button-confirm-abandon"
+          >
+            Abandon
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuditLog, useEvents, useSailClubs } from "@/hooks/use-api";
+import type { AuditAction, AuditEntityType, AuditLogEntryWithUser } from "@shared/schema";
+
+interface AuditTrailProps {
+  // Super admins filter by club; club managers only ever see their own
+  showClubFilter?: boolean;
+}
+
+const PAGE_SIZE = 200;
+const MAX_LIMIT = 1000;
+const INLINE_CHANGES = 4;
+const ALL = "all";
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  user: "User",
+  event_access: "Event access",
+  sail_club: "Club",
+  boat_class: "Boat class",
+  event: "Event",
+  course: "Course",
+  course_snapshot: "Saved course",
+  mark: "Mark",
+  buoy: "Buoy",
+  race: "Race",
+  race_finish: "Finish",
+  buoy_command: "Buoy command",
+  start_sequence: "Start sequence",
+};
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "number") return String(Math.round(value * 1e6) / 1e6);
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function describeChange(entry: AuditLogEntryWithUser, field: string, change: { from: unknown; to: unknown }): string {
+  if (entry.action === "create") return `${field}: ${formatValue(change.to)}`;
+  if (entry.action === "delete") return `${field}: ${formatValue(change.from)}`;
+  return `${field}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+}
+
+function AuditChangeList({ entry }: { entry: AuditLogEntryWithUser }) {
+  const lines = Object.entries(entry.changes ?? {}).map(([field, change]) => describeChange(entry, field, change));
+  if (lines.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const list = (
+    <ul className="font-mono text-xs space-y-0.5">
+      {lines.map(line => <li key={line} className="break-all">{line}</li>)}
+    </ul>
+  );
+  if (lines.length <= INLINE_CHANGES) {
+    return list;
+  }
+  return (
+    <details>
+      <summary className="cursor-pointer text-xs text-muted-foreground">{lines.length} fields</summary>
+      {list}
+    </details>
+  );
+}
+
+export function AuditTrail({ showClubFilter = false }: AuditTrailProps) {
+  const [clubFilter, setClubFilter] = useState(ALL);
+  const [eventFilter, setEventFilter] = useState(ALL);
+  const [userFilter, setUserFilter] = useState(ALL);
+  const [entityFilter, setEntityFilter] = useState(ALL);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data: clubs = [] } = useSailClubs();
+  const { data: events = [] } = useEvents(showClubFilter && clubFilter !== ALL ? clubFilter : undefined);
+  const { data: users = [] } = useQuery<{ id: string; username: string }[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: entries = [], isLoading, isFetching } = useAuditLog({
+    sailClubId: showClubFilter && clubFilter !== ALL ? clubFilter : undefined,
+    eventId: eventFilter !== ALL ? eventFilter : undefined,
+    userId: userFilter !== ALL ? userFilter : undefined,
+    entityType: entityFilter !== ALL ? entityFilter as AuditEntityType : undefined,
+    limit,
+  });
+
+  const handleClubChange = (value: string) => {
+    setClubFilter(value);
+    setEventFilter(ALL);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 flex-wrap">
+        <div>
+          <CardTitle>Audit Trail</CardTitle>
+          <CardDescription>Who created, changed or deleted what, newest first</CardDescription>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {showClubFilter && (
+            <Select value={clubFilter} onValueChange={handleClubChange}>
+              <SelectTrigger className="w-40" data-testid="select-audit-club-filter">
+                <SelectValue placeholder="All Clubs" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Clubs</SelectItem>
+                {clubs.map((club) => (
+                  <SelectItem key={club.id} value={club.id}>{club.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={eventFilter} onValueChange={setEventFilter}>
+            <SelectTrigger className="w-44" data-testid="select-audit-event-filter">
+              <SelectValue placeholder="All Events" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Events</SelectItem>
+              {events.map((event) => (
+                <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={userFilter} onValueChange={setUserFilter}>
+            <SelectTrigger className="w-36" data-testid="select-audit-user-filter">
+              <SelectValue placeholder="All Users" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Users</SelectItem>
+              {users.map((u) => (
+                <SelectItem key={u.id} value={u.id}>{u.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={entityFilter} onValueChange={setEntityFilter}>
+            <SelectTrigger className="w-36" data-testid="select-audit-entity-filter">
+              <SelectValue placeholder="Everything" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everything</SelectItem>
+              {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No changes recorded.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40">Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Changed</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id} className="align-top" data-testid={`row-audit-${entry.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="font-medium">{entry.username ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={ACTION_VARIANTS[entry.action as AuditAction] ?? "secondary"}>{entry.action}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {ENTITY_LABELS[entry.entityType as AuditEntityType] ?? entry.entityType}
+                        {entry.entityLabel && <span className="font-medium"> {entry.entityLabel}</span>}
+                      </div>
+                      <div className="font-mono text-[11px] text-muted-foreground">{entry.route}</div>
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <AuditChangeList entry={entry} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {entries.length >= limit && limit < MAX_LIMIT && (
+              <div className="flex justify-center pt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLimit(limit + PAGE_SIZE)}
+                  disabled={isFetching}
+                  data-testid="button-audit-show-more"
+                >
+                  {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Show older"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
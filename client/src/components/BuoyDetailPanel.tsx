@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import { X, Play, Pause, RotateCcw, Navigation, Battery, Signal, Wind, Waves, Clock, MapPin, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Target, Loader2, SlidersHorizontal, Move } from "lucide-react";
+import { X, Play, Pause, RotateCcw, Navigation, Battery, Signal, Wind, Waves, Clock, MapPin, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Target, Loader2, SlidersHorizontal, Move, Send } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,9 +9,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
-import type { Buoy, BuoyState } from "@shared/schema";
+import type { Buoy, BuoyState, BuoyCommand, BuoyCommandStatus } from "@shared/schema";
 import { useSettings } from "@/hooks/use-settings";
-import { useBuoyCommand } from "@/hooks/use-api";
+import { useBuoyCommand, useBuoyCommands } from "@/hooks/use-api";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
@@ -66,6 +66,43 @@ function getBuoyStateLabel(state: BuoyState): string {
   }
 }
 
+function getCommandLabel(command: BuoyCommand["command"]): string {
+  switch (command) {
+    case "move_to_target": return "Move to target";
+    case "hold_position": return "Hold position";
+    case "cancel": return "Cancel";
+    default: return command;
+  }
+}
+
+function getCommandStatusColor(status: BuoyCommandStatus): string {
+  switch (status) {
+    case "pending":
+    case "sent": return "bg-muted text-muted-foreground";
+    case "acknowledged": return "bg-chart-1/20 text-chart-1";
+    case "completed": return "bg-green-500/20 text-green-500";
+    case "superseded": return "bg-muted text-muted-foreground";
+    case "rejected":
+    case "failed":
+    case "timed_out": return "bg-destructive/20 text-destructive";
+    default: return "bg-muted text-muted-foreground";
+  }
+}
+
+function getCommandStatusLabel(status: BuoyCommandStatus): string {
+  switch (status) {
+    case "pending": return "Queued";
+    case "sent": return "Sent";
+    case "acknowledged": return "Acknowledged";
+    case "completed": return "Completed";
+    case "rejected": return "Rejected";
+    case "failed": return "Failed";
+    case "timed_out": return "Timed out";
+    case "superseded": return "Superseded";
+    default: return status;
+  }
+}
+
 export function BuoyDetailPanel({ buoy, onClose, demoSendCommand, onTapMapToGoto, isTapMapMode, onNudgeBuoy, assignedMarkName, assignedMarkLat, assignedMarkLng }: BuoyDetailPanelProps) {
   const { formatSpeed, formatBearing, markNudgeMeters, setMarkNudgeMeters } = useSettings();
   const { toast } = useToast();
@@ -77,6 +114,9 @@ export function BuoyDetailPanel({ buoy, onClose, demoSendCommand, onTapMapToGoto
     });
   }, [toast]);
   const buoyCommand = useBuoyCommand(demoSendCommand, undefined, handleBuoyCommandError);
+  const isDemoBuoy = buoy.id.startsWith("demo-");
+  const { data: commands = [] } = useBuoyCommands(isDemoBuoy ? null : buoy.id);
+  const latestCommand = commands[0];
   const [gotoLat, setGotoLat] = useState("");
   const [gotoLng, setGotoLng] = useState("");
 
@@ -224,6 +264,36 @@ export function BuoyDetailPanel({ buoy, onClose, demoSendCommand, onTapMapToGoto
           </Card>
         )}
 
+        {latestCommand && (
+          <Card data-testid="card-command-status">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <Send className="w-4 h-4" />
+                Last Command
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>{getCommandLabel(latestCommand.command)}</span>
+                <Badge
+                  variant="secondary"
+                  className={cn("text-xs", getCommandStatusColor(latestCommand.status as BuoyCommandStatus))}
+                  data-testid="badge-command-status"
+                >
+                  {getCommandStatusLabel(latestCommand.status as BuoyCommandStatus)}
+                </Badge>
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Attempts</span>
+                <span className="font-mono">{latestCommand.attempts}/{latestCommand.maxAttempts}</span>
+              </div>
+              {latestCommand.errorMessage && (
+                <p className="text-xs text-destructive">{latestCommand.errorMessage}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -246,6 +316,20 @@ export function BuoyDetailPanel({ buoy, onClose, demoSendCommand, onTapMapToGoto
               </span>
               <span className="font-mono">{buoy.signalStrength}%</span>
             </div>
+            {buoy.lastTelemetryAt && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Last Report</span>
+                <span className="font-mono" data-testid="text-last-telemetry">
+                  {new Date(buoy.lastTelemetryAt).toLocaleTimeString()}
+                </span>
+              </div>
+            )}
+            {buoy.hardwareConfig?.firmwareVersion && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Firmware</span>
+                <span className="font-mono">{buoy.hardwareConfig.firmwareVersion}</span>
+              </div>
+            )}
           </CardContent>
         </Card>
 
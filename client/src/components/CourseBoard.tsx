@@ -0,0 +1,54 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  COURSE_TYPE_LABELS,
+  describeCourseDesignation,
+  getDesignationMarkNumbers,
+  numberCourseMarks,
+  parseCourseDesignation,
+} from "@shared/course-designations";
+import type { Mark } from "@shared/schema";
+
+interface CourseBoardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  designation: string;
+  marks: Mark[];
+}
+
+/** Full-screen course board to show competitors the course to sail. */
+export function CourseBoard({ open, onOpenChange, designation, marks }: CourseBoardProps) {
+  const parsed = parseCourseDesignation(designation);
+  const numbered = numberCourseMarks(marks);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-course-board">
+        <DialogHeader>
+          <DialogTitle>Course Board</DialogTitle>
+        </DialogHeader>
+        {parsed ? (
+          <div className="space-y-6 text-center py-4">
+            <p className="text-8xl font-black tracking-tight" data-testid="text-course-board-designation">
+              {designation}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {COURSE_TYPE_LABELS[parsed.type]} · {parsed.laps} lap{parsed.laps > 1 ? "s" : ""}
+            </p>
+            <p className="text-2xl font-mono font-semibold" data-testid="text-course-board-sequence">
+              {describeCourseDesignation(parsed)}
+            </p>
+            <div className="flex flex-wrap justify-center gap-3 text-sm">
+              {getDesignationMarkNumbers(parsed.type).map(n => (
+                <span key={n} className="rounded-md border px-3 py-1">
+                  <span className="font-bold">{n}</span> {numbered.get(n)?.name ?? "—"}
+                </span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">No course designation is set.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
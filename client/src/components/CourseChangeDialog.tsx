@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from "react";
+import { Navigation, Anchor } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useSettings } from "@/hooks/use-settings";
+import {
+  computeCourseChange,
+  formatCompassBearing,
+  type CourseChange,
+  type CourseChangeLeg,
+} from "@/lib/course-change";
+
+interface CourseChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  legs: CourseChangeLeg[];
+  // Leg after the leader's; preselected when the dialog opens
+  suggestedLeg: CourseChangeLeg | null;
+  leaderSailNumber?: string;
+  // Degrees the wind has shifted since the course was set
+  windShift: number;
+  // Name of the buoy that will be sent to the new position, if any
+  getBuoyName: (leg: CourseChangeLeg) => string | null;
+  onConfirm: (leg: CourseChangeLeg, change: CourseChange) => void;
+  isPending?: boolean;
+}
+
+const METERS_PER_NM = 1852;
+
+export function CourseChangeDialog({
+  open,
+  onOpenChange,
+  legs,
+  suggestedLeg,
+  leaderSailNumber,
+  windShift,
+  getBuoyName,
+  onConfirm,
+  isPending = false,
+}: CourseChangeDialogProps) {
+  const { formatDistance } = useSettings();
+  const [sequenceIndex, setSequenceIndex] = useState<number | null>(null);
+  const [bearingChange, setBearingChange] = useState("0");
+  const [lengthPercent, setLengthPercent] = useState("0");
+
+  useEffect(() => {
+    if (!open) return;
+    setSequenceIndex(suggestedLeg?.sequenceIndex ?? legs[0]?.sequenceIndex ?? null);
+    setBearingChange(String(windShift));
+    setLengthPercent("0");
+    // Only reset when the dialog opens, not as the leader or wind moves on
+  }, [open]);
+
+  const leg = legs.find(l => l.sequenceIndex === sequenceIndex) ?? null;
+  const change = useMemo(() => {
+    if (!leg) return null;
+    const degrees = parseFloat(bearingChange) || 0;
+    const percent = Math.max(-90, parseFloat(lengthPercent) || 0);
+    return computeCourseChange(leg, degrees, percent);
+  }, [leg, bearingChange, lengthPercent]);
+
+  const buoyName = leg ? getBuoyName(leg) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-course-change">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Navigation className="h-5 w-5" />
+            Change Next Leg
+          </DialogTitle>
+          <DialogDescription>
+            {suggestedLeg && leaderSailNumber
+              ? `Leader ${leaderSailNumber} has not begun the leg to ${suggestedLeg.mark.name}.`
+              : "Move the mark at the end of a leg no boat has begun."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {legs.length === 0 || !leg || !change ? (
+          <p className="text-sm text-muted-foreground py-2">The course has no leg that can be changed.</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Leg</Label>
+              <Select value={String(leg.sequenceIndex)} onValueChange={(v) => setSequenceIndex(parseInt(v, 10))}>
+                <SelectTrigger data-testid="select-course-change-leg">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {legs.map(l => (
+                    <SelectItem key={l.sequenceIndex} value={String(l.sequenceIndex)}>
+                      {l.from.name} → {l.mark.name}
+                      {l.sequenceIndex === suggestedLeg?.sequenceIndex ? " (next)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Bearing change (°)</Label>
+                <Input
+                  type="number"
+                  min={-180}
+                  max={180}
+                  value={bearingChange}
+                  onChange={(e) => setBearingChange(e.target.value)}
+                  data-testid="input-course-change-bearing"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Length change (%)</Label>
+                <Input
+                  type="number"
+                  min={-90}
+                  max={200}
+                  step={5}
+                  value={lengthPercent}
+                  onChange={(e) => setLengthPercent(e.target.value)}
+                  data-testid="input-course-change-length"
+                />
+              </div>
+            </div>
+            {windShift !== 0 && (
+              <p className="text-xs text-muted-foreground">
+                Wind has shifted {Math.abs(windShift)}° {windShift > 0 ? "right" : "left"} since the course was set
+              </p>
+            )}
+
+            <div className="space-y-0.5 text-xs font-mono" data-testid="text-course-change-preview">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Was</span>
+                <span>{formatCompassBearing(change.previousBearing)} · {formatDistance(change.previousDistanceMeters / METERS_PER_NM)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">New</span>
+                <span>{formatCompassBearing(change.bearing)} · {formatDistance(change.distanceMeters / METERS_PER_NM)}</span>
+              </div>
+            </div>
+
+            <div className="rounded-lg border-2 border-foreground p-4 text-center space-y-1" data-testid="board-course-change">
+              <p className="text-xs text-muted-foreground">Display at {leg.from.name}</p>
+              <div className="flex items-center justify-center gap-4">
+                <span className="text-5xl font-black text-blue-600 dark:text-blue-400">C</span>
+                <span className="text-5xl font-black font-mono" data-testid="text-course-change-bearing">
+                  {formatCompassBearing(change.bearing)}
+                </span>
+                {change.lengthSign && (
+                  <span className="text-5xl font-black" data-testid="text-course-change-sign">
+                    {change.lengthSign === "-" ? "−" : "+"}
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <Anchor className="h-3 w-3" />
+              {buoyName
+                ? `${buoyName} will be sent to the new position of ${leg.mark.name}`
+                : `No buoy is assigned to ${leg.mark.name}; lay it by hand`}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-course-change">
+            Cancel
+          </Button>
+          <Button
+            disabled={!leg || !change || isPending}
+            onClick={() => leg && change && onConfirm(leg, change)}
+            data-testid="button-confirm-course-change"
+          >
+            Move Mark
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
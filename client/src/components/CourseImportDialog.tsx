@@ -0,0 +1,225 @@
+import { useEffect, useRef, useState } from "react";
+import { Upload, FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  COURSE_FILE_ACCEPT,
+  MARK_ROLE_LABELS,
+  getImportedCourseProblem,
+  getImportedMarkProblem,
+  getRoleLineFlags,
+  parseCourseFile,
+  toCourseFileData,
+  type CourseFileData,
+  type ImportedCourseFile,
+  type ImportedMark,
+} from "@/lib/course-files";
+import { formatSequence } from "@/lib/course-versions";
+import { cn } from "@/lib/utils";
+import type { MarkRole } from "@shared/schema";
+
+interface CourseImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (course: CourseFileData) => void;
+}
+
+interface MappedMark extends ImportedMark {
+  include: boolean;
+}
+
+export function CourseImportDialog({ open, onOpenChange, onImport }: CourseImportDialogProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<ImportedCourseFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [marks, setMarks] = useState<MappedMark[]>([]);
+
+  useEffect(() => {
+    if (open) return;
+    setFile(null);
+    setError(null);
+    setName("");
+    setMarks([]);
+  }, [open]);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const imported = parseCourseFile(await selected.text(), selected.name);
+      setFile(imported);
+      setError(null);
+      setName(imported.name ?? selected.name.replace(/\.[^.]+$/, ""));
+      setMarks(imported.marks.map(m => ({ ...m, include: true })));
+    } catch (e) {
+      setFile(null);
+      setError(e instanceof Error ? e.message : "Unrecognised file");
+    }
+  };
+
+  const updateMark = (index: number, changes: Partial<MappedMark>) => {
+    setMarks(prev => prev.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  // A new role brings the line flags that go with it
+  const setRole = (index: number, role: MarkRole) => {
+    updateMark(index, { role, roleFromFile: true, ...getRoleLineFlags(role) });
+  };
+
+  const included = marks.filter(m => m.include);
+  const course = file ? toCourseFileData(name.trim(), included, file) : null;
+  // Checked here so a course the server would refuse is never half created
+  const markProblems = marks.map(m => (m.include ? getImportedMarkProblem(m) : null));
+  const problem = markProblems.find(Boolean) ?? (course ? getImportedCourseProblem(course) : null);
+  const canImport = !!course && !!course.name && course.marks.length > 0 && !problem;
+
+  const handleImport = () => {
+    if (!course || !canImport) return;
+    onImport(course);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col" data-testid="dialog-course-import">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Course
+          </DialogTitle>
+          <DialogDescription>
+            GPX waypoints and routes, KML placemarks or GeoJSON points become a new course at their positions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileRef}
+          type="file"
+          accept={COURSE_FILE_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+          data-testid="input-course-file"
+        />
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4 py-2">
+          {!file ? (
+            <div className="flex flex-col items-center gap-3 py-8">
+              <Button variant="outline" size="lg" className="gap-2" onClick={() => fileRef.current?.click()} data-testid="button-choose-course-file">
+                <FileUp className="h-5 w-5" />
+                Choose File
+              </Button>
+              {error && <p className="text-sm text-destructive" data-testid="text-course-import-error">{error}</p>}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="import-course-name">Course Name</Label>
+                  <Input
+                    id="import-course-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    data-testid="input-import-course-name"
+                  />
+                </div>
+                <Badge variant="secondary" className="mb-2 uppercase">{file.format}</Badge>
+                <Button variant="ghost" size="sm" className="mb-0.5" onClick={() => fileRef.current?.click()}>
+                  Other File
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <div className="grid grid-cols-[auto_1fr_10rem_auto_auto] items-center gap-x-3 px-1 text-xs text-muted-foreground">
+                  <span />
+                  <span>Point</span>
+                  <span>Role</span>
+                  <span>Start</span>
+                  <span>Finish</span>
+                </div>
+                {marks.map((mark, index) => (
+                  <div
+                    key={`${mark.name}-${index}`}
+                    className={cn(
+                      "grid grid-cols-[auto_1fr_10rem_auto_auto] items-center gap-x-3 rounded-lg bg-muted/50 p-1",
+                      !mark.include && "opacity-50"
+                    )}
+                    data-testid={`row-import-mark-${index}`}
+                  >
+                    <Checkbox
+                      checked={mark.include}
+                      onCheckedChange={(checked) => updateMark(index, { include: checked === true })}
+                      aria-label={`Import ${mark.name}`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{mark.name}</p>
+                      <p className="text-[11px] font-mono text-muted-foreground">
+                        {mark.lat.toFixed(5)}, {mark.lng.toFixed(5)}
+                        {!mark.roleFromFile && <span className="ml-2 font-sans text-amber-600 dark:text-amber-500">role guessed</span>}
+                      </p>
+                      {markProblems[index] && (
+                        <p className="text-[11px] text-destructive" data-testid={`text-import-mark-problem-${index}`}>{markProblems[index]}</p>
+                      )}
+                    </div>
+                    <Select value={mark.role} onValueChange={(role) => setRole(index, role as MarkRole)}>
+                      <SelectTrigger className="h-8" data-testid={`select-import-role-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MARK_ROLE_LABELS) as MarkRole[]).map(role => (
+                          <SelectItem key={role} value={role}>{MARK_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Checkbox
+                      checked={mark.isStartLine}
+                      onCheckedChange={(checked) => updateMark(index, { isStartLine: checked === true })}
+                      aria-label={`${mark.name} on the start line`}
+                    />
+                    <Checkbox
+                      checked={mark.isFinishLine}
+                      onCheckedChange={(checked) => updateMark(index, { isFinishLine: checked === true })}
+                      aria-label={`${mark.name} on the finish line`}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {course && (
+                <p className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">Rounding sequence:</span> {formatSequence(course.roundingSequence, course.roundingSides)}
+                  {course.designation && (
+                    <> · <span className="font-medium text-foreground">Course:</span> {course.designation}</>
+                  )}
+                </p>
+              )}
+              {problem && !markProblems.some(Boolean) && (
+                <p className="text-sm text-destructive" data-testid="text-course-import-problem">{problem}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!canImport}
+            data-testid="button-confirm-course-import"
+          >
+            Import {included.length > 0 ? `${included.length} Points` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useMemo } from "react";
+import { Target, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/hooks/use-settings";
+import { solveCourseScale } from "@/lib/course-sizing";
+import { getCurrentStations } from "@/lib/race-time-estimation";
+import type { BoatClass, Buoy, Mark, RoundingSide } from "@shared/schema";
+
+interface CourseSizingCardProps {
+  marks: Mark[];
+  roundingSequence: string[];
+  roundingSides?: Record<number, RoundingSide>;
+  buoys: Buoy[];
+  boatClass?: BoatClass;
+  windSpeed?: number;
+  windDirection?: number;
+  targetDuration: number;
+  // Scale goes through the course transform; laps > 1 repeats the sequence
+  onApply: (scale: number, laps: number) => void;
+}
+
+const START_LINE_MODE_LABELS = {
+  resize_all: "scaling everything",
+  keep_start_line: "keeping the start line",
+  keep_committee_boat: "keeping the committee boat",
+} as const;
+
+function formatMinutes(seconds: number): string {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+}
+
+export function CourseSizingCard({
+  marks,
+  roundingSequence,
+  roundingSides,
+  buoys,
+  boatClass,
+  windSpeed,
+  windDirection,
+  targetDuration,
+  onApply,
+}: CourseSizingCardProps) {
+  const { courseResizeStartLineMode, formatDistance } = useSettings();
+  const [targetMinutes, setTargetMinutes] = useState(targetDuration);
+  const [laps, setLaps] = useState(1);
+
+  const result = useMemo(() => {
+    if (!boatClass || windSpeed === undefined || windDirection === undefined || targetMinutes <= 0) {
+      return null;
+    }
+    return solveCourseScale({
+      marks,
+      roundingSequence,
+      roundingSides,
+      boatClass,
+      windSpeedKnots: windSpeed,
+      windDirectionDeg: windDirection,
+      currentStations: getCurrentStations(buoys),
+      targetMinutes,
+      laps,
+      startLineMode: courseResizeStartLineMode,
+    });
+  }, [marks, roundingSequence, roundingSides, buoys, boatClass, windSpeed, windDirection, targetMinutes, laps, courseResizeStartLineMode]);
+
+  const missing = !boatClass ? "Choose a boat class" : windSpeed === undefined || windDirection === undefined ? "Waiting for wind data" : null;
+  const scalePercent = result ? Math.round((result.scale - 1) * 100) : 0;
+  const unchanged = !!result && scalePercent === 0 && laps === 1;
+
+  return (
+    <Card data-testid="card-course-sizing">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Target className="w-4 h-4" />
+          Size to Target Time
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Target (min)</Label>
+            <Input
+              type="number"
+              min={5}
+              max={300}
+              value={targetMinutes}
+              onChange={(e) => setTargetMinutes(parseInt(e.target.value) || 0)}
+              data-testid="input-sizing-target"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Laps</Label>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={laps}
+              onChange={(e) => setLaps(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+              data-testid="input-sizing-laps"
+            />
+          </div>
+        </div>
+
+        {missing ? (
+          <p className="text-xs text-muted-foreground">{missing}</p>
+        ) : !result ? (
+          <p className="text-xs text-muted-foreground">Set a rounding sequence the boats can sail to size the course</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm font-medium" data-testid="text-sizing-scale">
+                {scalePercent === 0 ? "No change" : `${scalePercent > 0 ? "+" : ""}${scalePercent}%`}
+              </span>
+              <span
+                className={cn(
+                  "text-sm font-mono flex items-center gap-1",
+                  result.fit !== "on_target" && "text-amber-600 dark:text-amber-400"
+                )}
+                data-testid="text-sizing-estimate"
+              >
+                <Clock className="w-3 h-3" />
+                {result.estimate.totalTimeFormatted}
+              </span>
+            </div>
+            {result.fit !== "on_target" && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                {result.fit === "short"
+                  ? "Even the largest course finishes early. Add laps."
+                  : "Even the smallest course runs long. Sail fewer laps."}
+              </p>
+            )}
+            <div className="space-y-0.5 text-xs text-muted-foreground">
+              {result.estimate.legs.map(leg => (
+                <div key={leg.legIndex} className="flex justify-between gap-2" data-testid={`text-sizing-leg-${leg.legIndex}`}>
+                  <span className="truncate">{leg.fromMarkName} → {leg.toMarkName}</span>
+                  <span className="font-mono flex-shrink-0">
+                    {formatDistance(leg.distance)} · {formatMinutes(leg.legTimeSeconds)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Resized {START_LINE_MODE_LABELS[courseResizeStartLineMode]}
+              {result.estimate.totalDistanceNm > 0 && ` · ${formatDistance(result.estimate.totalDistanceNm)} total`}
+            </p>
+            <Button
+              className="w-full"
+              disabled={unchanged}
+              onClick={() => {
+                onApply(result.scale, laps);
+                setLaps(1);
+              }}
+              data-testid="button-apply-sizing"
+            >
+              Apply
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from "react";
+import { History, Map as MapIcon, Navigation, RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCourseSnapshotVersions, useRestoreCourseSnapshot, type CourseSnapshot } from "@/hooks/use-api";
+import {
+  describeMarkChange,
+  diffCourseVersions,
+  formatSequence,
+  formatVersionLabel,
+  type CourseVersionComparison,
+  type MarkVersionStatus,
+} from "@/lib/course-versions";
+import { cn } from "@/lib/utils";
+
+interface CourseVersionsDialogProps {
+  // Any version of the saved course; closed when null
+  snapshot: CourseSnapshot | null;
+  onClose: () => void;
+  onShowOnMap: (comparison: CourseVersionComparison) => void;
+  // Loads a version into the current course at its saved position
+  onLoadVersion?: (snapshot: CourseSnapshot) => void;
+}
+
+const STATUS_CLASSES: Record<MarkVersionStatus, string> = {
+  added: "text-green-600 dark:text-green-500",
+  removed: "text-destructive",
+  moved: "text-amber-600 dark:text-amber-500",
+  changed: "text-blue-600 dark:text-blue-400",
+  unchanged: "text-muted-foreground",
+};
+
+export function CourseVersionsDialog({ snapshot, onClose, onShowOnMap, onLoadVersion }: CourseVersionsDialogProps) {
+  const { toast } = useToast();
+  const { data: versions = [], isLoading } = useCourseSnapshotVersions(snapshot?.id ?? null);
+  const restoreSnapshot = useRestoreCourseSnapshot();
+
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Compare the newest version with the one before it until the user picks
+  useEffect(() => {
+    if (versions.length === 0) return;
+    const latest = versions[versions.length - 1];
+    setCompareId(prev => (prev && versions.some(v => v.id === prev) ? prev : latest.id));
+    setBaseId(prev => (prev && versions.some(v => v.id === prev) ? prev : versions[Math.max(0, versions.length - 2)].id));
+  }, [versions]);
+
+  useEffect(() => {
+    if (snapshot) return;
+    setBaseId(null);
+    setCompareId(null);
+  }, [snapshot]);
+
+  const base = versions.find(v => v.id === baseId) ?? null;
+  const compare = versions.find(v => v.id === compareId) ?? null;
+  const latestVersion = versions.length > 0 ? versions[versions.length - 1].version : null;
+
+  const diff = useMemo(() => (base && compare ? diffCourseVersions(base, compare) : null), [base, compare]);
+  const changes = diff?.marks.filter(m => m.status !== "unchanged") ?? [];
+
+  const handleShowOnMap = () => {
+    if (!base || !compare || !diff || !snapshot) return;
+    onShowOnMap({
+      courseName: snapshot.name,
+      baseLabel: `v${base.version}`,
+      compareLabel: `v${compare.version}`,
+      diff,
+    });
+  };
+
+  const handleRestore = async (version: CourseSnapshot) => {
+    try {
+      const restored = await restoreSnapshot.mutateAsync(version.id);
+      setCompareId(restored.id);
+      toast({
+        title: "Version Restored",
+        description: `v${version.version} of "${version.name}" is saved as v${restored.version}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Could not restore the version.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!snapshot} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col" data-testid="dialog-course-versions">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {snapshot?.name ?? "Course"} versions
+          </DialogTitle>
+          <DialogDescription>Each save of the course is kept. Compare two versions, or restore an earlier one as the newest.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4 py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {[...versions].reverse().map(version => (
+                  <div
+                    key={version.id}
+                    className="flex items-center gap-2 p-2 rounded-lg bg-muted/50"
+                    data-testid={`row-course-version-${version.id}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{formatVersionLabel(version)}</span>
+                        {version.version === latestVersion && <Badge variant="secondary" className="text-xs">Latest</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {version.ownerUsername} · {version.snapshotMarks.length} points
+                        {version.parentSnapshotId && versions.some(v => v.id === version.parentSnapshotId) && (
+                          <> · from v{versions.find(v => v.id === version.parentSnapshotId)!.version}</>
+                        )}
+                      </p>
+                    </div>
+                    {onLoadVersion && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1"
+                        onClick={() => onLoadVersion(version)}
+                        data-testid={`button-load-version-${version.id}`}
+                      >
+                        <Navigation className="h-3.5 w-3.5" />
+                        Load
+                      </Button>
+                    )}
+                    {version.version !== latestVersion && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-1"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoreSnapshot.isPending}
+                        data-testid={`button-restore-version-${version.id}`}
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {versions.length > 1 && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">From</Label>
+                      <Select value={baseId ?? undefined} onValueChange={setBaseId}>
+                        <SelectTrigger className="h-9" data-testid="select-version-base">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map(v => (
+                            <SelectItem key={v.id} value={v.id}>{formatVersionLabel(v)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">To</Label>
+                      <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+                        <SelectTrigger className="h-9" data-testid="select-version-compare">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {versions.map(v => (
+                            <SelectItem key={v.id} value={v.id}>{formatVersionLabel(v)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {diff && (
+                    diff.changeCount === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-2">No differences</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm" data-testid="list-version-changes">
+                        {changes.map(change => (
+                          <li key={`${change.name}-${change.status}`} className="flex items-baseline justify-between gap-3">
+                            <span className="font-medium truncate">{change.name}</span>
+                            <span className={cn("font-mono text-xs text-right", STATUS_CLASSES[change.status])}>
+                              {describeMarkChange(change)}
+                            </span>
+                          </li>
+                        ))}
+                        {diff.sequenceChanged && (
+                          <li className="pt-1 text-xs">
+                            <p className="font-medium text-sm">Rounding sequence</p>
+                            <p className="text-muted-foreground line-through">{formatSequence(diff.sequenceBefore, diff.sidesBefore)}</p>
+                            <p>{formatSequence(diff.sequenceAfter, diff.sidesAfter)}</p>
+                          </li>
+                        )}
+                        {diff.designationChanged && (
+                          <li className="flex items-baseline justify-between gap-3" data-testid="text-designation-change">
+                            <span className="font-medium">Designation</span>
+                            <span className="font-mono text-xs text-right">
+                              {diff.designationBefore ?? "none"} → {diff.designationAfter ?? "none"}
+                            </span>
+                          </li>
+                        )}
+                      </ul>
+                    )
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {versions.length > 1 && (
+            <Button
+              className="gap-2"
+              onClick={handleShowOnMap}
+              disabled={!diff || baseId === compareId}
+              data-testid="button-show-version-diff"
+            >
+              <MapIcon className="h-4 w-4" />
+              Show on Map
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { ArrowLeft, Flag, Trash2, Download, Radio } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRaceFinishes, useRecordFinish, useUpdateFinish, useDeleteFinish } from "@/hooks/use-api";
+import { getFinishLineMarks } from "@/lib/line-crossing";
+import { getFinishTime } from "@/lib/rounding-detection";
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import type { RaceProgress } from "@/hooks/use-race-progress";
+import type { Mark, Race, RaceFinish, ScoringCode } from "@shared/schema";
+
+interface FinishRecorderProps {
+  eventId: string;
+  race: Race;
+  marks: Mark[];
+  trackedBoats: TrackedBoat[];
+  // Progress round the course of this race, when it is the one racing
+  progress: RaceProgress | null;
+  onBack: () => void;
+}
+
+const SCORING_CODES: ScoringCode[] = ["DNF", "DNS", "OCS", "RET", "DSQ"];
+
+// Crossings this soon after the start are boats starting, not finishing
+const MIN_RACE_MS = 3 * 60 * 1000;
+
+function normalizeSailNumber(sailNumber: string): string {
+  return sailNumber.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function formatClockTime(value: Date | string): string {
+  return new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false });
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+interface FinishRowProps {
+  finish: RaceFinish;
+  place: number | null;
+  raceStart: Date | null;
+  onUpdate: (id: string, data: { sailNumber?: string | null; finishTime?: string | null; scoringCode?: ScoringCode | null }) => void;
+  onDelete: (id: string) => void;
+}
+
+function FinishRow({ finish, place, raceStart, onUpdate, onDelete }: FinishRowProps) {
+  const [sailNumber, setSailNumber] = useState(finish.sailNumber ?? "");
+  const [time, setTime] = useState(finish.finishTime ? formatClockTime(finish.finishTime) : "");
+
+  // Follow edits made on other devices
+  useEffect(() => setSailNumber(finish.sailNumber ?? ""), [finish.sailNumber]);
+  useEffect(() => setTime(finish.finishTime ? formatClockTime(finish.finishTime) : ""), [finish.finishTime]);
+
+  const saveSailNumber = () => {
+    const value = sailNumber.trim() || null;
+    if (value !== finish.sailNumber) {
+      onUpdate(finish.id, { sailNumber: value });
+    }
+  };
+
+  // Keeps the recorded date and replaces the time of day
+  const saveTime = () => {
+    const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time.trim());
+    if (!match || !finish.finishTime) {
+      setTime(finish.finishTime ? formatClockTime(finish.finishTime) : "");
+      return;
+    }
+    const updated = new Date(finish.finishTime);
+    updated.setHours(Number(match[1]), Number(match[2]), Number(match[3] ?? 0), 0);
+    if (updated.getTime() !== new Date(finish.finishTime).getTime()) {
+      onUpdate(finish.id, { finishTime: updated.toISOString() });
+    }
+  };
+
+  const elapsed = finish.finishTime && raceStart
+    ? formatElapsed(new Date(finish.finishTime).getTime() - raceStart.getTime())
+    : null;
+
+  return (
+    <div className="flex items-center gap-1.5" data-testid={`finish-${finish.id}`}>
+      <span className="w-6 text-right text-sm font-bold tabular-nums">{place ?? "–"}</span>
+      <Input
+        value={sailNumber}
+        placeholder="Sail #"
+        className="h-8 w-24 px-2 font-mono uppercase"
+        onChange={(e) => setSailNumber(e.target.value)}
+        onBlur={saveSailNumber}
+        onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        data-testid={`input-finish-sail-${finish.id}`}
+      />
+      {finish.finishTime ? (
+        <Input
+          value={time}
+          className="h-8 w-[84px] px-2 font-mono text-xs tabular-nums"
+          onChange={(e) => setTime(e.target.value)}
+          onBlur={saveTime}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          data-testid={`input-finish-time-${finish.id}`}
+        />
+      ) : (
+        <span className="w-[84px] text-center text-xs text-muted-foreground">No time</span>
+      )}
+      <span className="w-14 text-[11px] text-muted-foreground tabular-nums">{elapsed}</span>
+      <Select
+        value={finish.scoringCode ?? "none"}
+        onValueChange={(v) => onUpdate(finish.id, { scoringCode: v === "none" ? null : v as ScoringCode })}
+      >
+        <SelectTrigger className="h-8 w-[72px] px-2 text-xs" data-testid={`select-finish-code-${finish.id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[10000]">
+          <SelectItem value="none">–</SelectItem>
+          {SCORING_CODES.map(code => (
+            <SelectItem key={code} value={code}>{code}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {finish.source === "tracking" && (
+        <Radio className="h-3.5 w-3.5 flex-shrink-0 text-blue-500" aria-label="Recorded from tracking" />
+      )}
+      <Button
+        size="icon"
+        variant="ghost"
+        className="ml-auto h-8 w-8 flex-shrink-0"
+        onClick={() => onDelete(finish.id)}
+        data-testid={`button-finish-delete-${finish.id}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function FinishRecorder({ eventId, race, marks, trackedBoats, progress, onBack }: FinishRecorderProps) {
+  const { toast } = useToast();
+  const handleError = useCallback((error: Error) => {
+    toast({
+      title: "Finishes",
+      description: error.message || "Request failed",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const { data: finishes = [] } = useRaceFinishes(eventId, race.id);
+  const recordFinish = useRecordFinish(eventId, race.id, handleError);
+  // Tracking may report a boat already recorded by hand; those 409s are expected
+  const recordTrackedFinish = useRecordFinish(eventId, race.id);
+  const updateFinish = useUpdateFinish(eventId, race.id, handleError);
+  const deleteFinish = useDeleteFinish(eventId, race.id, handleError);
+
+  const [sailNumber, setSailNumber] = useState("");
+  const [autoRecord, setAutoRecord] = useState(false);
+
+  const raceStart = race.startTime ? new Date(race.startTime) : null;
+  const finishLine = useMemo(() => getFinishLineMarks(marks), [marks]);
+  const courseFinishes = progress?.waypoints[progress.waypoints.length - 1]?.kind === "finish";
+
+  const recordedSailNumbers = useMemo(
+    () => new Set(finishes.filter(f => f.sailNumber).map(f => normalizeSailNumber(f.sailNumber!))),
+    [finishes]
+  );
+
+  const record = (scoringCode?: ScoringCode) => {
+    const value = sailNumber.trim();
+    if (scoringCode && !value) {
+      toast({ title: "Finishes", description: "Enter a sail number for the scoring code" });
+      return;
+    }
+    // The server stamps a plain tap, so times don't depend on this device's clock
+    recordFinish.mutate(
+      {
+        sailNumber: value || null,
+        scoringCode: scoringCode ?? null,
+      },
+      { onSuccess: () => setSailNumber("") }
+    );
+  };
+
+  // Auto-record: boats that have sailed the course and crossed the finish from the course side
+  const pendingSailNumbers = useRef(new Set<string>());
+  useEffect(() => {
+    if (!autoRecord || !progress || race.status !== "racing" || !raceStart) {
+      return;
+    }
+
+    const earliest = raceStart.getTime() + MIN_RACE_MS;
+    for (const boat of progress.boats) {
+      const sail = normalizeSailNumber(boat.sailNumber);
+      if (recordedSailNumbers.has(sail) || pendingSailNumbers.current.has(sail)) {
+        continue;
+      }
+
+      const finishedAt = getFinishTime(boat, progress.waypoints);
+      if (finishedAt === null || finishedAt < earliest) {
+        continue;
+      }
+
+      pendingSailNumbers.current.add(sail);
+      recordTrackedFinish.mutate(
+        { sailNumber: sail, finishTime: new Date(finishedAt).toISOString(), source: "tracking" },
+        { onSettled: () => pendingSailNumbers.current.delete(sail) }
+      );
+    }
+  }, [progress, autoRecord, race.status, raceStart?.getTime(), recordedSailNumbers]);
+
+  let place = 0;
+  const places = finishes.map(f => (f.finishTime && !f.scoringCode ? ++place : null));
+
+  return (
+    <div className="space-y-4" data-testid="finish-recorder">
+      <div className="flex items-center gap-2">
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onBack} data-testid="button-finish-back">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-sm truncate">
+            Race {race.raceNumber}{race.fleet ? ` · ${race.fleet}` : ""}
+          </p>
+          <p className="text-[11px] text-muted-foreground">
+            {raceStart ? `Started ${formatClockTime(raceStart)}` : "Not started"} · {finishes.length} recorded
+          </p>
+        </div>
+        <Button size="sm" variant="outline" className="gap-1" asChild>
+          <a href={`/api/events/${eventId}/races/${race.id}/finishes/export`} download data-testid="button-finish-export">
+            <Download className="h-3.5 w-3.5" />
+            CSV
+          </a>
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Input
+          value={sailNumber}
+          placeholder="Sail number (optional)"
+          className="font-mono uppercase"
+          onChange={(e) => setSailNumber(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && record()}
+          data-testid="input-finish-sail-number"
+        />
+        <Button
+          className="w-full h-14 text-lg font-bold gap-2"
+          onClick={() => record()}
+          disabled={recordFinish.isPending}
+          data-testid="button-record-finish"
+        >
+          <Flag className="h-5 w-5" />
+          Finish
+        </Button>
+        <div className="grid grid-cols-5 gap-1.5">
+          {SCORING_CODES.map(code => (
+            <Button
+              key={code}
+              size="sm"
+              variant="outline"
+              className="font-mono"
+              onClick={() => record(code)}
+              disabled={recordFinish.isPending}
+              data-testid={`button-record-code-${code}`}
+            >
+              {code}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 rounded-lg bg-muted/50 px-3 py-2">
+        <div className="min-w-0">
+          <Label htmlFor="finish-auto-record" className="text-sm font-medium">Record from tracking</Label>
+          <p className="text-[11px] text-muted-foreground truncate">
+            {!finishLine
+              ? "Set two finish line marks to enable"
+              : progress && !courseFinishes
+                ? "End the rounding sequence at the finish to enable"
+                : `${finishLine[0].name} – ${finishLine[1].name} · ${trackedBoats.length} boats tracked`}
+          </p>
+        </div>
+        <Switch
+          id="finish-auto-record"
+          checked={autoRecord}
+          onCheckedChange={setAutoRecord}
+          disabled={!finishLine || !courseFinishes || race.status !== "racing"}
+          data-testid="switch-finish-auto-record"
+        />
+      </div>
+
+      {finishes.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No finishers yet</p>
+      ) : (
+        <div className="space-y-1.5">
+          {finishes.map((finish, i) => (
+            <FinishRow
+              key={finish.id}
+              finish={finish}
+              place={places[i]}
+              raceStart={raceStart}
+              onUpdate={(id, data) => updateFinish.mutate({ id, data })}
+              onDelete={(id) => deleteFinish.mutate(id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
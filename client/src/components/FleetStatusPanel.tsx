@@ -39,6 +39,7 @@ export function FleetStatusPanel({
     setSpeedUnit,
     distanceUnit,
     setDistanceUnit,
+    formatDistance,
   } = useSettings();
   
   const speedUnitOptions: { value: SpeedUnit; label: string }[] = [
@@ -83,10 +84,13 @@ export function FleetStatusPanel({
     (b.state === "idle" || b.state === "holding_position") && 
     !gotoBuoys.includes(b)
   );
-  const issueBuoys = buoys.filter(b => b.state === "fault" || b.state === "unavailable");
+  const issueBuoys = buoys.filter(b => 
+    b.state === "fault" || b.state === "unavailable" ||
+    (b.state === "station_keeping_degraded" && !assignedBuoyIds.has(b.id))
+  );
   
   const allMovingBuoys = buoys.filter(b => b.state === "moving_to_target");
-  const allOnStationBuoys = buoys.filter(b => b.state === "holding_position");
+  const allOnStationBuoys = buoys.filter(b => b.state === "holding_position" || b.state === "station_keeping_degraded");
   const allFaultBuoys = buoys.filter(b => b.state === "fault" || b.state === "unavailable");
   const allLowBatteryBuoys = buoys.filter(b => b.battery < 20);
   const allIdleBuoys = buoys.filter(b => b.state === "idle");
@@ -102,12 +106,20 @@ export function FleetStatusPanel({
     return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
   };
   
+  // Drift is reported by the server in meters; settings format from nautical miles
+  const formatDrift = (driftMeters: number | null | undefined) => {
+    if (driftMeters == null) return null;
+    return formatDistance(driftMeters / 1852);
+  };
+  
   const getBuoyStateInfo = (state: string) => {
     switch (state) {
       case "moving_to_target":
         return { label: "Moving", color: "text-orange-600", bgColor: "bg-orange-100 dark:bg-orange-900/30" };
       case "holding_position":
         return { label: "Loitering", color: "text-green-600", bgColor: "bg-green-100 dark:bg-green-900/30" };
+      case "station_keeping_degraded":
+        return { label: "Degraded", color: "text-yellow-600", bgColor: "bg-yellow-100 dark:bg-yellow-900/30" };
       case "idle":
         return { label: "Idle", color: "text-blue-600", bgColor: "bg-blue-100 dark:bg-blue-900/30" };
       case "fault":
@@ -122,6 +134,8 @@ export function FleetStatusPanel({
   const renderBuoyCard = (buoy: Buoy, subtitle: string) => {
     const stateInfo = getBuoyStateInfo(buoy.state);
     const etaFormatted = formatEta(buoy.eta);
+    const isHolding = buoy.state === "holding_position" || buoy.state === "station_keeping_degraded";
+    const driftFormatted = isHolding ? formatDrift(buoy.driftDistance) : null;
     
     return (
       <div
@@ -142,6 +156,8 @@ export function FleetStatusPanel({
               ? "bg-orange-500 text-white"
               : buoy.state === "idle"
               ? "bg-blue-500 text-white"
+              : buoy.state === "station_keeping_degraded"
+              ? "bg-yellow-500 text-white"
               : "bg-green-500 text-white",
             buoy.battery < 20 && "ring-2 ring-purple-500 ring-offset-1"
           )}>
@@ -158,9 +174,18 @@ export function FleetStatusPanel({
             {buoy.state === "moving_to_target" && (
               <>
                 <span className="font-mono text-orange-600">{buoy.speed?.toFixed(1) ?? 0}kts</span>
-                {etaFormatted && <span className="font-mono font-medium text-orange-600">{etaFormatted}</span>}
+                {etaFormatted && <span className="font-mono font-medium text-orange-600" data-testid={`text-eta-${buoy.id}`}>{etaFormatted}</span>}
               </>
             )}
+            {driftFormatted && (
+              <span
+                className={cn("flex items-center gap-0.5 font-mono", stateInfo.color)}
+                data-testid={`text-drift-${buoy.id}`}
+              >
+                <Ruler className="w-3 h-3" />
+                {driftFormatted}
+              </span>
+            )}
           </div>
         </div>
       </div>
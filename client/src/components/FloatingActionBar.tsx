@@ -1,4 +1,4 @@
-import { Compass, Play, Square, Undo2, CheckCircle2, Radio, Wind } from "lucide-react";
+import { Compass, Play, Square, Undo2, Redo2, CheckCircle2, Radio, Wind, Timer, Flag, History, ScrollText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
@@ -8,12 +8,21 @@ interface FloatingActionBarProps {
   onDeployAll?: () => void;
   onHoldAll?: () => void;
   onUndo?: () => void;
+  onRedo?: () => void;
   onFleetClick?: () => void;
   onWindInsightsClick?: () => void;
+  onStartSequenceClick?: () => void;
+  onRacesClick?: () => void;
+  onReplayClick?: () => void;
+  onRaceLogClick?: () => void;
   canAlign?: boolean;
   canDeploy?: boolean;
   canHold?: boolean;
   canUndo?: boolean;
+  canRedo?: boolean;
+  // Names of the course edits undo and redo would revert or reapply
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   isDeploying?: boolean;
   deployingCount?: number;
   totalBuoys?: number;
@@ -22,6 +31,11 @@ interface FloatingActionBarProps {
   needsWindAlignment?: boolean;
   showFleet?: boolean;
   showWindInsights?: boolean;
+  showStartSequence?: boolean;
+  canStartSequence?: boolean;
+  showRaces?: boolean;
+  showReplay?: boolean;
+  showRaceLog?: boolean;
   hasFaultOrLowBattery?: boolean;
 }
 
@@ -30,12 +44,20 @@ export function FloatingActionBar({
   onDeployAll,
   onHoldAll,
   onUndo,
+  onRedo,
   onFleetClick,
   onWindInsightsClick,
+  onStartSequenceClick,
+  onRacesClick,
+  onReplayClick,
+  onRaceLogClick,
   canAlign = false,
   canDeploy = false,
   canHold = false,
   canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
   isDeploying = false,
   deployingCount = 0,
   totalBuoys = 0,
@@ -44,6 +66,11 @@ export function FloatingActionBar({
   needsWindAlignment = false,
   showFleet = false,
   showWindInsights = false,
+  showStartSequence = false,
+  canStartSequence = false,
+  showRaces = false,
+  showReplay = false,
+  showRaceLog = false,
   hasFaultOrLowBattery = false,
 }: FloatingActionBarProps) {
   const allOnStation = totalBuoys > 0 && onStationCount === totalBuoys && movingCount === 0;
@@ -162,7 +189,24 @@ export function FloatingActionBar({
           </Button>
         </TooltipTrigger>
         <TooltipContent side="top">
-          <p>Undo Last Action</p>
+          <p>{undoLabel ? `Undo ${undoLabel}` : "Undo Last Action"}</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onRedo}
+            disabled={!canRedo}
+            data-testid="button-redo-fab"
+          >
+            <Redo2 className="h-5 w-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>{redoLabel ? `Redo ${redoLabel}` : "Redo"}</p>
         </TooltipContent>
       </Tooltip>
 
@@ -207,6 +251,78 @@ export function FloatingActionBar({
           <p>Wind Insights</p>
         </TooltipContent>
       </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn(showStartSequence && "bg-primary/10 text-primary")}
+            onClick={onStartSequenceClick}
+            disabled={!canStartSequence}
+            data-testid="button-start-sequence-fab"
+          >
+            <Timer className="h-5 w-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>Start Sequence</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn(showRaces && "bg-primary/10 text-primary")}
+            onClick={onRacesClick}
+            disabled={!canStartSequence}
+            data-testid="button-races-fab"
+          >
+            <Flag className="h-5 w-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>Races</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn(showReplay && "bg-primary/10 text-primary")}
+            onClick={onReplayClick}
+            disabled={!canStartSequence}
+            data-testid="button-replay-fab"
+          >
+            <History className="h-5 w-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>Race Replay</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn(showRaceLog && "bg-primary/10 text-primary")}
+            onClick={onRaceLogClick}
+            disabled={!canStartSequence}
+            data-testid="button-race-log-fab"
+          >
+            <ScrollText className="h-5 w-5" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">
+          <p>Race Log</p>
+        </TooltipContent>
+      </Tooltip>
     </div>
   );
 }
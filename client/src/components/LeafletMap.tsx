@@ -1,4 +1,4 @@
-import { useEffect, useRef, useMemo, useState, useCallback } from "react";
+import { Fragment, useEffect, useRef, useMemo, useState, useCallback } from "react";
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, CircleMarker, Tooltip, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
@@ -14,12 +14,14 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
-import type { Buoy, Mark, GeoPosition, MarkRole, SiblingBuoy } from "@shared/schema";
+import type { Buoy, Mark, GeoPosition, MarkRole, SiblingBuoy, AisTarget, RoundingSide } from "@shared/schema";
+import { resolveRoundingSides } from "@shared/course-designations";
 import type { TrackedBoat } from "@/contexts/DemoModeContext";
 import { useSettings } from "@/hooks/use-settings";
 import type { PendingDeployment } from "@/hooks/use-buoy-follow";
 import { cn } from "@/lib/utils";
-import { calculateWindAngle, calculateStartLineWindAngle, formatWindRelative, calculateInteriorAngle } from "@/lib/course-bearings";
+import { describeMarkChange, type CourseVersionComparison, type MarkVersionStatus } from "@/lib/course-versions";
+import { calculateWindAngle, calculateStartLineWindAngle, formatWindRelative, calculateInteriorAngle, calculateGatePositions } from "@/lib/course-bearings";
 
 interface WeatherData {
   windSpeed: number;
@@ -50,6 +52,8 @@ interface LeafletMapProps {
   isWeatherLoading?: boolean;
   onAlignCourseToWind?: () => void;
   roundingSequence?: string[];
+  // Course rounding sides by sequence index; marks fall back to their own side
+  roundingSides?: Record<number, RoundingSide>;
   showLabels?: boolean;
   onToggleLabels?: () => void;
   showWindArrows?: boolean;
@@ -57,10 +61,9 @@ interface LeafletMapProps {
   showSidebar?: boolean;
   isSidebarCollapsed?: boolean;
   onToggleSidebar?: () => void;
-  lastMarkMove?: { markId: string; prevLat: number; prevLng: number; timestamp: number } | null;
-  onUndoMarkMove?: () => void;
-  lastCourseTransform?: { positions: Array<{ id: string; lat: number; lng: number }>; timestamp: number } | null;
-  onUndoCourseTransform?: () => void;
+  // Newest course edit, offered for undo on the map for a short while
+  lastCourseEdit?: { label: string; at: number } | null;
+  onUndoCourseEdit?: () => void;
   onMapMoveEnd?: (lat: number, lng: number) => void;
   mapLayer?: MapLayerType;
   showSeaMarks?: boolean;
@@ -69,7 +72,16 @@ interface LeafletMapProps {
   showSiblingBuoys?: boolean;
   trackedBoats?: TrackedBoat[];
   showBoats?: boolean;
+  aisTargets?: AisTarget[];
+  showAisTargets?: boolean;
   onLongPress?: (lat: number, lng: number) => void;
+  // Replay: marks can't be dragged and map clicks do nothing
+  readOnly?: boolean;
+  // Two saved versions of a course overlaid on the map
+  versionComparison?: CourseVersionComparison | null;
+  onCloseVersionComparison?: () => void;
+  // Changed to bring all marks into view once they are loaded
+  fitMarksRequest?: number;
 }
 
 const MIKROLIMANO_CENTER: [number, number] = [37.9376, 23.6917];
@@ -101,30 +113,25 @@ function calculateBearing(pos1: GeoPosition, pos2: GeoPosition): number {
   return ((Math.atan2(y, x) * 180 / Math.PI) + 360) % 360;
 }
 
-function calculateGatePositions(
-  centerLat: number, 
-  centerLng: number, 
-  windDirection: number, 
-  gateWidthMeters: number
-): { port: GeoPosition; starboard: GeoPosition } {
-  const perpendicularAngle = (windDirection + 90) % 360;
-  const halfWidthDegrees = (gateWidthMeters / 2) / 111320;
-  
-  const portAngleRad = (perpendicularAngle + 180) * Math.PI / 180;
-  const starboardAngleRad = perpendicularAngle * Math.PI / 180;
-  
-  const latCorrection = Math.cos(centerLat * Math.PI / 180);
-  
-  return {
-    port: {
-      lat: centerLat + halfWidthDegrees * Math.cos(portAngleRad),
-      lng: centerLng + (halfWidthDegrees / latCorrection) * Math.sin(portAngleRad),
-    },
-    starboard: {
-      lat: centerLat + halfWidthDegrees * Math.cos(starboardAngleRad),
-      lng: centerLng + (halfWidthDegrees / latCorrection) * Math.sin(starboardAngleRad),
-    },
-  };
+/**
+ * Ring round a mark showing which way boats round it: anticlockwise in red
+ * when it is left to port, clockwise in green to starboard.
+ */
+function createRoundingIcon(side: RoundingSide): L.DivIcon {
+  const color = side === "port" ? "#dc2626" : "#16a34a";
+  const arc = side === "port" ? "M30 6 A24 24 0 1 0 54 30" : "M30 6 A24 24 0 1 1 6 30";
+  const head = side === "port" ? "54,22 48.5,32 59.5,32" : "6,22 0.5,32 11.5,32";
+  return L.divIcon({
+    className: "rounding-side-marker",
+    html: `
+      <svg viewBox="0 0 60 60" width="60" height="60" style="overflow:visible;pointer-events:none;">
+        <path d="${arc}" fill="none" stroke="${color}" stroke-width="2.5" stroke-dasharray="6,3" opacity="0.85"/>
+        <polygon points="${head}" fill="${color}" opacity="0.85"/>
+      </svg>
+    `,
+    iconSize: [60, 60],
+    iconAnchor: [30, 30],
+  });
 }
 
 function createBuoyIcon(buoy: Buoy, isSelected: boolean): L.DivIcon {
@@ -200,6 +207,40 @@ function createBoatIcon(boat: TrackedBoat): L.DivIcon {
   });
 }
 
+// AIS ship and cargo type (ITU-R M.1371) grouped the way chart plotters colour them
+function getAisCategory(shipType: number | null): { label: string; color: string } {
+  if (shipType === null) return { label: "Unknown", color: "#6b7280" };
+  if (shipType === 36 || shipType === 37) return { label: shipType === 36 ? "Sailing" : "Pleasure craft", color: "#a855f7" };
+  if (shipType === 30) return { label: "Fishing", color: "#f59e0b" };
+  if (shipType >= 50 && shipType <= 59) return { label: "Tug / pilot / SAR", color: "#06b6d4" };
+  if (shipType >= 60 && shipType <= 69) return { label: "Passenger", color: "#2563eb" };
+  if (shipType >= 70 && shipType <= 79) return { label: "Cargo", color: "#16a34a" };
+  if (shipType >= 80 && shipType <= 89) return { label: "Tanker", color: "#dc2626" };
+  return { label: "Other", color: "#6b7280" };
+}
+
+function createAisTargetIcon(target: AisTarget): L.DivIcon {
+  const { color } = getAisCategory(target.shipType);
+  const course = target.heading ?? target.cog;
+  const underway = (target.sog ?? 0) >= 0.5 && course !== null;
+
+  // Pointed hull when underway, a plain dot when stopped or the course is unknown
+  const shape = underway
+    ? `<svg width="16" height="26" viewBox="0 0 16 26" style="transform:rotate(${course}deg);">
+         <path d="M8 1L15 10V25H1V10z" fill="${color}" fill-opacity="0.85" stroke="white" stroke-width="1.5" />
+       </svg>`
+    : `<svg width="14" height="14" viewBox="0 0 14 14">
+         <circle cx="7" cy="7" r="6" fill="${color}" fill-opacity="0.85" stroke="white" stroke-width="1.5" />
+       </svg>`;
+
+  return L.divIcon({
+    className: "ais-target-marker",
+    html: `<div style="width:26px;height:26px;display:flex;align-items:center;justify-content:center;">${shape}</div>`,
+    iconSize: [26, 26],
+    iconAnchor: [13, 13],
+  });
+}
+
 function createMarkIcon(mark: Mark, isSelected: boolean): L.DivIcon {
   const roleColors: Record<string, string> = {
     start_boat: "#166534",
@@ -762,6 +803,89 @@ function LegLabels({
   return <>{legs}</>;
 }
 
+const VERSION_STATUS_COLORS: Record<MarkVersionStatus, string> = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  moved: "#f59e0b",
+  changed: "#3b82f6",
+  unchanged: "#6b7280",
+};
+
+/**
+ * Two versions of a saved course: the older version's marks hollow, the newer
+ * filled and coloured by what changed, with a line from where each moved mark
+ * was to where it is now.
+ */
+function VersionComparisonLayer({ comparison }: { comparison: CourseVersionComparison }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const points = comparison.diff.marks.flatMap(m =>
+      [m.before, m.after].flatMap(mark => (mark ? [[mark.lat, mark.lng] as [number, number]] : []))
+    );
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [60, 60], maxZoom: 17 });
+    }
+  }, [map, comparison]);
+
+  return (
+    <>
+      {comparison.diff.marks.map((change, index) => {
+        const color = VERSION_STATUS_COLORS[change.status];
+        return (
+          <Fragment key={`version-${index}`}>
+            {change.before && (
+              <CircleMarker
+                center={[change.before.lat, change.before.lng]}
+                radius={7}
+                pathOptions={{ color, weight: 2, fillOpacity: 0, dashArray: change.after ? "3, 3" : undefined }}
+              >
+                <Tooltip direction="top">
+                  {change.name} ({comparison.baseLabel}){!change.after && " - removed"}
+                </Tooltip>
+              </CircleMarker>
+            )}
+            {change.before && change.after && change.status === "moved" && (
+              <Polyline
+                positions={[[change.before.lat, change.before.lng], [change.after.lat, change.after.lng]]}
+                pathOptions={{ color, weight: 2, opacity: 0.9, dashArray: "6, 4" }}
+              />
+            )}
+            {change.after && (
+              <CircleMarker
+                center={[change.after.lat, change.after.lng]}
+                radius={7}
+                pathOptions={{ color, weight: 2, fillColor: color, fillOpacity: 0.8 }}
+              >
+                <Tooltip direction="top" permanent={change.status !== "unchanged"} className="leg-label-tooltip">
+                  <div className="text-xs font-mono bg-black/80 text-white px-2 py-1 rounded">
+                    <div className="font-semibold">{change.name}</div>
+                    {change.status !== "unchanged" && <div>{describeMarkChange(change)}</div>}
+                  </div>
+                </Tooltip>
+              </CircleMarker>
+            )}
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+// Fits the map to the marks once per request; the marks may arrive after the request does
+function FitMarksHandler({ marks, request }: { marks: Mark[]; request?: number }) {
+  const map = useMap();
+  const handledRequest = useRef(request);
+
+  useEffect(() => {
+    if (!request || request === handledRequest.current || marks.length === 0) return;
+    handledRequest.current = request;
+    map.fitBounds(L.latLngBounds(marks.map(m => [m.lat, m.lng] as [number, number])), { padding: [60, 60], maxZoom: 17 });
+  }, [map, marks, request]);
+
+  return null;
+}
+
 function WindArrowsLayer({ windDirection, windSpeed, mapBearing = 0 }: { windDirection: number; windSpeed: number; mapBearing?: number }) {
   const map = useMap();
   const [arrows, setArrows] = useState<Array<{ lat: number; lng: number; key: string }>>([]);
@@ -867,6 +991,7 @@ export function LeafletMap({
   isWeatherLoading,
   onAlignCourseToWind,
   roundingSequence = [],
+  roundingSides,
   showLabels = true,
   onToggleLabels,
   showWindArrows = true,
@@ -874,10 +999,8 @@ export function LeafletMap({
   showSidebar,
   isSidebarCollapsed,
   onToggleSidebar,
-  lastMarkMove,
-  onUndoMarkMove,
-  lastCourseTransform,
-  onUndoCourseTransform,
+  lastCourseEdit,
+  onUndoCourseEdit,
   onMapMoveEnd,
   mapLayer = "osm",
   showSeaMarks = true,
@@ -886,7 +1009,13 @@ export function LeafletMap({
   showSiblingBuoys = true,
   trackedBoats = [],
   showBoats = false,
+  aisTargets = [],
+  showAisTargets = false,
   onLongPress,
+  readOnly = false,
+  versionComparison,
+  onCloseVersionComparison,
+  fitMarksRequest,
 }: LeafletMapProps) {
   const { 
     formatDistance, 
@@ -1044,6 +1173,22 @@ export function LeafletMap({
     return angles;
   }, [roundingSequence, marks, startLineCenter, finishLineCenter]);
 
+  // One ring per mark and side it is rounded on, pointing the way boats go round
+  const markRoundings = useMemo(() => {
+    const sides = resolveRoundingSides(roundingSequence, marks, roundingSides);
+    const seen = new Set<string>();
+    const roundings: { key: string; mark: Mark; side: RoundingSide }[] = [];
+    roundingSequence.forEach((entry, index) => {
+      const side = sides[index];
+      const mark = marks.find(m => m.id === entry);
+      const key = `${entry}-${side}`;
+      if (!side || !mark || seen.has(key)) return;
+      seen.add(key);
+      roundings.push({ key, mark, side });
+    });
+    return roundings;
+  }, [roundingSequence, roundingSides, marks]);
+
   const handleZoomIn = () => mapRef.current?.zoomIn();
   const handleZoomOut = () => mapRef.current?.zoomOut();
   const handleResetView = () => mapRef.current?.setView(DEFAULT_CENTER, DEFAULT_ZOOM);
@@ -1142,11 +1287,12 @@ export function LeafletMap({
           />
         )}
         
-        <MapClickHandler onMapClick={onMapClick} isPlacingMark={isPlacingMark} onLongPress={onLongPress} />
+        {!readOnly && <MapClickHandler onMapClick={onMapClick} isPlacingMark={isPlacingMark} onLongPress={onLongPress} />}
         <MapMoveHandler onMapMoveEnd={onMapMoveEnd} />
         <TouchConfig />
         <MapResizeHandler showSidebar={showSidebar} isSidebarCollapsed={isSidebarCollapsed} />
         <MapRotationHandler bearing={mapBearing} />
+        <FitMarksHandler marks={marks} request={fitMarksRequest} />
         
         {/* Start line (solid green line between Pin End and Committee Boat) */}
         {startLinePositions.length >= 2 && (
@@ -1229,6 +1375,15 @@ export function LeafletMap({
           </CircleMarker>
         ))}
         
+        {markRoundings.map(({ key, mark, side }) => (
+          <Marker
+            key={`rounding-${key}`}
+            position={[mark.lat, mark.lng]}
+            icon={createRoundingIcon(side)}
+            interactive={false}
+          />
+        ))}
+        
         {showWindArrows && weatherData && (
           <WindArrowsLayer windDirection={weatherData.windDirection} windSpeed={weatherData.windSpeed} mapBearing={mapBearing} />
         )}
@@ -1239,7 +1394,7 @@ export function LeafletMap({
               key={mark.id}
               mark={mark}
               isSelected={selectedMarkId === mark.id}
-              isDraggable={!isPlacingMark}
+              isDraggable={!isPlacingMark && !readOnly}
               windDirection={weatherData?.windDirection ?? 225}
               onMarkClick={onMarkClick}
               onMarkDragEnd={onMarkDragEnd}
@@ -1249,7 +1404,7 @@ export function LeafletMap({
               key={mark.id}
               mark={mark}
               isSelected={selectedMarkId === mark.id}
-              isDraggable={!isPlacingMark}
+              isDraggable={!isPlacingMark && !readOnly}
               onMarkClick={onMarkClick}
               onMarkDragEnd={onMarkDragEnd}
             />
@@ -1316,6 +1471,27 @@ export function LeafletMap({
           </Marker>
         ))}
         
+        {showAisTargets && aisTargets.map((target) => (
+          <Marker
+            key={`ais-${target.mmsi}`}
+            position={[target.lat, target.lng]}
+            icon={createAisTargetIcon(target)}
+            zIndexOffset={300}
+          >
+            <Tooltip direction="top" permanent={false} offset={[0, -12]}>
+              <div className="text-xs font-medium" data-testid={`tooltip-ais-${target.mmsi}`}>
+                <span className="font-bold">{target.name || `MMSI ${target.mmsi}`}</span>
+                <br />
+                <span className="text-muted-foreground">
+                  {getAisCategory(target.shipType).label}
+                  {target.sog !== null && ` • ${target.sog.toFixed(1)} kts`}
+                  {target.cog !== null && ` • ${Math.round(target.cog)}°`}
+                </span>
+              </div>
+            </Tooltip>
+          </Marker>
+        ))}
+
         {pendingDeployments.map((deployment) => (
           <Polyline
             key={`pending-${deployment.buoyId}`}
@@ -1328,8 +1504,28 @@ export function LeafletMap({
             }}
           />
         ))}
+
+        {versionComparison && <VersionComparisonLayer comparison={versionComparison} />}
       </MapContainer>
 
+      {versionComparison && (
+        <Card className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] px-3 py-2 flex items-center gap-3" data-testid="card-version-comparison">
+          <div className="text-sm">
+            <p className="font-semibold">{versionComparison.courseName}: {versionComparison.baseLabel} → {versionComparison.compareLabel}</p>
+            <p className="text-xs text-muted-foreground">
+              {versionComparison.diff.changeCount === 0
+                ? "No differences"
+                : `${versionComparison.diff.changeCount} change${versionComparison.diff.changeCount === 1 ? "" : "s"}${versionComparison.diff.sequenceChanged ? ", rounding sequence changed" : ""}`}
+            </p>
+          </div>
+          {onCloseVersionComparison && (
+            <Button size="sm" variant="outline" onClick={onCloseVersionComparison} data-testid="button-close-version-comparison">
+              Close
+            </Button>
+          )}
+        </Card>
+      )}
+
       <div className="absolute top-4 left-4 flex flex-col gap-2 z-[1000]">
         <Popover>
           <PopoverTrigger asChild>
@@ -1550,31 +1746,18 @@ export function LeafletMap({
         </div>
       )}
 
-      {/* Undo buttons container - stacks vertically if multiple are active */}
+      {/* Undo button for the newest course edit; older edits stay undoable from the action bar */}
       <div className="absolute bottom-4 right-4 z-[500] flex flex-col gap-2">
-        {lastMarkMove && onUndoMarkMove && (Date.now() - lastMarkMove.timestamp) < 30000 && (
-          <Button 
-            variant="destructive" 
-            size="lg"
-            className="gap-2 shadow-lg"
-            onClick={onUndoMarkMove}
-            data-testid="button-undo-mark-move"
-          >
-            <Undo2 className="w-5 h-5" />
-            Undo Move
-          </Button>
-        )}
-
-        {lastCourseTransform && onUndoCourseTransform && (Date.now() - lastCourseTransform.timestamp) < 30000 && (
+        {lastCourseEdit && onUndoCourseEdit && (Date.now() - lastCourseEdit.at) < 30000 && (
           <Button 
             variant="destructive" 
             size="lg"
             className="gap-2 shadow-lg"
-            onClick={onUndoCourseTransform}
-            data-testid="button-undo-course-transform"
+            onClick={onUndoCourseEdit}
+            data-testid="button-undo-course-edit"
           >
             <Undo2 className="w-5 h-5" />
-            Undo Course Move
+            Undo {lastCourseEdit.label}
           </Button>
         )}
       </div>
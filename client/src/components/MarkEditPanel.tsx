@@ -13,7 +13,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
-import type { Mark, Buoy, MarkRole } from "@shared/schema";
+import type { Mark, Buoy, MarkRole, RoundingSide } from "@shared/schema";
 import { useSettings } from "@/hooks/use-settings";
 import { adjustSingleMarkToWind, getStartLineCenter, calculateInteriorAngle, adjustMarkToAngle } from "@/lib/course-bearings";
 import { COMMON_ANGLES } from "@/lib/shape-templates";
@@ -32,8 +32,9 @@ interface MarkEditPanelProps {
   onNudge?: (direction: "north" | "south" | "east" | "west") => void;
   onAdjustToWind?: (lat: number, lng: number) => void;
   onAdjustToShape?: (lat: number, lng: number) => void;
-  lastMovePosition?: { originalLat: number; originalLng: number; timestamp: number } | null;
-  onUndoMove?: () => void;
+  // Newest course edit, when it changed this mark
+  lastCourseEdit?: { label: string; at: number } | null;
+  onUndoCourseEdit?: () => void;
   isGpsLocating?: boolean;
 }
 
@@ -63,8 +64,8 @@ export function MarkEditPanel({
   onNudge,
   onAdjustToWind,
   onAdjustToShape,
-  lastMovePosition,
-  onUndoMove,
+  lastCourseEdit,
+  onUndoCourseEdit,
   isGpsLocating,
 }: MarkEditPanelProps) {
   const { getWindAngleForRole, markNudgeMeters, setMarkNudgeMeters } = useSettings();
@@ -81,6 +82,7 @@ export function MarkEditPanel({
   const [boatLengthMeters, setBoatLengthMeters] = useState(mark.boatLengthMeters ?? 6);
   const [gatePortBuoyId, setGatePortBuoyId] = useState<string>(mark.gatePortBuoyId || "");
   const [gateStarboardBuoyId, setGateStarboardBuoyId] = useState<string>(mark.gateStarboardBuoyId || "");
+  const [roundingSide, setRoundingSide] = useState<RoundingSide>(mark.roundingSide ?? "port");
   const [hasChanges, setHasChanges] = useState(false);
   
   const [degreesToWind, setDegreesToWind] = useState(() => getWindAngleForRole(mark.role));
@@ -96,12 +98,12 @@ export function MarkEditPanel({
   }, [role, getWindAngleForRole]);
   
   useEffect(() => {
-    if (!lastMovePosition) return;
-    const remainingTime = 60000 - (Date.now() - lastMovePosition.timestamp);
+    if (!lastCourseEdit) return;
+    const remainingTime = 60000 - (Date.now() - lastCourseEdit.at);
     if (remainingTime <= 0) return;
     const timer = setTimeout(() => setUndoTick((t) => t + 1), remainingTime);
     return () => clearTimeout(timer);
-  }, [lastMovePosition]);
+  }, [lastCourseEdit]);
   
   const startLineCenter = useMemo(() => {
     return getStartLineCenter(allMarks.map(m => ({ role: m.role, lat: m.lat, lng: m.lng })));
@@ -289,9 +291,10 @@ export function MarkEditPanel({
       gateWidthBoatLengths !== (mark.gateWidthBoatLengths ?? 8) ||
       boatLengthMeters !== (mark.boatLengthMeters ?? 6) ||
       gatePortBuoyId !== (mark.gatePortBuoyId || "") ||
-      gateStarboardBuoyId !== (mark.gateStarboardBuoyId || "");
+      gateStarboardBuoyId !== (mark.gateStarboardBuoyId || "") ||
+      roundingSide !== (mark.roundingSide ?? "port");
     setHasChanges(changed);
-  }, [name, role, lat, lng, assignedBuoyId, isStartLine, isFinishLine, isGate, gateSide, gateWidthBoatLengths, boatLengthMeters, gatePortBuoyId, gateStarboardBuoyId, mark]);
+  }, [name, role, lat, lng, assignedBuoyId, isStartLine, isFinishLine, isGate, gateSide, gateWidthBoatLengths, boatLengthMeters, gatePortBuoyId, gateStarboardBuoyId, roundingSide, mark]);
 
   // Track previous mark ID to detect selection changes
   const prevMarkIdRef = useRef(mark.id);
@@ -316,6 +319,7 @@ export function MarkEditPanel({
       setBoatLengthMeters(mark.boatLengthMeters ?? 6);
       setGatePortBuoyId(mark.gatePortBuoyId || "");
       setGateStarboardBuoyId(mark.gateStarboardBuoyId || "");
+      setRoundingSide(mark.roundingSide ?? "port");
       setCoordLat(mark.lat.toString());
       setCoordLng(mark.lng.toString());
       setShowCoordinatesDialog(false);
@@ -340,6 +344,7 @@ export function MarkEditPanel({
     if (!dirty.has("boatLengthMeters")) setBoatLengthMeters(mark.boatLengthMeters ?? 6);
     if (!dirty.has("gatePortBuoyId")) setGatePortBuoyId(mark.gatePortBuoyId || "");
     if (!dirty.has("gateStarboardBuoyId")) setGateStarboardBuoyId(mark.gateStarboardBuoyId || "");
+    if (!dirty.has("roundingSide")) setRoundingSide(mark.roundingSide ?? "port");
   }, [mark, getWindAngleForRole]);
   
   // Wrapper functions to mark fields as dirty when user edits them
@@ -383,6 +388,10 @@ export function MarkEditPanel({
     dirtyFieldsRef.current.add("gateSide");
     setGateSide(value);
   }, []);
+  const setRoundingSideDirty = useCallback((value: RoundingSide) => {
+    dirtyFieldsRef.current.add("roundingSide");
+    setRoundingSide(value);
+  }, []);
   const setGateWidthBoatLengthsDirty = useCallback((value: number) => {
     dirtyFieldsRef.current.add("gateWidthBoatLengths");
     setGateWidthBoatLengths(value);
@@ -451,6 +460,7 @@ export function MarkEditPanel({
       boatLengthMeters: isGate ? boatLengthMeters : null,
       gatePortBuoyId: isGate ? (gatePortBuoyId || null) : null,
       gateStarboardBuoyId: isGate ? (gateStarboardBuoyId || null) : null,
+      roundingSide: isGate ? null : roundingSide,
     });
     
     // Clear dirty flags after save - server now has these values
@@ -458,7 +468,7 @@ export function MarkEditPanel({
     
     setTimeout(() => setSaveStatus("saved"), 100);
     setTimeout(() => setSaveStatus("idle"), 2000);
-  }, [name, role, lat, lng, assignedBuoyId, isStartLine, isFinishLine, isGate, gateSide, gateWidthBoatLengths, boatLengthMeters, gatePortBuoyId, gateStarboardBuoyId, onSave]);
+  }, [name, role, lat, lng, assignedBuoyId, isStartLine, isFinishLine, isGate, gateSide, gateWidthBoatLengths, boatLengthMeters, gatePortBuoyId, gateStarboardBuoyId, roundingSide, onSave]);
 
   // Autosave when any field changes (debounced)
   useEffect(() => {
@@ -624,17 +634,17 @@ export function MarkEditPanel({
           </div>
         )}
         
-        {/* Undo button - appears after any position change */}
-        {lastMovePosition && onUndoMove && (Date.now() - lastMovePosition.timestamp) < 60000 && (
+        {/* Undo button - appears after any change to this point */}
+        {lastCourseEdit && onUndoCourseEdit && (Date.now() - lastCourseEdit.at) < 60000 && (
           <Button
             variant="destructive"
             size="lg"
             className="w-full mt-3 gap-2"
-            onClick={onUndoMove}
+            onClick={onUndoCourseEdit}
             data-testid="button-undo-move"
           >
             <RotateCcw className="w-4 h-4" />
-            Undo Move
+            Undo {lastCourseEdit.label}
           </Button>
         )}
       </div>
@@ -743,6 +753,32 @@ export function MarkEditPanel({
                 This mark is used for both start and finish lines.
               </p>
             )}
+            {!isGate && !isStartLine && !isFinishLine && (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <RotateCcw className="w-4 h-4 text-muted-foreground" />
+                  <Label className="text-sm font-medium">Leave to</Label>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={roundingSide === "port" ? "default" : "outline"}
+                    onClick={() => setRoundingSideDirty("port")}
+                    data-testid="button-rounding-port"
+                  >
+                    Port
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={roundingSide === "starboard" ? "default" : "outline"}
+                    onClick={() => setRoundingSideDirty("starboard")}
+                    data-testid="button-rounding-starboard"
+                  >
+                    Starboard
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
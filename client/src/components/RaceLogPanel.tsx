@@ -0,0 +1,206 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  X,
+  ScrollText,
+  Flag,
+  Timer,
+  Navigation,
+  Move,
+  Undo2,
+  XCircle,
+  MapPin,
+  Anchor,
+  StickyNote,
+  Download,
+  Printer,
+  Plus,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRaces, useRaceLog, useAddRaceLogEntry } from "@/hooks/use-api";
+import { formatRaceLogWind, getRaceLogKindLabel, printRaceLog } from "@/lib/race-log";
+import type { RaceLogKind } from "@shared/schema";
+
+interface RaceLogPanelProps {
+  eventId: string;
+  eventName?: string;
+  // Wind recorded with notes added here
+  windDirection?: number;
+  windSpeed?: number;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<RaceLogKind, LucideIcon> = {
+  signal: Flag,
+  race_status: Timer,
+  course_change: Navigation,
+  course_transform: Move,
+  shorten_course: Flag,
+  course_restored: Undo2,
+  abandon: XCircle,
+  mark_move: MapPin,
+  buoy_command: Anchor,
+  note: StickyNote,
+};
+
+const ALL_RACES = "all";
+
+function formatClockTime(value: string | Date): string {
+  return new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function RaceLogPanel({ eventId, eventName, windDirection, windSpeed, onClose }: RaceLogPanelProps) {
+  const { toast } = useToast();
+  const handleError = useCallback((error: Error) => {
+    toast({
+      title: "Race Log",
+      description: error.message || "Request failed",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const { data: races = [] } = useRaces(eventId);
+  const { data: entries = [], isLoading } = useRaceLog(eventId);
+  const addEntry = useAddRaceLogEntry(eventId, handleError);
+
+  const [raceFilter, setRaceFilter] = useState(ALL_RACES);
+  const [note, setNote] = useState("");
+
+  const filtered = useMemo(
+    () => (raceFilter === ALL_RACES ? entries : entries.filter(e => e.raceId === raceFilter)),
+    [entries, raceFilter]
+  );
+  const filteredRace = races.find(r => r.id === raceFilter);
+  const exportQuery = filteredRace ? `?raceId=${filteredRace.id}` : "";
+  const title = `${eventName ?? "Event"} race log${filteredRace ? `, race ${filteredRace.raceNumber}` : ""}`;
+
+  const handleAddNote = () => {
+    const summary = note.trim();
+    if (!summary) return;
+    addEntry.mutate(
+      {
+        raceId: filteredRace?.id ?? null,
+        kind: "note",
+        summary,
+        windDirection: windDirection ?? null,
+        windSpeed: windSpeed ?? null,
+      },
+      { onSuccess: () => setNote("") }
+    );
+  };
+
+  const handlePrint = () => {
+    if (!printRaceLog(title, filtered, races)) {
+      handleError(new Error("Allow pop-ups to print the race log"));
+    }
+  };
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-[1000] w-[420px] max-h-[calc(100vh-6rem)] flex flex-col bg-background rounded-xl border shadow-xl"
+      data-testid="panel-race-log"
+    >
+      <div className="flex-none bg-background border-b px-5 py-4 flex items-center justify-between rounded-t-xl">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <ScrollText className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-bold text-lg">Race Log</h3>
+            <p className="text-xs text-muted-foreground">Official record of committee actions</p>
+          </div>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onClose}
+          data-testid="button-close-race-log"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-none border-b px-5 py-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <Select value={raceFilter} onValueChange={setRaceFilter}>
+            <SelectTrigger className="h-9" data-testid="select-race-log-race">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_RACES}>All entries</SelectItem>
+              {races.map(r => (
+                <SelectItem key={r.id} value={r.id}>
+                  Race {r.raceNumber}{r.fleet ? ` · ${r.fleet}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" className="gap-1" asChild>
+            <a href={`/api/events/${eventId}/race-log/export${exportQuery}`} download data-testid="button-race-log-csv">
+              <Download className="h-3.5 w-3.5" />
+              CSV
+            </a>
+          </Button>
+          <Button size="sm" variant="outline" className="gap-1" onClick={handlePrint} data-testid="button-race-log-print">
+            <Printer className="h-3.5 w-3.5" />
+            PDF
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={note}
+            placeholder="Add a note"
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddNote()}
+            data-testid="input-race-log-note"
+          />
+          <Button
+            size="icon"
+            className="flex-shrink-0"
+            onClick={handleAddNote}
+            disabled={!note.trim() || addEntry.isPending}
+            data-testid="button-add-race-log-note"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading race log...</p>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <ScrollText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Nothing recorded yet</p>
+          </div>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-3">
+            {[...filtered].reverse().map(entry => {
+              const Icon = KIND_ICONS[entry.kind as RaceLogKind] ?? StickyNote;
+              const wind = formatRaceLogWind(entry);
+              return (
+                <li key={entry.id} className="ml-4" data-testid={`race-log-entry-${entry.id}`}>
+                  <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background border">
+                    <Icon className="h-3 w-3 text-muted-foreground" />
+                  </span>
+                  <div className="flex items-baseline justify-between gap-2 text-[11px] text-muted-foreground">
+                    <span className="font-mono">{formatClockTime(entry.createdAt)}</span>
+                    <span className="truncate">{getRaceLogKindLabel(entry.kind)}</span>
+                  </div>
+                  <p className="text-sm">{entry.summary}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {[entry.createdByName, wind].filter(Boolean).join(" · ")}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { ArrowLeft, Trophy, Radio, Navigation, Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/hooks/use-settings";
+import type { RaceProgress } from "@/hooks/use-race-progress";
+import type { LegTimeEstimate, Race } from "@shared/schema";
+
+interface RaceProgressViewProps {
+  race: Race;
+  progress: RaceProgress | null;
+  legEstimates: LegTimeEstimate[];
+  onBack: () => void;
+  // Open the change-next-leg and shorten course workflows for the running race
+  onChangeCourse?: () => void;
+  onShortenCourse?: () => void;
+}
+
+function formatLegTime(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function formatDelta(seconds: number): string {
+  return `${seconds >= 0 ? "+" : "-"}${formatLegTime(Math.abs(seconds))}`;
+}
+
+export function RaceProgressView({ race, progress, legEstimates, onBack, onChangeCourse, onShortenCourse }: RaceProgressViewProps) {
+  const { formatDistance } = useSettings();
+  const boats = progress?.boats ?? [];
+  const legs = progress?.legs ?? [];
+  // Estimates only line up when both were built from the same waypoints
+  const estimates = legEstimates.length === legs.length ? legEstimates : [];
+
+  return (
+    <div className="space-y-4" data-testid="race-progress">
+      <div className="flex items-center gap-2">
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onBack} data-testid="button-progress-back">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-sm truncate">
+            Race {race.raceNumber}{race.fleet ? ` · ${race.fleet}` : ""}
+          </p>
+          <p className="text-[11px] text-muted-foreground">
+            {boats.length} boats tracked · {legs.length} legs
+          </p>
+        </div>
+        {onChangeCourse && progress && race.status === "racing" && (
+          <Button size="sm" variant="outline" className="gap-1.5" onClick={onChangeCourse} data-testid="button-change-course">
+            <Navigation className="h-4 w-4" />
+            Change Leg
+          </Button>
+        )}
+        {onShortenCourse && progress && race.status === "racing" && (
+          <Button size="sm" variant="outline" className="gap-1.5" onClick={onShortenCourse} data-testid="button-shorten-course">
+            <Flag className="h-4 w-4" />
+            Shorten
+          </Button>
+        )}
+      </div>
+
+      {!progress || legs.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Radio className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">
+            {!progress ? "Progress is followed while the race is racing" : "Set a rounding sequence to follow the race"}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Legs</p>
+            {legs.map(leg => {
+              const estimate = estimates[leg.legIndex]?.legTimeSeconds;
+              return (
+                <div key={leg.legIndex} className="rounded-lg border p-2 text-xs space-y-1" data-testid={`leg-progress-${leg.legIndex}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold truncate">
+                      {leg.legIndex + 1}. {leg.fromName} → {leg.toName}
+                    </span>
+                    <span className="text-muted-foreground flex-shrink-0">
+                      {leg.completed} done · {leg.sailing} sailing
+                    </span>
+                  </div>
+                  {leg.leader ? (
+                    <div className="grid grid-cols-2 gap-2 font-mono">
+                      <span>
+                        <Trophy className="inline h-3 w-3 mr-1 text-amber-500" />
+                        {leg.leader.sailNumber} {formatLegTime(leg.leader.legSeconds)}
+                      </span>
+                      {leg.last && (
+                        <span className="text-muted-foreground text-right">
+                          Last {leg.last.sailNumber} {formatLegTime(leg.last.legSeconds)}
+                        </span>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">No boat has completed this leg</p>
+                  )}
+                  {estimate !== undefined && isFinite(estimate) && (
+                    <p className="text-muted-foreground">
+                      Estimated {formatLegTime(estimate)}
+                      {leg.leader && (
+                        <span className={cn("ml-1 font-mono", leg.leader.legSeconds > estimate ? "text-amber-600" : "text-green-600")}>
+                          ({formatDelta(leg.leader.legSeconds - estimate)} leader)
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Fleet</p>
+            {boats.map((boat, index) => {
+              const finished = boat.nextWaypoint >= boat.passedAt.length;
+              const lastPassed = boat.passedAt[boat.nextWaypoint - 1];
+              return (
+                <div key={boat.boatId} className="flex items-center gap-2 text-sm" data-testid={`boat-progress-${boat.boatId}`}>
+                  <span className="w-6 text-right font-bold tabular-nums">{index + 1}</span>
+                  <span className="flex-1 font-mono truncate">{boat.sailNumber}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {finished
+                      ? `Finished ${lastPassed ? new Date(lastPassed).toLocaleTimeString() : ""}`
+                      : `Leg ${boat.nextWaypoint}/${legs.length}`}
+                  </span>
+                  {!finished && boat.distanceToNextMeters !== null && (
+                    <span className="w-20 text-right text-xs tabular-nums">
+                      {formatDistance(boat.distanceToNextMeters / 1852)}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useCallback } from "react";
+import { X, Flag, Plus, Trash2, Map as MapIcon, Play, CheckCircle2, XCircle, Timer, Undo2, ListOrdered, Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useRaces, useRaceCourse, useCreateRace, useUpdateRace, useDeleteRace } from "@/hooks/use-api";
+import { FinishRecorder } from "@/components/FinishRecorder";
+import { RaceProgressView } from "@/components/RaceProgressView";
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import type { RaceProgress } from "@/hooks/use-race-progress";
+import type { LegTimeEstimate, Mark, Race, RaceStatus } from "@shared/schema";
+
+interface RacesPanelProps {
+  eventId: string;
+  marks: Mark[];
+  trackedBoats: TrackedBoat[];
+  raceProgress: RaceProgress | null;
+  legEstimates: LegTimeEstimate[];
+  onChangeCourse?: () => void;
+  onShortenCourse?: () => void;
+  // Abandons with the N flag workflow instead of only setting the status
+  onAbandonRace?: (race: Race) => void;
+  onClose: () => void;
+}
+
+const STATUS_INFO: Record<RaceStatus, { label: string; className: string }> = {
+  scheduled: { label: "Scheduled", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" },
+  in_sequence: { label: "In Sequence", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300" },
+  racing: { label: "Racing", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300" },
+  finished: { label: "Finished", className: "bg-muted text-muted-foreground" },
+  abandoned: { label: "Abandoned", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" },
+};
+
+function formatTime(value: Date | string | null): string | null {
+  return value ? new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : null;
+}
+
+function RaceCourse({ eventId, raceId }: { eventId: string; raceId: string }) {
+  const { data: course, isLoading } = useRaceCourse(eventId, raceId);
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading course...</p>;
+  }
+  if (!course) {
+    return <p className="text-xs text-muted-foreground">Course record unavailable</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-xs" data-testid={`race-course-${raceId}`}>
+      <p className="text-muted-foreground">
+        {course.shape.replace("_", " ")} · {course.snapshotMarks.length} marks
+      </p>
+      {course.roundingSequence && course.roundingSequence.length > 0 && (
+        <p className="font-mono">{course.roundingSequence.join(" → ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function RacesPanel({ eventId, marks, trackedBoats, raceProgress, legEstimates, onChangeCourse, onShortenCourse, onAbandonRace, onClose }: RacesPanelProps) {
+  const { toast } = useToast();
+  const handleError = useCallback((error: Error) => {
+    toast({
+      title: "Races",
+      description: error.message || "Request failed",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const { data: races = [], isLoading } = useRaces(eventId);
+  const createRace = useCreateRace(eventId, handleError);
+  const updateRace = useUpdateRace(eventId, handleError);
+  const deleteRace = useDeleteRace(eventId, handleError);
+
+  const [fleet, setFleet] = useState("");
+  const [expandedRaceId, setExpandedRaceId] = useState<string | null>(null);
+  const [finishingRaceId, setFinishingRaceId] = useState<string | null>(null);
+  const finishingRace = races.find(r => r.id === finishingRaceId);
+  const [progressRaceId, setProgressRaceId] = useState<string | null>(null);
+  const progressRace = races.find(r => r.id === progressRaceId);
+
+  const setStatus = (race: Race, status: RaceStatus) => {
+    updateRace.mutate({ id: race.id, data: { status } });
+  };
+
+  const isPending = createRace.isPending || updateRace.isPending || deleteRace.isPending;
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-[1000] w-[400px] max-h-[calc(100vh-6rem)] flex flex-col bg-background rounded-xl border shadow-xl"
+      data-testid="panel-races"
+    >
+      <div className="flex-none bg-background border-b px-5 py-4 flex items-center justify-between rounded-t-xl">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Flag className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-bold text-lg">Races</h3>
+            <p className="text-xs text-muted-foreground">Course is recorded when each race starts</p>
+          </div>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onClose}
+          data-testid="button-close-races"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-3">
+        {finishingRace ? (
+          <FinishRecorder
+            eventId={eventId}
+            race={finishingRace}
+            marks={marks}
+            trackedBoats={trackedBoats}
+            progress={raceProgress?.raceId === finishingRace.id ? raceProgress : null}
+            onBack={() => setFinishingRaceId(null)}
+          />
+        ) : progressRace ? (
+          <RaceProgressView
+            race={progressRace}
+            progress={raceProgress?.raceId === progressRace.id ? raceProgress : null}
+            legEstimates={legEstimates}
+            onBack={() => setProgressRaceId(null)}
+            onChangeCourse={onChangeCourse}
+            onShortenCourse={onShortenCourse}
+          />
+        ) : (
+        <>
+        <div className="flex items-center gap-2">
+          <Input
+            value={fleet}
+            placeholder="Fleet (optional)"
+            onChange={(e) => setFleet(e.target.value)}
+            data-testid="input-race-fleet"
+          />
+          <Button
+            className="gap-1.5 flex-shrink-0"
+            onClick={() => createRace.mutate({ fleet: fleet.trim() || null }, { onSuccess: () => setFleet("") })}
+            disabled={isPending}
+            data-testid="button-add-race"
+          >
+            <Plus className="h-4 w-4" />
+            Add Race
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading races...</p>
+        ) : races.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Flag className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No races yet</p>
+          </div>
+        ) : (
+          races.map(race => {
+            const status = race.status as RaceStatus;
+            const info = STATUS_INFO[status] ?? STATUS_INFO.scheduled;
+            const startTime = formatTime(race.startTime);
+            const isOpen = status !== "finished" && status !== "abandoned";
+
+            return (
+              <div key={race.id} className="rounded-lg border p-3 space-y-2" data-testid={`race-${race.id}`}>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-sm truncate">
+                      Race {race.raceNumber}{race.fleet ? ` · ${race.fleet}` : ""}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {startTime ? `Start ${startTime}` : "Not started"}
+                      {race.finishedAt && ` · Finished ${formatTime(race.finishedAt)}`}
+                    </p>
+                  </div>
+                  <Badge className={cn("text-[10px] border-0", info.className)} data-testid={`badge-race-status-${race.id}`}>
+                    {info.label}
+                  </Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {status === "scheduled" && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setStatus(race, "in_sequence")} disabled={isPending} data-testid={`button-race-sequence-${race.id}`}>
+                      <Timer className="h-3.5 w-3.5" />
+                      Sequence
+                    </Button>
+                  )}
+                  {status === "in_sequence" && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setStatus(race, "scheduled")} disabled={isPending} data-testid={`button-race-postpone-${race.id}`}>
+                      <Undo2 className="h-3.5 w-3.5" />
+                      Postpone
+                    </Button>
+                  )}
+                  {(status === "scheduled" || status === "in_sequence") && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setStatus(race, "racing")} disabled={isPending} data-testid={`button-race-start-${race.id}`}>
+                      <Play className="h-3.5 w-3.5" />
+                      Started
+                    </Button>
+                  )}
+                  {status === "racing" && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setStatus(race, "finished")} disabled={isPending} data-testid={`button-race-finish-${race.id}`}>
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                      Finished
+                    </Button>
+                  )}
+                  {isOpen && (
+                    <Button size="sm" variant="outline" className="gap-1 text-destructive" onClick={() => (onAbandonRace ? onAbandonRace(race) : setStatus(race, "abandoned"))} disabled={isPending} data-testid={`button-race-abandon-${race.id}`}>
+                      <XCircle className="h-3.5 w-3.5" />
+                      Abandon
+                    </Button>
+                  )}
+                  {status === "racing" && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setProgressRaceId(race.id)} data-testid={`button-race-progress-${race.id}`}>
+                      <Activity className="h-3.5 w-3.5" />
+                      Progress
+                    </Button>
+                  )}
+                  {(status === "racing" || status === "finished") && (
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => setFinishingRaceId(race.id)} data-testid={`button-race-finishes-${race.id}`}>
+                      <ListOrdered className="h-3.5 w-3.5" />
+                      Finishes
+                    </Button>
+                  )}
+                  {race.courseSnapshotId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className={cn("gap-1", expandedRaceId === race.id && "bg-primary/10 text-primary")}
+                      onClick={() => setExpandedRaceId(expandedRaceId === race.id ? null : race.id)}
+                      data-testid={`button-race-course-${race.id}`}
+                    >
+                      <MapIcon className="h-3.5 w-3.5" />
+                      Course
+                    </Button>
+                  )}
+                  {status === "scheduled" && (
+                    <Button size="icon" variant="ghost" className="ml-auto h-8 w-8" onClick={() => deleteRace.mutate(race.id)} disabled={isPending} data-testid={`button-race-delete-${race.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+
+                {expandedRaceId === race.id && race.courseSnapshotId && (
+                  <RaceCourse eventId={eventId} raceId={race.id} />
+                )}
+              </div>
+            );
+          })
+        )}
+        </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { X, History, Play, Pause, SkipBack } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useRaces, usePositionHistory, type ReplayWindow } from "@/hooks/use-api";
+import { buildReplayTimeline, getReplayFrame, type ReplayFrame } from "@/lib/replay";
+import type { Buoy, Mark, Race } from "@shared/schema";
+
+interface ReplayPanelProps {
+  eventId: string;
+  knownBuoys: Buoy[];
+  currentMarks: Mark[];
+  // Called with the race area at the scrubber position, and null when replay ends
+  onFrame: (frame: ReplayFrame | null) => void;
+  onClose: () => void;
+}
+
+const LAST_HOUR = "last-hour";
+const PLAYBACK_SPEEDS = [1, 10, 30, 60];
+const TICK_MS = 200;
+// Lead-in for the start sequence and a margin after the last finisher
+const BEFORE_START_MS = 10 * 60 * 1000;
+const AFTER_FINISH_MS = 5 * 60 * 1000;
+const MAX_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+function raceWindow(race: Race): ReplayWindow | null {
+  if (!race.startTime) return null;
+  const now = Date.now();
+  const start = new Date(race.startTime).getTime() - BEFORE_START_MS;
+  const end = race.finishedAt ? new Date(race.finishedAt).getTime() + AFTER_FINISH_MS : now;
+  return { from: new Date(start), to: new Date(Math.min(end, now, start + MAX_WINDOW_MS)) };
+}
+
+function formatClock(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export function ReplayPanel({ eventId, knownBuoys, currentMarks, onFrame, onClose }: ReplayPanelProps) {
+  const { data: races = [] } = useRaces(eventId);
+  const replayableRaces = races.filter(r => r.startTime);
+
+  const [selection, setSelection] = useState<string>("");
+  const [replayWindow, setReplayWindow] = useState<ReplayWindow | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+
+  const { data: history, isLoading, error } = usePositionHistory(eventId, replayWindow);
+  const timeline = useMemo(() => (history ? buildReplayTimeline(history) : null), [history]);
+
+  const handleSelect = (value: string) => {
+    setSelection(value);
+    setIsPlaying(false);
+    if (value === LAST_HOUR) {
+      const now = Date.now();
+      setReplayWindow({ from: new Date(now - 60 * 60 * 1000), to: new Date(now) });
+      return;
+    }
+    const race = races.find(r => r.id === value);
+    setReplayWindow(race ? raceWindow(race) : null);
+  };
+
+  // Start each newly loaded recording from the beginning
+  useEffect(() => {
+    if (timeline) {
+      setTime(timeline.from);
+    }
+  }, [timeline]);
+
+  useEffect(() => {
+    if (!isPlaying || !timeline) return;
+    const interval = setInterval(() => {
+      setTime(t => {
+        const next = t + TICK_MS * speed;
+        if (next >= timeline.to) {
+          setIsPlaying(false);
+          return timeline.to;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, timeline]);
+
+  // Read through refs so live buoy and mark refetches don't redraw a paused frame
+  const knownBuoysRef = useRef(knownBuoys);
+  knownBuoysRef.current = knownBuoys;
+  const currentMarksRef = useRef(currentMarks);
+  currentMarksRef.current = currentMarks;
+
+  const frame = useMemo(
+    () => (timeline && time >= timeline.from ? getReplayFrame(timeline, time, knownBuoysRef.current, currentMarksRef.current) : null),
+    [timeline, time]
+  );
+
+  useEffect(() => {
+    onFrame(frame);
+  }, [frame, onFrame]);
+
+  // Hand the map back to live data when the panel closes
+  useEffect(() => () => onFrame(null), [onFrame]);
+
+  const duration = timeline ? timeline.to - timeline.from : 0;
+  const hasPositions = !!timeline && (timeline.buoys.size > 0 || timeline.boats.size > 0 || timeline.marks.size > 0);
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-[1000] w-[400px] max-h-[calc(100vh-6rem)] flex flex-col bg-background rounded-xl border shadow-xl"
+      data-testid="panel-replay"
+    >
+      <div className="flex-none bg-background border-b px-5 py-4 flex items-center justify-between rounded-t-xl">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <History className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-bold text-lg">Race Replay</h3>
+            <p className="text-xs text-muted-foreground">Buoys, marks, boats and wind as recorded</p>
+          </div>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onClose}
+          data-testid="button-close-replay"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-4">
+        <Select value={selection} onValueChange={handleSelect}>
+          <SelectTrigger data-testid="select-replay-window">
+            <SelectValue placeholder="Choose a race to replay" />
+          </SelectTrigger>
+          <SelectContent className="z-[10000]">
+            {replayableRaces.map(race => (
+              <SelectItem key={race.id} value={race.id}>
+                Race {race.raceNumber}{race.fleet ? ` · ${race.fleet}` : ""}
+              </SelectItem>
+            ))}
+            <SelectItem value={LAST_HOUR}>Last hour</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading recording...</p>}
+        {error && <p className="text-sm text-destructive">Could not load the recording: {error.message}</p>}
+        {timeline && !hasPositions && (
+          <p className="text-sm text-muted-foreground" data-testid="text-replay-empty">
+            Nothing was recorded in this window.
+          </p>
+        )}
+
+        {timeline && hasPositions && (
+          <div className="space-y-3">
+            <div className="flex items-baseline justify-between">
+              <span className="text-2xl font-mono font-bold" data-testid="text-replay-clock">{formatClock(time)}</span>
+              <span className="text-sm font-mono text-muted-foreground">
+                {formatElapsed(time - timeline.from)} / {formatElapsed(duration)}
+              </span>
+            </div>
+
+            <div className="relative pt-3">
+              {/* Course changes along the timeline */}
+              {timeline.courseChanges.map(at => (
+                <button
+                  key={at}
+                  type="button"
+                  className="absolute top-0 h-2.5 w-1 -translate-x-1/2 rounded-sm bg-amber-500"
+                  style={{ left: `${((at - timeline.from) / duration) * 100}%` }}
+                  title={`Course change at ${formatClock(at)}`}
+                  onClick={() => setTime(at)}
+                  data-testid="marker-course-change"
+                />
+              ))}
+              <Slider
+                value={[time]}
+                min={timeline.from}
+                max={timeline.to}
+                step={1000}
+                onValueChange={([value]) => setTime(value)}
+                data-testid="slider-replay"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => {
+                    setTime(timeline.from);
+                    setIsPlaying(false);
+                  }}
+                  data-testid="button-replay-restart"
+                >
+                  <SkipBack className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  onClick={() => {
+                    if (time >= timeline.to) setTime(timeline.from);
+                    setIsPlaying(!isPlaying);
+                  }}
+                  data-testid="button-replay-play"
+                >
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+              </div>
+              <div className="flex items-center gap-1">
+                {PLAYBACK_SPEEDS.map(s => (
+                  <Button
+                    key={s}
+                    size="sm"
+                    variant="ghost"
+                    className={cn("px-2 font-mono", speed === s && "bg-primary/10 text-primary")}
+                    onClick={() => setSpeed(s)}
+                    data-testid={`button-replay-speed-${s}`}
+                  >
+                    {s}x
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {frame?.buoys.length ?? 0} buoys · {frame?.marks.length ?? 0} marks · {frame?.boats.length ?? 0} boats
+              {frame?.weatherData && ` · wind ${Math.round(frame.weatherData.windDirection)}° ${frame.weatherData.windSpeed.toFixed(1)} kn`}
+              {timeline.courseChanges.length > 0 && ` · ${timeline.courseChanges.length} course changes`}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
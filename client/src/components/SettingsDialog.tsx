@@ -1,4 +1,4 @@
-import { Ruler, Gauge, Wind, Eye, Anchor, Compass, RotateCcw, Map, Ship, Move, Radio, Sailboat } from "lucide-react";
+import { Ruler, Gauge, Wind, Eye, Anchor, Compass, RotateCcw, Map, Ship, Move, Radio, Sailboat, Upload } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -8,9 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
-import type { DistanceUnit, SpeedUnit, WindSource, Buoy } from "@shared/schema";
+import type { DistanceUnit, SpeedUnit, WindSource, Buoy, TrackingSource } from "@shared/schema";
 import { useSettings, DEFAULT_WIND_ANGLES, DEFAULT_BUOY_FOLLOW, DEFAULT_COURSE_ADJUSTMENT, DEFAULT_WIND_ARROWS_MIN_ZOOM, type StartLineResizeMode, type StartLineFixBearingMode, type CourseResizeStartLineMode, type WindAngleDefaults, type BuoyFollowSettings, type MapLayerType, type BuoyDeployMode, type CourseAdjustmentSettings } from "@/hooks/use-settings";
-import { useState } from "react";
+import { useEvent, useNmeaSnapshot, useUpdateEvent, useUploadNmeaLog } from "@/hooks/use-api";
+import { useToast } from "@/hooks/use-toast";
+import { useEffect, useRef, useState } from "react";
 
 type MapOrientation = "north" | "head-to-wind";
 
@@ -25,6 +27,8 @@ interface SettingsDialogProps {
   onAlignCourseToWind?: () => void;
   hasMarks?: boolean;
   hasWeatherData?: boolean;
+  // Event whose NMEA feed and tracking IDs are shown; null in demo mode
+  eventId?: string | null;
 }
 
 const distanceOptions: { value: DistanceUnit; label: string }[] = [
@@ -46,6 +50,7 @@ const windSourceOptions: { value: WindSource; label: string; description: string
   { value: "buoy", label: "Buoy Weather Station", description: "Use weather data from selected buoy" },
   { value: "api", label: "Weather API", description: "External weather service" },
   { value: "manual", label: "Manual Input", description: "Enter wind data manually" },
+  { value: "instrument", label: "Committee Boat Instruments", description: "True wind from the committee boat's NMEA feed" },
 ];
 
 const resizeModeOptions: { value: StartLineResizeMode; label: string }[] = [
@@ -103,6 +108,7 @@ export function SettingsDialog({
   onAlignCourseToWind,
   hasMarks = false,
   hasWeatherData = false,
+  eventId = null,
 }: SettingsDialogProps) {
   const { 
     distanceUnit, 
@@ -136,13 +142,48 @@ export function SettingsDialog({
     setWindArrowsMinZoom,
     integrationSettings,
     setVakarosEnabled,
-    setVakarosEventId,
     setTractracEnabled,
-    setTractracEventId,
     setShowBoatTrails,
+    setShowAisTargets,
+    windSource,
+    setWindSource,
+    formatSpeed,
   } = useSettings();
+  const { toast } = useToast();
+  const { data: nmeaSnapshot } = useNmeaSnapshot(open ? eventId : null);
+  const uploadNmeaLog = useUploadNmeaLog(eventId, (error) => {
+    toast({ title: "NMEA log upload failed", description: error.message, variant: "destructive" });
+  });
+  const nmeaFileRef = useRef<HTMLInputElement>(null);
+
+  const handleNmeaFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = await uploadNmeaLog.mutateAsync(await file.text()).catch(() => null);
+    if (result) {
+      toast({ title: "NMEA log loaded", description: `${result.readings} of ${result.sentences} sentences used` });
+    }
+    if (nmeaFileRef.current) nmeaFileRef.current.value = "";
+  };
+  // Tracking IDs belong to the event, saved when an input loses focus
+  const { data: event } = useEvent(open && eventId ? eventId : "");
+  const updateEvent = useUpdateEvent((error) => {
+    toast({ title: "Tracking ID not saved", description: error.message, variant: "destructive" });
+  });
+  const [trackingIds, setTrackingIds] = useState<Record<TrackingSource, string>>({ vakaros: "", tractrac: "" });
+  useEffect(() => {
+    setTrackingIds({ vakaros: event?.trackingEventIds?.vakaros ?? "", tractrac: event?.trackingEventIds?.tractrac ?? "" });
+  }, [event?.trackingEventIds?.vakaros, event?.trackingEventIds?.tractrac]);
+
+  const saveTrackingId = (source: TrackingSource) => {
+    if (!event) return;
+    const value = trackingIds[source].trim();
+    if (value === (event.trackingEventIds?.[source] ?? "")) return;
+    updateEvent.mutate({
+      id: event.id,
+      data: { trackingEventIds: { ...event.trackingEventIds, [source]: value || undefined } },
+    });
+  };
 
-  const [windSource, setWindSource] = useState<WindSource>("buoy");
   const [manualDirection, setManualDirection] = useState("180");
   const [manualSpeed, setManualSpeed] = useState("12");
   const [selectedBuoyId, setSelectedBuoyId] = useState<string>("");
@@ -409,6 +450,14 @@ export function SettingsDialog({
                 </div>
               )}
 
+              {windSource === "instrument" && (
+                <p className="text-xs text-muted-foreground pt-2" data-testid="text-instrument-wind">
+                  {nmeaSnapshot?.wind
+                    ? `${Math.round(nmeaSnapshot.wind.windDirection)}° at ${formatSpeed(nmeaSnapshot.wind.windSpeed)}, averaged over ${nmeaSnapshot.wind.sampleCount} readings`
+                    : "No instrument wind received. Weather API or buoy wind is used until the feed is live."}
+                </p>
+              )}
+
               {windSource === "manual" && (
                 <div className="grid grid-cols-2 gap-4 pt-2">
                   <div>
@@ -805,9 +854,12 @@ export function SettingsDialog({
                     </Label>
                     <Input
                       id="vakaros-event-id"
-                      placeholder="Enter Vakaros event ID"
-                      value={integrationSettings.vakaros.eventId}
-                      onChange={(e) => setVakarosEventId(e.target.value)}
+                      placeholder={event ? "Enter Vakaros event ID" : "Open an event to set its ID"}
+                      value={trackingIds.vakaros}
+                      onChange={(e) => setTrackingIds(prev => ({ ...prev, vakaros: e.target.value }))}
+                      onBlur={() => saveTrackingId("vakaros")}
+                      onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                      disabled={!event}
                       className="h-8 text-sm"
                       data-testid="input-vakaros-event-id"
                     />
@@ -835,9 +887,12 @@ export function SettingsDialog({
                     </Label>
                     <Input
                       id="tractrac-event-id"
-                      placeholder="Enter Tractrac event ID"
-                      value={integrationSettings.tractrac.eventId}
-                      onChange={(e) => setTractracEventId(e.target.value)}
+                      placeholder={event ? "Enter Tractrac event ID" : "Open an event to set its ID"}
+                      value={trackingIds.tractrac}
+                      onChange={(e) => setTrackingIds(prev => ({ ...prev, tractrac: e.target.value }))}
+                      onBlur={() => saveTrackingId("tractrac")}
+                      onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                      disabled={!event}
                       className="h-8 text-sm"
                       data-testid="input-tractrac-event-id"
                     />
@@ -861,6 +916,62 @@ export function SettingsDialog({
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <Ship className="w-4 h-4" />
+                NMEA & AIS
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                Committee boat GPS and wind instruments, and AIS traffic, from the boat's NMEA 0183 feed.
+              </p>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="ais-targets-toggle" className="text-sm">Show AIS Targets</Label>
+                  <p className="text-[10px] text-muted-foreground">
+                    {nmeaSnapshot ? `${nmeaSnapshot.aisTargets.length} targets in range` : "Ferries, commercial and spectator traffic"}
+                  </p>
+                </div>
+                <Switch
+                  id="ais-targets-toggle"
+                  checked={integrationSettings.showAisTargets}
+                  onCheckedChange={(checked) => setShowAisTargets(checked)}
+                  data-testid="switch-ais-targets"
+                />
+              </div>
+
+              {nmeaSnapshot?.ownShip && (
+                <p className="text-xs text-muted-foreground" data-testid="text-own-ship">
+                  Committee boat fix {new Date(nmeaSnapshot.ownShip.updatedAt!).toLocaleTimeString()}
+                  {nmeaSnapshot.ownShip.heading !== null && ` · heading ${Math.round(nmeaSnapshot.ownShip.heading)}°`}
+                </p>
+              )}
+
+              <input
+                ref={nmeaFileRef}
+                type="file"
+                accept=".nmea,.txt,.log"
+                className="hidden"
+                onChange={(e) => handleNmeaFile(e.target.files?.[0])}
+                data-testid="input-nmea-log"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full gap-2"
+                disabled={!eventId || uploadNmeaLog.isPending}
+                onClick={() => nmeaFileRef.current?.click()}
+                data-testid="button-upload-nmea-log"
+              >
+                <Upload className="w-3 h-3" />
+                {uploadNmeaLog.isPending ? "Loading log..." : "Load NMEA Log"}
+              </Button>
+            </CardContent>
+          </Card>
         </div>
       </DialogContent>
     </Dialog>
@@ -1,21 +1,22 @@
 import { useState, useEffect, useMemo, useCallback } from "react";
-import { Plus, Minus, ChevronRight, ChevronLeft, ChevronUp, ChevronDown, Check, Flag, FlagTriangleRight, Play, Pencil, MapPin, Anchor, Ship, Save, RotateCw, RotateCcw, Maximize2, Move, Ruler, Clock, Download, Upload, List, X, Undo2, Trash2, AlertTriangle, MoreVertical, FolderOpen, Compass, Navigation, Sailboat, Wind, Radio, Battery, Wifi, Navigation2, Crosshair, StopCircle, SlidersHorizontal } from "lucide-react";
+import { Plus, Minus, ChevronRight, ChevronLeft, ChevronUp, ChevronDown, Check, Flag, FlagTriangleRight, Play, Pencil, MapPin, Anchor, Ship, Save, RotateCw, RotateCcw, Maximize2, Move, Ruler, Clock, Download, Upload, List, X, Undo2, Trash2, AlertTriangle, MoreVertical, FolderOpen, Compass, Navigation, Sailboat, Wind, Radio, Battery, Wifi, Navigation2, Crosshair, StopCircle, SlidersHorizontal, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import type { Event, Buoy, Mark, Course, MarkRole, RaceTimeEstimate } from "@shared/schema";
+import type { Event, Buoy, Mark, Course, MarkRole, RaceTimeEstimate, RoundingSide } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { AutoAdjustWizard, OriginalPosition } from "./AutoAdjustWizard";
 import { useBoatClass, useBoatClasses, useCourseSnapshots, type CourseSnapshot } from "@/hooks/use-api";
-import { estimateRaceTime, buildLegsFromRoundingSequence, estimateLineCrossingTime } from "@/lib/race-time-estimation";
+import { estimateRaceTime, buildLegsFromRoundingSequence, estimateLineCrossingTime, getCurrentStations } from "@/lib/race-time-estimation";
 import { calculateWindAngle, formatWindRelative } from "@/lib/course-bearings";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -23,7 +24,13 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useSettings } from "@/hooks/use-settings";
 import { ALL_SHAPE_TEMPLATES, TRIANGLE_TEMPLATES, TRAPEZOID_TEMPLATES, type ShapeTemplate } from "@/lib/shape-templates";
 import { QuickStartDialog } from "./QuickStartDialog";
+import { CourseSizingCard } from "./CourseSizingCard";
+import { CourseBoard } from "./CourseBoard";
+import { CourseImportDialog } from "./CourseImportDialog";
+import { expandCourseDesignation, resolveRoundingSides, type ExpandedCourse } from "@shared/course-designations";
+import { repeatLaps } from "@/lib/course-sizing";
 import { generateCourseThumbnail, getCategoryLabel } from "@/lib/course-thumbnail";
+import { COURSE_FILE_FORMATS, downloadCourseFile, type CourseFileData, type CourseFileFormat } from "@/lib/course-files";
 import type { TemplateCategory, SnapshotMark } from "@shared/schema";
 import { Textarea } from "@/components/ui/textarea";
 import { Triangle, Square, ArrowUpDown, Sparkles } from "lucide-react";
@@ -68,20 +75,27 @@ interface SetupPanelProps {
   onSaveMark?: (id: string, data: Partial<Mark>) => void | Promise<void>;
   onAddMark?: (data: { name: string; role: MarkRole; lat?: number; lng?: number; isStartLine?: boolean; isFinishLine?: boolean; isCourseMark?: boolean }) => void;
   onPlaceMarkOnMap?: (data: { name: string; role: MarkRole; isStartLine?: boolean; isFinishLine?: boolean; isCourseMark?: boolean }) => void;
-  onSaveCourse?: (data: { name: string; category?: TemplateCategory; description?: string; thumbnailSvg?: string }) => void;
+  onSaveCourse?: (data: { name: string; category?: TemplateCategory; description?: string; thumbnailSvg?: string; parentSnapshotId?: string }) => void;
   onLoadCourse?: (snapshot: CourseSnapshot, mode: "exact" | "shape_only") => void;
+  // Saved course the course was loaded from or last saved as; saving offers a new version of it
+  loadedSnapshot?: CourseSnapshot | null;
+  onShowCourseVersions?: (snapshot: CourseSnapshot) => void;
+  // Creates a new course from an imported GPX, KML or GeoJSON file
+  onImportCourse?: (course: CourseFileData) => void;
   mapCenter?: { lat: number; lng: number };
   onTransformCourse?: (transform: { scale?: number; rotation?: number; translateLat?: number; translateLng?: number }) => void;
   onFinishLinePreview?: (selectedMarkIds: Set<string>) => void;
-  onUpdateSequence?: (sequence: string[]) => void;
+  // course is passed when the sequence comes from a course designation
+  onUpdateSequence?: (sequence: string[], course?: ExpandedCourse) => void;
   onAutoAssignBuoys?: () => void;
   onPhaseChange?: (phase: SetupPhase) => void;
   onClearAllMarks?: () => void;
   onAutoAdjustMark?: (markId: string, lat: number, lng: number) => void;
   onAutoAdjustStartLine?: (pinLat: number, pinLng: number, cbLat: number, cbLng: number) => void;
   onAutoAdjustComplete?: (originalPositions: OriginalPosition[]) => void;
-  lastAutoAdjust?: { positions: Array<{ id: string; lat: number; lng: number }>; timestamp: number } | null;
-  onUndoAutoAdjust?: () => void;
+  // Newest course edit, offered for undo next to the adjust controls for a short while
+  lastCourseEdit?: { label: string; at: number } | null;
+  onUndoCourseEdit?: () => void;
   moveCourseMode?: boolean;
   onSetMoveCourseMode?: (enabled: boolean) => void;
   onDeleteCourse?: (snapshotId: string) => void;
@@ -98,6 +112,7 @@ interface SetupPanelProps {
 
 export function SetupPanel({
   event,
+  course,
   marks,
   buoys,
   roundingSequence = [],
@@ -111,6 +126,9 @@ export function SetupPanel({
   onPlaceMarkOnMap,
   onSaveCourse,
   onLoadCourse,
+  loadedSnapshot,
+  onShowCourseVersions,
+  onImportCourse,
   mapCenter,
   onTransformCourse,
   onFinishLinePreview,
@@ -121,8 +139,8 @@ export function SetupPanel({
   onAutoAdjustMark,
   onAutoAdjustStartLine,
   onAutoAdjustComplete,
-  lastAutoAdjust,
-  onUndoAutoAdjust,
+  lastCourseEdit,
+  onUndoCourseEdit,
   moveCourseMode,
   onSetMoveCourseMode,
   onDeleteCourse,
@@ -214,9 +232,9 @@ export function SetupPanel({
   
   // Effect to auto-hide undo button after 60 seconds
   useEffect(() => {
-    if (!lastAutoAdjust) return;
+    if (!lastCourseEdit) return;
     
-    const remainingTime = 60000 - (Date.now() - lastAutoAdjust.timestamp);
+    const remainingTime = 60000 - (Date.now() - lastCourseEdit.at);
     if (remainingTime <= 0) return;
     
     const timer = setTimeout(() => {
@@ -224,7 +242,7 @@ export function SetupPanel({
     }, remainingTime);
     
     return () => clearTimeout(timer);
-  }, [lastAutoAdjust]);
+  }, [lastCourseEdit]);
   
   // Count unassigned marks (gates count as 2 if neither assigned, 1 if partially assigned)
   const getUnassignedCount = () => {
@@ -275,6 +293,16 @@ export function SetupPanel({
   const [courseName, setCourseName] = useState("");
   const [courseCategory, setCourseCategory] = useState<TemplateCategory>("other");
   const [courseDescription, setCourseDescription] = useState("");
+  const [saveAsVersion, setSaveAsVersion] = useState(true);
+  
+  // A new version keeps the saved course's name and details unless they are changed
+  useEffect(() => {
+    if (!showSaveDialog || !loadedSnapshot) return;
+    setCourseName(loadedSnapshot.name);
+    setCourseCategory(loadedSnapshot.category as TemplateCategory);
+    setCourseDescription(loadedSnapshot.description ?? "");
+    setSaveAsVersion(true);
+  }, [showSaveDialog, loadedSnapshot]);
   
   // State for load course dialog - supports external control from TopBar
   const [internalShowLoadDialog, setInternalShowLoadDialog] = useState(false);
@@ -292,6 +320,7 @@ export function SetupPanel({
   const [finishConfirmed, setFinishConfirmed] = useState(false);
   const [pendingFinishUpdate, setPendingFinishUpdate] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showAutoAdjustDialog, setShowAutoAdjustDialog] = useState(false);
   const [showQuickStartDialog, setShowQuickStartDialog] = useState(false);
   const [showCourseCoordinatesDialog, setShowCourseCoordinatesDialog] = useState(false);
@@ -453,6 +482,22 @@ export function SetupPanel({
     }
   };
   
+  // Course designation ("L2", "O3") from the sailing instructions
+  const [designationInput, setDesignationInput] = useState("");
+  const [designationError, setDesignationError] = useState<string | null>(null);
+  const [showCourseBoard, setShowCourseBoard] = useState(false);
+  
+  const applyDesignation = () => {
+    try {
+      const expanded = expandCourseDesignation(designationInput, marks);
+      onUpdateSequence?.(expanded.roundingSequence, expanded);
+      setDesignationInput("");
+      setDesignationError(null);
+    } catch (error) {
+      setDesignationError(error instanceof Error ? error.message : "Invalid course designation");
+    }
+  };
+  
   // Sequence management functions
   const addToSequence = (markId: string) => {
     const newSequence = [...roundingSequence, markId];
@@ -590,11 +635,16 @@ export function SetupPanel({
       lng: startLineMarks.reduce((s, m) => s + m.lng, 0) / startLineMarks.length,
     } : undefined;
     
-    const legs = buildLegsFromRoundingSequence(roundingSequence, marks, startCenter);
+    const legs = buildLegsFromRoundingSequence(roundingSequence, marks, startCenter, course?.roundingSides ?? undefined);
     if (legs.length === 0) return null;
     
-    return estimateRaceTime(legs, boatClass, windSpeed, windDirection);
-  }, [boatClass, roundingSequence, marks, startLineMarks, windSpeed, windDirection]);
+    return estimateRaceTime(legs, boatClass, windSpeed, windDirection, getCurrentStations(buoys));
+  }, [boatClass, roundingSequence, marks, startLineMarks, buoys, windSpeed, windDirection, course?.roundingSides]);
+
+  const sequenceSides = useMemo(
+    () => resolveRoundingSides(roundingSequence, marks, course?.roundingSides ?? undefined),
+    [roundingSequence, marks, course?.roundingSides]
+  );
   
   // Calculate start line crossing time
   const startLineCrossingTime = useMemo(() => {
@@ -632,6 +682,11 @@ export function SetupPanel({
     return mark?.name ?? "Unknown";
   };
 
+  // Thumbnails, like saved courses, name marks in the sequence by name
+  const sequenceMarkNames = roundingSequence.map(entry =>
+    entry === "start" || entry === "finish" ? entry : marks.find(m => m.id === entry)?.name ?? entry
+  );
+
   const handleSaveCourse = () => {
     if (courseName.trim() && onSaveCourse) {
       const snapshotMarks: SnapshotMark[] = marks.map(m => ({
@@ -648,14 +703,16 @@ export function SetupPanel({
         boatLengthMeters: m.boatLengthMeters,
         gatePartnerId: m.gatePartnerId,
         gateSide: m.gateSide,
+        roundingSide: m.roundingSide,
       }));
-      const thumbnailSvg = generateCourseThumbnail(snapshotMarks, roundingSequence);
+      const thumbnailSvg = generateCourseThumbnail(snapshotMarks, sequenceMarkNames, course?.roundingSides);
       
       onSaveCourse({
         name: courseName.trim(),
         category: courseCategory,
         description: courseDescription.trim() || undefined,
         thumbnailSvg,
+        parentSnapshotId: loadedSnapshot && saveAsVersion ? loadedSnapshot.id : undefined,
       });
       setShowSaveDialog(false);
       setCourseName("");
@@ -664,6 +721,43 @@ export function SetupPanel({
     }
   };
 
+  // Marks and rounding sequence by name, as chartplotters and tracking apps see them
+  const handleExportCourseFile = (format: CourseFileFormat) => {
+    // Sides are by sequence index, so they follow the entries that make it into the file
+    const exported = roundingSequence.flatMap((entry, index): { entry: string; side: RoundingSide | undefined }[] => {
+      if (entry === "start" || entry === "finish") return [{ entry, side: undefined }];
+      const mark = marks.find(m => m.id === entry);
+      return mark ? [{ entry: mark.name, side: sequenceSides[index] }] : [];
+    });
+    downloadCourseFile(format, {
+      name: course?.name || event.name,
+      marks: marks.map(m => ({
+        name: m.name,
+        role: m.role,
+        order: m.order,
+        lat: m.lat,
+        lng: m.lng,
+        isStartLine: m.isStartLine,
+        isFinishLine: m.isFinishLine,
+        isCourseMark: m.isCourseMark,
+        isGate: m.isGate,
+        gateWidthBoatLengths: m.gateWidthBoatLengths,
+        boatLengthMeters: m.boatLengthMeters,
+        gatePartnerId: m.gatePartnerId,
+        gateSide: m.gateSide,
+        roundingSide: m.roundingSide,
+      })),
+      roundingSequence: exported.map(({ entry }) => entry),
+      roundingSides: Object.fromEntries(
+        exported.flatMap(({ side }, index) => (side ? [[index, side]] : []))
+      ),
+      // An unsaved sequence edit has left the designation behind
+      designation: course?.designation && (course.roundingSequence ?? []).join(",") === roundingSequence.join(",")
+        ? course.designation
+        : null,
+    });
+  };
+
   // State for load course selection
   const [selectedLoadCourse, setSelectedLoadCourse] = useState<CourseSnapshot | null>(null);
   const [snapshotSearch, setSnapshotSearch] = useState("");
@@ -1401,6 +1495,50 @@ export function SetupPanel({
               </div>
             </div>
 
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">Course from the sailing instructions:</p>
+              <div className="flex gap-1.5">
+                <Input
+                  value={designationInput}
+                  onChange={(e) => {
+                    setDesignationInput(e.target.value);
+                    setDesignationError(null);
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && designationInput.trim() && applyDesignation()}
+                  placeholder="e.g. L2, W3, O2, I3, TL3"
+                  className="h-8 uppercase"
+                  data-testid="input-course-designation"
+                />
+                <Button
+                  size="sm"
+                  onClick={applyDesignation}
+                  disabled={!designationInput.trim()}
+                  data-testid="button-apply-designation"
+                >
+                  Set
+                </Button>
+              </div>
+              {designationError && (
+                <p className="text-xs text-destructive" data-testid="text-designation-error">{designationError}</p>
+              )}
+              {course?.designation && (
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="secondary" className="font-mono" data-testid="badge-course-designation">
+                    Course {course.designation}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => setShowCourseBoard(true)}
+                    data-testid="button-show-course-board"
+                  >
+                    Course Board
+                  </Button>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-1.5">
               <p className="text-xs font-medium text-muted-foreground">Tap to add:</p>
               <div className="flex flex-wrap gap-1.5">
@@ -1482,6 +1620,8 @@ export function SetupPanel({
                       const isStart = entry === "start";
                       const isFinish = entry === "finish";
                       const legDistance = index > 0 ? courseStats.legs[index - 1]?.distance : null;
+                      const roundingSide = course?.roundingSides?.[index] ?? sequenceSides[index];
+                      const isGateChoice = !roundingSide && marks.find(m => m.id === entry)?.isGate;
                       
                       return (
                         <div
@@ -1503,7 +1643,14 @@ export function SetupPanel({
                             {index + 1}
                           </div>
                           <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium truncate">{name}</p>
+                            <p className="text-sm font-medium truncate">
+                              {name}
+                              {(roundingSide || isGateChoice) && (
+                                <span className="ml-1.5 text-[10px] font-normal text-muted-foreground">
+                                  {roundingSide ? `to ${roundingSide}` : "gate"}
+                                </span>
+                              )}
+                            </p>
                             {legDistance !== null && legDistance !== undefined && (
                               <p className="text-[10px] text-muted-foreground">
                                 {formatDistance(legDistance)}
@@ -1893,15 +2040,15 @@ export function SetupPanel({
                           </Button>
                         </div>
                         
-                        {lastAutoAdjust && onUndoAutoAdjust && (Date.now() - lastAutoAdjust.timestamp) < 60000 && (
+                        {lastCourseEdit && onUndoCourseEdit && (Date.now() - lastCourseEdit.at) < 60000 && (
                           <Button
                             variant="destructive"
                             className="w-full gap-2"
-                            onClick={onUndoAutoAdjust}
+                            onClick={onUndoCourseEdit}
                             data-testid="button-undo-auto-adjust"
                           >
                             <RotateCcw className="w-4 h-4" />
-                            Undo
+                            <span className="truncate">Undo {lastCourseEdit.label}</span>
                           </Button>
                         )}
                       </div>
@@ -1909,6 +2056,25 @@ export function SetupPanel({
                   </CardContent>
                 </Card>
 
+                <CourseSizingCard
+                  marks={marks}
+                  roundingSequence={roundingSequence}
+                  roundingSides={course?.roundingSides ?? undefined}
+                  buoys={buoys}
+                  boatClass={boatClass}
+                  windSpeed={windSpeed}
+                  windDirection={windDirection}
+                  targetDuration={event.targetDuration}
+                  onApply={(scale, laps) => {
+                    if (laps > 1) {
+                      onUpdateSequence?.(repeatLaps(roundingSequence, laps));
+                    }
+                    if (Math.abs(scale - 1) >= 0.005) {
+                      onTransformCourse?.({ scale });
+                    }
+                  }}
+                />
+
                 {/* Course Details - Collapsible (default closed) */}
                 <Collapsible open={courseDetailsOpen} onOpenChange={setCourseDetailsOpen}>
                   <Card>
@@ -1997,7 +2163,21 @@ export function SetupPanel({
                                     {legEstimate && (
                                       <div className="text-[10px] text-muted-foreground flex items-center gap-1 justify-end">
                                         <Clock className="w-2.5 h-2.5" />
-                                        {formatLegTime(legEstimate.legTimeSeconds)}
+                                        {isFinite(legEstimate.legTimeSeconds) ? formatLegTime(legEstimate.legTimeSeconds) : "Can't stem current"}
+                                      </div>
+                                    )}
+                                    {legEstimate?.currentDeltaSeconds !== undefined && isFinite(legEstimate.currentDeltaSeconds) && (
+                                      <div
+                                        className={cn(
+                                          "text-[10px]",
+                                          legEstimate.currentDeltaSeconds > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                                        )}
+                                        title={`Current ${legEstimate.currentSpeed?.toFixed(1)} kts setting ${Math.round(legEstimate.currentDirection ?? 0)}°${
+                                          legEstimate.groundTracks ? ` · tracks ${legEstimate.groundTracks.map(t => `${Math.round(t)}°`).join(" / ")} over ground` : ""
+                                        }`}
+                                        data-testid={`text-leg-current-delta-${index}`}
+                                      >
+                                        {legEstimate.currentDeltaSeconds >= 0 ? "+" : "-"}{formatLegTime(Math.abs(legEstimate.currentDeltaSeconds))} current
                                       </div>
                                     )}
                                   </div>
@@ -2423,6 +2603,20 @@ export function SetupPanel({
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4 py-2">
+            {loadedSnapshot && (
+              <div className="flex items-start gap-2 p-3 bg-muted/50 rounded-lg">
+                <Checkbox
+                  id="save-as-version"
+                  checked={saveAsVersion}
+                  onCheckedChange={(checked) => setSaveAsVersion(checked === true)}
+                  data-testid="checkbox-save-as-version"
+                />
+                <Label htmlFor="save-as-version" className="text-sm font-normal leading-snug">
+                  Save as a new version of <span className="font-semibold">{loadedSnapshot.name}</span> (v{loadedSnapshot.version})
+                  <span className="block text-xs text-muted-foreground">Earlier versions are kept and can be compared or restored</span>
+                </Label>
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="course-name">Course Name</Label>
               <Input
@@ -2494,8 +2688,10 @@ export function SetupPanel({
                         boatLengthMeters: m.boatLengthMeters,
                         gatePartnerId: m.gatePartnerId,
                         gateSide: m.gateSide,
+                        roundingSide: m.roundingSide,
                       })),
-                      roundingSequence
+                      sequenceMarkNames,
+                      course?.roundingSides
                     )
                   }}
                 />
@@ -2570,6 +2766,22 @@ export function SetupPanel({
                     </div>
                   </Button>
                 </div>
+                {onShowCourseVersions && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full gap-2"
+                    onClick={() => {
+                      onShowCourseVersions(selectedLoadCourse);
+                      setShowLoadDialog(false);
+                      setSelectedLoadCourse(null);
+                    }}
+                    data-testid="button-course-versions"
+                  >
+                    <History className="w-4 h-4" />
+                    Version History
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -2614,6 +2826,9 @@ export function SetupPanel({
                           >
                             <div className="flex items-center gap-2">
                               <p className="font-semibold">{snapshot.name}</p>
+                              {snapshot.version > 1 && (
+                                <Badge variant="outline" className="text-xs">v{snapshot.version}</Badge>
+                              )}
                               {isTemplate && (
                                 <Badge variant="secondary" className="text-xs">Template</Badge>
                               )}
@@ -2650,7 +2865,21 @@ export function SetupPanel({
               </div>
             )}
           </div>
-          <DialogFooter>
+          <DialogFooter className="gap-2">
+            {onImportCourse && !selectedLoadCourse && (
+              <Button
+                variant="secondary"
+                className="gap-2"
+                onClick={() => {
+                  setShowLoadDialog(false);
+                  setShowImportDialog(true);
+                }}
+                data-testid="button-import-course-file"
+              >
+                <Upload className="w-4 h-4" />
+                Import GPX / KML / GeoJSON
+              </Button>
+            )}
             <Button variant="outline" onClick={() => {
               setShowLoadDialog(false);
               setSelectedLoadCourse(null);
@@ -2661,6 +2890,14 @@ export function SetupPanel({
         </DialogContent>
       </Dialog>
 
+      {onImportCourse && (
+        <CourseImportDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImport={onImportCourse}
+        />
+      )}
+
       {/* Export Course Dialog */}
       <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -2935,7 +3172,22 @@ export function SetupPanel({
               </pre>
             </div>
           </div>
-          <DialogFooter>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <div className="flex gap-2">
+              {COURSE_FILE_FORMATS.map(format => (
+                <Button
+                  key={format.value}
+                  variant="secondary"
+                  className="gap-2"
+                  onClick={() => handleExportCourseFile(format.value)}
+                  disabled={marks.length === 0}
+                  data-testid={`button-export-${format.value}`}
+                >
+                  <Download className="w-4 h-4" />
+                  {format.label}
+                </Button>
+              ))}
+            </div>
             <Button variant="outline" onClick={() => setShowExportDialog(false)}>
               Close
             </Button>
@@ -3016,6 +3268,13 @@ export function SetupPanel({
       </Dialog>
 
       {/* Quick Start Dialog */}
+      <CourseBoard
+        open={showCourseBoard}
+        onOpenChange={setShowCourseBoard}
+        designation={course?.designation ?? ""}
+        marks={marks}
+      />
+
       <QuickStartDialog
         open={showQuickStartDialog}
         onOpenChange={setShowQuickStartDialog}
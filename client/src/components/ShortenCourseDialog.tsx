@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Flag, Anchor } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { CourseChangeLeg } from "@/lib/course-change";
+import type { Buoy } from "@shared/schema";
+
+interface ShortenCourseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Legs ending at a single mark; gates cannot carry a finish line
+  legs: CourseChangeLeg[];
+  // The leg the leader is sailing; preselected when the dialog opens
+  suggestedLeg: CourseChangeLeg | null;
+  leaderSailNumber?: string;
+  // Buoys free to lay the other end of the finish line
+  buoys: Buoy[];
+  onConfirm: (leg: CourseChangeLeg, buoyId: string | null) => void;
+  isPending?: boolean;
+}
+
+const COMMITTEE_BOAT = "committee";
+
+export function ShortenCourseDialog({
+  open,
+  onOpenChange,
+  legs,
+  suggestedLeg,
+  leaderSailNumber,
+  buoys,
+  onConfirm,
+  isPending = false,
+}: ShortenCourseDialogProps) {
+  const [sequenceIndex, setSequenceIndex] = useState<number | null>(null);
+  const [finishEnd, setFinishEnd] = useState(COMMITTEE_BOAT);
+
+  useEffect(() => {
+    if (!open) return;
+    setSequenceIndex(suggestedLeg?.sequenceIndex ?? legs[0]?.sequenceIndex ?? null);
+    setFinishEnd(COMMITTEE_BOAT);
+  }, [open]);
+
+  const leg = legs.find(l => l.sequenceIndex === sequenceIndex) ?? null;
+  const buoy = buoys.find(b => b.id === finishEnd);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-shorten-course">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Shorten Course
+          </DialogTitle>
+          <DialogDescription>
+            {suggestedLeg && leaderSailNumber
+              ? `Leader ${leaderSailNumber} is sailing to ${suggestedLeg.mark.name}.`
+              : "Boats finish at the chosen mark instead of rounding it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!leg ? (
+          <p className="text-sm text-muted-foreground py-2">The course has no mark to finish at.</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Finish at</Label>
+              <Select value={String(leg.sequenceIndex)} onValueChange={(v) => setSequenceIndex(parseInt(v, 10))}>
+                <SelectTrigger data-testid="select-shorten-leg">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {legs.map(l => (
+                    <SelectItem key={l.sequenceIndex} value={String(l.sequenceIndex)}>
+                      {l.mark.name} (leg from {l.from.name})
+                      {l.sequenceIndex === suggestedLeg?.sequenceIndex ? " · leader" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Other end of the finish line</Label>
+              <Select value={finishEnd} onValueChange={setFinishEnd}>
+                <SelectTrigger data-testid="select-shorten-finish-end">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={COMMITTEE_BOAT}>Committee boat</SelectItem>
+                  {buoys.map(b => (
+                    <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="rounded-lg border-2 border-foreground p-4 text-center space-y-1" data-testid="board-shorten-course">
+              <div className="flex items-center justify-center gap-4">
+                <span className="text-5xl font-black text-blue-600 dark:text-blue-400">S</span>
+                <span className="text-2xl font-bold">Finish at {leg.mark.name}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">Display at {leg.mark.name} with two sounds</p>
+            </div>
+
+            <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <Anchor className="h-3 w-3" />
+              {buoy
+                ? `${buoy.name} will be sent to lay the finish line beside ${leg.mark.name}`
+                : `Place the committee boat at the marked position beside ${leg.mark.name}`}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-shorten-course">
+            Cancel
+          </Button>
+          <Button
+            disabled={!leg || isPending}
+            onClick={() => leg && onConfirm(leg, buoy ? buoy.id : null)}
+            data-testid="button-confirm-shorten-course"
+          >
+            Shorten
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
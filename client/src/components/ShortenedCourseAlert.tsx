@@ -0,0 +1,33 @@
+import { Flag, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ShortenedCourseAlertProps {
+  markName: string;
+  onRestore: () => void;
+  isPending?: boolean;
+}
+
+export function ShortenedCourseAlert({ markName, onRestore, isPending = false }: ShortenedCourseAlertProps) {
+  return (
+    <div
+      className="absolute top-16 left-1/2 -translate-x-1/2 z-[600] px-4 py-2 rounded-lg shadow-lg flex items-center gap-3 bg-blue-600 text-white"
+      data-testid="shortened-course-alert"
+    >
+      <Flag className="w-5 h-5 flex-shrink-0" />
+      <div className="text-sm font-medium">
+        Course shortened: finish at {markName}
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="gap-1.5"
+        onClick={onRestore}
+        disabled={isPending}
+        data-testid="button-restore-course"
+      >
+        <Undo2 className="w-4 h-4" />
+        Restore Course
+      </Button>
+    </div>
+  );
+}
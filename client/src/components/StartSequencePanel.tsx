@@ -0,0 +1,486 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { X, Timer, Plus, Trash2, Volume2, VolumeX, PauseCircle, PlayCircle, RotateCcw, StopCircle, Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useStartSequence, useStartSequenceAction } from "@/hooks/use-api";
+import {
+  getStartSignals,
+  getNextSignal,
+  getVisibleFlags,
+  formatCountdown,
+  PREPARATORY_FLAG_LABELS,
+  SIGNAL_LABELS,
+  type SignalFlagId,
+} from "@/lib/start-sequence";
+import { soundHorn, unlockHorn } from "@/lib/start-horn";
+import { analyzeStart, getFleetBoats, type StartAnalysis } from "@/lib/ocs-detection";
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import { GENERAL_RECALL_WINDOW_MS, type Mark, type PreparatoryFlag, type StartSequencePreset, type StartSequence } from "@shared/schema";
+
+interface StartSequencePanelProps {
+  eventId: string;
+  defaultFleetName?: string;
+  marks: Mark[];
+  trackedBoats: TrackedBoat[];
+  windDirection?: number;
+  onClose: () => void;
+}
+
+// X stays up until OCS boats return, but no later than four minutes after the start (RRS 29.1)
+const INDIVIDUAL_RECALL_MS = 4 * 60 * 1000;
+// A start is only called from positions reported around its signal
+const START_CALL_WINDOW_MS = 5000;
+const TICK_MS = 250;
+
+const WARNING_DELAY_OPTIONS = [
+  { value: "0", label: "Now" },
+  { value: "60", label: "In 1 min" },
+  { value: "120", label: "In 2 min" },
+  { value: "300", label: "In 5 min" },
+];
+
+const FLAG_STYLES: Record<Exclude<SignalFlagId, "class">, string> = {
+  P: "bg-blue-700 [background-image:linear-gradient(white,white)] [background-size:50%_50%] bg-center bg-no-repeat",
+  I: "bg-yellow-400 [background-image:radial-gradient(circle,black_30%,transparent_32%)]",
+  Z: "[background-image:conic-gradient(from_45deg,#facc15_0_25%,#1d4ed8_0_50%,#dc2626_0_75%,black_0)]",
+  U: "[background-image:conic-gradient(#dc2626_0_25%,white_0_50%,#dc2626_0_75%,white_0)]",
+  black: "bg-black",
+  AP: "[background-image:repeating-linear-gradient(90deg,#dc2626_0_20%,white_20%_40%)]",
+  first_substitute: "bg-yellow-400 [background-image:linear-gradient(135deg,#1d4ed8_50%,transparent_50%)]",
+};
+
+const X_FLAG_STYLE = "bg-white [background-image:linear-gradient(#1d4ed8,#1d4ed8),linear-gradient(#1d4ed8,#1d4ed8)] [background-size:100%_22%,22%_100%] bg-center bg-no-repeat";
+
+function SignalFlag({ id, label }: { id: SignalFlagId; label: string }) {
+  return (
+    <div className="flex flex-col items-center gap-1" data-testid={`flag-${id}`}>
+      {id === "class" ? (
+        <div className="w-12 h-9 rounded-sm border bg-background flex items-center justify-center text-[10px] font-bold px-1 text-center leading-tight">
+          {label}
+        </div>
+      ) : (
+        <div className={cn("w-12 h-9 rounded-sm border", FLAG_STYLES[id])} />
+      )}
+      <span className="text-[10px] text-muted-foreground max-w-16 truncate">{label}</span>
+    </div>
+  );
+}
+
+function StartCallSummary({ analysis, fleetIndex }: { analysis: StartAnalysis | null; fleetIndex: number }) {
+  if (!analysis) {
+    return (
+      <p className="px-2 pb-2 text-[11px] text-muted-foreground">
+        No OCS call: start line marks or course side unknown
+      </p>
+    );
+  }
+
+  const unknown = analysis.calls.filter(c => c.status === "unknown");
+  return (
+    <div className="px-2 pb-2 space-y-1.5 text-xs" data-testid={`start-call-${fleetIndex}`}>
+      {analysis.ocs.length > 0 ? (
+        <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-2 dark:border-red-900 dark:bg-red-950/30">
+          <div className={cn("w-8 h-6 flex-shrink-0 rounded-sm border", X_FLAG_STYLE)} title="Flag X" />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold text-red-700 dark:text-red-300">
+              Individual recall: X with one sound
+            </p>
+            <p className="font-mono" data-testid={`text-ocs-boats-${fleetIndex}`}>
+              {analysis.ocs.map(c => `${c.sailNumber} (${Math.round(c.distanceMeters!)}m)`).join(", ")}
+            </p>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 flex-shrink-0"
+            onClick={() => soundHorn("short", 1)}
+            data-testid={`button-individual-recall-sound-${fleetIndex}`}
+          >
+            <Megaphone className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-green-700 dark:text-green-400" data-testid={`text-start-clear-${fleetIndex}`}>
+          No boats OCS by tracking
+        </p>
+      )}
+      {analysis.close.length > 0 && (
+        <p className="text-amber-700 dark:text-amber-400">
+          Too close to call, check by eye: <span className="font-mono">{analysis.close.map(c => c.sailNumber).join(", ")}</span>
+        </p>
+      )}
+      {unknown.length > 0 && (
+        <p className="text-muted-foreground">
+          No fix at the signal: <span className="font-mono">{unknown.map(c => c.sailNumber).join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function isSequenceActive(sequence: StartSequence, now: number): boolean {
+  if (sequence.status === "cancelled") return false;
+  if (sequence.status !== "running") return true;
+  return sequence.fleets.some(f => !f.startAt || new Date(f.startAt).getTime() > now);
+}
+
+export function StartSequencePanel({ eventId, defaultFleetName, marks, trackedBoats, windDirection, onClose }: StartSequencePanelProps) {
+  const { toast } = useToast();
+  const handleError = useCallback((error: Error) => {
+    toast({
+      title: "Start Sequence",
+      description: error.message || "Request failed",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const { data, dataUpdatedAt } = useStartSequence(eventId);
+  const action = useStartSequenceAction(eventId, handleError);
+  const sequence = data?.sequence ?? null;
+
+  // Offset between the server clock and ours, taken when the data arrived
+  const clockOffsetMs = data ? new Date(data.serverTime).getTime() - dataUpdatedAt : 0;
+  const [now, setNow] = useState(() => Date.now() + clockOffsetMs);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now() + clockOffsetMs), TICK_MS);
+    return () => clearInterval(interval);
+  }, [clockOffsetMs]);
+
+  const [muted, setMuted] = useState(false);
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [preset, setPreset] = useState<StartSequencePreset>("5-4-1-0");
+  const [preparatoryFlag, setPreparatoryFlag] = useState<PreparatoryFlag>("P");
+  const [warningDelay, setWarningDelay] = useState("0");
+  const [fleets, setFleets] = useState([{ name: defaultFleetName || "Fleet 1", classFlag: defaultFleetName || "Class" }]);
+
+  // Sound each signal as its time passes, and the AP / First Substitute hoist and drop
+  const lastTickRef = useRef<number | null>(null);
+  const lastStatusRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const previous = lastTickRef.current;
+    lastTickRef.current = now;
+    if (!sequence || muted || previous === null || now - previous > 2000) return;
+
+    const due = getStartSignals(sequence).filter(s => s.at > previous && s.at <= now);
+    if (due.length > 0) {
+      soundHorn(due.some(s => s.sound === "long") ? "long" : "short");
+    }
+  }, [now, sequence, muted]);
+
+  useEffect(() => {
+    const status = sequence?.status ?? null;
+    const previous = lastStatusRef.current;
+    lastStatusRef.current = status;
+    if (muted || previous === null || status === previous) return;
+
+    if (status === "postponed" || status === "general_recall") {
+      soundHorn("short", 2);
+    } else if (status === "running" && (previous === "postponed" || previous === "general_recall")) {
+      soundHorn("short", 1);
+    }
+  }, [sequence?.status, muted]);
+
+  // Call each start from tracking as its signal passes. A recalled fleet restarts
+  // with a new start time, so it gets a fresh call.
+  const [startCalls, setStartCalls] = useState<Record<string, StartAnalysis | null>>({});
+
+  useEffect(() => {
+    if (!sequence || trackedBoats.length === 0) return;
+
+    sequence.fleets.forEach((fleet, index) => {
+      if (!fleet.startAt) return;
+      const startAt = new Date(fleet.startAt).getTime();
+      const key = `${index}:${startAt}`;
+      if (key in startCalls || now < startAt || now - startAt > START_CALL_WINDOW_MS) return;
+
+      const analysis = analyzeStart(getFleetBoats(trackedBoats, fleet.name), marks, startAt, windDirection);
+      setStartCalls(calls => ({ ...calls, [key]: analysis }));
+    });
+  }, [now, sequence, trackedBoats, marks, windDirection, startCalls]);
+
+  const active = sequence ? isSequenceActive(sequence, now) : false;
+  const showSetup = !sequence || sequence.status === "cancelled" || (isSettingUp && !active);
+
+  const handleStart = () => {
+    unlockHorn();
+    const delaySeconds = parseInt(warningDelay, 10);
+    action.mutate({
+      action: "start",
+      data: {
+        preset,
+        preparatoryFlag,
+        fleets: fleets.map(f => ({ name: f.name.trim(), classFlag: f.classFlag.trim() || f.name.trim() })),
+        warningAt: delaySeconds > 0 ? new Date(now + delaySeconds * 1000).toISOString() : undefined,
+      },
+    }, {
+      onSuccess: () => setIsSettingUp(false),
+    });
+  };
+
+  const nextSignal = sequence ? getNextSignal(sequence, now) : null;
+  const flags = sequence ? getVisibleFlags(sequence, now) : [];
+  const canStart = fleets.length > 0 && fleets.every(f => f.name.trim().length > 0);
+
+  return (
+    <div
+      className="absolute top-4 right-4 z-[1000] w-[400px] max-h-[calc(100vh-6rem)] flex flex-col bg-background rounded-xl border shadow-xl"
+      data-testid="panel-start-sequence"
+      onClick={unlockHorn}
+    >
+      <div className="flex-none bg-background border-b px-5 py-4 flex items-center justify-between rounded-t-xl">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Timer className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-bold text-lg">Start Sequence</h3>
+            <p className="text-xs text-muted-foreground">RRS 26 signals</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setMuted(!muted)}
+            data-testid="button-toggle-horn"
+          >
+            {muted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={onClose}
+            data-testid="button-close-start-sequence"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-4">
+        {showSetup ? (
+          <div className="space-y-4" data-testid="start-sequence-setup">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Sequence</Label>
+                <Select value={preset} onValueChange={(v) => setPreset(v as StartSequencePreset)}>
+                  <SelectTrigger data-testid="select-sequence-preset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[10000]">
+                    <SelectItem value="5-4-1-0">5-4-1-0</SelectItem>
+                    <SelectItem value="3-2-1-0">3-2-1-0</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Preparatory Flag</Label>
+                <Select value={preparatoryFlag} onValueChange={(v) => setPreparatoryFlag(v as PreparatoryFlag)}>
+                  <SelectTrigger data-testid="select-preparatory-flag">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[10000]">
+                    {(Object.keys(PREPARATORY_FLAG_LABELS) as PreparatoryFlag[]).map(flag => (
+                      <SelectItem key={flag} value={flag}>{PREPARATORY_FLAG_LABELS[flag]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Warning Signal</Label>
+              <Select value={warningDelay} onValueChange={setWarningDelay}>
+                <SelectTrigger data-testid="select-warning-delay">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[10000]">
+                  {WARNING_DELAY_OPTIONS.map(opt => (
+                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Fleets (in start order)</Label>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1"
+                  onClick={() => setFleets([...fleets, { name: `Fleet ${fleets.length + 1}`, classFlag: "" }])}
+                  data-testid="button-add-fleet"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Add
+                </Button>
+              </div>
+              {fleets.map((fleet, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={fleet.name}
+                    placeholder="Fleet"
+                    onChange={(e) => setFleets(fleets.map((f, i) => (i === index ? { ...f, name: e.target.value } : f)))}
+                    data-testid={`input-fleet-name-${index}`}
+                  />
+                  <Input
+                    value={fleet.classFlag}
+                    placeholder="Class flag"
+                    onChange={(e) => setFleets(fleets.map((f, i) => (i === index ? { ...f, classFlag: e.target.value } : f)))}
+                    data-testid={`input-fleet-flag-${index}`}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={fleets.length === 1}
+                    onClick={() => setFleets(fleets.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-fleet-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <Button
+              className="w-full gap-2"
+              onClick={handleStart}
+              disabled={!canStart || action.isPending}
+              data-testid="button-start-sequence"
+            >
+              <PlayCircle className="h-4 w-4" />
+              Start Sequence
+            </Button>
+          </div>
+        ) : sequence && (
+          <div className="space-y-4" data-testid="start-sequence-running">
+            <div className="text-center rounded-xl bg-muted/50 p-4">
+              {nextSignal ? (
+                <>
+                  <p className="text-xs text-muted-foreground uppercase tracking-wide">
+                    {sequence.fleets[nextSignal.fleetIndex]?.name} · {SIGNAL_LABELS[nextSignal.kind]} in
+                  </p>
+                  <p className="text-5xl font-bold font-mono tabular-nums" data-testid="text-signal-countdown">
+                    {formatCountdown(nextSignal.at - now)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-lg font-semibold" data-testid="text-sequence-status">
+                  {sequence.status === "postponed" ? "Postponed (AP)" :
+                   sequence.status === "general_recall" ? "General Recall" :
+                   "All fleets started"}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-start justify-center gap-3 min-h-14" data-testid="visible-flags">
+              {flags.length > 0 ? (
+                flags.map((flag, i) => <SignalFlag key={`${flag.id}-${i}`} id={flag.id} label={flag.label} />)
+              ) : (
+                <span className="text-xs text-muted-foreground self-center">No flags displayed</span>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              {sequence.fleets.map((fleet, index) => {
+                const startAt = fleet.startAt ? new Date(fleet.startAt).getTime() : null;
+                const started = startAt !== null && startAt <= now;
+                const canRecall = started && sequence.status === "running" && now - startAt! < GENERAL_RECALL_WINDOW_MS;
+                const startCall = started ? startCalls[`${index}:${startAt}`] : undefined;
+                const showStartCall = startCall !== undefined && sequence.status === "running" && now - startAt! < INDIVIDUAL_RECALL_MS;
+                return (
+                  <div key={index} className="rounded-lg bg-muted/30" data-testid={`fleet-start-${index}`}>
+                    <div className="flex items-center gap-2 p-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold truncate">{fleet.name}</p>
+                        <p className="text-[11px] text-muted-foreground">
+                          {startAt === null
+                            ? "Awaiting new warning signal"
+                            : started
+                            ? `Started ${new Date(startAt).toLocaleTimeString()}`
+                            : `Start in ${formatCountdown(startAt - now)}`}
+                        </p>
+                      </div>
+                      {fleet.recalls > 0 && (
+                        <Badge variant="outline" className="text-[10px]">
+                          {fleet.recalls} recall{fleet.recalls !== 1 ? "s" : ""}
+                        </Badge>
+                      )}
+                      {canRecall && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          onClick={() => action.mutate({ action: "general-recall", fleetIndex: index })}
+                          disabled={action.isPending}
+                          data-testid={`button-general-recall-${index}`}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                          Recall
+                        </Button>
+                      )}
+                    </div>
+                    {showStartCall && <StartCallSummary analysis={startCall} fleetIndex={index} />}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {sequence.status === "running" && active ? (
+                <Button
+                  variant="outline"
+                  className="gap-1.5"
+                  onClick={() => action.mutate({ action: "postpone" })}
+                  disabled={action.isPending}
+                  data-testid="button-postpone"
+                >
+                  <PauseCircle className="h-4 w-4" />
+                  Postpone (AP)
+                </Button>
+              ) : sequence.status !== "running" ? (
+                <Button
+                  className="gap-1.5"
+                  onClick={() => action.mutate({ action: "resume" })}
+                  disabled={action.isPending}
+                  data-testid="button-resume"
+                >
+                  <PlayCircle className="h-4 w-4" />
+                  {sequence.status === "postponed" ? "Lower AP" : "Lower 1st Sub"}
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  className="gap-1.5"
+                  onClick={() => setIsSettingUp(true)}
+                  data-testid="button-new-sequence"
+                >
+                  <Plus className="h-4 w-4" />
+                  New Sequence
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="gap-1.5 text-destructive"
+                onClick={() => action.mutate({ action: "cancel" })}
+                disabled={action.isPending || !active}
+                data-testid="button-cancel-sequence"
+              >
+                <StopCircle className="h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
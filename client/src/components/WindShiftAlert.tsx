@@ -1,4 +1,4 @@
-import { AlertTriangle, RotateCw } from "lucide-react";
+import { AlertTriangle, RotateCw, Navigation } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
@@ -6,6 +6,8 @@ interface WindShiftAlertProps {
   setupWindDirection: number;
   currentWindDirection: number;
   onRealign: () => void;
+  // While racing the course is changed a leg at a time instead of re-aligned
+  onChangeNextLeg?: () => void;
 }
 
 function normalizeAngleDiff(angle: number): number {
@@ -14,7 +16,7 @@ function normalizeAngleDiff(angle: number): number {
   return angle;
 }
 
-export function WindShiftAlert({ setupWindDirection, currentWindDirection, onRealign }: WindShiftAlertProps) {
+export function WindShiftAlert({ setupWindDirection, currentWindDirection, onRealign, onChangeNextLeg }: WindShiftAlertProps) {
   const windShift = normalizeAngleDiff(currentWindDirection - setupWindDirection);
   const absShift = Math.abs(windShift);
   
@@ -37,16 +39,29 @@ export function WindShiftAlert({ setupWindDirection, currentWindDirection, onRea
       <div className="text-sm font-medium">
         Wind shifted {absShift.toFixed(0)}° {direction}
       </div>
-      <Button
-        size="sm"
-        variant={isSevere ? "secondary" : "outline"}
-        className="gap-1.5"
-        onClick={onRealign}
-        data-testid="button-realign-course"
-      >
-        <RotateCw className="w-4 h-4" />
-        Re-align
-      </Button>
+      {onChangeNextLeg ? (
+        <Button
+          size="sm"
+          variant={isSevere ? "secondary" : "outline"}
+          className="gap-1.5"
+          onClick={onChangeNextLeg}
+          data-testid="button-change-next-leg"
+        >
+          <Navigation className="w-4 h-4" />
+          Change Next Leg
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          variant={isSevere ? "secondary" : "outline"}
+          className="gap-1.5"
+          onClick={onRealign}
+          data-testid="button-realign-course"
+        >
+          <RotateCw className="w-4 h-4" />
+          Re-align
+        </Button>
+      )}
     </div>
   );
 }
@@ -1,19 +1,9 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
-import type { Buoy, BuoyState, BuoyInventoryStatus, BuoyOwnership, SiblingBuoy } from "@shared/schema";
+import type { Buoy, BuoyState, BuoyInventoryStatus, BuoyOwnership, SiblingBuoy, TrackedBoat } from "@shared/schema";
 
 const MIKROLIMANO_CENTER = { lat: 37.9376, lng: 23.6917 };
 
-export interface TrackedBoat {
-  id: string;
-  sailNumber: string;
-  lat: number;
-  lng: number;
-  heading: number;
-  speed: number;
-  timestamp: Date;
-  source: "vakaros" | "tractrac";
-  fleetId?: string;
-}
+export type { TrackedBoat } from "@shared/schema";
 
 const createDemoBuoy = (
   id: string,
@@ -35,6 +25,7 @@ const createDemoBuoy = (
   targetLat: null,
   targetLng: null,
   speed: 0,
+  heading: null,
   battery,
   signalStrength,
   windSpeed,
@@ -52,6 +43,8 @@ const createDemoBuoy = (
   batteryInfo: null,
   otherEquipment: null,
   hardwareConfig: null,
+  driftDistance: null,
+  lastTelemetryAt: null,
 });
 
 const DEMO_BUOYS_INITIAL: Buoy[] = [
@@ -85,6 +78,7 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     targetLat: null,
     targetLng: null,
     speed: 0,
+    heading: null,
     battery: 85,
     signalStrength: 92,
     windSpeed: 11.5,
@@ -102,6 +96,8 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     batteryInfo: null,
     otherEquipment: null,
     hardwareConfig: null,
+    driftDistance: null,
+    lastTelemetryAt: null,
     eventName: "Youth Regatta",
     sourceEventId: "demo-event-youth",
   },
@@ -116,6 +112,7 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     targetLat: null,
     targetLng: null,
     speed: 0,
+    heading: null,
     battery: 78,
     signalStrength: 88,
     windSpeed: 11.8,
@@ -133,6 +130,8 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     batteryInfo: null,
     otherEquipment: null,
     hardwareConfig: null,
+    driftDistance: null,
+    lastTelemetryAt: null,
     eventName: "Youth Regatta",
     sourceEventId: "demo-event-youth",
   },
@@ -147,6 +146,7 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     targetLat: null,
     targetLng: null,
     speed: 0,
+    heading: null,
     battery: 82,
     signalStrength: 90,
     windSpeed: 11.2,
@@ -164,6 +164,8 @@ const DEMO_SIBLING_BUOYS: SiblingBuoy[] = [
     batteryInfo: null,
     otherEquipment: null,
     hardwareConfig: null,
+    driftDistance: null,
+    lastTelemetryAt: null,
     eventName: "Youth Regatta",
     sourceEventId: "demo-event-youth",
   },
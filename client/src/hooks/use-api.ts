@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest, invalidateRelatedQueries } from "@/lib/queryClient";
-import type { Buoy, Course, Mark, Event, SailClub, BoatClass, BuoyWeatherHistory } from "@shared/schema";
+import type { Buoy, BuoyCommand, Course, Mark, Event, SailClub, BoatClass, BuoyWeatherHistory, StartSequence, PreparatoryFlag, StartSequencePreset, Race, RaceStatus, RaceFinish, ScoringCode, FinishSource, TrackedBoat, TrackedBoatsResponse, NmeaSnapshot, PositionHistoryResponse, RoundingSide, RaceLogEntry, RaceLogEntryWithAuthor, CommitteeRaceLogKind, AuditLogEntryWithUser, AuditEntityType } from "@shared/schema";
+import type { IntegrationSettings } from "@/lib/services/settings-service";
 
 export function useSailClubs() {
   return useQuery<SailClub[]>({
@@ -66,7 +67,9 @@ export function useMarks(courseId: string) {
   });
 }
 
-export function useBuoys(sailClubId?: string) {
+// The telemetry socket only covers the current event's buoys, so the inventory
+// keeps polling; it just slows down while the socket is patching event buoys
+export function useBuoys(sailClubId?: string, telemetryConnected: boolean = false) {
   return useQuery<Buoy[]>({
     queryKey: ["/api/buoys", { sailClubId }],
     queryFn: async () => {
@@ -79,7 +82,7 @@ export function useBuoys(sailClubId?: string) {
       }
       return res.json();
     },
-    refetchInterval: 5000,
+    refetchInterval: telemetryConnected ? 15000 : 5000,
   });
 }
 
@@ -170,6 +173,14 @@ export function useUpdateBuoy(courseId?: string, onError?: (error: Error) => voi
   });
 }
 
+export function useBuoyCommands(buoyId: string | null) {
+  return useQuery<BuoyCommand[]>({
+    queryKey: ["/api/buoys", buoyId, "commands"],
+    enabled: !!buoyId,
+    refetchInterval: 3000,
+  });
+}
+
 export function useBuoyCommand(
   demoSendCommand?: (buoyId: string, command: "move_to_target" | "hold_position" | "cancel", targetLat?: number, targetLng?: number) => void,
   courseId?: string,
@@ -265,6 +276,7 @@ export function useCreateMark(courseId?: string, onError?: (error: Error) => voi
       gatePartnerId?: string | null;
       gatePortBuoyId?: string | null;
       gateStarboardBuoyId?: string | null;
+      roundingSide?: RoundingSide | null;
     }) => {
       const res = await apiRequest("POST", "/api/marks", data);
       if (!res.ok) {
@@ -512,7 +524,13 @@ export interface CourseSnapshot {
   rotation: number;
   scale: number;
   roundingSequence: string[] | null;
+  designation: string | null;
+  roundingSides: Record<number, RoundingSide> | null;
   snapshotMarks: SnapshotMark[];
+  // First version's id, null on the first version itself
+  lineageId: string | null;
+  parentSnapshotId: string | null;
+  version: number;
   createdAt: string | null;
 }
 
@@ -530,6 +548,7 @@ export interface SnapshotMark {
   boatLengthMeters: number | null;
   gatePartnerId: string | null;
   gateSide: string | null;
+  roundingSide?: RoundingSide | null;
 }
 
 export function useCourseSnapshots(params: CourseSnapshotListParams = {}) {
@@ -552,19 +571,50 @@ export function useCourseSnapshots(params: CourseSnapshotListParams = {}) {
   });
 }
 
+export interface AuditLogParams {
+  sailClubId?: string;
+  eventId?: string;
+  userId?: string;
+  entityType?: AuditEntityType;
+  limit?: number;
+}
+
+export function useAuditLog(params: AuditLogParams = {}) {
+  return useQuery<AuditLogEntryWithUser[]>({
+    queryKey: ["/api/audit-log", params],
+    queryFn: async () => {
+      const queryString = new URLSearchParams();
+      if (params.sailClubId) queryString.set("sailClubId", params.sailClubId);
+      if (params.eventId) queryString.set("eventId", params.eventId);
+      if (params.userId) queryString.set("userId", params.userId);
+      if (params.entityType) queryString.set("entityType", params.entityType);
+      if (params.limit) queryString.set("limit", params.limit.toString());
+
+      const queryParam = queryString.toString() ? `?${queryString.toString()}` : "";
+      const res = await fetch(`/api/audit-log${queryParam}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+  });
+}
+
 export interface SaveCourseSnapshotData {
   courseId: string;
   name: string;
   category?: string;
   description?: string;
   thumbnailSvg?: string;
+  // Saves a new version of this saved course rather than a separate course
+  parentSnapshotId?: string;
 }
 
 export function useSaveCourseSnapshot(onError?: (error: Error) => void) {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (data: SaveCourseSnapshotData) => {
+    mutationFn: async (data: SaveCourseSnapshotData): Promise<CourseSnapshot> => {
       const res = await apiRequest("POST", "/api/course-snapshots", data);
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
@@ -616,3 +666,359 @@ export function useLoadCourseSnapshot(snapshotId: string | null) {
     enabled: !!snapshotId,
   });
 }
+
+export function useCourseSnapshotVersions(snapshotId: string | null) {
+  return useQuery<CourseSnapshot[]>({
+    queryKey: ["/api/course-snapshots", snapshotId, "versions"],
+    queryFn: async () => {
+      const res = await fetch(`/api/course-snapshots/${snapshotId}/versions`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+    enabled: !!snapshotId,
+  });
+}
+
+// Saves a copy of an earlier version as the newest version of its course
+export function useRestoreCourseSnapshot(onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (id: string): Promise<CourseSnapshot> => {
+      const res = await apiRequest("POST", `/api/course-snapshots/${id}/restore`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/course-snapshots"] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+// Race hooks
+
+export function useRaces(eventId: string | null) {
+  return useQuery<Race[]>({
+    queryKey: [`/api/events/${eventId}/races`],
+    enabled: !!eventId,
+  });
+}
+
+export function useRaceCourse(eventId: string | null, raceId: string | null) {
+  return useQuery<CourseSnapshot>({
+    queryKey: [`/api/events/${eventId}/races`, raceId, "course"],
+    enabled: !!eventId && !!raceId,
+  });
+}
+
+export function useCreateRace(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { raceNumber?: number; fleet?: string | null; startTime?: string | null }) => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/races`, data);
+      return res.json() as Promise<Race>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+export function useUpdateRace(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: {
+      id: string;
+      data: { raceNumber?: number; fleet?: string | null; startTime?: string | null; status?: RaceStatus };
+    }) => {
+      const res = await apiRequest("PATCH", `/api/events/${eventId}/races/${id}`, data);
+      return res.json() as Promise<Race>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+export function useDeleteRace(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/events/${eventId}/races/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+// Race finish hooks
+
+export interface RaceFinishInput {
+  sailNumber?: string | null;
+  finishTime?: string | null;
+  scoringCode?: ScoringCode | null;
+  source?: FinishSource;
+}
+
+export function useRaceFinishes(eventId: string | null, raceId: string | null) {
+  return useQuery<RaceFinish[]>({
+    queryKey: [`/api/events/${eventId}/races`, raceId, "finishes"],
+    enabled: !!eventId && !!raceId,
+    // Keep several finish-boat devices in step
+    refetchInterval: 5000,
+  });
+}
+
+export function useRecordFinish(eventId: string | null, raceId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: RaceFinishInput) => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/races/${raceId}/finishes`, data);
+      return res.json() as Promise<RaceFinish>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`, raceId, "finishes"] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+export function useUpdateFinish(eventId: string | null, raceId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Omit<RaceFinishInput, "source"> }) => {
+      const res = await apiRequest("PATCH", `/api/events/${eventId}/races/${raceId}/finishes/${id}`, data);
+      return res.json() as Promise<RaceFinish>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`, raceId, "finishes"] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+export function useDeleteFinish(eventId: string | null, raceId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/events/${eventId}/races/${raceId}/finishes/${id}`);
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/races`, raceId, "finishes"] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+// Race committee log hooks
+
+export interface RaceLogEntryInput {
+  raceId?: string | null;
+  kind: CommitteeRaceLogKind;
+  summary: string;
+  data?: Record<string, unknown> | null;
+  windDirection?: number | null;
+  windSpeed?: number | null;
+}
+
+// Polled: signals, mark moves and buoy commands are logged by the server as they happen
+export function useRaceLog(eventId: string | null) {
+  return useQuery<RaceLogEntryWithAuthor[]>({
+    queryKey: [`/api/events/${eventId}/race-log`],
+    enabled: !!eventId,
+    refetchInterval: 10000,
+  });
+}
+
+export function useAddRaceLogEntry(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: RaceLogEntryInput) => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/race-log`, data);
+      return res.json() as Promise<RaceLogEntry>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/race-log`] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+// Boat tracking
+
+// Module-level so the selected array only changes when new positions arrive
+function selectTrackedBoats(data: TrackedBoatsResponse): TrackedBoat[] {
+  return data.boats.map(boat => ({ ...boat, timestamp: new Date(boat.timestamp) }));
+}
+
+/**
+ * Boats from the Vakaros and TracTrac feeds set on the event, limited to the
+ * providers enabled in the integration settings, polled at the configured
+ * boat refresh rate.
+ */
+export function useTrackedBoats(eventId: string | null, integrations: IntegrationSettings) {
+  const sources = (["vakaros", "tractrac"] as const).filter(source => integrations[source].enabled);
+  return useQuery<TrackedBoatsResponse, Error, TrackedBoat[]>({
+    queryKey: [`/api/events/${eventId}/tracked-boats?sources=${sources.join(",")}`],
+    select: selectTrackedBoats,
+    enabled: !!eventId && sources.length > 0,
+    refetchInterval: integrations.boatRefreshRateSeconds * 1000,
+  });
+}
+
+// Committee boat NMEA feed
+
+export function useNmeaSnapshot(eventId: string | null) {
+  return useQuery<NmeaSnapshot>({
+    queryKey: [`/api/events/${eventId}/nmea`],
+    enabled: !!eventId,
+    refetchInterval: 2000,
+  });
+}
+
+export interface NmeaIngestResult {
+  sentences: number;
+  readings: number;
+}
+
+export function useUploadNmeaLog(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (log: string): Promise<NmeaIngestResult> => {
+      const res = await fetch(`/api/events/${eventId}/nmea?recording=true`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: log,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/events/${eventId}/nmea`] });
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
+
+// Race replay
+
+export interface ReplayWindow {
+  from: Date;
+  to: Date;
+}
+
+/** Recorded positions and wind over a past window; the recording doesn't change, so it is fetched once. */
+export function usePositionHistory(eventId: string | null, window: ReplayWindow | null) {
+  const from = window?.from.toISOString();
+  const to = window?.to.toISOString();
+
+  return useQuery<PositionHistoryResponse>({
+    queryKey: [`/api/events/${eventId}/position-history`, { from, to }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: from!, to: to! });
+      const res = await fetch(`/api/events/${eventId}/position-history?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${await res.text()}`);
+      }
+      return res.json();
+    },
+    enabled: !!eventId && !!window,
+    staleTime: Infinity,
+  });
+}
+
+// Start sequence hooks
+
+export interface StartSequenceResponse {
+  sequence: StartSequence | null;
+  serverTime: string;
+}
+
+export interface StartSequenceRequest {
+  preset: StartSequencePreset;
+  preparatoryFlag: PreparatoryFlag;
+  fleets: Array<{ name: string; classFlag: string }>;
+  warningAt?: string;
+}
+
+export type StartSequenceAction =
+  | { action: "start"; data: StartSequenceRequest }
+  | { action: "postpone" }
+  | { action: "resume" }
+  | { action: "general-recall"; fleetIndex: number }
+  | { action: "cancel" };
+
+export function useStartSequence(eventId: string | null) {
+  return useQuery<StartSequenceResponse>({
+    queryKey: [`/api/events/${eventId}/start-sequence`],
+    enabled: !!eventId,
+    // Picks up signals made from other Race Control screens
+    refetchInterval: 5000,
+  });
+}
+
+export function useStartSequenceAction(eventId: string | null, onError?: (error: Error) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: StartSequenceAction): Promise<StartSequenceResponse> => {
+      if (!eventId) throw new Error("No active event");
+      const base = `/api/events/${eventId}/start-sequence`;
+      let res: Response;
+      switch (request.action) {
+        case "start":
+          res = await apiRequest("POST", base, request.data);
+          break;
+        case "general-recall":
+          res = await apiRequest("POST", `${base}/general-recall`, { fleetIndex: request.fleetIndex });
+          break;
+        default:
+          res = await apiRequest("POST", `${base}/${request.action}`);
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([`/api/events/${eventId}/start-sequence`], data);
+    },
+    onError: (error: Error) => {
+      onError?.(error);
+    },
+  });
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Buoy } from "@shared/schema";
+import { buoyService } from "@/lib/services/buoy-service";
+import { buoyTelemetryService, type TelemetryStatus } from "@/lib/services/buoy-telemetry-service";
+
+function replaceBuoy(list: Buoy[], buoy: Buoy): Buoy[] {
+  return list.map(b => (b.id === buoy.id ? { ...b, ...buoy } : b));
+}
+
+/**
+ * Streams live buoy updates for an event over the telemetry socket and mirrors
+ * them into the React Query caches so existing queries re-render without polling.
+ * Pass null to disconnect (e.g. in demo mode or with no active event).
+ */
+export function useBuoyTelemetry(eventId: string | null) {
+  const queryClient = useQueryClient();
+  const status = useBuoyTelemetryStatus();
+
+  useEffect(() => {
+    if (!eventId) {
+      buoyTelemetryService.disconnect();
+      return;
+    }
+
+    const eventBuoysKey = [`/api/events/${eventId}/buoys`];
+    buoyTelemetryService.connect(eventId);
+
+    const unsubscribe = buoyTelemetryService.subscribe((message) => {
+      switch (message.type) {
+        case "snapshot":
+          queryClient.setQueryData<Buoy[]>(eventBuoysKey, message.buoys);
+          break;
+        case "buoy_added":
+        case "buoy_delta": {
+          const buoyId = message.type === "buoy_added" ? message.buoy.id : message.buoyId;
+          const buoy = buoyService.getById(buoyId);
+          if (!buoy) return;
+
+          queryClient.setQueryData<Buoy[]>(eventBuoysKey, (old = []) =>
+            old.some(b => b.id === buoy.id) ? replaceBuoy(old, buoy) : [...old, buoy]
+          );
+          // Keep inventory lists (["/api/buoys", {...}]) and single-buoy queries in step
+          queryClient.setQueriesData<Buoy[] | Buoy>({
+            predicate: (query) => query.queryKey[0] === "/api/buoys" && query.queryKey.length <= 2,
+          }, (old) => {
+            if (Array.isArray(old)) return replaceBuoy(old, buoy);
+            if (old && old.id === buoy.id) return { ...old, ...buoy };
+            return old;
+          });
+          break;
+        }
+        case "buoy_removed":
+          queryClient.setQueryData<Buoy[]>(eventBuoysKey, (old = []) =>
+            old.filter(b => b.id !== message.buoyId)
+          );
+          // The buoy left the event (or was deleted); inventory lists need the new assignment
+          queryClient.invalidateQueries({
+            predicate: (query) => query.queryKey[0] === "/api/buoys" && query.queryKey.length <= 2,
+          });
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      buoyTelemetryService.disconnect();
+    };
+  }, [eventId, queryClient]);
+
+  return { status };
+}
+
+export function useBuoyTelemetryStatus(): TelemetryStatus {
+  const [status, setStatus] = useState<TelemetryStatus>(buoyTelemetryService.getStatus());
+
+  useEffect(() => {
+    return buoyTelemetryService.subscribeToStatus(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from "react";
+import { courseHistory, type CourseHistoryOutcome, type CourseHistorySnapshot } from "@/lib/course-history";
+
+/** Undo and redo for the course being edited. Without a course, edits run unrecorded. */
+export function useCourseHistory(courseId: string | null | undefined) {
+  const [snapshot, setSnapshot] = useState<CourseHistorySnapshot>(() => courseHistory.getSnapshot(courseId ?? ""));
+
+  useEffect(() => {
+    const update = () => setSnapshot(courseHistory.getSnapshot(courseId ?? ""));
+    update();
+    return courseHistory.subscribe(update);
+  }, [courseId]);
+
+  const record = useCallback((label: string, edit: () => Promise<unknown>): Promise<boolean> => {
+    if (!courseId) {
+      return edit().then(() => true, () => false);
+    }
+    return courseHistory.record(courseId, label, edit);
+  }, [courseId]);
+
+  const beginGroup = useCallback(async (label: string) => {
+    if (courseId) await courseHistory.beginGroup(courseId, label);
+  }, [courseId]);
+
+  const endGroup = useCallback(async () => {
+    if (courseId) await courseHistory.endGroup(courseId);
+  }, [courseId]);
+
+  const undo = useCallback(async (): Promise<CourseHistoryOutcome | null> => {
+    return courseId ? courseHistory.undo(courseId) : null;
+  }, [courseId]);
+
+  const redo = useCallback(async (): Promise<CourseHistoryOutcome | null> => {
+    return courseId ? courseHistory.redo(courseId) : null;
+  }, [courseId]);
+
+  return {
+    ...snapshot,
+    record,
+    beginGroup,
+    endGroup,
+    undo,
+    redo,
+  };
+}
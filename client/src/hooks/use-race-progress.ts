@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Race } from "@shared/schema";
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import {
+  advanceBoatProgress,
+  carryBoatProgress,
+  createBoatProgress,
+  rankBoats,
+  summarizeLegs,
+  type BoatProgress,
+  type CourseWaypoint,
+  type LegProgress,
+} from "@/lib/rounding-detection";
+
+export interface RaceProgress {
+  raceId: string;
+  waypoints: CourseWaypoint[];
+  boats: BoatProgress[];
+  legs: LegProgress[];
+}
+
+/**
+ * Follows tracked boats round the course from the race's start signal. Progress
+ * starts over when the race or its start time changes; when the rounding
+ * sequence changes, what boats have sailed of the new course is kept.
+ */
+export function useRaceProgress(
+  trackedBoats: TrackedBoat[],
+  waypoints: CourseWaypoint[],
+  race: Race | null
+): RaceProgress | null {
+  const startAt = race?.startTime ? new Date(race.startTime).getTime() : null;
+  const progressRef = useRef(new Map<string, BoatProgress>());
+  const [boats, setBoats] = useState<BoatProgress[]>([]);
+
+  const raceKey = `${race?.id}:${startAt}`;
+  useEffect(() => {
+    progressRef.current = new Map();
+    setBoats([]);
+  }, [raceKey]);
+
+  const waypointKeys = waypoints.map(w => w.key).join(",");
+  const waypointKeysRef = useRef(waypointKeys);
+  useEffect(() => {
+    const previousKeys = waypointKeysRef.current.split(",");
+    waypointKeysRef.current = waypointKeys;
+    if (previousKeys.join(",") === waypointKeys) return;
+
+    const progress = progressRef.current;
+    progress.forEach((boat, id) => progress.set(id, carryBoatProgress(boat, previousKeys, waypoints)));
+    setBoats(rankBoats(Array.from(progress.values())));
+  }, [waypointKeys]);
+
+  useEffect(() => {
+    if (startAt === null || waypoints.length < 2) return;
+
+    const progress = progressRef.current;
+    trackedBoats.forEach(boat => {
+      const timestamp = new Date(boat.timestamp);
+      if (timestamp.getTime() < startAt) return;
+
+      const fix = { lat: boat.lat, lng: boat.lng, timestamp };
+      const existing = progress.get(boat.id);
+      progress.set(boat.id, existing
+        ? advanceBoatProgress(existing, fix, waypoints)
+        : createBoatProgress(boat.id, boat.sailNumber, startAt, fix, waypoints.length));
+    });
+    setBoats(rankBoats(Array.from(progress.values())));
+  }, [trackedBoats, waypoints, startAt]);
+
+  const legs = useMemo(() => summarizeLegs(waypoints, boats), [waypoints, boats]);
+
+  return race ? { raceId: race.id, waypoints, boats, legs } : null;
+}
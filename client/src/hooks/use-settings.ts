@@ -1,5 +1,5 @@
 import { useCallback, useState, useEffect, useRef } from "react";
-import type { DistanceUnit, SpeedUnit } from "@shared/schema";
+import type { DistanceUnit, SpeedUnit, WindSource } from "@shared/schema";
 import { useUserSettings, useUpdateUserSettings } from "./use-api";
 import { useAuth } from "./useAuth";
 import type { StartLineResizeMode, StartLineFixBearingMode, CourseResizeStartLineMode, WindAngleDefaults, BuoyFollowSettings, MapLayerType, BuoyDeployMode, CourseAdjustmentSettings, IntegrationSettings } from "@/lib/services/settings-service";
@@ -79,6 +79,9 @@ export function useSettings() {
   const [speedUnit, setSpeedUnitState] = useState<SpeedUnit>(
     settingsService.getSpeedUnit()
   );
+  const [windSource, setWindSourceState] = useState<WindSource>(
+    settingsService.getWindSource()
+  );
   const [startLineResizeMode, setStartLineResizeModeState] = useState<StartLineResizeMode>(
     settingsService.getStartLineResizeMode()
   );
@@ -125,6 +128,7 @@ export function useSettings() {
       settingsService.loadFromDatabase({
         distanceUnit: (settings.distanceUnit as DistanceUnit) ?? "nautical_miles",
         speedUnit: (settings.speedUnit as SpeedUnit) ?? "knots",
+        windSource: (settings.windSource as WindSource) ?? "buoy",
         mapLayer: (settings.mapLayer as MapLayerType) ?? DEFAULT_MAP_LAYER,
         showSeaMarks: settings.showSeaMarks ?? true,
         showSiblingBuoys: settings.showSiblingBuoys ?? true,
@@ -137,7 +141,8 @@ export function useSettings() {
         windAngleDefaults: (settings.windAngleDefaults as unknown as WindAngleDefaults) ?? { ...DEFAULT_WIND_ANGLES },
         buoyFollow: (settings.buoyFollowSettings as unknown as BuoyFollowSettings) ?? { ...DEFAULT_BUOY_FOLLOW },
         courseAdjustment: (settings.courseAdjustmentSettings as unknown as CourseAdjustmentSettings) ?? { ...DEFAULT_COURSE_ADJUSTMENT },
-        integrations: (settings.integrations as unknown as IntegrationSettings) ?? { ...DEFAULT_INTEGRATION_SETTINGS },
+        // Merged so settings saved before a field existed pick up its default
+        integrations: { ...DEFAULT_INTEGRATION_SETTINGS, ...(settings.integrations as unknown as Partial<IntegrationSettings>) },
       });
     }
   }, [settings, user]);
@@ -148,6 +153,7 @@ export function useSettings() {
       updateSettings.mutate({
         distanceUnit: payload.distanceUnit,
         speedUnit: payload.speedUnit,
+        windSource: payload.windSource,
         mapLayer: payload.mapLayer,
         showSeaMarks: payload.showSeaMarks,
         showSiblingBuoys: payload.showSiblingBuoys,
@@ -170,6 +176,7 @@ export function useSettings() {
     const unsubscribe = settingsService.subscribe(() => {
       setDistanceUnitState(settingsService.getDistanceUnit());
       setSpeedUnitState(settingsService.getSpeedUnit());
+      setWindSourceState(settingsService.getWindSource());
       setStartLineResizeModeState(settingsService.getStartLineResizeMode());
       setStartLineFixBearingModeState(settingsService.getStartLineFixBearingMode());
       setCourseResizeStartLineModeState(settingsService.getCourseResizeStartLineMode());
@@ -255,18 +262,10 @@ export function useSettings() {
     settingsService.setVakarosEnabled(enabled);
   }, []);
 
-  const setVakarosEventId = useCallback((eventId: string) => {
-    settingsService.setVakarosEventId(eventId);
-  }, []);
-
   const setTractracEnabled = useCallback((enabled: boolean) => {
     settingsService.setTractracEnabled(enabled);
   }, []);
 
-  const setTractracEventId = useCallback((eventId: string) => {
-    settingsService.setTractracEventId(eventId);
-  }, []);
-
   const setShowBoatTrails = useCallback((show: boolean) => {
     settingsService.setShowBoatTrails(show);
   }, []);
@@ -275,6 +274,14 @@ export function useSettings() {
     settingsService.setBoatRefreshRate(seconds);
   }, []);
 
+  const setShowAisTargets = useCallback((show: boolean) => {
+    settingsService.setShowAisTargets(show);
+  }, []);
+
+  const setWindSource = useCallback((source: WindSource) => {
+    settingsService.setWindSource(source);
+  }, []);
+
   const resetIntegrationSettings = useCallback(() => {
     settingsService.resetIntegrationSettings();
   }, []);
@@ -316,6 +323,8 @@ export function useSettings() {
     speedUnit,
     setDistanceUnit,
     setSpeedUnit,
+    windSource,
+    setWindSource,
     formatDistance,
     formatSpeed,
     formatBearing,
@@ -349,11 +358,10 @@ export function useSettings() {
     setMarkNudgeMeters,
     integrationSettings,
     setVakarosEnabled,
-    setVakarosEventId,
     setTractracEnabled,
-    setTractracEventId,
     setShowBoatTrails,
     setBoatRefreshRate,
+    setShowAisTargets,
     resetIntegrationSettings,
     isAnyBoatTrackingEnabled,
   };
@@ -14,6 +14,8 @@ export interface BatchResult {
   failed: number;
   errors: Array<{ id: string; error: Error }>;
   marksAssignedWithoutBuoyCommand: string[];
+  // Operations undone after a failure, newest first
+  rolledBack: number;
 }
 
 export async function executeBatchedMutations(
@@ -21,16 +23,19 @@ export async function executeBatchedMutations(
   options: {
     onProgress?: (completed: number, total: number) => void;
     stopOnError?: boolean;
+    // On the first failure, stop and roll back what was done, so the batch applies all or nothing
+    rollbackOnError?: boolean;
     courseId?: string;
   } = {}
 ): Promise<BatchResult> {
-  const { onProgress, stopOnError = false, courseId } = options;
+  const { onProgress, stopOnError = false, rollbackOnError = false, courseId } = options;
   const results: BatchResult = {
     success: true,
     completed: 0,
     failed: 0,
     errors: [],
     marksAssignedWithoutBuoyCommand: [],
+    rolledBack: 0,
   };
 
   const completedOps: MutationOperation[] = [];
@@ -47,6 +52,10 @@ export async function executeBatchedMutations(
       results.success = false;
       results.errors.push({ id: op.id, error: error as Error });
       
+      if (rollbackOnError) {
+        await rollbackOperations(completedOps, results);
+        break;
+      }
       if (stopOnError) {
         break;
       }
@@ -61,6 +70,18 @@ export async function executeBatchedMutations(
   return results;
 }
 
+async function rollbackOperations(completedOps: MutationOperation[], results: BatchResult): Promise<void> {
+  for (const op of [...completedOps].reverse()) {
+    if (!op.rollback) continue;
+    try {
+      await op.rollback();
+      results.rolledBack++;
+    } catch (error) {
+      results.errors.push({ id: `rollback-${op.id}`, error: error as Error });
+    }
+  }
+}
+
 export function applyOptimisticMarkUpdate(
   courseId: string,
   markId: string,
@@ -131,6 +152,7 @@ export async function executeAutoAssignWithRecovery(
     failed: 0,
     errors: [],
     marksAssignedWithoutBuoyCommand: [],
+    rolledBack: 0,
   };
 
   const totalOperations = assignments.length * 2;
@@ -130,6 +130,33 @@ export function movePoint(
   };
 }
 
+/** Port and starboard buoys of a gate, laid square to the wind either side of its center. */
+export function calculateGatePositions(
+  centerLat: number, 
+  centerLng: number, 
+  windDirection: number, 
+  gateWidthMeters: number
+): { port: { lat: number; lng: number }; starboard: { lat: number; lng: number } } {
+  const perpendicularAngle = (windDirection + 90) % 360;
+  const halfWidthDegrees = (gateWidthMeters / 2) / 111320;
+  
+  const portAngleRad = (perpendicularAngle + 180) * Math.PI / 180;
+  const starboardAngleRad = perpendicularAngle * Math.PI / 180;
+  
+  const latCorrection = Math.cos(centerLat * Math.PI / 180);
+  
+  return {
+    port: {
+      lat: centerLat + halfWidthDegrees * Math.cos(portAngleRad),
+      lng: centerLng + (halfWidthDegrees / latCorrection) * Math.sin(portAngleRad),
+    },
+    starboard: {
+      lat: centerLat + halfWidthDegrees * Math.cos(starboardAngleRad),
+      lng: centerLng + (halfWidthDegrees / latCorrection) * Math.sin(starboardAngleRad),
+    },
+  };
+}
+
 export interface AdjustToWindResult {
   lat: number;
   lng: number;
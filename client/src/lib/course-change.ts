@@ -0,0 +1,108 @@
+import type { Mark } from "@shared/schema";
+import { bearingDelta, calculateBearing, calculateDistance, movePoint, normalizeBearing } from "./course-bearings";
+import { getStartLineMarks } from "./line-crossing";
+import type { BoatProgress, CourseWaypoint } from "./rounding-detection";
+
+// Changing the next leg of the course (RRS 33). Only the mark at the end of a
+// leg no boat has begun is moved; the committee boat at the mark where that leg
+// begins displays flag C with the new compass bearing, and "-" or "+" when the
+// leg gets shorter or longer.
+
+export interface CourseChangeLeg {
+  // Rounding sequence index of the mark the leg leads to
+  sequenceIndex: number;
+  mark: Mark;
+  // Where the leg begins: the previous mark, or the middle of the start line
+  from: { name: string; lat: number; lng: number };
+}
+
+export interface CourseChange {
+  lat: number;
+  lng: number;
+  // Compass bearing from the start of the leg to the moved mark
+  bearing: number;
+  previousBearing: number;
+  distanceMeters: number;
+  previousDistanceMeters: number;
+  // Degrees, positive clockwise
+  bearingChange: number;
+  lengthSign: "+" | "-" | null;
+}
+
+// Length changes smaller than this are not signalled
+const LENGTH_SIGNAL_THRESHOLD = 0.02;
+
+/** Legs that can be changed by moving the mark they lead to. Legs to the finish are not included. */
+export function getChangeableLegs(roundingSequence: string[], marks: Mark[]): CourseChangeLeg[] {
+  const markMap = new Map(marks.map(m => [m.id, m]));
+  const startLine = getStartLineMarks(marks);
+  const legs: CourseChangeLeg[] = [];
+
+  roundingSequence.forEach((entry, index) => {
+    const mark = markMap.get(entry);
+    if (!mark || index === 0) return;
+
+    const prevEntry = roundingSequence[index - 1];
+    const prev = markMap.get(prevEntry);
+    const from = prev
+      ? { name: prev.name, lat: prev.lat, lng: prev.lng }
+      : prevEntry === "start" && startLine
+        ? { name: "Start", lat: (startLine[0].lat + startLine[1].lat) / 2, lng: (startLine[0].lng + startLine[1].lng) / 2 }
+        : null;
+    if (from) {
+      legs.push({ sequenceIndex: index, mark, from });
+    }
+  });
+  return legs;
+}
+
+/**
+ * The leg after the one the leading boat is sailing: the first leg no boat has
+ * begun. Null when no boat is followed or the leader is on its last leg.
+ */
+export function findNextLegToChange(
+  legs: CourseChangeLeg[],
+  waypoints: CourseWaypoint[],
+  leader: BoatProgress | undefined
+): CourseChangeLeg | null {
+  if (!leader) return null;
+  const next = waypoints[leader.nextWaypoint + 1];
+  return next ? legs.find(l => l.sequenceIndex === next.sequenceIndex) ?? null : null;
+}
+
+/** Bearing change that keeps a leg at its angle to the wind: the shift since the course was set. */
+export function getWindShift(setupWindDirection: number | null, windDirection: number | undefined): number {
+  if (setupWindDirection === null || windDirection === undefined) return 0;
+  return Math.round(bearingDelta(setupWindDirection, windDirection));
+}
+
+/** Where the mark goes when its leg is turned by `bearingChange` and lengthened by `lengthChangePercent`. */
+export function computeCourseChange(leg: CourseChangeLeg, bearingChange: number, lengthChangePercent: number): CourseChange {
+  const { from, mark } = leg;
+  const previousBearing = calculateBearing(from.lat, from.lng, mark.lat, mark.lng);
+  const previousDistanceMeters = calculateDistance(from.lat, from.lng, mark.lat, mark.lng);
+  const bearing = normalizeBearing(previousBearing + bearingChange);
+  const distanceMeters = previousDistanceMeters * (1 + lengthChangePercent / 100);
+  const position = movePoint(from.lat, from.lng, bearing, distanceMeters);
+
+  const lengthRatio = distanceMeters / previousDistanceMeters - 1;
+  return {
+    ...position,
+    bearing,
+    previousBearing,
+    distanceMeters,
+    previousDistanceMeters,
+    bearingChange,
+    lengthSign: lengthRatio >= LENGTH_SIGNAL_THRESHOLD ? "+" : lengthRatio <= -LENGTH_SIGNAL_THRESHOLD ? "-" : null,
+  };
+}
+
+/** Compass bearing as boards show it, three digits: "005°". */
+export function formatCompassBearing(bearing: number): string {
+  return `${String(Math.round(normalizeBearing(bearing)) % 360).padStart(3, "0")}°`;
+}
+
+/** The board on the signal boat, e.g. "C 215° +". */
+export function formatCourseChangeSignal(change: CourseChange): string {
+  return `C ${formatCompassBearing(change.bearing)}${change.lengthSign ? ` ${change.lengthSign}` : ""}`;
+}
@@ -0,0 +1,750 @@
+import { z } from "zod";
+import { markRoleSchema, type MarkRole, type RoundingSide, type SnapshotMark } from "@shared/schema";
+
+// Course exchange with chartplotters and tracking apps as GPX, KML or
+// GeoJSON. A course is written as a waypoint per mark, with its role, plus
+// the rounding sequence as a route through the marks (the start and finish
+// as the middle of their lines), carrying the side each entry is left on and
+// the course designation, and the start and finish lines. Files from
+// other tools rarely carry roles, so on import a role missing from the file
+// is guessed from the mark's name.
+
+export type CourseFileFormat = "gpx" | "kml" | "geojson";
+
+export const COURSE_FILE_FORMATS: { value: CourseFileFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "gpx", label: "GPX", extension: "gpx", mimeType: "application/gpx+xml" },
+  { value: "kml", label: "KML", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  { value: "geojson", label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+];
+
+export const COURSE_FILE_ACCEPT = ".gpx,.kml,.geojson,.json";
+
+export const MARK_ROLE_LABELS: Record<MarkRole, string> = {
+  start_boat: "Committee Boat",
+  pin: "Pin End",
+  windward: "Windward",
+  wing: "Wing",
+  leeward: "Leeward",
+  gate: "Gate",
+  offset: "Offset",
+  turning_mark: "Turning Point",
+  finish: "Finish",
+  other: "Other",
+};
+
+export interface CourseFileData {
+  name: string;
+  marks: SnapshotMark[];
+  // Mark names, with "start" and "finish" for the lines
+  roundingSequence: string[];
+  // Side each rounding sequence entry is left on, by index; lines and gates have none
+  roundingSides: Record<number, RoundingSide>;
+  // Course code from the sailing instructions, e.g. "L2"
+  designation: string | null;
+}
+
+export interface ImportedMark {
+  name: string;
+  lat: number;
+  lng: number;
+  role: MarkRole;
+  // False when the role was guessed from the name
+  roleFromFile: boolean;
+  isStartLine: boolean;
+  isFinishLine: boolean;
+  roundingSide: RoundingSide | null;
+}
+
+export interface ImportedCourseFile {
+  format: CourseFileFormat;
+  name: string | null;
+  marks: ImportedMark[];
+  roundingSequence: string[];
+  // By rounding sequence index, where the file gives a side for the entry
+  roundingSides: Record<number, RoundingSide>;
+  designation: string | null;
+}
+
+type RoutePoint = { name: string; lat: number; lng: number; side?: RoundingSide };
+
+// A rounding sequence entry with the side it is left on
+type SequenceEntry = { entry: string; side: RoundingSide | null };
+
+const COURSE_ROUTE = "course";
+const START_LINE = "start_line";
+const FINISH_LINE = "finish_line";
+
+// Ordered: the first pattern that matches the name wins
+const ROLE_PATTERNS: [RegExp, MarkRole][] = [
+  [/committee|signal boat|start boat|\brc\b|\bcb\b/i, "start_boat"],
+  [/\bpin\b/i, "pin"],
+  [/finish/i, "finish"],
+  [/offset|spreader|\b1a\b/i, "offset"],
+  [/gate|\b[34][sp]\b/i, "gate"],
+  [/windward|weather|\btop\b|\bmark 1\b|^1$/i, "windward"],
+  [/wing|gybe|jibe|reach|\bmark 2\b|^2$/i, "wing"],
+  [/leeward|\bbottom\b|\bmark [34]\b|^[34]$/i, "leeward"],
+];
+
+/** Role from a waypoint's name or description; a plain turning mark when nothing matches. */
+export function inferMarkRole(name: string, description?: string | null): MarkRole {
+  const text = `${name} ${description ?? ""}`.trim();
+  for (const [pattern, role] of ROLE_PATTERNS) {
+    if (pattern.test(text)) return role;
+  }
+  return "turning_mark";
+}
+
+/** Which lines a mark of this role is an end of. */
+export function getRoleLineFlags(role: MarkRole): { isStartLine: boolean; isFinishLine: boolean } {
+  return {
+    isStartLine: role === "start_boat" || role === "pin",
+    isFinishLine: role === "finish",
+  };
+}
+
+// Roles that are rounded; the server won't put them on the start line
+const COURSE_MARK_ROLES: MarkRole[] = ["windward", "wing", "leeward", "gate", "offset", "turning_mark"];
+
+/**
+ * Why a mapped mark can't be saved with its role and line flags, or null if it can.
+ * Mirrors the server's role consistency checks so an import fails before any request.
+ */
+export function getImportedMarkProblem(mark: Pick<ImportedMark, "role" | "isStartLine" | "isFinishLine">): string | null {
+  const label = MARK_ROLE_LABELS[mark.role];
+  if ((mark.role === "start_boat" || mark.role === "pin") && !mark.isStartLine) {
+    return `${label} must be on the start line`;
+  }
+  if (mark.role === "finish" && !mark.isFinishLine) {
+    return "Finish must be on the finish line";
+  }
+  if (mark.role === "gate" && (mark.isStartLine || mark.isFinishLine)) {
+    return "A gate can't be on the start or finish line";
+  }
+  if (mark.isStartLine && COURSE_MARK_ROLES.includes(mark.role)) {
+    return `${label} can't be on the start line`;
+  }
+  return null;
+}
+
+/** Why a course can't be imported as mapped, or null if it can. */
+export function getImportedCourseProblem(data: CourseFileData): string | null {
+  const names = new Set<string>();
+  for (const mark of data.marks) {
+    if (names.has(mark.name)) return `More than one point is named "${mark.name}"`;
+    names.add(mark.name);
+  }
+  return null;
+}
+
+// Marks are matched to the rounding sequence by name, so a repeated name gets
+// a number; references in the file's routes resolve to the first of them
+function uniqueMarkNames(marks: RawMark[]): RawMark[] {
+  const used = new Set<string>();
+  return marks.map(mark => {
+    let name = mark.name;
+    for (let n = 2; used.has(name); n++) {
+      name = `${mark.name} (${n})`;
+    }
+    used.add(name);
+    return name === mark.name ? mark : { ...mark, name };
+  });
+}
+
+function parseRole(value: unknown): MarkRole | null {
+  const result = markRoleSchema.safeParse(typeof value === "string" ? value.trim() : value);
+  return result.success ? result.data : null;
+}
+
+function parseRoundingSide(value: unknown): RoundingSide | null {
+  if (typeof value !== "string") return null;
+  const match = value.match(/\b(port|starboard)\b/i);
+  return match ? (match[1].toLowerCase() as RoundingSide) : null;
+}
+
+// Sides as written on a course route: one per entry, null for the lines and gates
+function parseRoundingSides(value: unknown): (RoundingSide | null)[] | null {
+  if (typeof value === "string") {
+    try {
+      return parseRoundingSides(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  return Array.isArray(value) ? value.map(parseRoundingSide) : null;
+}
+
+function parseFlag(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatCoordinate(value: number): string {
+  return value.toFixed(7);
+}
+
+function describeMark(mark: SnapshotMark): string {
+  const parts = [MARK_ROLE_LABELS[mark.role as MarkRole] ?? mark.role];
+  if (mark.isStartLine) parts.push("start line");
+  if (mark.isFinishLine) parts.push("finish line");
+  if (mark.roundingSide) parts.push(`leave to ${mark.roundingSide}`);
+  return parts.join(", ");
+}
+
+function lineMarks(marks: SnapshotMark[], line: "start" | "finish"): SnapshotMark[] {
+  return marks.filter(m => (line === "start" ? m.isStartLine : m.isFinishLine)).slice(0, 2);
+}
+
+// Middle of the line, or the mark itself for a line with one end placed
+function lineMidpoint(marks: SnapshotMark[], line: "start" | "finish"): RoutePoint | null {
+  const ends = lineMarks(marks, line);
+  if (ends.length === 0) return null;
+  return {
+    name: line === "start" ? "Start" : "Finish",
+    lat: ends.reduce((sum, m) => sum + m.lat, 0) / ends.length,
+    lng: ends.reduce((sum, m) => sum + m.lng, 0) / ends.length,
+  };
+}
+
+function courseRoute(data: CourseFileData): RoutePoint[] {
+  const byName = new Map(data.marks.map(m => [m.name, m]));
+  return data.roundingSequence.flatMap((entry, index) => {
+    if (entry === "start" || entry === "finish") {
+      const point = lineMidpoint(data.marks, entry);
+      return point ? [point] : [];
+    }
+    const mark = byName.get(entry);
+    const side = data.roundingSides[index];
+    return mark ? [{ name: mark.name, lat: mark.lat, lng: mark.lng, ...(side ? { side } : {}) }] : [];
+  });
+}
+
+// One side per sequence entry, as the course route carries them
+function sequenceSides(data: CourseFileData): (RoundingSide | null)[] {
+  return data.roundingSequence.map((_, index) => data.roundingSides[index] ?? null);
+}
+
+function exportGpx(data: CourseFileData): string {
+  const waypoints = data.marks.map(m => `  <wpt lat="${formatCoordinate(m.lat)}" lon="${formatCoordinate(m.lng)}">
+    <name>${escapeXml(m.name)}</name>
+    <desc>${escapeXml(describeMark(m))}</desc>
+    <type>${escapeXml(m.role)}</type>
+  </wpt>`);
+
+  // The course route's points say which side they are left on; its comment holds the designation
+  const route = (name: string, type: string, points: RoutePoint[], comment: string | null = null) => `  <rte>
+    <name>${escapeXml(name)}</name>${comment ? `\n    <cmt>${escapeXml(comment)}</cmt>` : ""}
+    <type>${type}</type>
+${points.map(p => `    <rtept lat="${formatCoordinate(p.lat)}" lon="${formatCoordinate(p.lng)}"><name>${escapeXml(p.name)}</name>${p.side ? `<desc>leave to ${p.side}</desc>` : ""}</rtept>`).join("\n")}
+  </rte>`;
+
+  const routes = [
+    route(data.name, COURSE_ROUTE, courseRoute(data), data.designation),
+    route("Start line", START_LINE, lineMarks(data.marks, "start")),
+    route("Finish line", FINISH_LINE, lineMarks(data.marks, "finish")),
+  ].filter(r => r.includes("<rtept"));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Robotic Buoys" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(data.name)}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${[...waypoints, ...routes].join("\n")}
+</gpx>
+`;
+}
+
+function kmlData(values: Record<string, string | boolean | null | undefined>): string {
+  const fields = Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`);
+  return fields.length > 0 ? `<ExtendedData>${fields.join("")}</ExtendedData>` : "";
+}
+
+function exportKml(data: CourseFileData): string {
+  const placemarks = data.marks.map(m => `      <Placemark>
+        <name>${escapeXml(m.name)}</name>
+        <description>${escapeXml(describeMark(m))}</description>
+        ${kmlData({ role: m.role, isStartLine: !!m.isStartLine, isFinishLine: !!m.isFinishLine, roundingSide: m.roundingSide })}
+        <Point><coordinates>${formatCoordinate(m.lng)},${formatCoordinate(m.lat)}</coordinates></Point>
+      </Placemark>`);
+
+  const line = (name: string, kind: string, points: RoutePoint[], extra: Record<string, string> = {}) => points.length < 2 ? null : `    <Placemark>
+      <name>${escapeXml(name)}</name>
+      ${kmlData({ kind, marks: JSON.stringify(points.map(p => p.name)), ...extra })}
+      <LineString><coordinates>${points.map(p => `${formatCoordinate(p.lng)},${formatCoordinate(p.lat)}`).join(" ")}</coordinates></LineString>
+    </Placemark>`;
+
+  const lines = [
+    line("Course", COURSE_ROUTE, courseRoute(data), {
+      roundingSequence: JSON.stringify(data.roundingSequence),
+      roundingSides: JSON.stringify(sequenceSides(data)),
+      ...(data.designation ? { designation: data.designation } : {}),
+    }),
+    line("Start line", START_LINE, lineMarks(data.marks, "start")),
+    line("Finish line", FINISH_LINE, lineMarks(data.marks, "finish")),
+  ].filter((l): l is string => l !== null);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(data.name)}</name>
+    <Folder>
+      <name>Marks</name>
+${placemarks.join("\n")}
+    </Folder>
+${lines.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+function exportGeoJson(data: CourseFileData): string {
+  const lineFeature = (kind: string, points: RoutePoint[], properties: Record<string, unknown> = {}) => points.length < 2 ? null : {
+    type: "Feature",
+    properties: { kind, marks: points.map(p => p.name), ...properties },
+    geometry: { type: "LineString", coordinates: points.map(p => [p.lng, p.lat]) },
+  };
+
+  const features = [
+    ...data.marks.map(m => ({
+      type: "Feature",
+      properties: {
+        name: m.name,
+        role: m.role,
+        isStartLine: !!m.isStartLine,
+        isFinishLine: !!m.isFinishLine,
+        roundingSide: m.roundingSide ?? null,
+      },
+      geometry: { type: "Point", coordinates: [m.lng, m.lat] },
+    })),
+    lineFeature(COURSE_ROUTE, courseRoute(data), {
+      name: data.name,
+      roundingSequence: data.roundingSequence,
+      roundingSides: sequenceSides(data),
+      designation: data.designation,
+    }),
+    lineFeature(START_LINE, lineMarks(data.marks, "start")),
+    lineFeature(FINISH_LINE, lineMarks(data.marks, "finish")),
+  ].filter(Boolean);
+
+  return `${JSON.stringify({ type: "FeatureCollection", name: data.name, features }, null, 2)}\n`;
+}
+
+/** The course as a file in the given format. */
+export function exportCourseFile(format: CourseFileFormat, data: CourseFileData): { content: string; fileName: string; mimeType: string } {
+  const { extension, mimeType } = COURSE_FILE_FORMATS.find(f => f.value === format)!;
+  const content = format === "gpx" ? exportGpx(data) : format === "kml" ? exportKml(data) : exportGeoJson(data);
+  const baseName = data.name.trim().replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "course";
+  return { content, fileName: `${baseName}.${extension}`, mimeType };
+}
+
+export function downloadCourseFile(format: CourseFileFormat, data: CourseFileData): void {
+  const { content, fileName, mimeType } = exportCourseFile(format, data);
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Import
+
+interface RawMark {
+  name: string;
+  lat: number;
+  lng: number;
+  description: string | null;
+  role: MarkRole | null;
+  isStartLine: boolean | null;
+  isFinishLine: boolean | null;
+  roundingSide: RoundingSide | null;
+}
+
+interface RawLine {
+  kind: string | null;
+  name: string | null;
+  // Names of the points along the line, in order
+  marks: string[];
+  roundingSequence: string[] | null;
+  // Per entry of roundingSequence when the line has one, else per point
+  sides: (RoundingSide | null)[] | null;
+  designation: string | null;
+}
+
+interface RawCourse {
+  name: string | null;
+  marks: RawMark[];
+  lines: RawLine[];
+}
+
+function detectFormat(text: string, fileName: string): CourseFileFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "gpx" || extension === "kml") return extension;
+  if (extension === "geojson" || extension === "json") return "geojson";
+
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "geojson";
+  if (/<gpx[\s>]/.test(start)) return "gpx";
+  if (/<kml[\s>]/.test(start)) return "kml";
+  throw new Error("Not a GPX, KML or GeoJSON file");
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+  return doc;
+}
+
+// Namespace-agnostic lookups: GPX 1.0 and 1.1 and KML 2.1 and 2.2 differ only in namespace
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function childText(parent: Element, name: string): string | null {
+  const text = childElements(parent, name)[0]?.textContent?.trim();
+  return text ? text : null;
+}
+
+function parseStringArray(value: unknown): string[] | null {
+  if (typeof value === "string") {
+    try {
+      return parseStringArray(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+  return Array.isArray(value) && value.every(v => typeof v === "string") ? value : null;
+}
+
+function validCoordinates(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function gpxPoint(el: Element, fallbackName: string): RawMark | null {
+  const lat = parseFloat(el.getAttribute("lat") ?? "");
+  const lng = parseFloat(el.getAttribute("lon") ?? "");
+  if (!validCoordinates(lat, lng)) return null;
+  const description = childText(el, "desc") ?? childText(el, "cmt");
+  return {
+    name: childText(el, "name") ?? fallbackName,
+    lat,
+    lng,
+    description,
+    role: parseRole(childText(el, "type")),
+    isStartLine: null,
+    isFinishLine: null,
+    roundingSide: parseRoundingSide(description),
+  };
+}
+
+function parseGpx(text: string): RawCourse {
+  const doc = parseXml(text);
+  if (elements(doc, "gpx").length === 0) {
+    throw new Error("Not a GPX file");
+  }
+
+  const routes = elements(doc, "rte").map(rte => ({
+    name: childText(rte, "name"),
+    kind: childText(rte, "type"),
+    comment: childText(rte, "cmt"),
+    points: childElements(rte, "rtept").flatMap((pt, i) => {
+      const point = gpxPoint(pt, `Point ${i + 1}`);
+      return point ? [point] : [];
+    }),
+  }));
+
+  let marks = elements(doc, "wpt").flatMap((wpt, i) => {
+    const point = gpxPoint(wpt, `Mark ${i + 1}`);
+    return point ? [point] : [];
+  });
+  // A route on its own: its points are the marks
+  if (marks.length === 0 && routes.length > 0) {
+    marks = routes[0].points;
+  }
+
+  const metadata = elements(doc, "metadata")[0];
+  return {
+    name: (metadata && childText(metadata, "name")) ?? routes[0]?.name ?? null,
+    marks,
+    lines: routes.map(route => ({
+      kind: route.kind,
+      name: route.name,
+      marks: route.points.map(p => p.name),
+      roundingSequence: null,
+      sides: route.points.map(p => p.roundingSide),
+      designation: route.kind === COURSE_ROUTE ? route.comment : null,
+    })),
+  };
+}
+
+function kmlExtendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const el of elements(placemark, "Data")) {
+    const name = el.getAttribute("name");
+    const value = childText(el, "value");
+    if (name && value !== null) data[name] = value;
+  }
+  return data;
+}
+
+function parseKmlCoordinates(text: string | null | undefined): [number, number][] {
+  return (text ?? "").trim().split(/\s+/).flatMap(tuple => {
+    const [lng, lat] = tuple.split(",").map(Number);
+    return validCoordinates(lat, lng) ? [[lat, lng] as [number, number]] : [];
+  });
+}
+
+function parseKml(text: string): RawCourse {
+  const doc = parseXml(text);
+  if (elements(doc, "kml").length === 0) {
+    throw new Error("Not a KML file");
+  }
+
+  const marks: RawMark[] = [];
+  const lines: RawLine[] = [];
+  elements(doc, "Placemark").forEach((placemark, i) => {
+    const name = childText(placemark, "name");
+    const description = childText(placemark, "description");
+    const data = kmlExtendedData(placemark);
+
+    const point = elements(placemark, "Point")[0];
+    if (point) {
+      const [position] = parseKmlCoordinates(elements(point, "coordinates")[0]?.textContent);
+      if (!position) return;
+      marks.push({
+        name: name ?? `Mark ${i + 1}`,
+        lat: position[0],
+        lng: position[1],
+        description,
+        role: parseRole(data.role),
+        isStartLine: parseFlag(data.isStartLine),
+        isFinishLine: parseFlag(data.isFinishLine),
+        roundingSide: parseRoundingSide(data.roundingSide ?? description),
+      });
+      return;
+    }
+
+    if (elements(placemark, "LineString").length > 0) {
+      lines.push({
+        kind: data.kind ?? null,
+        name,
+        marks: parseStringArray(data.marks) ?? [],
+        roundingSequence: parseStringArray(data.roundingSequence),
+        sides: parseRoundingSides(data.roundingSides),
+        designation: data.designation ?? null,
+      });
+    }
+  });
+
+  const documentEl = elements(doc, "Document")[0];
+  return { name: documentEl ? childText(documentEl, "name") : null, marks, lines };
+}
+
+// Only the parts of GeoJSON a course is read from; anything else is ignored
+const geoJsonDocumentSchema = z.object({
+  type: z.string(),
+  name: z.unknown(),
+  features: z.array(z.unknown()).optional(),
+});
+
+const geoJsonFeatureSchema = z.object({
+  properties: z.record(z.unknown()).nullish(),
+  geometry: z.object({ type: z.string(), coordinates: z.unknown() }).nullish(),
+});
+
+function parseGeoJson(text: string): RawCourse {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const parsed = geoJsonDocumentSchema.safeParse(json);
+  const document = parsed.success ? parsed.data : null;
+  const features: unknown[] = document?.type === "FeatureCollection"
+    ? document.features ?? []
+    : document?.type === "Feature" ? [json] : [];
+  if (!document || features.length === 0) {
+    throw new Error("Not a GeoJSON feature collection");
+  }
+
+  const marks: RawMark[] = [];
+  const lines: RawLine[] = [];
+  features.forEach((value, i) => {
+    const feature = geoJsonFeatureSchema.safeParse(value);
+    if (!feature.success) return;
+    const props = feature.data.properties ?? {};
+    const geometry = feature.data.geometry;
+    const name = typeof props.name === "string" ? props.name : typeof props.title === "string" ? props.title : null;
+    const description = typeof props.description === "string" ? props.description : null;
+
+    if (geometry?.type === "Point" && Array.isArray(geometry.coordinates)) {
+      const [lng, lat] = geometry.coordinates.map(Number);
+      if (!validCoordinates(lat, lng)) return;
+      marks.push({
+        name: name ?? `Mark ${i + 1}`,
+        lat,
+        lng,
+        description,
+        role: parseRole(props.role),
+        isStartLine: parseFlag(props.isStartLine),
+        isFinishLine: parseFlag(props.isFinishLine),
+        roundingSide: parseRoundingSide(props.roundingSide ?? description),
+      });
+    } else if (geometry?.type === "LineString") {
+      lines.push({
+        kind: typeof props.kind === "string" ? props.kind : null,
+        name,
+        marks: parseStringArray(props.marks) ?? [],
+        roundingSequence: parseStringArray(props.roundingSequence),
+        sides: parseRoundingSides(props.roundingSides),
+        designation: typeof props.designation === "string" ? props.designation : null,
+      });
+    }
+  });
+
+  const courseLine = lines.find(l => l.kind === COURSE_ROUTE);
+  return { name: typeof document.name === "string" ? document.name : courseLine?.name ?? null, marks, lines };
+}
+
+// The course route's points as a rounding sequence: line midpoints become
+// "start" and "finish", and points that are not marks are dropped
+function sequenceFromRoute(route: string[], sides: (RoundingSide | null)[] | null, markNames: Set<string>): SequenceEntry[] {
+  return route.flatMap((name, index): SequenceEntry[] => {
+    if (/^start$/i.test(name)) return [{ entry: "start", side: null }];
+    if (/^finish$/i.test(name)) return [{ entry: "finish", side: null }];
+    return markNames.has(name) ? [{ entry: name, side: sides?.[index] ?? null }] : [];
+  });
+}
+
+function sidesByIndex(entries: SequenceEntry[]): Record<number, RoundingSide> {
+  const sides: Record<number, RoundingSide> = {};
+  entries.forEach(({ entry, side }, index) => {
+    if (side && entry !== "start" && entry !== "finish") sides[index] = side;
+  });
+  return sides;
+}
+
+function buildImportedCourse(format: CourseFileFormat, raw: RawCourse): ImportedCourseFile {
+  if (raw.marks.length === 0) {
+    throw new Error("No waypoints found in the file");
+  }
+
+  const lineOf = (kind: string, namePattern: RegExp) =>
+    raw.lines.find(l => l.kind === kind) ?? raw.lines.find(l => l.name !== null && namePattern.test(l.name));
+  const startLine = new Set(lineOf(START_LINE, /start\s*line/i)?.marks ?? []);
+  const finishLine = new Set(lineOf(FINISH_LINE, /finish\s*line/i)?.marks ?? []);
+
+  const marks: ImportedMark[] = uniqueMarkNames(raw.marks).map(mark => {
+    const role = mark.role ?? inferMarkRole(mark.name, mark.description);
+    const defaults = getRoleLineFlags(role);
+    return {
+      name: mark.name,
+      lat: mark.lat,
+      lng: mark.lng,
+      role,
+      roleFromFile: mark.role !== null,
+      isStartLine: mark.isStartLine ?? (startLine.has(mark.name) || defaults.isStartLine),
+      isFinishLine: mark.isFinishLine ?? (finishLine.has(mark.name) || defaults.isFinishLine),
+      roundingSide: mark.roundingSide,
+    };
+  });
+
+  const markNames = new Set(marks.map(m => m.name));
+  const course = raw.lines.find(l => l.kind === COURSE_ROUTE)
+    ?? raw.lines.find(l => l.kind !== START_LINE && l.kind !== FINISH_LINE && !/(start|finish)\s*line/i.test(l.name ?? ""));
+  let entries = course?.roundingSequence
+    ?.map((entry, index) => ({ entry, side: course.sides?.[index] ?? null }))
+    .filter(({ entry }) => entry === "start" || entry === "finish" || markNames.has(entry))
+    ?? sequenceFromRoute(course?.marks ?? [], course?.sides ?? null, markNames);
+
+  // No usable route: round the course marks in file order
+  if (entries.filter(({ entry }) => entry !== "start" && entry !== "finish").length === 0) {
+    entries = [
+      ...(marks.some(m => m.isStartLine) ? ["start"] : []),
+      ...marks.filter(m => !m.isStartLine && !m.isFinishLine).map(m => m.name),
+      ...(marks.some(m => m.isFinishLine) ? ["finish"] : []),
+    ].map(entry => ({ entry, side: null }));
+  }
+
+  return {
+    format,
+    name: raw.name,
+    marks,
+    roundingSequence: entries.map(({ entry }) => entry),
+    roundingSides: sidesByIndex(entries),
+    designation: course?.designation?.trim() || null,
+  };
+}
+
+/** Reads a GPX, KML or GeoJSON course. Throws with a readable message when the file can't be used. */
+export function parseCourseFile(text: string, fileName: string): ImportedCourseFile {
+  const format = detectFormat(text, fileName);
+  const raw = format === "gpx" ? parseGpx(text) : format === "kml" ? parseKml(text) : parseGeoJson(text);
+  return buildImportedCourse(format, raw);
+}
+
+/**
+ * The marks kept from an import, in snapshot form, with the rounding sequence
+ * and its sides limited to them. Gates are rounded between their marks, so an
+ * entry side on one is dropped.
+ */
+export function toCourseFileData(
+  name: string,
+  marks: ImportedMark[],
+  file: Pick<ImportedCourseFile, "roundingSequence" | "roundingSides" | "designation">
+): CourseFileData {
+  const byName = new Map(marks.map(m => [m.name, m]));
+  const kept = file.roundingSequence.flatMap((entry, index): SequenceEntry[] => {
+    if (entry === "start" || entry === "finish") return [{ entry, side: null }];
+    const mark = byName.get(entry);
+    if (!mark) return [];
+    return [{ entry, side: mark.role === "gate" ? null : file.roundingSides[index] ?? null }];
+  });
+  // The server refuses a sequence that doesn't begin at the start, or that has
+  // the same entry twice in a row, as dropping marks can leave it
+  const entries = (kept.length > 0 && kept[0].entry !== "start" ? [{ entry: "start", side: null }, ...kept] : kept)
+    .filter((e, i, sequence) => i === 0 || e.entry !== sequence[i - 1].entry);
+  return {
+    name,
+    marks: marks.map((m, order) => ({
+      name: m.name,
+      role: m.role,
+      order,
+      lat: m.lat,
+      lng: m.lng,
+      isStartLine: m.isStartLine,
+      isFinishLine: m.isFinishLine,
+      isCourseMark: !m.isStartLine && !m.isFinishLine,
+      isGate: m.role === "gate",
+      gateWidthBoatLengths: null,
+      boatLengthMeters: null,
+      gatePartnerId: null,
+      gateSide: null,
+      roundingSide: m.roundingSide,
+    })),
+    roundingSequence: entries.map(({ entry }) => entry),
+    roundingSides: sidesByIndex(entries),
+    designation: file.designation,
+  };
+}
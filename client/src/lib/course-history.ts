@@ -0,0 +1,589 @@
+import { apiRequest, invalidateRelatedQueries, onApiRequest } from "./queryClient";
+import { executeBatchedMutations, type MutationOperation } from "./batchedMutations";
+import type { Course, Mark } from "@shared/schema";
+
+// Undo and redo for course edits. Each edit is recorded as the difference
+// between the course before and after it, read back from the server, so mark
+// creation, deletion, moves, sequence edits and whole workflows such as
+// loading a saved course are covered alike. The difference is limited to the
+// marks and fields the edit's own requests touched, so changes made meanwhile
+// by other operators or the server are not undone with it. Undoing applies the
+// difference backwards as one batch; if any request fails the batch is rolled
+// back and the history is left as it was. History is kept per course for the session.
+
+const MARK_FIELDS = [
+  "name",
+  "role",
+  "order",
+  "lat",
+  "lng",
+  "assignedBuoyId",
+  "isStartLine",
+  "isFinishLine",
+  "isCourseMark",
+  "isGate",
+  "gateWidthBoatLengths",
+  "boatLengthMeters",
+  "gatePartnerId",
+  "gateSide",
+  "gatePortBuoyId",
+  "gateStarboardBuoyId",
+  "roundingSide",
+] as const satisfies readonly (keyof Mark)[];
+
+const COURSE_FIELDS = [
+  "centerLat",
+  "centerLng",
+  "rotation",
+  "scale",
+  "roundingSequence",
+  "designation",
+  "roundingSides",
+] as const satisfies readonly (keyof Course)[];
+
+// Sent together: the server drops the designation of a sequence sent without one
+const SEQUENCE_FIELDS: readonly CourseField[] = ["roundingSequence", "designation", "roundingSides"];
+
+const MAX_ENTRIES = 100;
+
+type MarkField = typeof MARK_FIELDS[number];
+type CourseField = typeof COURSE_FIELDS[number];
+
+export type MarkValues = Pick<Mark, MarkField>;
+export type CourseValues = Pick<Course, CourseField>;
+
+export interface CourseState {
+  course: CourseValues;
+  marks: Mark[];
+}
+
+/** What an edit's requests changed, as far as the client can tell from sending them. */
+export interface TouchedCourseState {
+  // Fields sent for each mark; null for a mark created or deleted whole
+  marks: Map<string, Set<MarkField> | null>;
+  course: Set<CourseField>;
+  // Every mark on the course was deleted at once
+  allMarks: boolean;
+}
+
+export type CourseEdit =
+  | { kind: "create_mark"; mark: Mark }
+  | { kind: "delete_mark"; mark: Mark }
+  | { kind: "update_mark"; markId: string; before: Partial<MarkValues>; after: Partial<MarkValues> }
+  | { kind: "update_course"; before: Partial<CourseValues>; after: Partial<CourseValues> };
+
+export interface CourseHistoryEntry {
+  id: string;
+  label: string;
+  edits: CourseEdit[];
+  at: number;
+}
+
+export interface CourseHistorySnapshot {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  isApplying: boolean;
+  // The newest entry, with the ids its marks have now; none while a group is open
+  lastEdit: { label: string; at: number; markIds: string[] } | null;
+}
+
+export interface CourseHistoryOutcome {
+  applied: boolean;
+  label: string;
+  // Marks moved by the undo or redo, so their buoys can follow
+  moved: Array<{ markId: string; lat: number; lng: number }>;
+  error?: Error;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function pickChanged<T extends object, K extends keyof T>(
+  fields: readonly K[],
+  before: T,
+  after: T
+): { before: Partial<Pick<T, K>>; after: Partial<Pick<T, K>> } | null {
+  const changed = fields.filter(field => !sameValue(before[field], after[field]));
+  if (changed.length === 0) {
+    return null;
+  }
+  const from: Partial<Pick<T, K>> = {};
+  const to: Partial<Pick<T, K>> = {};
+  for (const field of changed) {
+    from[field] = before[field];
+    to[field] = after[field];
+  }
+  return { before: from, after: to };
+}
+
+/**
+ * The edits that turn one state of a course into another. Given what was
+ * touched, changes to any other mark or field are left out.
+ */
+export function diffCourseStates(before: CourseState, after: CourseState, touched?: TouchedCourseState): CourseEdit[] {
+  const edits: CourseEdit[] = [];
+  const beforeMarks = new Map(before.marks.map(m => [m.id, m]));
+  const afterMarks = new Map(after.marks.map(m => [m.id, m]));
+  const markFields = (markId: string): readonly MarkField[] => {
+    if (!touched) return MARK_FIELDS;
+    const fields = touched.marks.get(markId);
+    if (fields === undefined) return [];
+    return fields === null ? MARK_FIELDS : MARK_FIELDS.filter(field => fields.has(field));
+  };
+
+  for (const mark of before.marks) {
+    const next = afterMarks.get(mark.id);
+    if (!next) {
+      if (!touched || touched.allMarks || touched.marks.has(mark.id)) {
+        edits.push({ kind: "delete_mark", mark });
+      }
+      continue;
+    }
+    const changed = pickChanged(markFields(mark.id), mark, next);
+    if (changed) {
+      edits.push({ kind: "update_mark", markId: mark.id, ...changed });
+    }
+  }
+  for (const mark of after.marks) {
+    if (!beforeMarks.has(mark.id) && (!touched || touched.marks.has(mark.id))) {
+      edits.push({ kind: "create_mark", mark });
+    }
+  }
+
+  const courseFields = touched ? COURSE_FIELDS.filter(field => touched.course.has(field)) : COURSE_FIELDS;
+  const courseChange = pickChanged(courseFields, before.course, after.course);
+  if (courseChange) {
+    if (SEQUENCE_FIELDS.some(field => field in courseChange.after)) {
+      for (const field of SEQUENCE_FIELDS) {
+        Object.assign(courseChange.before, { [field]: before.course[field] });
+        Object.assign(courseChange.after, { [field]: after.course[field] });
+      }
+    }
+    edits.push({ kind: "update_course", ...courseChange });
+  }
+  return edits;
+}
+
+/** The edit that reverses another. */
+export function invertCourseEdit(edit: CourseEdit): CourseEdit {
+  switch (edit.kind) {
+    case "create_mark":
+      return { kind: "delete_mark", mark: edit.mark };
+    case "delete_mark":
+      return { kind: "create_mark", mark: edit.mark };
+    case "update_mark":
+      return { kind: "update_mark", markId: edit.markId, before: edit.after, after: edit.before };
+    case "update_course":
+      return { kind: "update_course", before: edit.after, after: edit.before };
+  }
+}
+
+/** Ids of the marks an entry touches, as recorded. */
+export function getEditedMarkIds(edits: CourseEdit[]): string[] {
+  return edits.flatMap(edit => (edit.kind === "update_mark" ? [edit.markId] : edit.kind === "update_course" ? [] : [edit.mark.id]));
+}
+
+// A deleted mark comes back with a new id; older entries still name it by the
+// one it had, so ids are looked up here before every request
+function resolveMarkId(aliases: Map<string, string>, id: string): string {
+  let current = id;
+  for (let hops = 0; aliases.has(current) && hops < MAX_ENTRIES * 2; hops++) {
+    current = aliases.get(current)!;
+  }
+  return current;
+}
+
+function resolveMarkValues(aliases: Map<string, string>, values: Partial<MarkValues>): Partial<MarkValues> {
+  return values.gatePartnerId ? { ...values, gatePartnerId: resolveMarkId(aliases, values.gatePartnerId) } : values;
+}
+
+function resolveCourseValues(aliases: Map<string, string>, values: Partial<CourseValues>): Partial<CourseValues> {
+  if (!values.roundingSequence) {
+    return values;
+  }
+  const roundingSequence = values.roundingSequence.map(entry =>
+    entry === "start" || entry === "finish" ? entry : resolveMarkId(aliases, entry)
+  );
+  return { ...values, roundingSequence };
+}
+
+function markCreateValues(courseId: string, mark: Mark): Partial<MarkValues> & { courseId: string } {
+  const values: Partial<MarkValues> & { courseId: string } = { courseId };
+  for (const field of MARK_FIELDS) {
+    // Linked once both gate marks exist
+    if (field === "gatePartnerId") continue;
+    Object.assign(values, { [field]: mark[field] });
+  }
+  return values;
+}
+
+async function createMark(courseId: string, mark: Mark, aliases: Map<string, string>, linkPartner: boolean): Promise<void> {
+  const values = markCreateValues(courseId, mark);
+  if (linkPartner && mark.gatePartnerId) {
+    Object.assign(values, { gatePartnerId: resolveMarkId(aliases, mark.gatePartnerId) });
+  }
+  const res = await apiRequest("POST", "/api/marks", values);
+  const created: Mark = await res.json();
+  aliases.set(mark.id, created.id);
+}
+
+async function deleteMark(mark: Mark, aliases: Map<string, string>): Promise<void> {
+  await apiRequest("DELETE", `/api/marks/${resolveMarkId(aliases, mark.id)}`);
+}
+
+async function updateMark(markId: string, values: Partial<MarkValues>, aliases: Map<string, string>): Promise<void> {
+  await apiRequest("PATCH", `/api/marks/${resolveMarkId(aliases, markId)}`, resolveMarkValues(aliases, values));
+}
+
+async function updateCourse(courseId: string, values: Partial<CourseValues>, aliases: Map<string, string>): Promise<void> {
+  await apiRequest("PATCH", `/api/courses/${courseId}`, resolveCourseValues(aliases, values));
+}
+
+/**
+ * Requests that apply the edits, each with its own rollback. Deletions go
+ * first so restored marks can take back their order and buoys, and the course
+ * is updated last so its sequence only names marks that exist.
+ */
+export function buildCourseEditOperations(
+  courseId: string,
+  edits: CourseEdit[],
+  aliases: Map<string, string>
+): MutationOperation[] {
+  const operations: MutationOperation[] = [];
+
+  for (const edit of edits) {
+    if (edit.kind !== "delete_mark") continue;
+    operations.push({
+      id: `delete-${edit.mark.id}`,
+      description: `Delete ${edit.mark.name}`,
+      execute: () => deleteMark(edit.mark, aliases),
+      rollback: () => createMark(courseId, edit.mark, aliases, true),
+    });
+  }
+
+  const created = edits.flatMap(edit => (edit.kind === "create_mark" ? [edit.mark] : []));
+  for (const mark of created) {
+    operations.push({
+      id: `create-${mark.id}`,
+      description: `Create ${mark.name}`,
+      execute: () => createMark(courseId, mark, aliases, false),
+      rollback: () => deleteMark(mark, aliases),
+    });
+  }
+  for (const mark of created) {
+    if (!mark.gatePartnerId) continue;
+    const partnerId = mark.gatePartnerId;
+    operations.push({
+      id: `link-${mark.id}`,
+      description: `Link ${mark.name} to its gate partner`,
+      execute: () => updateMark(mark.id, { gatePartnerId: partnerId }, aliases),
+    });
+  }
+
+  for (const edit of edits) {
+    if (edit.kind !== "update_mark") continue;
+    operations.push({
+      id: `update-${edit.markId}`,
+      description: `Update ${edit.after.name ?? edit.before.name ?? "point"}`,
+      execute: () => updateMark(edit.markId, edit.after, aliases),
+      rollback: () => updateMark(edit.markId, edit.before, aliases),
+    });
+  }
+
+  for (const edit of edits) {
+    if (edit.kind !== "update_course") continue;
+    operations.push({
+      id: `course-${courseId}`,
+      description: "Update course",
+      execute: () => updateCourse(courseId, edit.after, aliases),
+      rollback: () => updateCourse(courseId, edit.before, aliases),
+    });
+  }
+
+  return operations;
+}
+
+const MARK_URL = /^\/api\/marks\/([^/?]+)$/;
+
+function sentFields<F extends string>(fields: readonly F[], data: unknown): F[] {
+  return data && typeof data === "object" ? fields.filter(field => field in data) : [];
+}
+
+/**
+ * Notes the marks and course fields that requests sent from now on change,
+ * until stopped. Stopping resolves once the ids of created marks are read.
+ */
+function trackTouched(courseId: string): () => Promise<TouchedCourseState> {
+  const touched: TouchedCourseState = { marks: new Map(), course: new Set(), allMarks: false };
+  const reads: Promise<void>[] = [];
+  const touchMark = (markId: string, fields: MarkField[] | null) => {
+    const current = touched.marks.get(markId);
+    if (current === null) return;
+    if (fields === null) {
+      touched.marks.set(markId, null);
+      return;
+    }
+    const merged = current ?? new Set<MarkField>();
+    fields.forEach(field => merged.add(field));
+    touched.marks.set(markId, merged);
+  };
+  // The server takes a deleted mark out of the sequence
+  const touchSequence = () => SEQUENCE_FIELDS.forEach(field => touched.course.add(field));
+
+  const stop = onApiRequest((method, url, data, res) => {
+    const markId = url.match(MARK_URL)?.[1];
+    if (method === "POST" && url === "/api/marks") {
+      reads.push(res.clone().json().then(
+        (mark: Mark) => touchMark(mark.id, null),
+        () => undefined
+      ));
+    } else if (method === "PATCH" && markId) {
+      touchMark(markId, sentFields(MARK_FIELDS, data));
+    } else if (method === "DELETE" && markId) {
+      touchMark(markId, null);
+      touchSequence();
+    } else if (method === "DELETE" && url === `/api/courses/${courseId}/marks`) {
+      touched.allMarks = true;
+      touchSequence();
+    } else if (method === "PATCH" && url === `/api/courses/${courseId}`) {
+      const fields = sentFields(COURSE_FIELDS, data);
+      fields.forEach(field => touched.course.add(field));
+      if (fields.some(field => SEQUENCE_FIELDS.includes(field))) {
+        touchSequence();
+      }
+    }
+  });
+
+  return async () => {
+    stop();
+    await Promise.all(reads);
+    return touched;
+  };
+}
+
+/** The course and its marks as the server has them. */
+export async function fetchCourseState(courseId: string): Promise<CourseState> {
+  const [courseRes, marksRes] = await Promise.all([
+    apiRequest("GET", `/api/courses/${courseId}`),
+    apiRequest("GET", `/api/courses/${courseId}/marks`),
+  ]);
+  return { course: await courseRes.json(), marks: await marksRes.json() };
+}
+
+interface OpenGroup {
+  label: string;
+  before: Promise<CourseState | null>;
+  stopTracking: () => Promise<TouchedCourseState>;
+  // Edits recorded into the group that have not finished yet
+  pending: Set<Promise<unknown>>;
+}
+
+interface CourseHistoryStack {
+  undo: CourseHistoryEntry[];
+  redo: CourseHistoryEntry[];
+  aliases: Map<string, string>;
+  group: OpenGroup | null;
+  applying: boolean;
+  // Recording, undo and redo run one at a time, in the order they were asked for
+  queue: Promise<unknown>;
+}
+
+type HistoryListener = () => void;
+
+const EMPTY_SNAPSHOT: CourseHistorySnapshot = {
+  canUndo: false,
+  canRedo: false,
+  undoLabel: null,
+  redoLabel: null,
+  isApplying: false,
+  lastEdit: null,
+};
+
+class CourseHistory {
+  private stacks: Map<string, CourseHistoryStack> = new Map();
+  private listeners: Set<HistoryListener> = new Set();
+  private nextEntryId = 1;
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private getStack(courseId: string): CourseHistoryStack {
+    let stack = this.stacks.get(courseId);
+    if (!stack) {
+      stack = { undo: [], redo: [], aliases: new Map(), group: null, applying: false, queue: Promise.resolve() };
+      this.stacks.set(courseId, stack);
+    }
+    return stack;
+  }
+
+  private enqueue<T>(stack: CourseHistoryStack, task: () => Promise<T>): Promise<T> {
+    const run = stack.queue.then(task);
+    stack.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private push(
+    stack: CourseHistoryStack,
+    label: string,
+    before: CourseState | null,
+    after: CourseState | null,
+    touched: TouchedCourseState
+  ): void {
+    if (!before || !after) return;
+    const edits = diffCourseStates(before, after, touched);
+    if (edits.length === 0) return;
+    stack.undo.push({ id: String(this.nextEntryId++), label, edits, at: Date.now() });
+    if (stack.undo.length > MAX_ENTRIES) {
+      stack.undo.shift();
+    }
+    stack.redo = [];
+    this.notify();
+  }
+
+  getSnapshot(courseId: string): CourseHistorySnapshot {
+    const stack = this.stacks.get(courseId);
+    if (!stack) return EMPTY_SNAPSHOT;
+    const last = stack.undo[stack.undo.length - 1];
+    const next = stack.redo[stack.redo.length - 1];
+    return {
+      canUndo: !stack.applying && (stack.undo.length > 0 || stack.group !== null),
+      canRedo: !stack.applying && stack.group === null && stack.redo.length > 0,
+      undoLabel: stack.group?.label ?? last?.label ?? null,
+      redoLabel: next?.label ?? null,
+      isApplying: stack.applying,
+      lastEdit: last && !stack.group
+        ? { label: last.label, at: last.at, markIds: getEditedMarkIds(last.edits).map(id => resolveMarkId(stack.aliases, id)) }
+        : null,
+    };
+  }
+
+  /**
+   * Runs an edit and records what it changed as one step. Returns false when
+   * the edit threw; the mutations it made report their own errors, and
+   * whatever they changed before failing is still recorded.
+   */
+  async record(courseId: string, label: string, edit: () => Promise<unknown>): Promise<boolean> {
+    const stack = this.getStack(courseId);
+    const group = stack.group;
+    if (group) {
+      await group.before;
+      const run = edit();
+      group.pending.add(run);
+      try {
+        await run;
+        return true;
+      } catch {
+        return false;
+      } finally {
+        group.pending.delete(run);
+      }
+    }
+
+    return this.enqueue(stack, async () => {
+      const before = await fetchCourseState(courseId).catch(() => null);
+      const stopTracking = trackTouched(courseId);
+      let completed = true;
+      try {
+        await edit();
+      } catch {
+        completed = false;
+      }
+      const touched = await stopTracking();
+      const after = await fetchCourseState(courseId).catch(() => null);
+      this.push(stack, label, before, after, touched);
+      return completed;
+    });
+  }
+
+  /**
+   * Starts a step made of several edits, possibly spread over dialogs, such as
+   * loading a saved course and fitting it to the wind. Everything changed
+   * until endGroup is undone together. Resolves once the starting state is read.
+   */
+  async beginGroup(courseId: string, label: string): Promise<void> {
+    const stack = this.getStack(courseId);
+    if (stack.group) {
+      void this.endGroup(courseId);
+    }
+    const before = this.enqueue(stack, () => fetchCourseState(courseId).catch(() => null));
+    stack.group = { label, before, stopTracking: trackTouched(courseId), pending: new Set() };
+    this.notify();
+    await before;
+  }
+
+  async endGroup(courseId: string): Promise<void> {
+    const stack = this.stacks.get(courseId);
+    const group = stack?.group;
+    if (!stack || !group) return;
+    stack.group = null;
+    await this.enqueue(stack, async () => {
+      await Promise.allSettled(Array.from(group.pending));
+      const touched = await group.stopTracking();
+      const before = await group.before;
+      const after = await fetchCourseState(courseId).catch(() => null);
+      this.push(stack, group.label, before, after, touched);
+    });
+    this.notify();
+  }
+
+  private async apply(courseId: string, direction: "undo" | "redo"): Promise<CourseHistoryOutcome | null> {
+    const stack = this.getStack(courseId);
+    if (stack.group) {
+      void this.endGroup(courseId);
+    }
+
+    return this.enqueue(stack, async () => {
+      const from = direction === "undo" ? stack.undo : stack.redo;
+      const to = direction === "undo" ? stack.redo : stack.undo;
+      const entry = from[from.length - 1];
+      if (!entry) return null;
+
+      const edits = direction === "undo" ? [...entry.edits].reverse().map(invertCourseEdit) : entry.edits;
+      stack.applying = true;
+      this.notify();
+      try {
+        const result = await executeBatchedMutations(buildCourseEditOperations(courseId, edits, stack.aliases), {
+          rollbackOnError: true,
+          courseId,
+        });
+        invalidateRelatedQueries("courses", courseId);
+        if (!result.success) {
+          return { applied: false, label: entry.label, moved: [], error: result.errors[0]?.error };
+        }
+
+        from.pop();
+        to.push(entry);
+        const moved = edits.flatMap(edit =>
+          edit.kind === "update_mark" && edit.after.lat !== undefined && edit.after.lng !== undefined
+            ? [{ markId: resolveMarkId(stack.aliases, edit.markId), lat: edit.after.lat, lng: edit.after.lng }]
+            : []
+        );
+        return { applied: true, label: entry.label, moved };
+      } finally {
+        stack.applying = false;
+        this.notify();
+      }
+    });
+  }
+
+  /** Reverses the newest step, closing an open group first. */
+  undo(courseId: string): Promise<CourseHistoryOutcome | null> {
+    return this.apply(courseId, "undo");
+  }
+
+  /** Applies the most recently undone step again. */
+  redo(courseId: string): Promise<CourseHistoryOutcome | null> {
+    return this.apply(courseId, "redo");
+  }
+}
+
+export const courseHistory = new CourseHistory();
@@ -0,0 +1,73 @@
+import type { RaceLogEntry, RoundingSide } from "@shared/schema";
+import { calculateBearing, movePoint, normalizeBearing } from "./course-bearings";
+import type { CourseChangeLeg } from "./course-change";
+import type { BoatProgress, CourseWaypoint } from "./rounding-detection";
+
+// Shortening the course (RRS 32.2): boats finish at a rounding mark, between
+// the mark and a committee boat or buoy laid beside it. The course is changed
+// for the rest of the race and put back from the record kept in the race log.
+
+// Kept in the race log entry so the course can be restored exactly
+export interface ShortenedCourseRecord {
+  courseId: string;
+  markId: string;
+  markName: string;
+  sequenceIndex: number;
+  // The committee boat or buoy end of the temporary finish line
+  finishMarkId: string;
+  previousRoundingSequence: string[];
+  previousRoundingSides: Record<number, RoundingSide> | null;
+  previousDesignation: string | null;
+  previousFinishMarkIds: string[];
+}
+
+export const SHORTENED_FINISH_LINE_BOAT_LENGTHS = 10;
+
+/** The leg the leader is sailing; boats finish at the mark it leads to. Null when no boat is followed. */
+export function findLegToShorten(
+  legs: CourseChangeLeg[],
+  waypoints: CourseWaypoint[],
+  leader: BoatProgress | undefined
+): CourseChangeLeg | null {
+  if (!leader) return null;
+  const next = waypoints[leader.nextWaypoint];
+  return next ? legs.find(l => l.sequenceIndex === next.sequenceIndex) ?? null : null;
+}
+
+/**
+ * The other end of the finish line, square to the leg on the side boats pass
+ * the mark: to starboard of the leg for a mark left to port, and the reverse.
+ */
+export function getShortenedFinishPosition(
+  leg: CourseChangeLeg,
+  side: RoundingSide,
+  lengthMeters: number
+): { lat: number; lng: number } {
+  const approach = calculateBearing(leg.from.lat, leg.from.lng, leg.mark.lat, leg.mark.lng);
+  const bearing = normalizeBearing(approach + (side === "port" ? 90 : -90));
+  return movePoint(leg.mark.lat, leg.mark.lng, bearing, lengthMeters);
+}
+
+/** The course finishing at the mark at `sequenceIndex` instead of rounding it. */
+export function shortenRoundingSequence(
+  roundingSequence: string[],
+  roundingSides: Record<number, RoundingSide>,
+  sequenceIndex: number
+): { roundingSequence: string[]; roundingSides: Record<number, RoundingSide> } {
+  const sides: Record<number, RoundingSide> = {};
+  Object.entries(roundingSides).forEach(([index, side]) => {
+    if (Number(index) < sequenceIndex) sides[Number(index)] = side;
+  });
+  return { roundingSequence: [...roundingSequence.slice(0, sequenceIndex), "finish"], roundingSides: sides };
+}
+
+/** The course's shortening still in force: its latest shortening not followed by a restore. */
+export function findActiveShortening(log: RaceLogEntry[], courseId: string): ShortenedCourseRecord | null {
+  for (let i = log.length - 1; i >= 0; i--) {
+    const entry = log[i];
+    if (entry.kind !== "shorten_course" && entry.kind !== "course_restored") continue;
+    if (entry.data?.courseId !== courseId) continue;
+    return entry.kind === "shorten_course" ? (entry.data as unknown as ShortenedCourseRecord) : null;
+  }
+  return null;
+}
@@ -0,0 +1,134 @@
+import type { BoatClass, Mark, RaceTimeEstimate, RoundingSide } from "@shared/schema";
+import type { CourseResizeStartLineMode } from "./services/settings-service";
+import { estimateRaceTime, buildLegsFromRoundingSequence, type CurrentStation } from "./race-time-estimation";
+
+// Sizes the course to a target race duration: finds the scale at which the
+// estimated race time meets the target, scaling marks exactly as the course
+// resize controls do so the preview matches what gets applied.
+
+export type CoursePositions = Map<string, { lat: number; lng: number }>;
+
+/**
+ * Mark positions after scaling the course by `scale` about its centre. The
+ * start line is kept, pivoted on the committee boat, or scaled with the rest
+ * according to the resize mode; other modes need both start line ends.
+ */
+export function scaleCoursePositions(marks: Mark[], scale: number, mode: CourseResizeStartLineMode): CoursePositions {
+  const positions: CoursePositions = new Map();
+  if (marks.length === 0) return positions;
+
+  const centerLat = marks.reduce((sum, m) => sum + m.lat, 0) / marks.length;
+  const centerLng = marks.reduce((sum, m) => sum + m.lng, 0) / marks.length;
+  const startBoat = marks.find(m => m.role === "start_boat");
+  const pinMark = marks.find(m => m.role === "pin");
+
+  for (const mark of marks) {
+    const isStartLineMark = mark.role === "start_boat" || mark.role === "pin" || mark.isStartLine;
+
+    if (startBoat && pinMark && isStartLineMark && mode === "keep_start_line") {
+      // Move start line center with the course, but don't change its size
+      const startLineCenterLat = (startBoat.lat + pinMark.lat) / 2;
+      const startLineCenterLng = (startBoat.lng + pinMark.lng) / 2;
+      positions.set(mark.id, {
+        lat: centerLat + (startLineCenterLat - centerLat) * scale + (mark.lat - startLineCenterLat),
+        lng: centerLng + (startLineCenterLng - centerLng) * scale + (mark.lng - startLineCenterLng),
+      });
+    } else if (startBoat && pinMark && isStartLineMark && mode === "keep_committee_boat") {
+      // Committee boat stays in place; the pin scales from it
+      positions.set(mark.id, {
+        lat: startBoat.lat + (mark.lat - startBoat.lat) * scale,
+        lng: startBoat.lng + (mark.lng - startBoat.lng) * scale,
+      });
+    } else {
+      positions.set(mark.id, {
+        lat: centerLat + (mark.lat - centerLat) * scale,
+        lng: centerLng + (mark.lng - centerLng) * scale,
+      });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Repeats the course between start and finish for extra laps, so
+ * start, W, L, finish sailed twice becomes start, W, L, W, L, finish.
+ */
+export function repeatLaps(roundingSequence: string[], laps: number): string[] {
+  if (laps <= 1) return roundingSequence;
+  const head = roundingSequence[0] === "start" ? ["start"] : [];
+  const tail = roundingSequence[roundingSequence.length - 1] === "finish" ? ["finish"] : [];
+  const lap = roundingSequence.slice(head.length, roundingSequence.length - tail.length);
+  return [...head, ...Array.from({ length: laps }, () => lap).flat(), ...tail];
+}
+
+export interface CourseSizingInput {
+  marks: Mark[];
+  roundingSequence: string[];
+  // Course rounding sides by sequence index
+  roundingSides?: Record<number, RoundingSide>;
+  boatClass: BoatClass;
+  windSpeedKnots: number;
+  windDirectionDeg: number;
+  currentStations?: CurrentStation[];
+  targetMinutes: number;
+  laps: number;
+  startLineMode: CourseResizeStartLineMode;
+}
+
+export interface CourseSizingResult {
+  scale: number;
+  estimate: RaceTimeEstimate;
+  // "short" / "long": even the largest / smallest course misses the target
+  fit: "on_target" | "short" | "long";
+}
+
+export const MIN_COURSE_SCALE = 0.25;
+export const MAX_COURSE_SCALE = 4;
+const SCALE_TOLERANCE = 0.001;
+
+function estimateAtScale(input: CourseSizingInput, scale: number): RaceTimeEstimate | null {
+  const positions = scaleCoursePositions(input.marks, scale, input.startLineMode);
+  const scaledMarks = input.marks.map(m => ({ ...m, ...positions.get(m.id) }));
+  // Repeating laps replaces the sequence, which drops the course's own sides
+  const roundingSides = input.laps > 1 ? undefined : input.roundingSides;
+  const legs = buildLegsFromRoundingSequence(repeatLaps(input.roundingSequence, input.laps), scaledMarks, undefined, roundingSides);
+  if (legs.length === 0) return null;
+  return estimateRaceTime(legs, input.boatClass, input.windSpeedKnots, input.windDirectionDeg, input.currentStations);
+}
+
+/**
+ * Scale that brings the estimated race time to the target. Race time grows
+ * with course size, so the scale is found by bisection. Returns null when the
+ * course has no legs or no size of it can be sailed against the current.
+ */
+export function solveCourseScale(input: CourseSizingInput): CourseSizingResult | null {
+  const targetSeconds = input.targetMinutes * 60;
+  const smallest = estimateAtScale(input, MIN_COURSE_SCALE);
+  if (!smallest || !isFinite(smallest.totalTimeSeconds)) return null;
+  if (smallest.totalTimeSeconds >= targetSeconds) {
+    return { scale: MIN_COURSE_SCALE, estimate: smallest, fit: "long" };
+  }
+  const largest = estimateAtScale(input, MAX_COURSE_SCALE);
+  if (largest && largest.totalTimeSeconds <= targetSeconds) {
+    return { scale: MAX_COURSE_SCALE, estimate: largest, fit: "short" };
+  }
+
+  let low = MIN_COURSE_SCALE;
+  let high = MAX_COURSE_SCALE;
+  while (high - low > SCALE_TOLERANCE) {
+    const mid = (low + high) / 2;
+    const estimate = estimateAtScale(input, mid);
+    if (estimate && estimate.totalTimeSeconds < targetSeconds) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  // Tacks and jibes are counted whole, so take whichever side lands closer
+  const under = estimateAtScale(input, low)!;
+  const over = estimateAtScale(input, high)!;
+  return targetSeconds - under.totalTimeSeconds <= over.totalTimeSeconds - targetSeconds
+    ? { scale: low, estimate: under, fit: "on_target" }
+    : { scale: high, estimate: over, fit: "on_target" };
+}
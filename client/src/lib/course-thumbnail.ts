@@ -1,4 +1,5 @@
-import type { SnapshotMark } from "@shared/schema";
+import type { RoundingSide, SnapshotMark } from "@shared/schema";
+import { resolveRoundingSides } from "@shared/course-designations";
 
 interface ThumbnailOptions {
   width?: number;
@@ -6,9 +7,21 @@ interface ThumbnailOptions {
   padding?: number;
 }
 
+// Three-quarter arc round a mark, anticlockwise (red) for port roundings and clockwise (green) for starboard
+function roundingArc(x: number, y: number, side: RoundingSide): string {
+  const r = 6;
+  const port = side === "port";
+  const color = port ? "#ef4444" : "#22c55e";
+  const endX = port ? x + r : x - r;
+  return `<path d="M${x.toFixed(1)},${(y - r).toFixed(1)} A${r},${r} 0 1 ${port ? 0 : 1} ${endX.toFixed(1)},${y.toFixed(1)}" stroke="${color}" stroke-width="1" fill="none" opacity="0.8"/>` +
+    `<polygon points="${endX.toFixed(1)},${(y - 2.5).toFixed(1)} ${(endX - 2).toFixed(1)},${(y + 1).toFixed(1)} ${(endX + 2).toFixed(1)},${(y + 1).toFixed(1)}" fill="${color}" opacity="0.8"/>`;
+}
+
+// The rounding sequence names marks by name; rounding sides are by sequence index
 export function generateCourseThumbnail(
   marks: SnapshotMark[],
   roundingSequence?: string[] | null,
+  roundingSides?: Record<number, RoundingSide> | null,
   options: ThumbnailOptions = {}
 ): string {
   const { width = 80, height = 80, padding = 8 } = options;
@@ -41,19 +54,31 @@ export function generateCourseThumbnail(
 
   const paths: string[] = [];
   const circles: string[] = [];
+  const roundings: string[] = [];
 
   const sortedMarks = [...marks].sort((a, b) => a.order - b.order);
 
   if (roundingSequence && roundingSequence.length > 1) {
     const marksByName = new Map(marks.map(m => [m.name, m]));
     const sequencePoints: { x: number; y: number }[] = [];
+    const rounded = new Set<string>();
+    const sides = resolveRoundingSides(
+      roundingSequence,
+      marks.map(m => ({ id: m.name, isGate: m.isGate, roundingSide: m.roundingSide ?? null })),
+      roundingSides ?? undefined
+    );
     
-    for (const name of roundingSequence) {
+    roundingSequence.forEach((name, index) => {
       const mark = marksByName.get(name);
       if (mark) {
         sequencePoints.push({ x: toX(mark.lng), y: toY(mark.lat) });
+        const side = sides[index];
+        if (side && !mark.isStartLine && !mark.isFinishLine && !rounded.has(`${name}-${side}`)) {
+          rounded.add(`${name}-${side}`);
+          roundings.push(roundingArc(toX(mark.lng), toY(mark.lat), side));
+        }
       }
-    }
+    });
     
     if (sequencePoints.length > 1) {
       const pathD = sequencePoints
@@ -107,6 +132,7 @@ export function generateCourseThumbnail(
   return `<svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
     <rect width="${width}" height="${height}" fill="transparent"/>
     ${paths.join('\n    ')}
+    ${roundings.join('\n    ')}
     ${circles.join('\n    ')}
   </svg>`;
 }
@@ -0,0 +1,192 @@
+import { calculateBearing, calculateDistance } from "./course-bearings";
+import type { CourseSnapshot, SnapshotMark } from "@/hooks/use-api";
+import type { RoundingSide } from "@shared/schema";
+
+// Differences between two saved versions of a course. Snapshot marks have no
+// ids, so marks are matched by name; a name used twice is matched in order.
+
+// Closer than this a mark has not moved; positions round-trip through floats
+export const MOVE_THRESHOLD_METERS = 0.5;
+
+const COMPARED_FIELDS = [
+  "role",
+  "isStartLine",
+  "isFinishLine",
+  "isCourseMark",
+  "isGate",
+  "gateWidthBoatLengths",
+  "gateSide",
+  "roundingSide",
+] as const satisfies readonly (keyof SnapshotMark)[];
+
+export type MarkVersionStatus = "added" | "removed" | "moved" | "changed" | "unchanged";
+
+export interface MarkVersionChange {
+  name: string;
+  status: MarkVersionStatus;
+  before: SnapshotMark | null;
+  after: SnapshotMark | null;
+  // Set when the mark is in both versions
+  distanceMeters: number | null;
+  bearing: number | null;
+  // Other settings that differ, besides position
+  changedFields: string[];
+}
+
+export interface CourseVersionDiff {
+  marks: MarkVersionChange[];
+  sequenceBefore: string[];
+  sequenceAfter: string[];
+  // Per-entry rounding sides, by sequence index
+  sidesBefore: Record<number, RoundingSide>;
+  sidesAfter: Record<number, RoundingSide>;
+  // The sequence or any entry's rounding side differs
+  sequenceChanged: boolean;
+  designationBefore: string | null;
+  designationAfter: string | null;
+  designationChanged: boolean;
+  changeCount: number;
+}
+
+// Two versions overlaid on the map
+export interface CourseVersionComparison {
+  courseName: string;
+  baseLabel: string;
+  compareLabel: string;
+  diff: CourseVersionDiff;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  role: "role",
+  isStartLine: "start line",
+  isFinishLine: "finish line",
+  isCourseMark: "course mark",
+  isGate: "gate",
+  gateWidthBoatLengths: "gate width",
+  gateSide: "gate side",
+  roundingSide: "rounding side",
+};
+
+// Entries in index order, so the same sides compare equal however they were stored
+function normalizeSides(sides: Record<number, RoundingSide> | null): Record<number, RoundingSide> {
+  return Object.fromEntries(
+    Object.entries(sides ?? {}).sort(([a], [b]) => Number(a) - Number(b))
+  );
+}
+
+// Names made unique by occurrence ("Gate", "Gate#2") so duplicates still pair up
+function keyMarks(marks: SnapshotMark[]): Map<string, SnapshotMark> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, SnapshotMark>();
+  for (const mark of marks) {
+    const count = (seen.get(mark.name) ?? 0) + 1;
+    seen.set(mark.name, count);
+    keyed.set(count === 1 ? mark.name : `${mark.name}#${count}`, mark);
+  }
+  return keyed;
+}
+
+function compareMarks(name: string, before: SnapshotMark | null, after: SnapshotMark | null): MarkVersionChange {
+  if (!before || !after) {
+    return {
+      name,
+      status: before ? "removed" : "added",
+      before,
+      after,
+      distanceMeters: null,
+      bearing: null,
+      changedFields: [],
+    };
+  }
+
+  const distanceMeters = calculateDistance(before.lat, before.lng, after.lat, after.lng);
+  const moved = distanceMeters >= MOVE_THRESHOLD_METERS;
+  const changedFields = COMPARED_FIELDS
+    .filter(field => (before[field] ?? null) !== (after[field] ?? null))
+    .map(field => FIELD_LABELS[field]);
+
+  return {
+    name,
+    status: moved ? "moved" : changedFields.length > 0 ? "changed" : "unchanged",
+    before,
+    after,
+    distanceMeters,
+    bearing: moved ? calculateBearing(before.lat, before.lng, after.lat, after.lng) : null,
+    changedFields,
+  };
+}
+
+/**
+ * What changed from `base` to `compare`: marks moved, added, removed or
+ * reconfigured, the rounding sequence with its per-entry sides, and the
+ * course designation.
+ */
+export function diffCourseVersions(base: CourseSnapshot, compare: CourseSnapshot): CourseVersionDiff {
+  const before = keyMarks(base.snapshotMarks ?? []);
+  const after = keyMarks(compare.snapshotMarks ?? []);
+  const names = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+
+  const marks = names.map(key => {
+    const mark = before.get(key) ?? after.get(key)!;
+    return compareMarks(mark.name, before.get(key) ?? null, after.get(key) ?? null);
+  });
+
+  const sequenceBefore = base.roundingSequence ?? [];
+  const sequenceAfter = compare.roundingSequence ?? [];
+  const sidesBefore = normalizeSides(base.roundingSides);
+  const sidesAfter = normalizeSides(compare.roundingSides);
+  const sequenceChanged = JSON.stringify(sequenceBefore) !== JSON.stringify(sequenceAfter)
+    || JSON.stringify(sidesBefore) !== JSON.stringify(sidesAfter);
+  const designationBefore = base.designation ?? null;
+  const designationAfter = compare.designation ?? null;
+  const designationChanged = designationBefore !== designationAfter;
+
+  return {
+    marks,
+    sequenceBefore,
+    sequenceAfter,
+    sidesBefore,
+    sidesAfter,
+    sequenceChanged,
+    designationBefore,
+    designationAfter,
+    designationChanged,
+    changeCount: marks.filter(m => m.status !== "unchanged").length
+      + (sequenceChanged ? 1 : 0)
+      + (designationChanged ? 1 : 0),
+  };
+}
+
+/** "Start – Windward (P) – Leeward – Finish"; sides are only shown where an entry sets one. */
+export function formatSequence(sequence: string[], sides: Record<number, RoundingSide> | null = null): string {
+  if (sequence.length === 0) return "none";
+  return sequence.map((entry, index) => {
+    const name = entry === "start" ? "Start" : entry === "finish" ? "Finish" : entry;
+    const side = sides?.[index];
+    return side ? `${name} (${side === "port" ? "P" : "S"})` : name;
+  }).join(" – ");
+}
+
+/** Version number and the date it was saved */
+export function formatVersionLabel(snapshot: CourseSnapshot): string {
+  const date = snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleDateString() : null;
+  return date ? `v${snapshot.version} · ${date}` : `v${snapshot.version}`;
+}
+
+/** One line for the change list: "moved 12 m at 045°", "rounding side, gate width". */
+export function describeMarkChange(change: MarkVersionChange): string {
+  switch (change.status) {
+    case "added":
+      return "added";
+    case "removed":
+      return "removed";
+    case "unchanged":
+      return "unchanged";
+    case "moved": {
+      const move = `moved ${Math.round(change.distanceMeters!)} m at ${String(Math.round(change.bearing!) % 360).padStart(3, "0")}°`;
+      return change.changedFields.length > 0 ? `${move}; ${change.changedFields.join(", ")}` : move;
+    }
+    case "changed":
+      return change.changedFields.join(", ");
+  }
+}
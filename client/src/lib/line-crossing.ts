@@ -0,0 +1,77 @@
+import type { Mark } from "@shared/schema";
+
+export interface Point {
+  lat: number;
+  lng: number;
+}
+
+export interface TimedPosition extends Point {
+  timestamp: Date;
+}
+
+const METERS_PER_DEGREE_LAT = 110540;
+const METERS_PER_DEGREE_LNG = 111320;
+
+/** Flat projection to meters around an origin, accurate at race course scale. */
+export function localProjection(origin: Point): (p: Point) => { x: number; y: number } {
+  const cosLat = Math.cos((origin.lat * Math.PI) / 180);
+  return (p: Point) => ({
+    x: (p.lng - origin.lng) * METERS_PER_DEGREE_LNG * cosLat,
+    y: (p.lat - origin.lat) * METERS_PER_DEGREE_LAT,
+  });
+}
+
+/** Committee boat and pin, falling back to the first two start line marks. */
+export function getStartLineMarks(marks: Mark[]): [Mark, Mark] | null {
+  const committeeBoat = marks.find(m => m.role === "start_boat");
+  const pin = marks.find(m => m.role === "pin");
+  if (committeeBoat && pin) {
+    return [committeeBoat, pin];
+  }
+  const startMarks = marks.filter(m => m.isStartLine).sort((a, b) => a.order - b.order);
+  return startMarks.length >= 2 ? [startMarks[0], startMarks[1]] : null;
+}
+
+/**
+ * The two marks forming the finish line. Dedicated finish marks win over start
+ * line marks that double as the finish.
+ */
+export function getFinishLineMarks(marks: Mark[]): [Mark, Mark] | null {
+  const finishMarks = marks.filter(m => m.isFinishLine).sort((a, b) => a.order - b.order);
+  const dedicated = finishMarks.filter(m => !m.isStartLine);
+  const line = dedicated.length >= 2 ? dedicated : finishMarks;
+  return line.length >= 2 ? [line[0], line[1]] : null;
+}
+
+/**
+ * Where a boat's track between two fixes crosses the line A-B, as the time
+ * interpolated along the track. Returns null if the track does not cross.
+ */
+export function findLineCrossing(
+  from: TimedPosition,
+  to: TimedPosition,
+  lineStart: Point,
+  lineEnd: Point
+): Date | null {
+  const project = localProjection(lineStart);
+
+  const p = project(from);
+  const r = { x: project(to).x - p.x, y: project(to).y - p.y };
+  const s = project(lineEnd);
+
+  const denominator = r.x * s.y - r.y * s.x;
+  if (Math.abs(denominator) < 1e-9) {
+    return null; // Sailing parallel to the line
+  }
+
+  // Fraction along the track (t) and along the line (u) where they meet
+  const t = (s.x * p.y - s.y * p.x) / denominator;
+  const u = (r.x * p.y - r.y * p.x) / denominator;
+  if (t < 0 || t > 1 || u < 0 || u > 1) {
+    return null;
+  }
+
+  const fromMs = new Date(from.timestamp).getTime();
+  const toMs = new Date(to.timestamp).getTime();
+  return new Date(fromMs + (toMs - fromMs) * t);
+}
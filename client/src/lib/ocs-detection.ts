@@ -0,0 +1,117 @@
+import { getStartLineMarks, localProjection, type Point } from "@/lib/line-crossing";
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import type { Mark } from "@shared/schema";
+
+export type StartCallStatus = "ocs" | "close" | "clear" | "unknown";
+
+export interface BoatStartCall {
+  boatId: string;
+  sailNumber: string;
+  status: StartCallStatus;
+  // Bow distance from the line at the signal; positive is on the course side
+  distanceMeters: number | null;
+}
+
+export interface StartAnalysis {
+  startAt: number;
+  calls: BoatStartCall[];
+  ocs: BoatStartCall[];
+  close: BoatStartCall[];
+}
+
+// Trackers sit aft of the bow, which is what the rule judges
+const BOW_OFFSET_METERS = 2;
+// Inside GPS error either way; the line sighter has to call these
+const CLOSE_MARGIN_METERS = 3;
+// Fixes older than this at the signal are too stale to dead-reckon from
+const MAX_FIX_AGE_MS = 10000;
+const KNOTS_TO_MS = 0.514444;
+
+/**
+ * A point on the course side of the start line: the middle of the course marks,
+ * or upwind of the line when there are none.
+ */
+function getCourseSidePoint(line: [Mark, Mark], marks: Mark[], windDirection?: number): Point | null {
+  const courseMarks = marks.filter(m => m.isCourseMark && !m.isStartLine);
+  if (courseMarks.length > 0) {
+    return {
+      lat: courseMarks.reduce((sum, m) => sum + m.lat, 0) / courseMarks.length,
+      lng: courseMarks.reduce((sum, m) => sum + m.lng, 0) / courseMarks.length,
+    };
+  }
+  if (windDirection === undefined) {
+    return null;
+  }
+  const midLat = (line[0].lat + line[1].lat) / 2;
+  const midLng = (line[0].lng + line[1].lng) / 2;
+  const rad = (windDirection * Math.PI) / 180;
+  return {
+    lat: midLat + Math.cos(rad) * 0.005,
+    lng: midLng + Math.sin(rad) * 0.005 / Math.cos((midLat * Math.PI) / 180),
+  };
+}
+
+/**
+ * Calls each tracked boat at a start signal. Every boat's bow is dead-reckoned
+ * from its latest fix to the signal time using heading and speed, then measured
+ * against the start line and its extensions. Returns null when the start line
+ * or its course side cannot be worked out from the marks.
+ */
+export function analyzeStart(
+  boats: TrackedBoat[],
+  marks: Mark[],
+  startAt: number,
+  windDirection?: number
+): StartAnalysis | null {
+  const line = getStartLineMarks(marks);
+  if (!line) {
+    return null;
+  }
+  const courseSidePoint = getCourseSidePoint(line, marks, windDirection);
+  if (!courseSidePoint) {
+    return null;
+  }
+
+  const project = localProjection(line[0]);
+  const lineEnd = project(line[1]);
+  const lineLength = Math.hypot(lineEnd.x, lineEnd.y);
+  if (lineLength === 0) {
+    return null;
+  }
+  const sideOf = (p: { x: number; y: number }) => (lineEnd.x * p.y - lineEnd.y * p.x) / lineLength;
+  const courseSideSign = Math.sign(sideOf(project(courseSidePoint))) || 1;
+
+  const calls = boats.map((boat): BoatStartCall => {
+    const ageMs = startAt - new Date(boat.timestamp).getTime();
+    if (Math.abs(ageMs) > MAX_FIX_AGE_MS) {
+      return { boatId: boat.id, sailNumber: boat.sailNumber, status: "unknown", distanceMeters: null };
+    }
+
+    const heading = (boat.heading * Math.PI) / 180;
+    const travel = boat.speed * KNOTS_TO_MS * (ageMs / 1000) + BOW_OFFSET_METERS;
+    const fix = project(boat);
+    const bow = { x: fix.x + Math.sin(heading) * travel, y: fix.y + Math.cos(heading) * travel };
+    const distanceMeters = sideOf(bow) * courseSideSign;
+
+    const status: StartCallStatus = Math.abs(distanceMeters) <= CLOSE_MARGIN_METERS
+      ? "close"
+      : distanceMeters > 0 ? "ocs" : "clear";
+    return { boatId: boat.id, sailNumber: boat.sailNumber, status, distanceMeters };
+  });
+
+  const byDistance = (a: BoatStartCall, b: BoatStartCall) => (b.distanceMeters ?? 0) - (a.distanceMeters ?? 0);
+  return {
+    startAt,
+    calls,
+    ocs: calls.filter(c => c.status === "ocs").sort(byDistance),
+    close: calls.filter(c => c.status === "close").sort(byDistance),
+  };
+}
+
+/**
+ * Boats sailing in a fleet's start. Boats tagged with a fleet count only for the
+ * fleet of that name; untagged boats are assumed to be in every start.
+ */
+export function getFleetBoats(boats: TrackedBoat[], fleetName: string): TrackedBoat[] {
+  return boats.filter(b => !b.fleetId || b.fleetId === fleetName);
+}
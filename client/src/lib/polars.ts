@@ -0,0 +1,168 @@
+import { polarTableSchema, type PolarTable } from "@shared/schema";
+
+// Boat speed polars: import from ORC / Expedition exports, and boat speed, VMG
+// and best beating/running angles interpolated at any true wind speed and angle.
+
+export interface PolarTarget {
+  twa: number;
+  boatSpeed: number;
+  vmg: number;
+}
+
+// Best-angle search resolution, degrees
+const ANGLE_STEP = 0.5;
+// Drifting speed, knots. Estimates in a calm come out long rather than endless
+const MIN_BOAT_SPEED = 0.5;
+
+function splitRow(line: string): string[] {
+  const delimiter = line.includes(";") ? ";" : line.includes(",") ? "," : line.includes("\t") ? "\t" : /\s+/;
+  const cells = line.split(delimiter).map(cell => cell.trim());
+  while (cells.length > 0 && cells[cells.length - 1] === "") {
+    cells.pop();
+  }
+  return cells;
+}
+
+function toNumber(cell: string | undefined): number | null {
+  if (cell === undefined || cell === "") return null;
+  const value = Number(cell);
+  return isFinite(value) ? value : null;
+}
+
+/**
+ * ORC-style matrix: a header row of wind speeds ("twa/tws;6;8;10..."), then one
+ * row per true wind angle. Labelled rows such as "Beat angle" or "Run VMG" are
+ * skipped; the best angles are worked out from the speeds instead.
+ */
+function parseMatrix(rows: string[][]): PolarTable {
+  const windSpeeds = rows[0].slice(1).map(toNumber);
+  if (windSpeeds.length === 0 || windSpeeds.some(v => v === null)) {
+    throw new Error("Header row must list the true wind speeds");
+  }
+
+  const angles: number[] = [];
+  const speeds: number[][] = [];
+  for (const row of rows.slice(1)) {
+    const angle = toNumber(row[0]);
+    if (angle === null) continue;
+    const values = windSpeeds.map((_, j) => toNumber(row[j + 1]) ?? 0);
+    angles.push(angle);
+    speeds.push(values);
+  }
+  return { windSpeeds: windSpeeds as number[], angles, speeds };
+}
+
+/**
+ * Expedition format: one row per true wind speed, "TWS TWA1 BSP1 TWA2 BSP2 ...".
+ * Rows may list different angles, so every angle seen becomes a row of the
+ * table and missing speeds are interpolated along that wind speed's curve.
+ */
+function parseExpedition(rows: string[][]): PolarTable {
+  const curves: { windSpeed: number; points: [number, number][] }[] = [];
+  for (const row of rows) {
+    const values = row.map(toNumber);
+    if (values.some(v => v === null) || values.length < 3) {
+      throw new Error(`Unreadable polar row: ${row.join(" ")}`);
+    }
+    const points: [number, number][] = [];
+    for (let i = 1; i + 1 < values.length; i += 2) {
+      points.push([values[i]!, values[i + 1]!]);
+    }
+    curves.push({ windSpeed: values[0]!, points: points.sort((a, b) => a[0] - b[0]) });
+  }
+  curves.sort((a, b) => a.windSpeed - b.windSpeed);
+
+  const angles = Array.from(new Set(curves.flatMap(c => c.points.map(([angle]) => angle)))).sort((a, b) => a - b);
+  const speeds = angles.map(angle => curves.map(curve => interpolateCurve(curve.points, angle)));
+  return { windSpeeds: curves.map(c => c.windSpeed), angles, speeds };
+}
+
+function interpolateCurve(points: [number, number][], angle: number): number {
+  if (angle <= points[0][0]) return angle === points[0][0] ? points[0][1] : 0;
+  for (let i = 1; i < points.length; i++) {
+    const [a1, s1] = points[i];
+    if (angle <= a1) {
+      const [a0, s0] = points[i - 1];
+      return s0 + ((s1 - s0) * (angle - a0)) / (a1 - a0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/** Parses an ORC CSV or Expedition polar export. Throws with a readable message when the file isn't a polar. */
+export function parsePolarCsv(text: string, source?: string): PolarTable {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("!") && !line.startsWith("#"))
+    .map(splitRow);
+  if (rows.length < 2) {
+    throw new Error("Polar file is empty");
+  }
+
+  const polar = toNumber(rows[0][0]) === null ? parseMatrix(rows) : parseExpedition(rows);
+  const result = polarTableSchema.safeParse({ ...polar, ...(source && { source }) });
+  if (!result.success) {
+    throw new Error(result.error.errors[0]?.message ?? "Invalid polar table");
+  }
+  return result.data;
+}
+
+/** Index and fraction of `value` between neighbouring entries of an ascending axis, clamped to its ends. */
+function locate(axis: number[], value: number): [number, number, number] {
+  if (axis.length === 1 || value <= axis[0]) return [0, 0, 0];
+  const last = axis.length - 1;
+  if (value >= axis[last]) return [last, last, 0];
+  let i = 0;
+  while (axis[i + 1] < value) i++;
+  return [i, i + 1, (value - axis[i]) / (axis[i + 1] - axis[i])];
+}
+
+/**
+ * Boat speed at a true wind speed and angle, interpolated across the table.
+ * Below the lightest wind in the table speed falls off, down to a drift; above
+ * the strongest it holds. Inside the first tabulated angle the boat is pinching
+ * and makes no useful speed.
+ */
+export function getPolarBoatSpeed(polar: PolarTable, windSpeed: number, twa: number): number {
+  const angle = Math.min(180, Math.abs(twa));
+  if (angle < polar.angles[0]) return 0;
+
+  const [w0, w1, wf] = locate(polar.windSpeeds, windSpeed);
+  const [a0, a1, af] = locate(polar.angles, angle);
+  const at = (a: number, w: number) => polar.speeds[a][w];
+  const lower = at(a0, w0) + (at(a0, w1) - at(a0, w0)) * wf;
+  const upper = at(a1, w0) + (at(a1, w1) - at(a1, w0)) * wf;
+  const speed = lower + (upper - lower) * af;
+
+  if (windSpeed >= polar.windSpeeds[0]) return speed;
+  // The drift floor never lifts a speed above what the table gives at its lightest wind
+  return Math.max(Math.min(MIN_BOAT_SPEED, speed), speed * Math.max(0, windSpeed) / polar.windSpeeds[0]);
+}
+
+function bestAngle(polar: PolarTable, windSpeed: number, from: number, to: number, sign: 1 | -1): PolarTarget {
+  let best: PolarTarget = { twa: from, boatSpeed: 0, vmg: 0 };
+  for (let twa = from; twa <= to; twa += ANGLE_STEP) {
+    const boatSpeed = getPolarBoatSpeed(polar, windSpeed, twa);
+    const vmg = sign * boatSpeed * Math.cos((twa * Math.PI) / 180);
+    if (vmg > best.vmg) {
+      best = { twa, boatSpeed, vmg };
+    }
+  }
+  return best;
+}
+
+/** Best VMG beating angle, boat speed and VMG at a wind speed. */
+export function getBeatTarget(polar: PolarTable, windSpeed: number): PolarTarget {
+  return bestAngle(polar, windSpeed, polar.angles[0], 90, 1);
+}
+
+/** Best VMG running angle, boat speed and VMG (downwind, positive) at a wind speed. */
+export function getRunTarget(polar: PolarTable, windSpeed: number): PolarTarget {
+  return bestAngle(polar, windSpeed, 90, Math.min(180, polar.angles[polar.angles.length - 1]), -1);
+}
+
+export function describePolar(polar: PolarTable): string {
+  const winds = polar.windSpeeds;
+  return `${winds.length} wind speeds (${winds[0]}–${winds[winds.length - 1]} kts) × ${polar.angles.length} angles`;
+}
@@ -7,6 +7,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+type ApiRequestListener = (method: string, url: string, data: unknown, res: Response) => void;
+
+const apiRequestListeners = new Set<ApiRequestListener>();
+
+/** Calls the listener after each successful apiRequest, until the returned function is called. */
+export function onApiRequest(listener: ApiRequestListener): () => void {
+  apiRequestListeners.add(listener);
+  return () => {
+    apiRequestListeners.delete(listener);
+  };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -20,6 +32,7 @@ export async function apiRequest(
   });
 
   await throwIfResNotOk(res);
+  apiRequestListeners.forEach(listener => listener(method, url, data, res));
   return res;
 }
 
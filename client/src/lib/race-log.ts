@@ -0,0 +1,83 @@
+import type { Race, RaceLogEntryWithAuthor, RaceLogKind } from "@shared/schema";
+
+// Showing and printing the race committee log. Printing opens the log as a
+// plain page in a new window with the browser's print dialog, from which it
+// is saved as PDF.
+
+export const RACE_LOG_KIND_LABELS: Record<RaceLogKind, string> = {
+  signal: "Signal",
+  race_status: "Race",
+  course_change: "Course change",
+  course_transform: "Course adjusted",
+  shorten_course: "Shortened",
+  course_restored: "Course restored",
+  abandon: "Abandoned",
+  mark_move: "Mark moved",
+  buoy_command: "Buoy command",
+  note: "Note",
+};
+
+export function getRaceLogKindLabel(kind: string): string {
+  return RACE_LOG_KIND_LABELS[kind as RaceLogKind] ?? kind;
+}
+
+/** "215° 12.4 kn", or an empty string when no wind was recorded. */
+export function formatRaceLogWind(entry: Pick<RaceLogEntryWithAuthor, "windDirection" | "windSpeed">): string {
+  if (entry.windDirection === null || entry.windSpeed === null) return "";
+  return `${String(Math.round(entry.windDirection) % 360).padStart(3, "0")}° ${entry.windSpeed.toFixed(1)} kn`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Opens the print dialog for the log. Returns false when the browser blocked the window. */
+export function printRaceLog(title: string, entries: RaceLogEntryWithAuthor[], races: Race[]): boolean {
+  const win = window.open("", "_blank");
+  if (!win) return false;
+
+  const raceNumbers = new Map(races.map(r => [r.id, r.raceNumber]));
+  const rows = entries.map(entry => {
+    const raceNumber = entry.raceId ? raceNumbers.get(entry.raceId) : undefined;
+    return `<tr>
+      <td>${new Date(entry.createdAt).toISOString().replace("T", " ").slice(0, 19)}</td>
+      <td>${raceNumber ?? ""}</td>
+      <td>${escapeHtml(getRaceLogKindLabel(entry.kind))}</td>
+      <td>${escapeHtml(entry.summary)}</td>
+      <td>${escapeHtml(entry.createdByName ?? "")}</td>
+      <td>${formatRaceLogWind(entry)}</td>
+    </tr>`;
+  }).join("");
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; font-size: 11px; margin: 24px; }
+    h1 { font-size: 16px; margin: 0 0 4px; }
+    p { color: #555; margin: 0 0 12px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border-bottom: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f2f2f2; }
+    td:first-child { white-space: nowrap; font-family: monospace; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>Printed ${new Date().toISOString().replace("T", " ").slice(0, 19)} UTC · ${entries.length} entries</p>
+  <table>
+    <thead><tr><th>Time (UTC)</th><th>Race</th><th>Kind</th><th>Entry</th><th>By</th><th>Wind</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
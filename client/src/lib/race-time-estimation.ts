@@ -1,5 +1,7 @@
-import type { BoatClass, LegTimeEstimate, RaceTimeEstimate, Mark } from "@shared/schema";
+import type { BoatClass, Buoy, LegTimeEstimate, RaceTimeEstimate, Mark, PolarTable, RoundingSide } from "@shared/schema";
+import { resolveRoundingSides } from "@shared/course-designations";
 import { calculateWindAngle } from "./course-bearings";
+import { getBeatTarget, getRunTarget, getPolarBoatSpeed } from "./polars";
 
 interface LegData {
   fromMark: { name: string; lat: number; lng: number };
@@ -10,46 +12,79 @@ interface LegData {
 
 type PointOfSail = "upwind" | "close_reach" | "beam_reach" | "broad_reach" | "downwind";
 
-function determinePointOfSail(twa: number, noGoZoneAngle: number): PointOfSail {
-  if (twa < noGoZoneAngle) return "upwind";
+function determinePointOfSail(twa: number, beatAngle: number, runAngle: number): PointOfSail {
+  if (twa < beatAngle) return "upwind";
+  if (twa >= runAngle) return "downwind";
   if (twa < 60) return "close_reach";
   if (twa < 110) return "beam_reach";
-  if (twa < 150) return "broad_reach";
-  return "downwind";
+  return "broad_reach";
 }
 
-function getWindCategory(windSpeedKnots: number): "light" | "medium" | "heavy" {
-  if (windSpeedKnots <= 8) return "light";
-  if (windSpeedKnots <= 14) return "medium";
-  return "heavy";
+// Wind speeds the light/medium/heavy bands stand for. Values are interpolated
+// between them so an estimate moves smoothly with the wind instead of jumping
+// at a band edge.
+const BAND_WIND_SPEEDS = [5, 11, 17];
+
+function interpolateBands(light: number, medium: number, heavy: number, windSpeedKnots: number): number {
+  const [w0, w1, w2] = BAND_WIND_SPEEDS;
+  if (windSpeedKnots <= w0) return light;
+  if (windSpeedKnots <= w1) return light + ((medium - light) * (windSpeedKnots - w0)) / (w1 - w0);
+  if (windSpeedKnots <= w2) return medium + ((heavy - medium) * (windSpeedKnots - w1)) / (w2 - w1);
+  return heavy;
 }
 
-function getVMG(boatClass: BoatClass, pointOfSail: PointOfSail, windCategory: "light" | "medium" | "heavy"): number {
-  switch (pointOfSail) {
-    case "upwind":
-      switch (windCategory) {
-        case "light": return boatClass.upwindVmgLight;
-        case "medium": return boatClass.upwindVmgMedium;
-        case "heavy": return boatClass.upwindVmgHeavy;
-      }
-      break;
-    case "downwind":
-      switch (windCategory) {
-        case "light": return boatClass.downwindVmgLight;
-        case "medium": return boatClass.downwindVmgMedium;
-        case "heavy": return boatClass.downwindVmgHeavy;
-      }
-      break;
-    case "close_reach":
-    case "beam_reach":
-    case "broad_reach":
-      switch (windCategory) {
-        case "light": return boatClass.reachSpeedLight;
-        case "medium": return boatClass.reachSpeedMedium;
-        case "heavy": return boatClass.reachSpeedHeavy;
-      }
+interface LegPerformance {
+  pointOfSail: PointOfSail;
+  // Angle sailed: beat/run angle on upwind and downwind legs, the leg's own TWA otherwise
+  optimalTwa: number;
+  vmg: number;
+  boatSpeed: number;
+}
+
+/** Performance from the boat class's polar: interpolated speeds and best VMG angles. */
+function getPolarPerformance(polar: PolarTable, twa: number, windSpeedKnots: number): LegPerformance {
+  const beat = getBeatTarget(polar, windSpeedKnots);
+  const run = getRunTarget(polar, windSpeedKnots);
+  const pointOfSail = determinePointOfSail(twa, beat.twa, run.twa);
+
+  if (pointOfSail === "upwind") {
+    return { pointOfSail, optimalTwa: beat.twa, vmg: beat.vmg, boatSpeed: beat.boatSpeed };
+  }
+  if (pointOfSail === "downwind") {
+    return { pointOfSail, optimalTwa: run.twa, vmg: run.vmg, boatSpeed: run.boatSpeed };
   }
-  return 3;
+  const boatSpeed = getPolarBoatSpeed(polar, windSpeedKnots, twa);
+  return { pointOfSail, optimalTwa: twa, vmg: boatSpeed, boatSpeed };
+}
+
+/** Performance from the light/medium/heavy band columns, for classes without a polar. */
+function getBandPerformance(boatClass: BoatClass, twa: number, windSpeedKnots: number): LegPerformance {
+  const pointOfSail = determinePointOfSail(twa, boatClass.noGoZoneAngle, 150);
+
+  // For upwind/downwind, VMG is the velocity toward the mark, but boat sails at an angle
+  // boatSpeed = VMG / cos(angle), because VMG = boatSpeed * cos(angle)
+  if (pointOfSail === "upwind") {
+    const vmg = interpolateBands(boatClass.upwindVmgLight, boatClass.upwindVmgMedium, boatClass.upwindVmgHeavy, windSpeedKnots);
+    // For upwind, optimalTwa is the angle from the wind (e.g., 42°)
+    const cosAngle = Math.cos((boatClass.upwindTwa * Math.PI) / 180);
+    return { pointOfSail, optimalTwa: boatClass.upwindTwa, vmg, boatSpeed: vmg / Math.max(cosAngle, 0.5) };
+  }
+  if (pointOfSail === "downwind") {
+    const vmg = interpolateBands(boatClass.downwindVmgLight, boatClass.downwindVmgMedium, boatClass.downwindVmgHeavy, windSpeedKnots);
+    // For downwind, use deviation from dead downwind (180 - optimalTwa)
+    // e.g., if optimalTwa = 145°, deviation = 35°, cos(35°) ≈ 0.82
+    const deviationFromDead = 180 - boatClass.downwindTwa;
+    const cosAngle = Math.cos((deviationFromDead * Math.PI) / 180);
+    return { pointOfSail, optimalTwa: boatClass.downwindTwa, vmg, boatSpeed: vmg / Math.max(cosAngle, 0.5) };
+  }
+  const speed = interpolateBands(boatClass.reachSpeedLight, boatClass.reachSpeedMedium, boatClass.reachSpeedHeavy, windSpeedKnots);
+  return { pointOfSail, optimalTwa: twa, vmg: speed, boatSpeed: speed };
+}
+
+function getLegPerformance(boatClass: BoatClass, twa: number, windSpeedKnots: number): LegPerformance {
+  return boatClass.polar
+    ? getPolarPerformance(boatClass.polar, twa, windSpeedKnots)
+    : getBandPerformance(boatClass, twa, windSpeedKnots);
 }
 
 function calculateSailingDistanceAndManeuvers(
@@ -78,9 +113,13 @@ function calculateSailingDistanceAndManeuvers(
 }
 
 function formatTime(totalSeconds: number): string {
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = Math.round(totalSeconds % 60);
+  if (!isFinite(totalSeconds)) {
+    return "Can't stem current";
+  }
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
   
   if (hours > 0) {
     return `${hours}h ${minutes}m`;
@@ -88,13 +127,151 @@ function formatTime(totalSeconds: number): string {
   return `${minutes}m ${seconds}s`;
 }
 
+/** A buoy's current reading; direction is the set, the way the water flows. */
+export interface CurrentStation {
+  lat: number;
+  lng: number;
+  speed: number;
+  direction: number;
+}
+
+export function getCurrentStations(buoys: Buoy[]): CurrentStation[] {
+  return buoys.flatMap(b =>
+    b.lat !== null && b.lng !== null && b.currentSpeed !== null && b.currentDirection !== null
+      ? [{ lat: b.lat, lng: b.lng, speed: b.currentSpeed, direction: b.currentDirection }]
+      : []
+  );
+}
+
+function nearestStation(leg: LegData, stations: CurrentStation[]): CurrentStation | null {
+  const midLat = (leg.fromMark.lat + leg.toMark.lat) / 2;
+  const midLng = (leg.fromMark.lng + leg.toMark.lng) / 2;
+  let nearest: CurrentStation | null = null;
+  let nearestDistance = Infinity;
+  for (const station of stations) {
+    const distance = haversine(midLat, midLng, station.lat, station.lng);
+    if (distance < nearestDistance) {
+      nearest = station;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+interface Vector {
+  east: number;
+  north: number;
+}
+
+function toVector(bearing: number, length: number): Vector {
+  const rad = (bearing * Math.PI) / 180;
+  return { east: Math.sin(rad) * length, north: Math.cos(rad) * length };
+}
+
+function toBearing(v: Vector): number {
+  return ((Math.atan2(v.east, v.north) * 180) / Math.PI + 360) % 360;
+}
+
+interface SailedLeg {
+  twa: number;
+  performance: LegPerformance;
+  sailingDistance: number;
+  maneuvers: number;
+  // Sailing plus tacks/jibes, without the mark rounding
+  timeSeconds: number;
+}
+
+function sailLeg(
+  distance: number,
+  bearing: number,
+  boatClass: BoatClass,
+  windSpeedKnots: number,
+  windDirectionDeg: number
+): SailedLeg {
+  const { absoluteTwa: twa } = calculateWindAngle(bearing, windDirectionDeg);
+  const performance = getLegPerformance(boatClass, twa, windSpeedKnots);
+  const { pointOfSail, optimalTwa, boatSpeed } = performance;
+
+  const { sailingDistance, maneuvers } = calculateSailingDistanceAndManeuvers(distance, twa, pointOfSail, optimalTwa);
+
+  // sailingDistance is the actual path length including tacks/jibes, so divide by boatSpeed (not VMG)
+  const sailingTimeSeconds = (sailingDistance / boatSpeed) * 3600;
+  const maneuverTime = pointOfSail === "upwind"
+    ? maneuvers * boatClass.tackTime
+    : pointOfSail === "downwind"
+      ? maneuvers * boatClass.jibeTime
+      : 0;
+
+  return { twa, performance, sailingDistance, maneuvers, timeSeconds: sailingTimeSeconds + maneuverTime };
+}
+
+// Longest leg worth solving for; beyond this the boat is not getting there
+const MAX_LEG_SECONDS = 24 * 3600;
+const CURRENT_TOLERANCE_SECONDS = 0.5;
+
+/**
+ * Sails a leg through moving water. The boat sails the water-relative leg:
+ * the mark as seen from the water, displaced against the set by the drift
+ * over the leg time. That time depends on the displacement, so it is solved
+ * for by bisection. Returns null when the current is too strong to reach the
+ * mark. The buoy wind is taken as the wind the boat sails in.
+ */
+function sailLegInCurrent(
+  leg: LegData,
+  current: CurrentStation,
+  boatClass: BoatClass,
+  windSpeedKnots: number,
+  windDirectionDeg: number
+): SailedLeg | null {
+  const ground = toVector(leg.bearing, leg.distance);
+  const set = toVector(current.direction, current.speed);
+  const sailFor = (seconds: number) => {
+    const hours = seconds / 3600;
+    const water = { east: ground.east - set.east * hours, north: ground.north - set.north * hours };
+    return sailLeg(Math.hypot(water.east, water.north), toBearing(water), boatClass, windSpeedKnots, windDirectionDeg);
+  };
+
+  // Leg time is where the time needed to sail the water-relative leg matches
+  // the time allowed for the drift; find a bracket, then close in
+  let low = 0;
+  let high = Math.max(60, sailLeg(leg.distance, leg.bearing, boatClass, windSpeedKnots, windDirectionDeg).timeSeconds);
+  while (sailFor(high).timeSeconds > high) {
+    low = high;
+    high *= 2;
+    if (high > MAX_LEG_SECONDS) return null;
+  }
+  while (high - low > CURRENT_TOLERANCE_SECONDS) {
+    const mid = (low + high) / 2;
+    if (sailFor(mid).timeSeconds > mid) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return { ...sailFor(high), timeSeconds: high };
+}
+
+/** Course over ground on each tack or gybe: the heading through the water plus the set. */
+function getGroundTracks(performance: LegPerformance, windDirectionDeg: number, current: CurrentStation): [number, number] {
+  const set = toVector(current.direction, current.speed);
+  const track = (heading: number) => {
+    const water = toVector(heading, performance.boatSpeed);
+    return toBearing({ east: water.east + set.east, north: water.north + set.north });
+  };
+  return [track(windDirectionDeg - performance.optimalTwa), track(windDirectionDeg + performance.optimalTwa)];
+}
+
+/**
+ * Estimates each leg and the whole race. With current stations, each leg is
+ * sailed in the current of the buoy nearest its midpoint.
+ */
 export function estimateRaceTime(
   legs: LegData[],
   boatClass: BoatClass,
   windSpeedKnots: number,
-  windDirectionDeg: number
+  windDirectionDeg: number,
+  currentStations: CurrentStation[] = []
 ): RaceTimeEstimate {
-  const windCategory = getWindCategory(windSpeedKnots);
   const legEstimates: LegTimeEstimate[] = [];
   
   let totalDistanceNm = 0;
@@ -102,57 +279,15 @@ export function estimateRaceTime(
   let totalTimeSeconds = 0;
   
   legs.forEach((leg, index) => {
-    const { absoluteTwa: twa } = calculateWindAngle(leg.bearing, windDirectionDeg);
-    const pointOfSail = determinePointOfSail(twa, boatClass.noGoZoneAngle);
-    
-    const optimalTwa = pointOfSail === "upwind" 
-      ? boatClass.upwindTwa 
-      : pointOfSail === "downwind" 
-        ? boatClass.downwindTwa 
-        : twa;
-    
-    const { sailingDistance, maneuvers } = calculateSailingDistanceAndManeuvers(
-      leg.distance,
-      twa,
-      pointOfSail,
-      optimalTwa
-    );
-    
-    const vmg = getVMG(boatClass, pointOfSail, windCategory);
-    
-    // For upwind/downwind, VMG is the velocity toward the mark, but boat sails at an angle
-    // boatSpeed = VMG / cos(angle), because VMG = boatSpeed * cos(angle)
-    // Since sailingDistance already accounts for the longer tacking/jibing path,
-    // we divide by boatSpeed (not VMG) to get correct time
-    let boatSpeed: number;
-    if (pointOfSail === "upwind") {
-      // For upwind, optimalTwa is the angle from the wind (e.g., 42°)
-      const cosAngle = Math.cos((optimalTwa * Math.PI) / 180);
-      boatSpeed = vmg / Math.max(cosAngle, 0.5);
-    } else if (pointOfSail === "downwind") {
-      // For downwind, use deviation from dead downwind (180 - optimalTwa)
-      // e.g., if optimalTwa = 145°, deviation = 35°, cos(35°) ≈ 0.82
-      const deviationFromDead = 180 - optimalTwa;
-      const cosAngle = Math.cos((deviationFromDead * Math.PI) / 180);
-      boatSpeed = vmg / Math.max(cosAngle, 0.5);
-    } else {
-      boatSpeed = vmg;
-    }
-    
-    // Use boatSpeed when sailingDistance is inflated for tacking/jibing
-    // Use vmg when using straight-line distance
-    // Since sailingDistance is the actual path length, use boatSpeed
-    const sailingTimeSeconds = (sailingDistance / boatSpeed) * 3600;
-    
-    const maneuverTime = pointOfSail === "upwind" 
-      ? maneuvers * boatClass.tackTime
-      : pointOfSail === "downwind"
-        ? maneuvers * boatClass.jibeTime
-        : 0;
-    
+    const stillWater = sailLeg(leg.distance, leg.bearing, boatClass, windSpeedKnots, windDirectionDeg);
+    const current = nearestStation(leg, currentStations);
+    const inCurrent = current ? sailLegInCurrent(leg, current, boatClass, windSpeedKnots, windDirectionDeg) : stillWater;
+    const sailed = inCurrent ?? stillWater;
+    const { pointOfSail, vmg, boatSpeed } = sailed.performance;
+
     const markRoundingTime = index > 0 ? boatClass.markRoundingTime : 0;
-    
-    const legTimeSeconds = sailingTimeSeconds + maneuverTime + markRoundingTime;
+    const sailingTimeSeconds = inCurrent ? inCurrent.timeSeconds : Infinity;
+    const legTimeSeconds = sailingTimeSeconds + markRoundingTime;
     
     legEstimates.push({
       legIndex: index,
@@ -160,17 +295,25 @@ export function estimateRaceTime(
       toMarkName: leg.toMark.name,
       distance: leg.distance,
       bearing: leg.bearing,
-      windAngle: twa,
+      windAngle: stillWater.twa,
       pointOfSail,
-      sailingDistance,
+      sailingDistance: sailed.sailingDistance,
       vmg,
       boatSpeed: Math.abs(boatSpeed),
       legTimeSeconds,
-      tacksOrJibes: maneuvers,
+      tacksOrJibes: sailed.maneuvers,
+      ...(current && {
+        currentSpeed: current.speed,
+        currentDirection: current.direction,
+        currentDeltaSeconds: sailingTimeSeconds - stillWater.timeSeconds,
+        ...(inCurrent && (pointOfSail === "upwind" || pointOfSail === "downwind") && {
+          groundTracks: getGroundTracks(sailed.performance, windDirectionDeg, current),
+        }),
+      }),
     });
     
     totalDistanceNm += leg.distance;
-    totalSailingDistanceNm += sailingDistance;
+    totalSailingDistanceNm += sailed.sailingDistance;
     totalTimeSeconds += legTimeSeconds;
   });
   
@@ -189,13 +332,34 @@ export function estimateRaceTime(
   };
 }
 
+// How far off a mark boats sail round it
+const ROUNDING_CLEARANCE_BOAT_LENGTHS = 2;
+
+/** Point `meters` from a position on a compass bearing. */
+function offsetPosition(lat: number, lng: number, bearing: number, meters: number): { lat: number; lng: number } {
+  const rad = (bearing * Math.PI) / 180;
+  return {
+    lat: lat + (meters * Math.cos(rad)) / 110540,
+    lng: lng + (meters * Math.sin(rad)) / (111320 * Math.cos((lat * Math.PI) / 180)),
+  };
+}
+
+/**
+ * Legs between the entries of a rounding sequence. Marks are rounded on their
+ * side (course sides by sequence index, else the mark's own, else port): legs
+ * run to and from a point a couple of boat lengths off the mark on that side,
+ * and the arc sailed round it is added to the leg into the mark. A mark left on
+ * the side the course turns away from costs nearly a full circle.
+ */
 export function buildLegsFromRoundingSequence(
   roundingSequence: string[],
   marks: Mark[],
-  startLineCenter?: { lat: number; lng: number }
+  startLineCenter?: { lat: number; lng: number },
+  roundingSides: Record<number, RoundingSide> = {}
 ): LegData[] {
   const legs: LegData[] = [];
   const markMap = new Map(marks.map(m => [m.id, m]));
+  const sides = resolveRoundingSides(roundingSequence, marks, roundingSides);
   
   const startMarks = marks.filter(m => m.isStartLine);
   const startCenter = startLineCenter || (startMarks.length > 0 
@@ -213,10 +377,10 @@ export function buildLegsFromRoundingSequence(
       }
     : null;
   
-  interface Position { name: string; lat: number; lng: number }
+  interface Position { name: string; lat: number; lng: number; side?: RoundingSide; clearanceMeters?: number }
   const positions: Position[] = [];
   
-  for (const item of roundingSequence) {
+  roundingSequence.forEach((item, index) => {
     if (item === "start" && startCenter) {
       positions.push({ name: "Start", lat: startCenter.lat, lng: startCenter.lng });
     } else if (item === "finish" && finishCenter) {
@@ -224,21 +388,46 @@ export function buildLegsFromRoundingSequence(
     } else {
       const mark = markMap.get(item);
       if (mark) {
-        positions.push({ name: mark.name, lat: mark.lat, lng: mark.lng });
+        positions.push({
+          name: mark.name,
+          lat: mark.lat,
+          lng: mark.lng,
+          side: sides[index],
+          clearanceMeters: (mark.boatLengthMeters ?? 6) * ROUNDING_CLEARANCE_BOAT_LENGTHS,
+        });
       }
     }
-  }
+  });
+
+  // Where boats arrive at and leave each rounded mark, and the arc between
+  const roundings = positions.map((pos, i) => {
+    const prev = positions[i - 1];
+    const next = positions[i + 1];
+    if (!pos.side || !pos.clearanceMeters || !prev || !next) return null;
+    const inBearing = calculateBearing(prev.lat, prev.lng, pos.lat, pos.lng);
+    const outBearing = calculateBearing(pos.lat, pos.lng, next.lat, next.lng);
+    // A mark left to port is passed with the boat on its starboard side, turning left
+    const beam = pos.side === "port" ? 90 : -90;
+    const turn = pos.side === "port"
+      ? (inBearing - outBearing + 360) % 360
+      : (outBearing - inBearing + 360) % 360;
+    return {
+      arrive: offsetPosition(pos.lat, pos.lng, inBearing + beam, pos.clearanceMeters),
+      leave: offsetPosition(pos.lat, pos.lng, outBearing + beam, pos.clearanceMeters),
+      arcNm: (pos.clearanceMeters * (turn * Math.PI) / 180) / 1852,
+    };
+  });
   
   for (let i = 0; i < positions.length - 1; i++) {
-    const from = positions[i];
-    const to = positions[i + 1];
+    const from = roundings[i]?.leave ?? positions[i];
+    const to = roundings[i + 1]?.arrive ?? positions[i + 1];
     
-    const distance = haversine(from.lat, from.lng, to.lat, to.lng);
+    const distance = haversine(from.lat, from.lng, to.lat, to.lng) + (roundings[i + 1]?.arcNm ?? 0);
     const bearing = calculateBearing(from.lat, from.lng, to.lat, to.lng);
     
     legs.push({
-      fromMark: from,
-      toMark: to,
+      fromMark: { name: positions[i].name, lat: from.lat, lng: from.lng },
+      toMark: { name: positions[i + 1].name, lat: to.lat, lng: to.lng },
       distance,
       bearing,
     });
@@ -298,24 +487,7 @@ export function estimateLineCrossingTime(
   const bearing = calculateBearing(mark1.lat, mark1.lng, mark2.lat, mark2.lng);
   
   const { absoluteTwa: twa } = calculateWindAngle(bearing, windDirectionDeg);
-  const windCategory = getWindCategory(windSpeedKnots);
-  const pointOfSail = determinePointOfSail(twa, boatClass.noGoZoneAngle);
-  
-  const vmg = getVMG(boatClass, pointOfSail, windCategory);
-  
-  let boatSpeed: number;
-  if (pointOfSail === "upwind") {
-    const optimalTwa = boatClass.upwindTwa;
-    const cosAngle = Math.cos((optimalTwa * Math.PI) / 180);
-    boatSpeed = vmg / Math.max(cosAngle, 0.5);
-  } else if (pointOfSail === "downwind") {
-    const optimalTwa = boatClass.downwindTwa;
-    const deviationFromDead = 180 - optimalTwa;
-    const cosAngle = Math.cos((deviationFromDead * Math.PI) / 180);
-    boatSpeed = vmg / Math.max(cosAngle, 0.5);
-  } else {
-    boatSpeed = vmg;
-  }
+  const { pointOfSail, boatSpeed } = getLegPerformance(boatClass, twa, windSpeedKnots);
   
   const timeSeconds = (distanceNm / boatSpeed) * 3600;
   
@@ -0,0 +1,235 @@
+import type { TrackedBoat } from "@/contexts/DemoModeContext";
+import type { Buoy, BuoyWeatherHistory, Mark, PositionHistoryResponse, PositionRecord, TrackingSource, WeatherData } from "@shared/schema";
+
+// Rebuilds the race area at any moment of a recorded window: where each buoy
+// and boat was, how the course was laid, and what the wind was doing.
+
+interface TimedRecord<T> {
+  at: number;
+  record: T;
+}
+
+export interface ReplayTimeline {
+  from: number;
+  to: number;
+  buoys: Map<string, TimedRecord<PositionRecord>[]>;
+  boats: Map<string, TimedRecord<PositionRecord>[]>;
+  marks: Map<string, TimedRecord<PositionRecord>[]>;
+  wind: Map<string, TimedRecord<BuoyWeatherHistory>[]>;
+  // Times within the window when a mark was added, moved or removed
+  courseChanges: number[];
+}
+
+export interface ReplayFrame {
+  buoys: Buoy[];
+  marks: Mark[];
+  boats: TrackedBoat[];
+  weatherData: WeatherData | null;
+}
+
+// Between samples further apart than this the entity was not reporting, so it
+// is held at its last position rather than glided across the gap
+const MAX_INTERPOLATION_GAP_MS = 60000;
+// A buoy or boat that has not reported for this long drops off the replay
+const STALE_POSITION_MS = 5 * 60 * 1000;
+const STALE_WIND_MS = 2 * 60 * 1000;
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string, at: (item: T) => number): Map<string, TimedRecord<T>[]> {
+  const groups = new Map<string, TimedRecord<T>[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push({ at: at(item), record: item });
+    groups.set(key(item), group);
+  }
+  groups.forEach(group => group.sort((a, b) => a.at - b.at));
+  return groups;
+}
+
+export function buildReplayTimeline(history: PositionHistoryResponse): ReplayTimeline {
+  const from = toTime(history.from);
+  const to = toTime(history.to);
+  const byKind = (kind: PositionRecord["kind"]) =>
+    groupBy(history.positions.filter(p => p.kind === kind), p => p.entityId, p => toTime(p.recordedAt));
+
+  const marks = byKind("mark");
+  const courseChanges = Array.from(new Set(
+    Array.from(marks.values())
+      .flat()
+      .map(entry => entry.at)
+      .filter(at => at >= from && at <= to)
+  )).sort((a, b) => a - b);
+
+  return {
+    from,
+    to,
+    buoys: byKind("buoy"),
+    boats: byKind("boat"),
+    marks,
+    wind: groupBy(history.wind, w => w.buoyId, w => toTime(w.timestamp)),
+    courseChanges,
+  };
+}
+
+/** Index of the last entry at or before `at`, or -1. */
+function findLatest<T>(entries: TimedRecord<T>[], at: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].at <= at) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+interface InterpolatedPosition {
+  record: PositionRecord;
+  lat: number;
+  lng: number;
+  heading: number | null;
+}
+
+function positionAt(entries: TimedRecord<PositionRecord>[], at: number): InterpolatedPosition | null {
+  const index = findLatest(entries, at);
+  if (index < 0 || at - entries[index].at > STALE_POSITION_MS) {
+    return null;
+  }
+
+  const current = entries[index];
+  const next = entries[index + 1];
+  const { record } = current;
+  if (!next || next.at - current.at > MAX_INTERPOLATION_GAP_MS) {
+    return { record, lat: record.lat, lng: record.lng, heading: record.heading };
+  }
+
+  const f = (at - current.at) / (next.at - current.at);
+  let heading = record.heading;
+  if (heading !== null && next.record.heading !== null) {
+    // Turn the short way round through north
+    const turn = ((next.record.heading - heading + 540) % 360) - 180;
+    heading = (heading + turn * f + 360) % 360;
+  }
+  return {
+    record,
+    lat: record.lat + (next.record.lat - record.lat) * f,
+    lng: record.lng + (next.record.lng - record.lng) * f,
+    heading,
+  };
+}
+
+function windAt(timeline: ReplayTimeline, at: number): Map<string, BuoyWeatherHistory> {
+  const readings = new Map<string, BuoyWeatherHistory>();
+  timeline.wind.forEach((entries, buoyId) => {
+    const index = findLatest(entries, at);
+    if (index >= 0 && at - entries[index].at <= STALE_WIND_MS) {
+      readings.set(buoyId, entries[index].record);
+    }
+  });
+  return readings;
+}
+
+/** Wind across all reporting buoys, averaged as vectors so 350° and 10° give north. */
+function averageWind(readings: BuoyWeatherHistory[], at: number): WeatherData | null {
+  if (readings.length === 0) {
+    return null;
+  }
+  const vector = (direction: number, speed: number) => {
+    const rad = (direction * Math.PI) / 180;
+    return { x: Math.sin(rad) * speed, y: Math.cos(rad) * speed };
+  };
+  const wind = readings.map(r => vector(r.windDirection, r.windSpeed));
+  const current = readings
+    .filter(r => r.currentDirection !== null && r.currentSpeed !== null)
+    .map(r => vector(r.currentDirection!, r.currentSpeed!));
+  const mean = (vectors: { x: number; y: number }[]) => ({
+    x: vectors.reduce((sum, v) => sum + v.x, 0) / Math.max(1, vectors.length),
+    y: vectors.reduce((sum, v) => sum + v.y, 0) / Math.max(1, vectors.length),
+  });
+  const toDegrees = (v: { x: number; y: number }) => ((Math.atan2(v.x, v.y) * 180) / Math.PI + 360) % 360;
+
+  const windMean = mean(wind);
+  const currentMean = mean(current);
+  return {
+    windSpeed: readings.reduce((sum, r) => sum + r.windSpeed, 0) / readings.length,
+    windDirection: toDegrees(windMean),
+    currentSpeed: Math.hypot(currentMean.x, currentMean.y),
+    currentDirection: toDegrees(currentMean),
+    source: "buoy",
+    timestamp: new Date(at),
+  };
+}
+
+/**
+ * The race area at a moment of the timeline. Buoy rows come from `knownBuoys`
+ * with the recorded position laid over them; marks with no recorded history at
+ * all are taken from `currentMarks` as they stand now.
+ */
+export function getReplayFrame(timeline: ReplayTimeline, at: number, knownBuoys: Buoy[], currentMarks: Mark[]): ReplayFrame {
+  const wind = windAt(timeline, at);
+
+  const buoys: Buoy[] = [];
+  timeline.buoys.forEach((entries, buoyId) => {
+    const known = knownBuoys.find(b => b.id === buoyId);
+    const position = known ? positionAt(entries, at) : null;
+    if (!known || !position) return;
+    const reading = wind.get(buoyId);
+    buoys.push({
+      ...known,
+      lat: position.lat,
+      lng: position.lng,
+      heading: position.heading,
+      speed: position.record.speed ?? 0,
+      state: position.record.state ?? known.state,
+      windDirection: reading?.windDirection ?? null,
+      windSpeed: reading?.windSpeed ?? null,
+      targetLat: null,
+      targetLng: null,
+      eta: null,
+    });
+  });
+
+  const marks: Mark[] = currentMarks.filter(m => !timeline.marks.has(m.id));
+  timeline.marks.forEach(entries => {
+    const index = findLatest(entries, at);
+    if (index < 0) return;
+    const { record } = entries[index];
+    if (record.state === "removed" || !record.data) return;
+    marks.push({ ...(record.data as unknown as Mark), lat: record.lat, lng: record.lng });
+  });
+  marks.sort((a, b) => a.order - b.order);
+
+  const boats: TrackedBoat[] = [];
+  timeline.boats.forEach((entries, boatId) => {
+    const position = positionAt(entries, at);
+    if (!position) return;
+    const { record } = position;
+    const fleetId = record.data?.fleetId;
+    boats.push({
+      id: boatId,
+      sailNumber: record.label ?? boatId,
+      lat: position.lat,
+      lng: position.lng,
+      heading: position.heading ?? 0,
+      speed: record.speed ?? 0,
+      timestamp: new Date(at),
+      source: record.state as TrackingSource,
+      ...(typeof fleetId === "string" && { fleetId }),
+    });
+  });
+
+  return {
+    buoys,
+    marks,
+    boats,
+    weatherData: averageWind(Array.from(wind.values()), at),
+  };
+}
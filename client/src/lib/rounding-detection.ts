@@ -0,0 +1,278 @@
+import { findLineCrossing, getFinishLineMarks, getStartLineMarks, localProjection, type Point, type TimedPosition } from "@/lib/line-crossing";
+import { calculateGatePositions } from "@/lib/course-bearings";
+import { resolveRoundingSides } from "@shared/course-designations";
+import type { Mark, RoundingSide } from "@shared/schema";
+
+/**
+ * One entry of the rounding sequence, with the geometry a boat has to pass:
+ * a line (start, finish, gate) to sail through, or a mark to go around.
+ */
+export interface CourseWaypoint {
+  key: string;
+  name: string;
+  kind: "start" | "mark" | "gate" | "finish";
+  // Index of the entry in the rounding sequence
+  sequenceIndex: number;
+  center: Point;
+  // Line ends for start, finish and gates
+  line?: [Point, Point];
+  roundingSide?: RoundingSide;
+}
+
+export interface BoatProgress {
+  boatId: string;
+  sailNumber: string;
+  // Index of the next waypoint to pass; equals waypoints.length once finished
+  nextWaypoint: number;
+  // Time each waypoint was passed, by waypoint index; [0] is the start signal
+  passedAt: (number | null)[];
+  distanceToNextMeters: number | null;
+  lastFix: TimedPosition;
+}
+
+export interface LegBoatTime {
+  sailNumber: string;
+  at: number;
+  legSeconds: number;
+}
+
+export interface LegProgress {
+  legIndex: number;
+  fromName: string;
+  toName: string;
+  leader: LegBoatTime | null;
+  last: LegBoatTime | null;
+  completed: number;
+  sailing: number;
+}
+
+// How far out from a mark the rounding gate extends
+const ROUNDING_RAY_METERS = 200;
+
+/**
+ * Turns the rounding sequence into waypoints. Unknown mark IDs are skipped, as
+ * in race-time estimation, so legs line up with the estimated legs. Gates need
+ * the wind direction to place their two buoys.
+ */
+export function buildCourseWaypoints(
+  roundingSequence: string[],
+  marks: Mark[],
+  windDirection: number | undefined,
+  // Course rounding sides by rounding sequence index; otherwise the mark's own side
+  roundingSides: Record<number, RoundingSide> = {}
+): CourseWaypoint[] {
+  const markMap = new Map(marks.map(m => [m.id, m]));
+  const sides = resolveRoundingSides(roundingSequence, marks, roundingSides);
+  const startLine = getStartLineMarks(marks);
+  const finishLine = getFinishLineMarks(marks);
+  const midpoint = (a: Point, b: Point): Point => ({ lat: (a.lat + b.lat) / 2, lng: (a.lng + b.lng) / 2 });
+
+  const waypoints: CourseWaypoint[] = [];
+  roundingSequence.forEach((item, index) => {
+    if (item === "start" && startLine) {
+      waypoints.push({ key: `start-${index}`, name: "Start", kind: "start", sequenceIndex: index, center: midpoint(startLine[0], startLine[1]), line: startLine });
+    } else if (item === "finish" && finishLine) {
+      waypoints.push({ key: `finish-${index}`, name: "Finish", kind: "finish", sequenceIndex: index, center: midpoint(finishLine[0], finishLine[1]), line: finishLine });
+    } else {
+      const mark = markMap.get(item);
+      if (!mark) return;
+
+      if (mark.isGate && windDirection !== undefined) {
+        const gateWidthMeters = (mark.gateWidthBoatLengths ?? 8) * (mark.boatLengthMeters ?? 6);
+        const { port, starboard } = calculateGatePositions(mark.lat, mark.lng, windDirection, gateWidthMeters);
+        waypoints.push({ key: `${mark.id}-${index}`, name: mark.name, kind: "gate", sequenceIndex: index, center: mark, line: [port, starboard] });
+      } else {
+        waypoints.push({
+          key: `${mark.id}-${index}`,
+          name: mark.name,
+          kind: "mark",
+          sequenceIndex: index,
+          center: mark,
+          roundingSide: sides[index] ?? "port",
+        });
+      }
+    }
+  });
+
+  return waypoints;
+}
+
+/**
+ * The line a boat crosses when it rounds a mark: a ray from the mark out
+ * through the outside of the turn, bisecting the incoming and outgoing legs.
+ * When the legs run straight on, the ray points to the side the mark is left on.
+ */
+function getRoundingRay(waypoints: CourseWaypoint[], index: number): { ray: [Point, Point]; direction: { x: number; y: number } } {
+  const mark = waypoints[index];
+  const project = localProjection(mark.center);
+  const unit = (v: { x: number; y: number }) => {
+    const length = Math.hypot(v.x, v.y);
+    return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+  };
+
+  const prev = index > 0 ? project(waypoints[index - 1].center) : null;
+  const next = index < waypoints.length - 1 ? project(waypoints[index + 1].center) : null;
+  const incoming = prev ? unit({ x: -prev.x, y: -prev.y }) : next ? unit(next) : { x: 0, y: 1 };
+  const outgoing = next ? unit(next) : incoming;
+
+  let direction = unit({ x: incoming.x - outgoing.x, y: incoming.y - outgoing.y });
+  if (Math.hypot(direction.x, direction.y) < 0.1) {
+    // Straight on: a port mark is passed with the boat to its right
+    direction = mark.roundingSide === "starboard"
+      ? { x: -incoming.y, y: incoming.x }
+      : { x: incoming.y, y: -incoming.x };
+  }
+
+  const cosLat = Math.cos((mark.center.lat * Math.PI) / 180);
+  const end = {
+    lat: mark.center.lat + (direction.y * ROUNDING_RAY_METERS) / 110540,
+    lng: mark.center.lng + (direction.x * ROUNDING_RAY_METERS) / (111320 * cosLat),
+  };
+  return { ray: [mark.center, end], direction };
+}
+
+// A crossing ending on the far side of the line from the course. With the
+// previous waypoint on the line itself, e.g. a shared start and finish line,
+// the course side is unknown and either direction counts.
+function isFinishingDirection(line: [Point, Point], courseSide: Point, to: Point): boolean {
+  const project = localProjection(line[0]);
+  const end = project(line[1]);
+  const side = (p: Point) => {
+    const q = project(p);
+    return end.x * q.y - end.y * q.x;
+  };
+  const course = side(courseSide);
+  return Math.abs(course) < 1 || Math.sign(side(to)) !== Math.sign(course);
+}
+
+/**
+ * When the boat passed the waypoint between two fixes, or null. Marks count only
+ * when the boat goes round them the right way: anticlockwise for port roundings
+ * and clockwise for starboard. The finish counts only when crossed from the
+ * course side, the side of the waypoint before it.
+ */
+export function findWaypointPassing(
+  waypoints: CourseWaypoint[],
+  index: number,
+  from: TimedPosition,
+  to: TimedPosition
+): Date | null {
+  const waypoint = waypoints[index];
+  if (waypoint.line) {
+    const crossedAt = findLineCrossing(from, to, waypoint.line[0], waypoint.line[1]);
+    if (!crossedAt || waypoint.kind !== "finish" || index === 0) {
+      return crossedAt;
+    }
+    return isFinishingDirection(waypoint.line, waypoints[index - 1].center, to) ? crossedAt : null;
+  }
+
+  const { ray, direction } = getRoundingRay(waypoints, index);
+  const crossedAt = findLineCrossing(from, to, ray[0], ray[1]);
+  if (!crossedAt) {
+    return null;
+  }
+
+  const project = localProjection(waypoint.center);
+  const a = project(from);
+  const b = project(to);
+  const turn = direction.x * (b.y - a.y) - direction.y * (b.x - a.x);
+  const anticlockwise = turn > 0;
+  return anticlockwise === (waypoint.roundingSide !== "starboard") ? crossedAt : null;
+}
+
+export function createBoatProgress(boatId: string, sailNumber: string, startAt: number, fix: TimedPosition, waypointCount: number): BoatProgress {
+  const passedAt: (number | null)[] = new Array(waypointCount).fill(null);
+  passedAt[0] = startAt;
+  return { boatId, sailNumber, nextWaypoint: 1, passedAt, distanceToNextMeters: null, lastFix: fix };
+}
+
+/** Moves a boat on through any waypoints passed between its last fix and this one. */
+export function advanceBoatProgress(progress: BoatProgress, fix: TimedPosition, waypoints: CourseWaypoint[]): BoatProgress {
+  const passedAt = [...progress.passedAt];
+  let nextWaypoint = progress.nextWaypoint;
+  let from = progress.lastFix;
+
+  while (nextWaypoint < waypoints.length) {
+    const passed = findWaypointPassing(waypoints, nextWaypoint, from, fix);
+    if (!passed) break;
+    passedAt[nextWaypoint] = passed.getTime();
+    nextWaypoint++;
+
+    // The rest of the segment may pass the next waypoint too, e.g. a short offset leg
+    const fromMs = new Date(from.timestamp).getTime();
+    const span = new Date(fix.timestamp).getTime() - fromMs;
+    const t = span > 0 ? (passed.getTime() - fromMs) / span : 1;
+    from = {
+      lat: from.lat + (fix.lat - from.lat) * t,
+      lng: from.lng + (fix.lng - from.lng) * t,
+      timestamp: passed,
+    };
+  }
+
+  let distanceToNextMeters: number | null = null;
+  if (nextWaypoint < waypoints.length) {
+    const p = localProjection(waypoints[nextWaypoint].center)(fix);
+    distanceToNextMeters = Math.hypot(p.x, p.y);
+  }
+
+  return { ...progress, passedAt, nextWaypoint, distanceToNextMeters, lastFix: fix };
+}
+
+/**
+ * Progress on a changed course, e.g. one shortened while racing. Waypoints the
+ * two courses share from the start are kept as passed; the boat goes on from
+ * the first waypoint that changed.
+ */
+export function carryBoatProgress(progress: BoatProgress, previousKeys: string[], waypoints: CourseWaypoint[]): BoatProgress {
+  let shared = 0;
+  while (shared < waypoints.length && shared < previousKeys.length && waypoints[shared].key === previousKeys[shared]) {
+    shared++;
+  }
+  const passedAt: (number | null)[] = waypoints.map((_, i) => (i < shared ? progress.passedAt[i] ?? null : null));
+  const nextWaypoint = Math.min(progress.nextWaypoint, shared);
+  return { ...progress, passedAt, nextWaypoint, distanceToNextMeters: nextWaypoint < shared ? progress.distanceToNextMeters : null };
+}
+
+/** When the boat crossed the finish, or null while it is still sailing the course or the course has no finish. */
+export function getFinishTime(progress: BoatProgress, waypoints: CourseWaypoint[]): number | null {
+  const last = waypoints.length - 1;
+  if (last < 1 || waypoints[last].kind !== "finish" || progress.nextWaypoint <= last) {
+    return null;
+  }
+  return progress.passedAt[last] ?? null;
+}
+
+/** Fleet order: furthest round the course first, then closest to the next waypoint. */
+export function rankBoats(boats: BoatProgress[]): BoatProgress[] {
+  return [...boats].sort((a, b) => {
+    if (a.nextWaypoint !== b.nextWaypoint) {
+      return b.nextWaypoint - a.nextWaypoint;
+    }
+    const lastPassed = a.nextWaypoint - 1;
+    const finished = a.passedAt.length === a.nextWaypoint;
+    if (finished) {
+      return (a.passedAt[lastPassed] ?? 0) - (b.passedAt[lastPassed] ?? 0);
+    }
+    return (a.distanceToNextMeters ?? Infinity) - (b.distanceToNextMeters ?? Infinity);
+  });
+}
+
+/** First and last boat to complete each leg so far, with their leg times. */
+export function summarizeLegs(waypoints: CourseWaypoint[], boats: BoatProgress[]): LegProgress[] {
+  return waypoints.slice(1).map((to, i) => {
+    const times: LegBoatTime[] = boats
+      .filter(b => b.passedAt[i] !== null && b.passedAt[i + 1] !== null)
+      .map(b => ({ sailNumber: b.sailNumber, at: b.passedAt[i + 1]!, legSeconds: (b.passedAt[i + 1]! - b.passedAt[i]!) / 1000 }))
+      .sort((a, b) => a.at - b.at);
+
+    return {
+      legIndex: i,
+      fromName: waypoints[i].name,
+      toName: to.name,
+      leader: times[0] ?? null,
+      last: times.length > 1 ? times[times.length - 1] : null,
+      completed: times.length,
+      sailing: boats.filter(b => b.nextWaypoint === i + 1).length,
+    };
+  });
+}
@@ -59,6 +59,15 @@ class BuoyService {
     }
   }
 
+  removeBuoy(buoyId: string): void {
+    if (!this.buoys.delete(buoyId)) return;
+    this.notify();
+
+    if (this.selectedBuoyId === buoyId) {
+      this.select(null);
+    }
+  }
+
   getAll(): Buoy[] {
     return Array.from(this.buoys.values());
   }
@@ -0,0 +1,124 @@
+import type { Buoy, BuoyTelemetryMessage } from "@shared/schema";
+import { buoyService } from "./buoy-service";
+
+export type TelemetryStatus = "disconnected" | "connecting" | "connected";
+
+type TelemetryMessageListener = (message: BuoyTelemetryMessage) => void;
+type TelemetryStatusListener = (status: TelemetryStatus) => void;
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+class BuoyTelemetryService {
+  private socket: WebSocket | null = null;
+  private eventId: string | null = null;
+  private status: TelemetryStatus = "disconnected";
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<TelemetryMessageListener> = new Set();
+  private statusListeners: Set<TelemetryStatusListener> = new Set();
+
+  subscribe(listener: TelemetryMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  subscribeToStatus(listener: TelemetryStatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private setStatus(status: TelemetryStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  getStatus(): TelemetryStatus {
+    return this.status;
+  }
+
+  connect(eventId: string): void {
+    if (this.eventId === eventId && this.socket) return;
+    this.disconnect();
+    this.eventId = eventId;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.eventId = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    this.setStatus("disconnected");
+  }
+
+  private open(): void {
+    if (!this.eventId) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const url = `${protocol}//${window.location.host}/ws/buoys?eventId=${encodeURIComponent(this.eventId)}`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    this.setStatus("connecting");
+
+    socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      this.setStatus("connected");
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data) as BuoyTelemetryMessage);
+      } catch (error) {
+        console.error("Invalid buoy telemetry message:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus("disconnected");
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.eventId || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+
+  private handleMessage(message: BuoyTelemetryMessage): void {
+    switch (message.type) {
+      case "snapshot":
+        buoyService.setBuoys(message.buoys);
+        break;
+      case "buoy_added":
+        buoyService.updateBuoy(message.buoy);
+        break;
+      case "buoy_delta": {
+        const existing = buoyService.getById(message.buoyId);
+        if (!existing) return;
+        buoyService.updateBuoy({ ...existing, ...message.changes } as Buoy);
+        break;
+      }
+      case "buoy_removed":
+        buoyService.removeBuoy(message.buoyId);
+        break;
+    }
+    this.listeners.forEach(listener => listener(message));
+  }
+}
+
+export const buoyTelemetryService = new BuoyTelemetryService();
@@ -214,6 +214,7 @@ class CourseService {
       gateSide: null,
       gatePortBuoyId: null,
       gateStarboardBuoyId: null,
+      roundingSide: null,
     };
   }
 
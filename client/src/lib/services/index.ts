@@ -2,3 +2,4 @@ export { weatherService } from "./weather-service";
 export { buoyService } from "./buoy-service";
 export { courseService } from "./course-service";
 export { settingsService } from "./settings-service";
+export { buoyTelemetryService } from "./buoy-telemetry-service";
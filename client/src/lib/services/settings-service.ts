@@ -1,4 +1,4 @@
-import type { DistanceUnit, SpeedUnit } from "@shared/schema";
+import type { DistanceUnit, SpeedUnit, WindSource } from "@shared/schema";
 
 type SettingsListener = () => void;
 
@@ -66,9 +66,9 @@ export const DEFAULT_MARK_NUDGE_METERS = 10;
 
 export const DEFAULT_WIND_ARROWS_MIN_ZOOM = 13;
 
+// Which providers to show; the provider event IDs are set on each event
 export interface BoatTrackingIntegration {
   enabled: boolean;
-  eventId: string;
 }
 
 export interface IntegrationSettings {
@@ -76,18 +76,21 @@ export interface IntegrationSettings {
   tractrac: BoatTrackingIntegration;
   showBoatTrails: boolean;
   boatRefreshRateSeconds: number;
+  showAisTargets: boolean;
 }
 
 export const DEFAULT_INTEGRATION_SETTINGS: IntegrationSettings = {
-  vakaros: { enabled: false, eventId: "" },
-  tractrac: { enabled: false, eventId: "" },
+  vakaros: { enabled: false },
+  tractrac: { enabled: false },
   showBoatTrails: false,
   boatRefreshRateSeconds: 3,
+  showAisTargets: true,
 };
 
 interface UserSettings {
   distanceUnit: DistanceUnit;
   speedUnit: SpeedUnit;
+  windSource: WindSource;
   startLineResizeMode: StartLineResizeMode;
   startLineFixBearingMode: StartLineFixBearingMode;
   courseResizeStartLineMode: CourseResizeStartLineMode;
@@ -107,6 +110,7 @@ class SettingsService {
   private settings: UserSettings = {
     distanceUnit: "nautical_miles",
     speedUnit: "knots",
+    windSource: "buoy",
     startLineResizeMode: DEFAULT_START_LINE_RESIZE_MODE,
     startLineFixBearingMode: DEFAULT_START_LINE_FIX_BEARING_MODE,
     courseResizeStartLineMode: DEFAULT_COURSE_RESIZE_START_LINE_MODE,
@@ -134,6 +138,7 @@ class SettingsService {
     this.settings = {
       distanceUnit: "nautical_miles",
       speedUnit: "knots",
+      windSource: "buoy",
       startLineResizeMode: DEFAULT_START_LINE_RESIZE_MODE,
       startLineFixBearingMode: DEFAULT_START_LINE_FIX_BEARING_MODE,
       courseResizeStartLineMode: DEFAULT_COURSE_RESIZE_START_LINE_MODE,
@@ -170,6 +175,7 @@ class SettingsService {
     return {
       distanceUnit: this.settings.distanceUnit,
       speedUnit: this.settings.speedUnit,
+      windSource: this.settings.windSource,
       startLineResizeMode: this.settings.startLineResizeMode,
       startLineFixBearingMode: this.settings.startLineFixBearingMode,
       courseResizeStartLineMode: this.settings.courseResizeStartLineMode,
@@ -228,6 +234,15 @@ class SettingsService {
     this.notify();
   }
 
+  getWindSource(): WindSource {
+    return this.settings.windSource;
+  }
+
+  setWindSource(source: WindSource): void {
+    this.settings.windSource = source;
+    this.notify();
+  }
+
   getStartLineResizeMode(): StartLineResizeMode {
     return this.settings.startLineResizeMode;
   }
@@ -372,21 +387,11 @@ class SettingsService {
     this.notify();
   }
 
-  setVakarosEventId(eventId: string): void {
-    this.settings.integrations.vakaros.eventId = eventId;
-    this.notify();
-  }
-
   setTractracEnabled(enabled: boolean): void {
     this.settings.integrations.tractrac.enabled = enabled;
     this.notify();
   }
 
-  setTractracEventId(eventId: string): void {
-    this.settings.integrations.tractrac.eventId = eventId;
-    this.notify();
-  }
-
   setShowBoatTrails(show: boolean): void {
     this.settings.integrations.showBoatTrails = show;
     this.notify();
@@ -397,6 +402,11 @@ class SettingsService {
     this.notify();
   }
 
+  setShowAisTargets(show: boolean): void {
+    this.settings.integrations.showAisTargets = show;
+    this.notify();
+  }
+
   resetIntegrationSettings(): void {
     this.settings.integrations = { ...DEFAULT_INTEGRATION_SETTINGS };
     this.notify();
@@ -0,0 +1,58 @@
+// Horn cues for the start sequence, synthesised with Web Audio so no sound files
+// are needed. Browsers only allow audio after a user gesture, so call unlockHorn()
+// from a click handler before the first signal.
+
+const SHORT_SOUND_MS = 600;
+const LONG_SOUND_MS = 2000;
+const SOUND_GAP_MS = 400;
+const HORN_FREQUENCY_HZ = 220;
+
+let audioContext: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  if (typeof window === "undefined" || !("AudioContext" in window)) {
+    return null;
+  }
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  return audioContext;
+}
+
+export function unlockHorn(): void {
+  const ctx = getContext();
+  if (ctx && ctx.state === "suspended") {
+    void ctx.resume();
+  }
+}
+
+function playTone(ctx: AudioContext, startAt: number, durationMs: number): void {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const end = startAt + durationMs / 1000;
+
+  oscillator.type = "sawtooth";
+  oscillator.frequency.value = HORN_FREQUENCY_HZ;
+  gain.gain.setValueAtTime(0, startAt);
+  gain.gain.linearRampToValueAtTime(0.3, startAt + 0.03);
+  gain.gain.setValueAtTime(0.3, end - 0.05);
+  gain.gain.linearRampToValueAtTime(0, end);
+
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(startAt);
+  oscillator.stop(end);
+}
+
+/** Sounds the horn `count` times; "long" is used for the one-minute signal. */
+export function soundHorn(kind: "short" | "long" = "short", count: number = 1): void {
+  const ctx = getContext();
+  if (!ctx) return;
+
+  const durationMs = kind === "long" ? LONG_SOUND_MS : SHORT_SOUND_MS;
+  let at = ctx.currentTime;
+  for (let i = 0; i < count; i++) {
+    playTone(ctx, at, durationMs);
+    at += (durationMs + SOUND_GAP_MS) / 1000;
+  }
+}
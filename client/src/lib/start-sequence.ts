@@ -0,0 +1,93 @@
+import type { StartSequence, PreparatoryFlag } from "@shared/schema";
+
+// Signals for a start sequence (RRS 26), derived from the fleet start times the
+// server stores. Times are milliseconds on the server clock.
+
+export type StartSignalKind = "warning" | "preparatory" | "one_minute" | "start";
+
+export interface StartSignal {
+  fleetIndex: number;
+  kind: StartSignalKind;
+  at: number;
+  // RRS 26: one sound for each signal, a long sound when the preparatory flag comes down
+  sound: "short" | "long";
+}
+
+export type SignalFlagId = PreparatoryFlag | "AP" | "first_substitute" | "class";
+
+export interface VisibleFlag {
+  id: SignalFlagId;
+  label: string;
+}
+
+export const PREPARATORY_FLAG_LABELS: Record<PreparatoryFlag, string> = {
+  P: "P",
+  I: "I (Round the Ends)",
+  Z: "Z (20% Penalty)",
+  U: "U (UFD)",
+  black: "Black Flag",
+};
+
+export const SIGNAL_LABELS: Record<StartSignalKind, string> = {
+  warning: "Warning",
+  preparatory: "Preparatory",
+  one_minute: "One Minute",
+  start: "Start",
+};
+
+export function getStartSignals(sequence: StartSequence): StartSignal[] {
+  const signals: StartSignal[] = [];
+
+  sequence.fleets.forEach((fleet, fleetIndex) => {
+    if (!fleet.startAt) return;
+    const start = new Date(fleet.startAt).getTime();
+    signals.push(
+      { fleetIndex, kind: "warning", at: start - sequence.warningSeconds * 1000, sound: "short" },
+      { fleetIndex, kind: "preparatory", at: start - sequence.preparatorySeconds * 1000, sound: "short" },
+      { fleetIndex, kind: "one_minute", at: start - sequence.oneMinuteSeconds * 1000, sound: "long" },
+      { fleetIndex, kind: "start", at: start, sound: "short" },
+    );
+  });
+
+  return signals.sort((a, b) => a.at - b.at);
+}
+
+export function getNextSignal(sequence: StartSequence, now: number): StartSignal | null {
+  if (sequence.status !== "running") return null;
+  return getStartSignals(sequence).find(s => s.at > now) ?? null;
+}
+
+// Flags flying at a given moment. In rolling starts one fleet's class flag comes
+// down as the next fleet's goes up.
+export function getVisibleFlags(sequence: StartSequence, now: number): VisibleFlag[] {
+  const flags: VisibleFlag[] = [];
+
+  if (sequence.status === "postponed") {
+    flags.push({ id: "AP", label: "AP" });
+  } else if (sequence.status === "general_recall") {
+    flags.push({ id: "first_substitute", label: "First Substitute" });
+  }
+
+  if (sequence.status === "cancelled") return flags;
+
+  sequence.fleets.forEach(fleet => {
+    if (!fleet.startAt) return;
+    const start = new Date(fleet.startAt).getTime();
+    if (now >= start - sequence.warningSeconds * 1000 && now < start) {
+      flags.push({ id: "class", label: fleet.classFlag });
+    }
+    if (now >= start - sequence.preparatorySeconds * 1000 && now < start - sequence.oneMinuteSeconds * 1000) {
+      const flag = sequence.preparatoryFlag as PreparatoryFlag;
+      flags.push({ id: flag, label: PREPARATORY_FLAG_LABELS[flag] ?? flag });
+    }
+  });
+
+  return flags;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
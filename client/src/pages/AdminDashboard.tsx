@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
@@ -14,10 +14,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Building2, Users, Plus, Trash2, LogOut, Loader2, Calendar, Play, Pencil, Anchor, ArrowRight, RotateCcw, Eye, X, Sailboat, Globe } from "lucide-react";
+import { Building2, Users, Plus, Trash2, LogOut, Loader2, Calendar, Play, Pencil, Anchor, ArrowRight, RotateCcw, Eye, X, Sailboat, Globe, Upload, ClipboardList } from "lucide-react";
 import { EventExternalInfo } from "@/components/EventExternalInfo";
+import { AuditTrail } from "@/components/AuditTrail";
 import type { SailClub, UserRole, Event, Buoy, BuoyAssignment, BuoyInventoryStatus, BoatClass, InsertBoatClass } from "@shared/schema";
 import { useBoatClasses } from "@/hooks/use-api";
+import { parsePolarCsv, describePolar } from "@/lib/polars";
 import alconmarksLogo from "@assets/IMG_0084_1_1768808004796.png";
 
 interface SafeUser {
@@ -102,6 +104,7 @@ export default function AdminDashboard() {
   const [boatClassDialogOpen, setBoatClassDialogOpen] = useState(false);
   const [editBoatClassDialogOpen, setEditBoatClassDialogOpen] = useState(false);
   const [editingBoatClass, setEditingBoatClass] = useState<BoatClass | null>(null);
+  const polarFileInputRef = useRef<HTMLInputElement>(null);
   const [newBoatClassName, setNewBoatClassName] = useState("");
   const [newBoatClassHullType, setNewBoatClassHullType] = useState<"displacement" | "planing" | "foiling">("displacement");
   const [newBoatClassCrewSize, setNewBoatClassCrewSize] = useState(1);
@@ -501,6 +504,23 @@ export default function AdminDashboard() {
     setEditBoatClassDialogOpen(true);
   };
 
+  const handlePolarFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !editingBoatClass) return;
+    try {
+      const polar = parsePolarCsv(await file.text(), file.name);
+      setEditingBoatClass({ ...editingBoatClass, polar });
+      toast({ title: "Polar loaded", description: `${describePolar(polar)}. Save to apply.` });
+    } catch (error) {
+      toast({
+        title: "Could not read polar",
+        description: error instanceof Error ? error.message : "Unrecognised file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCreateClub = () => {
     if (newClubName.trim()) {
       createClubMutation.mutate(newClubName.trim());
@@ -796,6 +816,10 @@ export default function AdminDashboard() {
               <Sailboat className="h-4 w-4" />
               Boat Classes
             </TabsTrigger>
+            <TabsTrigger value="audit" className="gap-2" data-testid="tab-audit">
+              <ClipboardList className="h-4 w-4" />
+              Audit
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="clubs">
@@ -1699,7 +1723,12 @@ export default function AdminDashboard() {
                     <TableBody>
                       {[...boatClasses].sort((a, b) => a.name.localeCompare(b.name)).map((boatClass) => (
                         <TableRow key={boatClass.id} data-testid={`row-boat-class-${boatClass.id}`}>
-                          <TableCell className="font-medium">{boatClass.name}</TableCell>
+                          <TableCell className="font-medium">
+                            {boatClass.name}
+                            {boatClass.polar && (
+                              <Badge variant="outline" className="ml-2" data-testid={`badge-polar-${boatClass.id}`}>Polar</Badge>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Badge variant="secondary">
                               {boatClass.hullType}
@@ -1745,6 +1774,10 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditTrail showClubFilter />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -1812,7 +1845,7 @@ export default function AdminDashboard() {
               
               <div className="border-t pt-4 space-y-3">
                 <Label className="text-base font-medium">Speed Data (knots by wind condition)</Label>
-                <p className="text-xs text-muted-foreground">L = Light (0-8 kts), M = Medium (8-14 kts), H = Heavy (14+ kts)</p>
+                <p className="text-xs text-muted-foreground">L = Light (0-8 kts), M = Medium (8-14 kts), H = Heavy (14+ kts). Used when the class has no polar.</p>
                 
                 <div className="space-y-2">
                   <Label className="text-sm">Upwind VMG</Label>
@@ -1869,6 +1902,47 @@ export default function AdminDashboard() {
                 </div>
               </div>
               
+              <div className="border-t pt-4 space-y-3">
+                <Label className="text-base font-medium">Polar</Label>
+                <p className="text-xs text-muted-foreground">
+                  Boat speed by true wind speed and angle, from an ORC CSV or Expedition polar file. Race time estimates use it in place of the speed bands.
+                </p>
+                {editingBoatClass.polar ? (
+                  <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm" data-testid="text-edit-boat-class-polar">
+                    <div>
+                      <p className="font-medium">{editingBoatClass.polar.source ?? "Imported polar"}</p>
+                      <p className="text-xs text-muted-foreground">{describePolar(editingBoatClass.polar)}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditingBoatClass({ ...editingBoatClass, polar: null })}
+                      data-testid="button-remove-polar"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No polar, using speed bands</p>
+                )}
+                <input
+                  ref={polarFileInputRef}
+                  type="file"
+                  accept=".csv,.txt,.pol"
+                  className="hidden"
+                  onChange={handlePolarFile}
+                />
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => polarFileInputRef.current?.click()}
+                  data-testid="button-import-polar"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import Polar
+                </Button>
+              </div>
+              
               <Button
                 onClick={() => {
                   updateBoatClassMutation.mutate({
@@ -1886,6 +1960,7 @@ export default function AdminDashboard() {
                     reachSpeedLight: editingBoatClass.reachSpeedLight,
                     reachSpeedMedium: editingBoatClass.reachSpeedMedium,
                     reachSpeedHeavy: editingBoatClass.reachSpeedHeavy,
+                    polar: editingBoatClass.polar,
                   });
                 }}
                 disabled={updateBoatClassMutation.isPending}
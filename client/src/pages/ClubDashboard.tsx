@@ -14,8 +14,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Users, Plus, Trash2, LogOut, Loader2, Play, UserPlus, Pencil, Anchor, ArrowRight, RotateCcw, Globe } from "lucide-react";
+import { Calendar, Users, Plus, Trash2, LogOut, Loader2, Play, UserPlus, Pencil, Anchor, ArrowRight, RotateCcw, Globe, ClipboardList } from "lucide-react";
 import { EventExternalInfo } from "@/components/EventExternalInfo";
+import { AuditTrail } from "@/components/AuditTrail";
 import type { Event, SailClub, UserEventAccess, Buoy, BuoyInventoryStatus } from "@shared/schema";
 import { useBoatClasses } from "@/hooks/use-api";
 import alconmarksLogo from "@assets/IMG_0084_1_1768808004796.png";
@@ -426,6 +427,10 @@ export default function ClubDashboard() {
               <Users className="h-4 w-4" />
               Event Managers
             </TabsTrigger>
+            <TabsTrigger value="audit" className="gap-2" data-testid="tab-audit">
+              <ClipboardList className="h-4 w-4" />
+              Audit
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="events">
@@ -886,6 +891,10 @@ export default function ClubDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditTrail />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -14,7 +14,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { AlertTriangle } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useSettings } from "@/hooks/use-settings";
-import type { Event, Buoy, Mark, Course, MarkRole, CourseShape, EventType, SiblingBuoy, WindAnalytics } from "@shared/schema";
+import type { Event, Buoy, Mark, Course, MarkRole, RoundingSide, CourseShape, EventType, SiblingBuoy, WindAnalytics, Race } from "@shared/schema";
 import { 
   useBuoys, 
   useEvents, 
@@ -33,28 +33,74 @@ import {
   useUpdateEvent,
   useSaveCourseSnapshot,
   useDeleteCourseSnapshot,
+  useDeleteCourse,
   useBoatClasses,
   useSailClubs,
   useEventWeatherHistory,
+  useRaces,
+  useTrackedBoats,
+  useNmeaSnapshot,
+  useAddRaceLogEntry,
+  useRaceLog,
+  useUpdateRace,
   type CourseSnapshot,
   type SnapshotMark,
 } from "@/hooks/use-api";
 import { QuickStartDialog } from "@/components/QuickStartDialog";
 import { QuickStartWizard } from "@/components/QuickStartWizard";
 import { queryClient, apiRequest, invalidateRelatedQueries } from "@/lib/queryClient";
-import { useDemoModeContext } from "@/contexts/DemoModeContext";
+import { useDemoModeContext, type TrackedBoat } from "@/contexts/DemoModeContext";
 import { useToast } from "@/hooks/use-toast";
-import { executeAutoAssignWithRecovery } from "@/lib/batchedMutations";
+import { executeAutoAssignWithRecovery, executeBatchedMutations, type BatchResult, type MutationOperation } from "@/lib/batchedMutations";
 import { useBuoyFollow } from "@/hooks/use-buoy-follow";
+import { useBuoyTelemetry } from "@/hooks/use-buoy-telemetry";
+import { useRaceProgress } from "@/hooks/use-race-progress";
+import { useCourseHistory } from "@/hooks/use-course-history";
+import { buildCourseWaypoints } from "@/lib/rounding-detection";
+import type { ReplayFrame } from "@/lib/replay";
+import { estimateRaceTime as estimateCourseTime, buildLegsFromRoundingSequence, getCurrentStations } from "@/lib/race-time-estimation";
 import { generateTemplateMarks, type ShapeTemplate } from "@/lib/shape-templates";
+import { scaleCoursePositions } from "@/lib/course-sizing";
+import { expandCourseDesignation, removeSequenceMarks, resolveRoundingSides, type ExpandedCourse } from "@shared/course-designations";
 import { WindShiftAlert } from "@/components/WindShiftAlert";
+import { CourseChangeDialog } from "@/components/CourseChangeDialog";
+import {
+  findNextLegToChange,
+  formatCompassBearing,
+  formatCourseChangeSignal,
+  getChangeableLegs,
+  getWindShift,
+  type CourseChange,
+  type CourseChangeLeg,
+} from "@/lib/course-change";
+import { calculateGatePositions } from "@/lib/course-bearings";
+import {
+  SHORTENED_FINISH_LINE_BOAT_LENGTHS,
+  findActiveShortening,
+  findLegToShorten,
+  getShortenedFinishPosition,
+  shortenRoundingSequence,
+  type ShortenedCourseRecord,
+} from "@/lib/course-shortening";
+import { ShortenCourseDialog } from "@/components/ShortenCourseDialog";
+import { RaceLogPanel } from "@/components/RaceLogPanel";
+import { ShortenedCourseAlert } from "@/components/ShortenedCourseAlert";
+import { AbandonRaceDialog, type AbandonRaceResult } from "@/components/AbandonRaceDialog";
+import { CourseVersionsDialog } from "@/components/CourseVersionsDialog";
+import type { CourseVersionComparison } from "@/lib/course-versions";
+import type { CourseFileData } from "@/lib/course-files";
 import { FloatingActionBar } from "@/components/FloatingActionBar";
 import { FleetStatusPanel } from "@/components/FleetStatusPanel";
 import { WeatherInsightsPanel } from "@/components/WeatherInsightsPanel";
+import { StartSequencePanel } from "@/components/StartSequencePanel";
+import { RacesPanel } from "@/components/RacesPanel";
+import { ReplayPanel } from "@/components/ReplayPanel";
 import { BoatCountDialog } from "@/components/BoatCountDialog";
 
 const MIKROLIMANO_CENTER = { lat: 37.9376, lng: 23.6917 };
 const DEFAULT_CENTER = MIKROLIMANO_CENTER;
+// Stable empty list so boat-driven effects don't rerun while no feed is enabled
+const NO_TRACKED_BOATS: TrackedBoat[] = [];
 
 /**
  * Generates marks for standard sailing race course shapes per World Sailing standards.
@@ -292,13 +338,47 @@ function estimateRaceTime(distanceNm: number, boatClass: string): number {
   return (distanceNm / speed) * 60;
 }
 
+/**
+ * Maps a saved course's rounding sequence onto newly created mark IDs.
+ * Per-entry rounding sides follow their entries; the designation is only kept
+ * when every entry could be mapped, since it describes the full sequence.
+ */
+function mapSnapshotSequence(
+  snapshot: CourseSnapshot,
+  resolveMarkId: (item: string) => string | undefined,
+): Pick<Course, "roundingSequence" | "roundingSides" | "designation"> {
+  const roundingSequence: string[] = [];
+  const roundingSides: Record<number, RoundingSide> = {};
+  (snapshot.roundingSequence ?? []).forEach((item, index) => {
+    const entry = item === "start" || item === "finish" ? item : resolveMarkId(item);
+    if (!entry) return;
+    const side = snapshot.roundingSides?.[index];
+    if (side) roundingSides[roundingSequence.length] = side;
+    roundingSequence.push(entry);
+  });
+  const complete = roundingSequence.length === (snapshot.roundingSequence?.length ?? 0);
+  return {
+    roundingSequence,
+    roundingSides: Object.keys(roundingSides).length > 0 ? roundingSides : null,
+    designation: complete ? snapshot.designation ?? null : null,
+  };
+}
+
+// Why a batch run with rollback failed, and whether everything was put back
+function describeBatchFailure(result: BatchResult, unchanged: string): string {
+  if (result.errors.some(e => e.id.startsWith("rollback-"))) {
+    return "Not everything could be put back. Check the marks and rounding sequence.";
+  }
+  return `${result.errors[0]?.error.message ?? "An error occurred"}. ${unchanged}`;
+}
+
 interface RaceControlProps {
   eventId?: string;
 }
 
 export default function RaceControl({ eventId: propEventId }: RaceControlProps) {
   const { user } = useAuth();
-  const { mapLayer, showSeaMarks, showSiblingBuoys, integrationSettings, courseResizeStartLineMode, markNudgeMeters } = useSettings();
+  const { mapLayer, showSeaMarks, showSiblingBuoys, integrationSettings, courseResizeStartLineMode, markNudgeMeters, windSource } = useSettings();
   const [, setLocation] = useLocation();
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [courseMenuSaveOpen, setCourseMenuSaveOpen] = useState(false);
@@ -340,17 +420,24 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
   const [isSetupPanelCollapsed, setIsSetupPanelCollapsed] = useState(false);
   const [showFleetPanel, setShowFleetPanel] = useState(false);
   const [showWindInsightsPanel, setShowWindInsightsPanel] = useState(false);
+  const [showStartSequencePanel, setShowStartSequencePanel] = useState(false);
+  const [showRacesPanel, setShowRacesPanel] = useState(false);
+  const [showReplayPanel, setShowReplayPanel] = useState(false);
+  const [showRaceLogPanel, setShowRaceLogPanel] = useState(false);
+  const [showCourseChange, setShowCourseChange] = useState(false);
+  const [showShortenCourse, setShowShortenCourse] = useState(false);
+  const [abandoningRace, setAbandoningRace] = useState<Race | null>(null);
+  // Saved course the current course was loaded from or last saved as; the next save is a new version of it
+  const [loadedSnapshot, setLoadedSnapshot] = useState<CourseSnapshot | null>(null);
+  const [versionsSnapshot, setVersionsSnapshot] = useState<CourseSnapshot | null>(null);
+  const [versionComparison, setVersionComparison] = useState<CourseVersionComparison | null>(null);
+  // Bumped to bring the course's marks into view, e.g. after importing a course from elsewhere
+  const [fitMarksRequest, setFitMarksRequest] = useState(0);
+  // Set while replaying: the map shows this recorded moment instead of live data
+  const [replayFrame, setReplayFrame] = useState<ReplayFrame | null>(null);
   
-  // Undo state for last mark position change
-  const [lastMarkMove, setLastMarkMove] = useState<{ markId: string; prevLat: number; prevLng: number; timestamp: number } | null>(null);
   const [isGpsLocating, setIsGpsLocating] = useState(false);
   
-  // Undo state for auto-adjust
-  const [lastAutoAdjust, setLastAutoAdjust] = useState<{ positions: Array<{ id: string; lat: number; lng: number }>; timestamp: number } | null>(null);
-  
-  // Undo state for course transform (move/rotate/scale)
-  const [lastCourseTransform, setLastCourseTransform] = useState<{ positions: Array<{ id: string; lat: number; lng: number }>; timestamp: number } | null>(null);
-  
   // Current map center for loading courses at current location
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number }>(DEFAULT_CENTER);
   const [currentSetupPhase, setCurrentSetupPhase] = useState<string>("start_line");
@@ -390,15 +477,19 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
 
   const { enabled: demoMode, toggleDemoMode, demoBuoys, demoSiblingBuoys, demoBoats, sendCommand: sendDemoCommand, updateDemoWeather, repositionDemoBuoys, repositionDemoBoats } = useDemoModeContext();
 
-  const { data: allBuoys = [], isLoading: allBuoysLoading } = useBuoys();
   const { data: events = [], isLoading: eventsLoading } = useEvents();
   const { data: courses = [], isLoading: coursesLoading } = useCourses();
   const { data: boatClasses = [] } = useBoatClasses();
   const { data: sailClubs = [] } = useSailClubs();
   
+  // Live buoy deltas are pushed over the telemetry socket; poll only while it is down
+  const { status: telemetryStatus } = useBuoyTelemetry(activeEventId && !demoMode ? activeEventId : null);
+  const { data: allBuoys = [], isLoading: allBuoysLoading } = useBuoys(undefined, telemetryStatus === "connected");
+
   const { data: eventBuoys = [], isLoading: eventBuoysLoading } = useQuery<Buoy[]>({
     queryKey: [`/api/events/${activeEventId}/buoys`],
     enabled: !!activeEventId && !demoMode,
+    refetchInterval: telemetryStatus === "connected" ? false : 5000,
   });
 
   const { data: apiSiblingBuoys = [] } = useQuery<SiblingBuoy[]>({
@@ -464,6 +555,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
   const updateEvent = useUpdateEvent(mutationErrorHandler);
   const saveCourseSnapshot = useSaveCourseSnapshot(mutationErrorHandler);
   const deleteCourseSnapshot = useDeleteCourseSnapshot(mutationErrorHandler);
+  const deleteCourse = useDeleteCourse();
   const deleteAllMarks = useDeleteAllMarks(mutationErrorHandler);
 
   const handleBulkBuoyCommand = useCallback((buoyIds: string[], command: "hold_position" | "cancel") => {
@@ -500,7 +592,22 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     };
   }, [demoMode, demoBuoys]);
 
-  const activeWeatherData = demoMode ? demoWeatherData : weatherData;
+  // Committee boat instruments replace the buoy/API wind when chosen as the wind source
+  const { data: nmeaSnapshot } = useNmeaSnapshot(demoMode ? null : activeEventId);
+  const instrumentWind = nmeaSnapshot?.wind;
+  const instrumentWeatherData = useMemo(() => {
+    if (windSource !== "instrument" || !instrumentWind) return null;
+    return {
+      windSpeed: instrumentWind.windSpeed,
+      windDirection: instrumentWind.windDirection,
+      currentSpeed: weatherData?.currentSpeed ?? 0,
+      currentDirection: weatherData?.currentDirection ?? 0,
+      source: "instrument",
+      timestamp: instrumentWind.updatedAt,
+    };
+  }, [windSource, instrumentWind, weatherData?.currentSpeed, weatherData?.currentDirection]);
+
+  const activeWeatherData = demoMode ? demoWeatherData : instrumentWeatherData ?? weatherData;
 
   // Weather analytics for demo mode - always generate if in demo mode
   const demoWeatherAnalytics = useMemo<WindAnalytics | null>(() => {
@@ -800,6 +907,71 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     enabled: !!courseId,
   });
 
+  // Undo/redo for course edits; each course keeps its history for the session
+  const courseEditHistory = useCourseHistory(courseId);
+  
+  // Another course is not a version of the saved course loaded into this one
+  useEffect(() => {
+    setLoadedSnapshot(null);
+  }, [courseId]);
+  const { record: recordCourseEdit, beginGroup: beginCourseEditGroup, endGroup: endCourseEditGroup } = courseEditHistory;
+
+  // Moves a mark as one undoable step; its buoy follows once the move is saved
+  const moveMark = useCallback(async (markId: string, lat: number, lng: number, label?: string): Promise<boolean> => {
+    const mark = marks.find(m => m.id === markId);
+    const moved = await recordCourseEdit(
+      label ?? `move ${mark?.name ?? "point"}`,
+      () => updateMark.mutateAsync({ id: markId, data: { lat, lng } })
+    );
+    if (moved) {
+      handleMarkMoved(markId, lat, lng);
+    }
+    return moved;
+  }, [marks, recordCourseEdit, updateMark, handleMarkMoved]);
+
+  const applyCourseEditHistory = useCallback(async (direction: "undo" | "redo") => {
+    const outcome = direction === "undo" ? await courseEditHistory.undo() : await courseEditHistory.redo();
+    if (!outcome) return;
+    if (!outcome.applied) {
+      toast({
+        title: direction === "undo" ? "Undo Failed" : "Redo Failed",
+        description: `Could not ${direction} ${outcome.label}; the course was left as it was. ${outcome.error?.message ?? ""}`.trim(),
+        variant: "destructive",
+      });
+      return;
+    }
+    for (const { markId, lat, lng } of outcome.moved) {
+      handleMarkMoved(markId, lat, lng);
+    }
+    toast({
+      title: direction === "undo" ? "Undone" : "Redone",
+      description: `${direction === "undo" ? "Undid" : "Redid"} ${outcome.label}.`,
+    });
+  }, [courseEditHistory.undo, courseEditHistory.redo, handleMarkMoved, toast]);
+
+  const handleUndoCourseEdit = useCallback(() => applyCourseEditHistory("undo"), [applyCourseEditHistory]);
+  const handleRedoCourseEdit = useCallback(() => applyCourseEditHistory("redo"), [applyCourseEditHistory]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), unless typing in a field
+  useEffect(() => {
+    if (replayFrame) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        void handleUndoCourseEdit();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        void handleRedoCourseEdit();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [replayFrame, handleUndoCourseEdit, handleRedoCourseEdit]);
+
   const pendingDeployments = useMemo(() => {
     if (buoyDeployMode !== "manual") return [];
     return getPendingDeployments();
@@ -875,6 +1047,452 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     }
   }, [demoMode, integrationSettings.vakaros.enabled, integrationSettings.tractrac.enabled, marks.length > 0, repositionDemoBoats]);
 
+  // Real feeds are ingested on the server; demo mode fabricates its own boats
+  const { data: feedBoats = NO_TRACKED_BOATS } = useTrackedBoats(demoMode ? null : activeEventId, integrationSettings);
+  const showBoats = integrationSettings.vakaros.enabled || integrationSettings.tractrac.enabled;
+  const trackedBoats = useMemo(() => {
+    if (!demoMode) return showBoats ? feedBoats : NO_TRACKED_BOATS;
+    return demoBoats.filter(b =>
+      (b.source === 'vakaros' && integrationSettings.vakaros.enabled) ||
+      (b.source === 'tractrac' && integrationSettings.tractrac.enabled)
+    );
+  }, [demoMode, demoBoats, feedBoats, showBoats, integrationSettings.vakaros.enabled, integrationSettings.tractrac.enabled]);
+
+  // Follow tracked boats round the course while one of the event's races is under way
+  const { data: eventRaces = [] } = useRaces(demoMode ? null : activeEventId);
+  const runningRace = eventRaces.find(r => r.status === "racing") ?? null;
+  const raceWaypoints = useMemo(
+    () => buildCourseWaypoints(roundingSequence, marks, activeWeatherData?.windDirection, currentCourse?.roundingSides ?? undefined),
+    [roundingSequence, marks, activeWeatherData?.windDirection, currentCourse?.roundingSides]
+  );
+  const raceProgress = useRaceProgress(trackedBoats, raceWaypoints, runningRace);
+
+  // Estimated leg times, to compare against the leg times actually sailed
+  const legEstimates = useMemo(() => {
+    const windSpeed = activeWeatherData?.windSpeed;
+    const windDirection = activeWeatherData?.windDirection;
+    if (!currentBoatClass || windSpeed === undefined || windDirection === undefined) return [];
+    const legs = buildLegsFromRoundingSequence(roundingSequence, marks, undefined, currentCourse?.roundingSides ?? undefined);
+    return legs.length > 0 ? estimateCourseTime(legs, currentBoatClass, windSpeed, windDirection, getCurrentStations(buoys)).legs : [];
+  }, [currentBoatClass, roundingSequence, marks, buoys, currentCourse?.roundingSides, activeWeatherData?.windSpeed, activeWeatherData?.windDirection]);
+
+  // Changing the next leg while racing: the leader's next-but-one mark is moved
+  const changeableLegs = useMemo(() => getChangeableLegs(roundingSequence, marks), [roundingSequence, marks]);
+  const raceLeader = raceProgress?.boats[0];
+  const suggestedCourseChangeLeg = useMemo(
+    () => findNextLegToChange(changeableLegs, raceWaypoints, raceLeader) ?? changeableLegs[0] ?? null,
+    [changeableLegs, raceWaypoints, raceLeader]
+  );
+  const addRaceLogEntry = useAddRaceLogEntry(demoMode ? null : activeEventId, mutationErrorHandler);
+
+  const getCourseChangeBuoyName = useCallback((leg: CourseChangeLeg) => {
+    const buoyIds = leg.mark.isGate
+      ? [leg.mark.gatePortBuoyId, leg.mark.gateStarboardBuoyId]
+      : [leg.mark.assignedBuoyId];
+    const names = buoyIds.flatMap(id => {
+      const buoy = id ? buoys.find(b => b.id === id) : undefined;
+      return buoy ? [buoy.name] : [];
+    });
+    return names.length > 0 ? names.join(" and ") : null;
+  }, [buoys]);
+
+  const sendBuoy = useCallback((buoyId: string, lat: number, lng: number) => {
+    if (demoMode) {
+      sendDemoCommand(buoyId, "move_to_target", lat, lng);
+    } else {
+      buoyCommand.mutate({ id: buoyId, command: "move_to_target", targetLat: lat, targetLng: lng });
+    }
+  }, [demoMode, sendDemoCommand, buoyCommand]);
+
+  const handleCourseChange = useCallback(async (leg: CourseChangeLeg, change: CourseChange) => {
+    const { mark } = leg;
+    const windDir = activeWeatherData?.windDirection ?? 225;
+    // Nothing is sent or logged for a move the server refused; the mutation reports why
+    try {
+      await updateMark.mutateAsync({ id: mark.id, data: { lat: change.lat, lng: change.lng } });
+    } catch {
+      return;
+    }
+
+    if (mark.isGate) {
+      const gateWidth = (mark.gateWidthBoatLengths ?? 8) * (mark.boatLengthMeters ?? 6);
+      const { port, starboard } = calculateGatePositions(change.lat, change.lng, windDir, gateWidth);
+      if (mark.gatePortBuoyId) sendBuoy(mark.gatePortBuoyId, port.lat, port.lng);
+      if (mark.gateStarboardBuoyId) sendBuoy(mark.gateStarboardBuoyId, starboard.lat, starboard.lng);
+    } else if (mark.assignedBuoyId) {
+      sendBuoy(mark.assignedBuoyId, change.lat, change.lng);
+    }
+
+    const signal = formatCourseChangeSignal(change);
+    if (activeEventId && !demoMode) {
+      addRaceLogEntry.mutate({
+        raceId: runningRace?.id ?? null,
+        kind: "course_change",
+        summary: `${signal}: ${mark.name} moved, leg from ${leg.from.name} ${formatCompassBearing(change.previousBearing)} → ${formatCompassBearing(change.bearing)}`,
+        data: {
+          markId: mark.id,
+          markName: mark.name,
+          from: leg.from.name,
+          previous: { lat: mark.lat, lng: mark.lng },
+          next: { lat: change.lat, lng: change.lng },
+          previousBearing: change.previousBearing,
+          bearing: change.bearing,
+          previousDistanceMeters: change.previousDistanceMeters,
+          distanceMeters: change.distanceMeters,
+          bearingChange: change.bearingChange,
+          lengthSign: change.lengthSign,
+          leader: raceLeader?.sailNumber ?? null,
+        },
+        windDirection: activeWeatherData?.windDirection ?? null,
+        windSpeed: activeWeatherData?.windSpeed ?? null,
+      });
+    }
+
+    setShowCourseChange(false);
+    toast({
+      title: `Course Change ${signal}`,
+      description: `${mark.name} is moving. Display C and ${formatCompassBearing(change.bearing)} at ${leg.from.name}.`,
+    });
+  }, [activeWeatherData, updateMark, sendBuoy, demoMode, activeEventId, addRaceLogEntry, runningRace, raceLeader, toast]);
+
+  // Shortening (S) and abandoning (N) the race under way. The course before
+  // shortening is kept in the race log so it can be put back afterwards.
+  const { data: raceLog = [] } = useRaceLog(demoMode ? null : activeEventId);
+  const activeShortening = useMemo(
+    () => (currentCourse ? findActiveShortening(raceLog, currentCourse.id) : null),
+    [raceLog, currentCourse]
+  );
+  const shortenableLegs = useMemo(() => changeableLegs.filter(l => !l.mark.isGate), [changeableLegs]);
+  const suggestedShortenLeg = useMemo(
+    () => findLegToShorten(shortenableLegs, raceWaypoints, raceLeader),
+    [shortenableLegs, raceWaypoints, raceLeader]
+  );
+  const freeBuoys = useMemo(() => {
+    const assignedBuoyIds = new Set<string>();
+    marks.forEach(mark => {
+      if (mark.assignedBuoyId) assignedBuoyIds.add(mark.assignedBuoyId);
+      if (mark.gatePortBuoyId) assignedBuoyIds.add(mark.gatePortBuoyId);
+      if (mark.gateStarboardBuoyId) assignedBuoyIds.add(mark.gateStarboardBuoyId);
+    });
+    return buoys.filter(b => !assignedBuoyIds.has(b.id) && b.state !== "fault" && b.state !== "maintenance" && b.state !== "unavailable");
+  }, [marks, buoys]);
+  const updateRace = useUpdateRace(demoMode ? null : activeEventId, mutationErrorHandler);
+  const [isChangingRaceCourse, setIsChangingRaceCourse] = useState(false);
+
+  const handleShortenCourse = useCallback(async (leg: CourseChangeLeg, buoyId: string | null) => {
+    if (!currentCourse || !activeEventId) return;
+    setIsChangingRaceCourse(true);
+    try {
+      const courseSides = currentCourse.roundingSides ?? {};
+      const side = resolveRoundingSides(roundingSequence, marks, courseSides)[leg.sequenceIndex] ?? "port";
+      const lengthMeters = SHORTENED_FINISH_LINE_BOAT_LENGTHS * (leg.mark.boatLengthMeters ?? 6);
+      const position = getShortenedFinishPosition(leg, side, lengthMeters);
+      const buoyName = buoyId ? buoys.find(b => b.id === buoyId)?.name : undefined;
+
+      const courseId = currentCourse.id;
+      const previousFinishMarkIds = marks.filter(m => m.isFinishLine).map(m => m.id);
+      const previousCourse = {
+        roundingSequence,
+        roundingSides: currentCourse.roundingSides ?? null,
+        designation: currentCourse.designation ?? null,
+      };
+      let finishMarkId = "";
+
+      // All or nothing: if any step fails, including logging the shortening that Restore
+      // relies on, the steps already applied are rolled back. The sequence goes in before
+      // the flags so that, rolled back, the flags are restored before the designation
+      // that depends on them.
+      const operations: MutationOperation[] = [
+        {
+          id: "finish-mark",
+          description: "Create shortened finish mark",
+          execute: async () => {
+            const finishMark = await createMark.mutateAsync({
+              courseId,
+              name: buoyName ? `Finish (S) ${buoyName}` : "Committee Boat (S)",
+              role: "finish",
+              order: Math.max(0, ...marks.map(m => m.order)) + 1,
+              lat: position.lat,
+              lng: position.lng,
+              assignedBuoyId: buoyId,
+              isFinishLine: true,
+              isCourseMark: false,
+            });
+            finishMarkId = finishMark.id;
+          },
+          rollback: async () => {
+            if (finishMarkId) await deleteMark.mutateAsync(finishMarkId);
+          },
+        },
+        {
+          id: "sequence",
+          description: "Shorten rounding sequence",
+          execute: () => updateCourse.mutateAsync({
+            id: courseId,
+            data: shortenRoundingSequence(roundingSequence, previousCourse.roundingSides ?? {}, leg.sequenceIndex),
+          }),
+          rollback: async () => {
+            await updateCourse.mutateAsync({
+              id: courseId,
+              data: {
+                roundingSequence: previousCourse.roundingSequence,
+                roundingSides: previousCourse.roundingSides,
+                ...(previousCourse.designation ? { designation: previousCourse.designation } : {}),
+              },
+            });
+          },
+        },
+        ...previousFinishMarkIds
+          .filter(id => id !== leg.mark.id)
+          .map((id): MutationOperation => ({
+            id: `unflag-${id}`,
+            description: "Clear previous finish line",
+            execute: () => updateMark.mutateAsync({ id, data: { isFinishLine: false } }),
+            rollback: async () => {
+              await updateMark.mutateAsync({ id, data: { isFinishLine: true } });
+            },
+          })),
+        {
+          id: `flag-${leg.mark.id}`,
+          description: "Make the mark a finish line end",
+          execute: () => updateMark.mutateAsync({ id: leg.mark.id, data: { isFinishLine: true } }),
+          rollback: async () => {
+            await updateMark.mutateAsync({
+              id: leg.mark.id,
+              data: { isFinishLine: previousFinishMarkIds.includes(leg.mark.id) },
+            });
+          },
+        },
+        {
+          id: "race-log",
+          description: "Log the shortened course",
+          execute: () => {
+            const record: ShortenedCourseRecord = {
+              courseId,
+              markId: leg.mark.id,
+              markName: leg.mark.name,
+              sequenceIndex: leg.sequenceIndex,
+              finishMarkId,
+              previousRoundingSequence: previousCourse.roundingSequence,
+              previousRoundingSides: previousCourse.roundingSides,
+              previousDesignation: previousCourse.designation,
+              previousFinishMarkIds,
+            };
+            return addRaceLogEntry.mutateAsync({
+              raceId: runningRace?.id ?? null,
+              kind: "shorten_course",
+              summary: `S: finish at ${leg.mark.name}, between the mark and ${buoyName ?? "the committee boat"}`,
+              data: { ...record },
+              windDirection: activeWeatherData?.windDirection ?? null,
+              windSpeed: activeWeatherData?.windSpeed ?? null,
+            });
+          },
+        },
+      ];
+
+      const result = await executeBatchedMutations(operations, { rollbackOnError: true, courseId });
+      invalidateRelatedQueries("courses", courseId);
+      if (!result.success) {
+        toast({
+          title: "Shorten Course Failed",
+          description: describeBatchFailure(result, "The course was left unchanged."),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (buoyId) {
+        sendBuoy(buoyId, position.lat, position.lng);
+      }
+
+      setShowShortenCourse(false);
+      toast({
+        title: "Course Shortened",
+        description: `Display S at ${leg.mark.name}. Boats finish between ${leg.mark.name} and ${buoyName ?? "the committee boat"}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Shorten Course Failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChangingRaceCourse(false);
+    }
+  }, [currentCourse, activeEventId, roundingSequence, marks, buoys, createMark, updateMark, deleteMark, updateCourse, sendBuoy, addRaceLogEntry, runningRace, activeWeatherData, toast]);
+
+  // Putting a shortened course back, as steps that can each be rolled back. The
+  // restore is logged before the temporary finish mark goes, so that rolled back,
+  // the shortening is logged again with the mark as it is recreated.
+  const buildRestoreOperations = useCallback((record: ShortenedCourseRecord): MutationOperation[] => {
+    const markIds = new Set(marks.map(m => m.id));
+    const finishMark = marks.find(m => m.id === record.finishMarkId);
+    let finishMarkId = record.finishMarkId;
+    const flagged = [
+      ...(markIds.has(record.markId) ? [{ id: record.markId, isFinishLine: record.previousFinishMarkIds.includes(record.markId) }] : []),
+      ...record.previousFinishMarkIds
+        .filter(id => id !== record.markId && markIds.has(id))
+        .map(id => ({ id, isFinishLine: true })),
+    ];
+    const shortenedCourse = {
+      roundingSequence: currentCourse?.roundingSequence ?? [],
+      roundingSides: currentCourse?.roundingSides ?? null,
+    };
+
+    return [
+      // Flags go back before the sequence: numbered course marks exclude finish marks
+      ...flagged.map(({ id, isFinishLine }): MutationOperation => ({
+        id: `flag-${id}`,
+        description: "Put back the finish line",
+        execute: () => updateMark.mutateAsync({ id, data: { isFinishLine } }),
+        rollback: async () => {
+          await updateMark.mutateAsync({ id, data: { isFinishLine: marks.find(m => m.id === id)?.isFinishLine ?? false } });
+        },
+      })),
+      {
+        id: "sequence",
+        description: "Put back the rounding sequence",
+        execute: () => updateCourse.mutateAsync({
+          id: record.courseId,
+          data: {
+            roundingSequence: record.previousRoundingSequence,
+            roundingSides: record.previousRoundingSides,
+            ...(record.previousDesignation ? { designation: record.previousDesignation } : {}),
+          },
+        }),
+        rollback: async () => {
+          await updateCourse.mutateAsync({ id: record.courseId, data: shortenedCourse });
+        },
+      },
+      {
+        id: "race-log-restored",
+        description: "Log the restored course",
+        execute: () => addRaceLogEntry.mutateAsync({
+          raceId: runningRace?.id ?? null,
+          kind: "course_restored",
+          summary: `Course restored after shortening at ${record.markName}`,
+          data: { courseId: record.courseId, markId: record.markId },
+          windDirection: activeWeatherData?.windDirection ?? null,
+          windSpeed: activeWeatherData?.windSpeed ?? null,
+        }),
+        rollback: async () => {
+          await addRaceLogEntry.mutateAsync({
+            raceId: runningRace?.id ?? null,
+            kind: "shorten_course",
+            summary: `S: still finishing at ${record.markName}, the course could not be restored`,
+            data: { ...record, finishMarkId },
+            windDirection: activeWeatherData?.windDirection ?? null,
+            windSpeed: activeWeatherData?.windSpeed ?? null,
+          });
+        },
+      },
+      ...(finishMark ? [{
+        id: "finish-mark",
+        description: "Remove the shortened finish mark",
+        execute: () => deleteMark.mutateAsync(finishMark.id),
+        rollback: async () => {
+          const recreated = await createMark.mutateAsync({
+            courseId: record.courseId,
+            name: finishMark.name,
+            role: finishMark.role,
+            order: finishMark.order,
+            lat: finishMark.lat,
+            lng: finishMark.lng,
+            assignedBuoyId: finishMark.assignedBuoyId,
+            isFinishLine: true,
+            isCourseMark: false,
+          });
+          finishMarkId = recreated.id;
+        },
+      }] : []),
+    ];
+  }, [marks, currentCourse, createMark, deleteMark, updateMark, updateCourse, addRaceLogEntry, runningRace, activeWeatherData]);
+
+  const handleRestoreCourse = useCallback(async () => {
+    if (!activeShortening || !currentCourse) return;
+    setIsChangingRaceCourse(true);
+    try {
+      const result = await executeBatchedMutations(buildRestoreOperations(activeShortening), {
+        rollbackOnError: true,
+        courseId: currentCourse.id,
+      });
+      invalidateRelatedQueries("courses", currentCourse.id);
+      if (!result.success) {
+        toast({
+          title: "Restore Course Failed",
+          description: describeBatchFailure(result, "The course is still shortened."),
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Course Restored",
+        description: `${activeShortening.markName} is a rounding mark again and the original finish line is back.`,
+      });
+    } finally {
+      setIsChangingRaceCourse(false);
+    }
+  }, [activeShortening, currentCourse, buildRestoreOperations, toast]);
+
+  // The abandonment is logged before the race is marked abandoned, which can't be
+  // undone; if that fails, the entry is followed by one saying it was not carried out
+  const handleAbandonRace = useCallback(async (race: Race, { signal, reason, restoreCourse }: AbandonRaceResult) => {
+    setIsChangingRaceCourse(true);
+    try {
+      const raceName = `Race ${race.raceNumber}${race.fleet ? ` (${race.fleet})` : ""}`;
+      const operations: MutationOperation[] = [
+        ...(restoreCourse && activeShortening ? buildRestoreOperations(activeShortening) : []),
+        {
+          id: "race-log-abandon",
+          description: "Log the abandonment",
+          execute: () => addRaceLogEntry.mutateAsync({
+            raceId: race.id,
+            kind: "abandon",
+            summary: `${signal}: ${raceName} abandoned${reason ? `, ${reason}` : ""}`,
+            data: { signal, reason: reason || null, raceNumber: race.raceNumber, fleet: race.fleet, status: race.status },
+            windDirection: activeWeatherData?.windDirection ?? null,
+            windSpeed: activeWeatherData?.windSpeed ?? null,
+          }),
+          rollback: async () => {
+            await addRaceLogEntry.mutateAsync({
+              raceId: race.id,
+              kind: "note",
+              summary: `${raceName} was not abandoned: the status change failed`,
+              data: { raceNumber: race.raceNumber, fleet: race.fleet, status: race.status },
+              windDirection: activeWeatherData?.windDirection ?? null,
+              windSpeed: activeWeatherData?.windSpeed ?? null,
+            });
+          },
+        },
+        {
+          id: `race-${race.id}`,
+          description: "Abandon the race",
+          execute: () => updateRace.mutateAsync({ id: race.id, data: { status: "abandoned" } }),
+        },
+      ];
+
+      const result = await executeBatchedMutations(operations, { rollbackOnError: true, courseId: currentCourse?.id });
+      if (currentCourse) {
+        invalidateRelatedQueries("courses", currentCourse.id);
+      }
+      if (!result.success) {
+        toast({
+          title: "Abandon Race Failed",
+          description: describeBatchFailure(result, `${raceName} was not abandoned.`),
+          variant: "destructive",
+        });
+        return;
+      }
+      setAbandoningRace(null);
+      toast({
+        title: `Race ${race.raceNumber} Abandoned`,
+        description: `Display ${signal} with three sounds.`,
+      });
+    } finally {
+      setIsChangingRaceCourse(false);
+    }
+  }, [updateRace, addRaceLogEntry, activeWeatherData, activeShortening, currentCourse, buildRestoreOperations, toast]);
+
   // Capture wind direction when start line is first completed (for wind shift detection)
   // This handles manual course setup scenarios where align/template/load aren't used
   const startLineMarkCount = useMemo(() => marks.filter(m => m.isStartLine).length, [marks]);
@@ -889,6 +1507,14 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
   // Workflow order: fetch weather → boat count dialog → resize start line → align to wind (LAST)
   // This is a simple state machine that runs once per step transition
   const templateSetupProcessedRef = useRef<string | null>(null);
+  // Set when the boat count is confirmed, so the dialog closing after it isn't taken as a cancel
+  const boatCountConfirmedRef = useRef(false);
+  
+  // Stops the workflow wherever it is; a saved course being loaded is undone as one step up to here
+  const stopTemplateSetup = useCallback(() => {
+    setPendingTemplateSetup(null);
+    void endCourseEditGroup();
+  }, [endCourseEditGroup]);
   
   useEffect(() => {
     if (!pendingTemplateSetup) {
@@ -906,6 +1532,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       if (marks.length === 0) return;
       
       templateSetupProcessedRef.current = stepKey;
+      boatCountConfirmedRef.current = false;
       setShowBoatCountDialog(true);
     }
     
@@ -943,7 +1570,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
           const rotationRad = rotationDelta * Math.PI / 180;
           
           // Batch all updates with Promise.all for consistency
-          Promise.all(marks.map(mark => {
+          recordCourseEdit("align course to wind", () => Promise.all(marks.map(mark => {
             const relLat = mark.lat - pivotLat;
             const relLng = (mark.lng - pivotLng) * lngScale;
             const newRelLat = relLat * Math.cos(rotationRad) - relLng * Math.sin(rotationRad);
@@ -951,7 +1578,11 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             const newLat = pivotLat + newRelLat;
             const newLng = pivotLng + newRelLng / lngScale;
             return apiRequest("PATCH", `/api/marks/${mark.id}`, { lat: newLat, lng: newLng });
-          })).then(async () => {
+          }))).then(async (aligned) => {
+            if (!aligned) {
+              stopTemplateSetup();
+              return;
+            }
             await queryClient.refetchQueries({ queryKey: ["/api/courses", courseId, "marks"] });
             setCourseSetupWindDirection(windDirection);
             // Move to resize step AFTER align is complete
@@ -970,20 +1601,26 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     
     // Step 2: Resize start line AFTER align to wind (so resize is the final operation)
     if (pendingTemplateSetup.step === "resize_start" && pendingTemplateSetup.fleetConfig) {
-      // Guard: need start line marks to proceed
+      // Guard: need marks to proceed
+      if (marks.length === 0) return;
+      
       const startLineMarks = marks.filter(m => m.isStartLine);
       const pinMark = startLineMarks.find(m => m.role === "pin");
       const cbMark = startLineMarks.find(m => m.role === "start_boat");
       
+      // No start line to size: the workflow ends here
       if (!pinMark || !cbMark) {
+        templateSetupProcessedRef.current = stepKey;
+        stopTemplateSetup();
         return;
       }
       
       templateSetupProcessedRef.current = stepKey;
       const { raceType, boatCount = 10 } = pendingTemplateSetup.fleetConfig;
       
-      // Resize the start line based on fleet config (this is now the FINAL step)
-      resizeStartLine({ raceType, boatCount });
+      // Resize the start line based on fleet config (this is now the FINAL step).
+      // A saved course loaded into this one is undone as one step with its setup
+      void resizeStartLine({ raceType, boatCount }).finally(() => endCourseEditGroup());
       
       // Workflow complete
       setPendingTemplateSetup(null);
@@ -992,7 +1629,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         description: "Course aligned to wind and start line sized.",
       });
     }
-  }, [pendingTemplateSetup, activeWeatherData, marks, courseId, toast]);
+  }, [pendingTemplateSetup, activeWeatherData, marks, courseId, toast, recordCourseEdit, endCourseEditGroup, stopTemplateSetup]);
 
   // Determine if we should show the no-course dialog
   const showNoCourseDialog = !coursesLoading && !eventsLoading && currentEvent && !currentEvent.courseId && !activeCourseId;
@@ -1091,6 +1728,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             gateWidthBoatLengths: sourceMark.gateWidthBoatLengths,
             boatLengthMeters: sourceMark.boatLengthMeters,
             gateSide: sourceMark.gateSide,
+            roundingSide: sourceMark.roundingSide ?? null,
           });
           newMarkIds.push(newMark.id);
         }
@@ -1105,25 +1743,14 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             }
           });
           
-          const newSequence: string[] = [];
-          for (const item of snapshot.roundingSequence) {
-            if (item === "start" || item === "finish") {
-              // Preserve special entries as-is
-              newSequence.push(item);
-            } else {
-              // Try to map mark name to new ID
-              const newId = nameToNewId.get(item);
-              if (newId) {
-                newSequence.push(newId);
-              }
-              // Skip items that can't be mapped (legacy UUIDs)
-            }
-          }
+          // Items that can't be mapped (legacy UUIDs) are skipped
+          const sequenceData = mapSnapshotSequence(snapshot, item => nameToNewId.get(item));
+          const newSequence = sequenceData.roundingSequence ?? [];
           
           if (newSequence.length > 0) {
             await updateCourse.mutateAsync({
               id: newCourse.id,
-              data: { roundingSequence: newSequence },
+              data: sequenceData,
             });
             setLocalRoundingSequence(newSequence);
           }
@@ -1171,13 +1798,127 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     }
   }, [currentEvent, createCourse, createMark, updateEvent, updateCourse, mapCenter, toast, activeWeatherData, weatherByLocation]);
 
+  // Creates a new course for the event from an imported GPX, KML or GeoJSON file.
+  // The marks keep their positions from the file, so the template setup workflow is not run.
+  const handleImportCourse = useCallback(async (imported: CourseFileData) => {
+    if (!currentEvent) return;
+    
+    setIsLoadingCourse(true);
+    try {
+      const newCourse = await createCourse.mutateAsync({
+        name: imported.name,
+        shape: "custom",
+        centerLat: imported.marks.reduce((sum, m) => sum + m.lat, 0) / imported.marks.length,
+        centerLng: imported.marks.reduce((sum, m) => sum + m.lng, 0) / imported.marks.length,
+        rotation: 0,
+        scale: 1,
+      });
+      
+      // The event moves to the new course only once it is complete; a course
+      // left half built by a refused request is deleted again
+      let newSequence: string[];
+      try {
+        // Names are unique in an import, checked by the dialog
+        const nameToNewId = new Map<string, string>();
+        const newMarks: Mark[] = [];
+        for (const mark of imported.marks) {
+          const newMark = await createMark.mutateAsync({
+            courseId: newCourse.id,
+            name: mark.name,
+            role: mark.role as MarkRole,
+            order: mark.order,
+            lat: mark.lat,
+            lng: mark.lng,
+            isStartLine: mark.isStartLine ?? false,
+            isFinishLine: mark.isFinishLine ?? false,
+            isCourseMark: mark.isCourseMark ?? false,
+            isGate: mark.isGate ?? false,
+            roundingSide: mark.roundingSide ?? null,
+          });
+          nameToNewId.set(mark.name, newMark.id);
+          newMarks.push(newMark);
+        }
+        
+        newSequence = [];
+        const newSides: Record<number, RoundingSide> = {};
+        imported.roundingSequence.forEach((entry, index) => {
+          const id = entry === "start" || entry === "finish" ? entry : nameToNewId.get(entry);
+          if (!id) return;
+          const side = imported.roundingSides[index];
+          if (side) newSides[newSequence.length] = side;
+          newSequence.push(id);
+        });
+        
+        // The file's designation is kept only while it still gives this sequence and these sides
+        let designated: ExpandedCourse | null = null;
+        if (imported.designation) {
+          try {
+            const expanded = expandCourseDesignation(imported.designation, newMarks);
+            const sameSides = JSON.stringify(resolveRoundingSides(expanded.roundingSequence, newMarks, expanded.roundingSides))
+              === JSON.stringify(resolveRoundingSides(newSequence, newMarks, newSides));
+            if (expanded.roundingSequence.join(",") === newSequence.join(",") && sameSides) {
+              designated = expanded;
+            }
+          } catch {
+            // Not a course these marks can sail; the sequence comes in without it
+          }
+        }
+        if (newSequence.length > 0) {
+          await updateCourse.mutateAsync({
+            id: newCourse.id,
+            data: designated ?? {
+              roundingSequence: newSequence,
+              roundingSides: Object.keys(newSides).length > 0 ? newSides : null,
+            },
+          });
+        }
+        
+        await updateEvent.mutateAsync({
+          id: currentEvent.id,
+          data: { courseId: newCourse.id },
+        });
+      } catch (error) {
+        await deleteCourse.mutateAsync(newCourse.id).catch(() => {});
+        throw error;
+      }
+      
+      setActiveCourseId(newCourse.id);
+      if (newSequence.length > 0) {
+        setLocalRoundingSequence(newSequence);
+      }
+      
+      invalidateRelatedQueries("events");
+      invalidateRelatedQueries("courses", newCourse.id);
+      await queryClient.refetchQueries({ queryKey: ["/api/courses", newCourse.id, "marks"] });
+      setFitMarksRequest(Date.now());
+      
+      toast({
+        title: "Course Imported",
+        description: `Created "${imported.name}" with ${imported.marks.length} points.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingCourse(false);
+    }
+  }, [currentEvent, createCourse, createMark, updateEvent, updateCourse, deleteCourse, toast]);
+
   // Handler to update sequence (persists to course)
-  const handleUpdateSequence = useCallback((newSequence: string[]) => {
+  const handleUpdateSequence = useCallback((newSequence: string[], course?: ExpandedCourse) => {
     setLocalRoundingSequence(newSequence);
     if (currentCourse) {
-      updateCourse.mutate({ id: currentCourse.id, data: { roundingSequence: newSequence } });
+      // Without a designation the server treats the sequence as edited by hand
+      const designation = course ? { designation: course.designation, roundingSides: course.roundingSides } : {};
+      void recordCourseEdit(
+        course ? `set course ${course.designation}` : "edit rounding sequence",
+        () => updateCourse.mutateAsync({ id: currentCourse.id, data: { roundingSequence: newSequence, ...designation } })
+      );
     }
-  }, [currentCourse, updateCourse]);
+  }, [currentCourse, updateCourse, recordCourseEdit]);
 
   const handleDeployCourse = useCallback(() => {
     // Ensure buoys data is loaded before validating
@@ -1365,138 +2106,137 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     setSelectedBuoyId(null);
   }, []);
 
-  const handleSaveMark = useCallback((id: string, data: Partial<Mark>): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      const mark = marks.find(m => m.id === id);
-      const previousBuoyId = mark?.assignedBuoyId;
-      const newBuoyId = data.assignedBuoyId;
-      
-      // Handle gate buoy assignments
-      const newGatePortBuoyId = data.gatePortBuoyId;
-      const newGateStarboardBuoyId = data.gateStarboardBuoyId;
-      const previousGatePortBuoyId = mark?.gatePortBuoyId;
-      const previousGateStarboardBuoyId = mark?.gateStarboardBuoyId;
-      
-      updateMark.mutate({ id, data }, {
-        onError: (error) => {
-          reject(error);
-        },
-        onSuccess: () => {
-          // For gates, calculate port and starboard positions
-          if (mark?.isGate) {
-            const windDir = activeWeatherData?.windDirection ?? 225;
-            const gateWidth = (mark.gateWidthBoatLengths ?? 8) * (mark.boatLengthMeters ?? 6);
-            const halfWidthDeg = (gateWidth / 2) / 111000;
-            const perpAngle = (windDir + 90) % 360;
-            const perpRad = perpAngle * Math.PI / 180;
-            
-            const portLat = mark.lat + halfWidthDeg * Math.cos(perpRad);
-            const portLng = mark.lng + halfWidthDeg * Math.sin(perpRad) / Math.cos(mark.lat * Math.PI / 180);
-            const starboardLat = mark.lat - halfWidthDeg * Math.cos(perpRad);
-            const starboardLng = mark.lng - halfWidthDeg * Math.sin(perpRad) / Math.cos(mark.lat * Math.PI / 180);
-            
-            // Dispatch port buoy on new assignment
-            if (newGatePortBuoyId && newGatePortBuoyId !== previousGatePortBuoyId) {
-              if (demoMode) {
-                sendDemoCommand(newGatePortBuoyId, "move_to_target", portLat, portLng);
-              } else {
-                buoyCommand.mutate({
-                  id: newGatePortBuoyId,
-                  command: "move_to_target",
-                  targetLat: portLat,
-                  targetLng: portLng,
-                });
-              }
-              toast({
-                title: "Port Buoy Dispatched",
-                description: `Buoy is moving to ${mark.name} (Port).`,
-              });
-            }
-            
-            // Dispatch starboard buoy on new assignment
-            if (newGateStarboardBuoyId && newGateStarboardBuoyId !== previousGateStarboardBuoyId) {
-              if (demoMode) {
-                sendDemoCommand(newGateStarboardBuoyId, "move_to_target", starboardLat, starboardLng);
-              } else {
-                buoyCommand.mutate({
-                  id: newGateStarboardBuoyId,
-                  command: "move_to_target",
-                  targetLat: starboardLat,
-                  targetLng: starboardLng,
-                });
-              }
-              toast({
-                title: "Starboard Buoy Dispatched",
-                description: `Buoy is moving to ${mark.name} (Starboard).`,
-              });
-            }
-            
-            // Position changed without new assignment - use buoy follow
-            if ((data.lat !== undefined || data.lng !== undefined)) {
-              const targetLat = data.lat ?? mark.lat;
-              const targetLng = data.lng ?? mark.lng;
-              handleMarkMoved(id, targetLat, targetLng);
-            }
-            
-            resolve();
-            return;
-          }
-          
-          // If a buoy was assigned to this mark, send it to the mark position
-          if (newBuoyId && newBuoyId !== previousBuoyId && mark) {
-            const targetLat = data.lat ?? mark.lat;
-            const targetLng = data.lng ?? mark.lng;
-            
-            if (demoMode) {
-              sendDemoCommand(newBuoyId, "move_to_target", targetLat, targetLng);
-              toast({
-                title: "Buoy Dispatched",
-                description: `Buoy is moving to ${mark.name} at 3.25 knots.`,
-              });
-            } else {
-              buoyCommand.mutate({
-                id: newBuoyId,
-                command: "move_to_target",
-                targetLat,
-                targetLng,
-              });
-              toast({
-                title: "Buoy Dispatched",
-                description: `Buoy is moving to ${mark.name}.`,
-              });
-            }
-          } else if ((data.lat !== undefined || data.lng !== undefined) && mark) {
-            // Position changed without new buoy assignment - use buoy follow
-            const targetLat = data.lat ?? mark.lat;
-            const targetLng = data.lng ?? mark.lng;
-            handleMarkMoved(id, targetLat, targetLng);
-          }
-          resolve();
-        },
-      });
-    });
-  }, [updateMark, marks, demoMode, sendDemoCommand, buoyCommand, toast, activeWeatherData, handleMarkMoved]);
+  const handleSaveMark = useCallback(async (id: string, data: Partial<Mark>): Promise<void> => {
+    const mark = marks.find(m => m.id === id);
+    const previousBuoyId = mark?.assignedBuoyId;
+    const newBuoyId = data.assignedBuoyId;
 
-  const handleDeleteMark = useCallback((id: string) => {
-    deleteMark.mutate(id, {
-      onSuccess: () => {
-        setSelectedMarkId(null);
-        
-        // Clean up rounding sequence - remove references to deleted mark
-        if (currentCourse && currentCourse.roundingSequence) {
-          const cleanedSequence = currentCourse.roundingSequence.filter(entry => entry !== id);
-          if (cleanedSequence.length !== currentCourse.roundingSequence.length) {
-            updateCourse.mutate({ id: currentCourse.id, data: { roundingSequence: cleanedSequence } });
-          }
+    // Handle gate buoy assignments
+    const newGatePortBuoyId = data.gatePortBuoyId;
+    const newGateStarboardBuoyId = data.gateStarboardBuoyId;
+    const previousGatePortBuoyId = mark?.gatePortBuoyId;
+    const previousGateStarboardBuoyId = mark?.gateStarboardBuoyId;
+
+    const isMove = Object.keys(data).every(key => key === "lat" || key === "lng");
+    const saved = await recordCourseEdit(
+      `${isMove ? "move" : "edit"} ${data.name ?? mark?.name ?? "point"}`,
+      () => updateMark.mutateAsync({ id, data })
+    );
+    if (!saved) {
+      throw new Error("Failed to update point");
+    }
+    
+    // For gates, calculate port and starboard positions
+    if (mark?.isGate) {
+      const windDir = activeWeatherData?.windDirection ?? 225;
+      const gateWidth = (mark.gateWidthBoatLengths ?? 8) * (mark.boatLengthMeters ?? 6);
+      const halfWidthDeg = (gateWidth / 2) / 111000;
+      const perpAngle = (windDir + 90) % 360;
+      const perpRad = perpAngle * Math.PI / 180;
+
+      const portLat = mark.lat + halfWidthDeg * Math.cos(perpRad);
+      const portLng = mark.lng + halfWidthDeg * Math.sin(perpRad) / Math.cos(mark.lat * Math.PI / 180);
+      const starboardLat = mark.lat - halfWidthDeg * Math.cos(perpRad);
+      const starboardLng = mark.lng - halfWidthDeg * Math.sin(perpRad) / Math.cos(mark.lat * Math.PI / 180);
+
+      // Dispatch port buoy on new assignment
+      if (newGatePortBuoyId && newGatePortBuoyId !== previousGatePortBuoyId) {
+        if (demoMode) {
+          sendDemoCommand(newGatePortBuoyId, "move_to_target", portLat, portLng);
+        } else {
+          buoyCommand.mutate({
+            id: newGatePortBuoyId,
+            command: "move_to_target",
+            targetLat: portLat,
+            targetLng: portLng,
+          });
         }
-        
         toast({
-          title: "Point Deleted",
-          description: "Point has been removed from the course.",
+          title: "Port Buoy Dispatched",
+          description: `Buoy is moving to ${mark.name} (Port).`,
+        });
+      }
+
+      // Dispatch starboard buoy on new assignment
+      if (newGateStarboardBuoyId && newGateStarboardBuoyId !== previousGateStarboardBuoyId) {
+        if (demoMode) {
+          sendDemoCommand(newGateStarboardBuoyId, "move_to_target", starboardLat, starboardLng);
+        } else {
+          buoyCommand.mutate({
+            id: newGateStarboardBuoyId,
+            command: "move_to_target",
+            targetLat: starboardLat,
+            targetLng: starboardLng,
+          });
+        }
+        toast({
+          title: "Starboard Buoy Dispatched",
+          description: `Buoy is moving to ${mark.name} (Starboard).`,
+        });
+      }
+
+      // Position changed without new assignment - use buoy follow
+      if ((data.lat !== undefined || data.lng !== undefined)) {
+        const targetLat = data.lat ?? mark.lat;
+        const targetLng = data.lng ?? mark.lng;
+        handleMarkMoved(id, targetLat, targetLng);
+      }
+
+      return;
+    }
+
+    // If a buoy was assigned to this mark, send it to the mark position
+    if (newBuoyId && newBuoyId !== previousBuoyId && mark) {
+      const targetLat = data.lat ?? mark.lat;
+      const targetLng = data.lng ?? mark.lng;
+
+      if (demoMode) {
+        sendDemoCommand(newBuoyId, "move_to_target", targetLat, targetLng);
+        toast({
+          title: "Buoy Dispatched",
+          description: `Buoy is moving to ${mark.name} at 3.25 knots.`,
+        });
+      } else {
+        buoyCommand.mutate({
+          id: newBuoyId,
+          command: "move_to_target",
+          targetLat,
+          targetLng,
+        });
+        toast({
+          title: "Buoy Dispatched",
+          description: `Buoy is moving to ${mark.name}.`,
         });
-      },
+      }
+    } else if ((data.lat !== undefined || data.lng !== undefined) && mark) {
+      // Position changed without new buoy assignment - use buoy follow
+      const targetLat = data.lat ?? mark.lat;
+      const targetLng = data.lng ?? mark.lng;
+      handleMarkMoved(id, targetLat, targetLng);
+    }
+  }, [updateMark, marks, demoMode, sendDemoCommand, buoyCommand, toast, activeWeatherData, handleMarkMoved, recordCourseEdit]);
+
+  const handleDeleteMark = useCallback(async (id: string) => {
+    const mark = marks.find(m => m.id === id);
+    const deleted = await recordCourseEdit(`delete ${mark?.name ?? "point"}`, async () => {
+      await deleteMark.mutateAsync(id);
+      
+      // Clean up rounding sequence - remove references to deleted mark
+      if (currentCourse && currentCourse.roundingSequence) {
+        const cleaned = removeSequenceMarks(currentCourse.roundingSequence, currentCourse.roundingSides, new Set([id]));
+        if (cleaned.roundingSequence.length !== currentCourse.roundingSequence.length) {
+          await updateCourse.mutateAsync({ id: currentCourse.id, data: cleaned });
+        }
+      }
+    });
+    if (!deleted) return;
+    
+    setSelectedMarkId(null);
+    toast({
+      title: "Point Deleted",
+      description: "Point has been removed from the course.",
     });
-  }, [deleteMark, toast, currentCourse, updateCourse]);
+  }, [marks, deleteMark, toast, currentCourse, updateCourse, recordCourseEdit]);
 
   const handleAddMark = useCallback((data: { name: string; role: MarkRole; lat?: number; lng?: number }) => {
     if (!currentCourse) {
@@ -1512,15 +2252,15 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     const lng = data.lng ?? DEFAULT_CENTER.lng;
     const order = marks.length;
 
-    createMark.mutate({
+    void recordCourseEdit(`add ${data.name}`, () => createMark.mutateAsync({
       courseId: currentCourse.id,
       name: data.name,
       role: data.role,
       order,
       lat,
       lng,
-    });
-  }, [currentCourse, marks.length, createMark]);
+    }));
+  }, [currentCourse, marks.length, createMark, recordCourseEdit]);
 
   const [continuousPlacement, setContinuousPlacement] = useState(false);
   const [markCounter, setMarkCounter] = useState(1);
@@ -1553,12 +2293,6 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     try {
       // Take a snapshot of current positions to prevent race conditions
       const markSnapshot = marks.map(m => ({ ...m }));
-      
-      // Save positions for undo
-      setLastCourseTransform({
-        positions: markSnapshot.map(m => ({ id: m.id, lat: m.lat, lng: m.lng })),
-        timestamp: Date.now(),
-      });
 
       // Find the committee boat (pivot point for rotation)
       const committeeBoat = markSnapshot.find(m => m.role === "start_boat" || m.name === "Committee Boat" || m.name === "Start Boat");
@@ -1567,66 +2301,16 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       const pivotLat = committeeBoat?.lat ?? markSnapshot.reduce((sum, m) => sum + m.lat, 0) / markSnapshot.length;
       const pivotLng = committeeBoat?.lng ?? markSnapshot.reduce((sum, m) => sum + m.lng, 0) / markSnapshot.length;
       
-      // For scaling, always use center of course
-      const centerLat = markSnapshot.reduce((sum, m) => sum + m.lat, 0) / markSnapshot.length;
-      const centerLng = markSnapshot.reduce((sum, m) => sum + m.lng, 0) / markSnapshot.length;
-
-      // Find start line marks for courseResizeStartLineMode handling
-      const startBoat = markSnapshot.find(m => m.role === "start_boat");
-      const pinMark = markSnapshot.find(m => m.role === "pin");
+      // Scaling follows courseResizeStartLineMode for the start line marks
+      const scaledPositions = transform.scale
+        ? scaleCoursePositions(markSnapshot, transform.scale, courseResizeStartLineMode)
+        : null;
 
       // Calculate new positions for all marks from the snapshot
       const newPositions = markSnapshot.map(mark => {
-        let newLat = mark.lat;
-        let newLng = mark.lng;
-
-        // Apply scaling (relative to center)
-        if (transform.scale) {
-          const isStartLineMark = mark.role === "start_boat" || mark.role === "pin" || mark.isStartLine;
-          
-          // Handle start line based on courseResizeStartLineMode setting
-          // Only apply special handling if both start line marks exist
-          const canApplyStartLineMode = startBoat && pinMark && isStartLineMark && courseResizeStartLineMode !== "resize_all";
-          
-          if (canApplyStartLineMode) {
-            if (courseResizeStartLineMode === "keep_start_line") {
-              // Keep start line the same length - scale from start line center instead of course center
-              const startLineCenterLat = (startBoat.lat + pinMark.lat) / 2;
-              const startLineCenterLng = (startBoat.lng + pinMark.lng) / 2;
-              
-              // Move start line center with the course, but don't change its size
-              const newStartLineCenterLat = centerLat + (startLineCenterLat - centerLat) * transform.scale;
-              const newStartLineCenterLng = centerLng + (startLineCenterLng - centerLng) * transform.scale;
-              
-              // Keep same offset from start line center (preserves length)
-              const offsetLat = mark.lat - startLineCenterLat;
-              const offsetLng = mark.lng - startLineCenterLng;
-              
-              newLat = newStartLineCenterLat + offsetLat;
-              newLng = newStartLineCenterLng + offsetLng;
-            } else if (courseResizeStartLineMode === "keep_committee_boat") {
-              // Keep committee boat fixed, only move pin proportionally
-              if (mark.role === "start_boat") {
-                // Committee boat stays in place
-                newLat = mark.lat;
-                newLng = mark.lng;
-              } else {
-                // Pin (or any other start line mark) scales from committee boat position
-                const dLat = mark.lat - startBoat.lat;
-                const dLng = mark.lng - startBoat.lng;
-                newLat = startBoat.lat + dLat * transform.scale;
-                newLng = startBoat.lng + dLng * transform.scale;
-              }
-            }
-          } else {
-            // Default: scale all marks from course center
-            // This also serves as fallback when start line marks are missing
-            const dLat = mark.lat - centerLat;
-            const dLng = mark.lng - centerLng;
-            newLat = centerLat + dLat * transform.scale;
-            newLng = centerLng + dLng * transform.scale;
-          }
-        }
+        const scaled = scaledPositions?.get(mark.id);
+        let newLat = scaled?.lat ?? mark.lat;
+        let newLng = scaled?.lng ?? mark.lng;
 
         // Apply rotation (relative to committee boat pivot - committee boat stays fixed)
         if (transform.rotation) {
@@ -1664,18 +2348,41 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         return { mark, newLat, newLng };
       });
 
-      // Update all mark positions atomically using Promise.all
-      await Promise.all(
+      // Update all mark positions atomically using Promise.all, undone as one step
+      const label = transform.scale ? "resize course" : transform.rotation ? "rotate course" : "move course";
+      const transformed = await recordCourseEdit(label, () => Promise.all(
         newPositions.map(({ mark, newLat, newLng }) =>
           updateMark.mutateAsync({ id: mark.id, data: { lat: newLat, lng: newLng } })
         )
-      );
+      ));
+      if (!transformed) return;
 
       // Trigger buoy follow for all marks after atomic update
       for (const { mark, newLat, newLng } of newPositions) {
         handleMarkMoved(mark.id, newLat, newLng);
       }
 
+      // One entry for the whole transform; the server logs each mark's move
+      if (activeEventId && !demoMode) {
+        const movedMeters = Math.hypot(
+          (transform.translateLat ?? 0) * 111320,
+          (transform.translateLng ?? 0) * 111320 * Math.cos(pivotLat * Math.PI / 180)
+        );
+        const changes = [
+          transform.scale ? `scaled to ${Math.round(transform.scale * 100)}%` : null,
+          transform.rotation ? `rotated ${transform.rotation > 0 ? "+" : ""}${Math.round(transform.rotation)}°` : null,
+          movedMeters >= 1 ? `moved ${Math.round(movedMeters)} m` : null,
+        ].filter(Boolean);
+        addRaceLogEntry.mutate({
+          raceId: runningRace?.id ?? null,
+          kind: "course_transform",
+          summary: `Course ${changes.join(", ") || "adjusted"}`,
+          data: { ...transform, markIds: markSnapshot.map(m => m.id) },
+          windDirection: activeWeatherData?.windDirection ?? null,
+          windSpeed: activeWeatherData?.windSpeed ?? null,
+        });
+      }
+
       toast({
         title: "Course Adjusted",
         description: transform.scale ? (transform.scale > 1 ? "Course enlarged." : "Course reduced.") :
@@ -1684,7 +2391,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     } finally {
       setIsTransforming(false);
     }
-  }, [marks, updateMark, handleMarkMoved, toast, isTransforming, courseResizeStartLineMode]);
+  }, [marks, updateMark, handleMarkMoved, toast, isTransforming, courseResizeStartLineMode, activeEventId, demoMode, addRaceLogEntry, runningRace, activeWeatherData, recordCourseEdit]);
 
   // Handle phase changes from SetupPanel - auto-enable placement in marks phase
   const handlePhaseChange = useCallback((phase: string) => {
@@ -1733,7 +2440,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       // Use current course marks count for naming in continuous mode
       const courseMarksCount = marks.filter(m => m.isCourseMark === true).length;
       const markName = continuousPlacement ? `M${courseMarksCount + 1}` : pendingMarkData.name;
-      createMark.mutate({
+      recordCourseEdit(`place ${markName}`, () => createMark.mutateAsync({
         courseId: currentCourse.id,
         name: markName,
         role: pendingMarkData.role,
@@ -1743,23 +2450,21 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         isStartLine: pendingMarkData.isStartLine ?? false,
         isFinishLine: pendingMarkData.isFinishLine ?? false,
         isCourseMark: pendingMarkData.isCourseMark ?? true,
-      }, {
-        onSuccess: () => {
-          if (continuousPlacement) {
-            setMarkCounter(prev => prev + 1);
-          } else {
-            setPendingMarkData(null);
-          }
-        },
+      })).then((placed) => {
+        if (!placed) return;
+        if (continuousPlacement) {
+          setMarkCounter(prev => prev + 1);
+        } else {
+          setPendingMarkData(null);
+        }
       });
     } else if (repositioningMarkId) {
-      updateMark.mutate({ 
+      const mark = marks.find(m => m.id === repositioningMarkId);
+      recordCourseEdit(`move ${mark?.name ?? "point"}`, () => updateMark.mutateAsync({ 
         id: repositioningMarkId, 
         data: { lat, lng } 
-      }, {
-        onSuccess: () => {
-          setRepositioningMarkId(null);
-        },
+      })).then((moved) => {
+        if (moved) setRepositioningMarkId(null);
       });
     } else if (gotoMapClickMarkId) {
       const mark = marks.find(m => m.id === gotoMapClickMarkId);
@@ -1821,7 +2526,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         description: "Course relocated to new position.",
       });
     }
-  }, [isPlacingMark, pendingMarkData, currentCourse, marks.length, createMark, repositioningMarkId, updateMark, toast, continuousPlacement, markCounter, gotoMapClickMarkId, gotoMapClickBuoyId, marks, buoyCommand, moveCourseMode, applyCourseTransform]);
+  }, [isPlacingMark, pendingMarkData, currentCourse, marks.length, createMark, repositioningMarkId, updateMark, toast, continuousPlacement, markCounter, gotoMapClickMarkId, gotoMapClickBuoyId, marks, buoyCommand, moveCourseMode, applyCourseTransform, recordCourseEdit]);
 
   // Long press handler - directly place a course mark for wet-finger operation
   // Only active when not in any other placement/editing mode
@@ -1843,7 +2548,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     const courseMarksCount = marks.filter(m => m.isCourseMark === true).length;
     const markName = `M${courseMarksCount + 1}`;
     
-    createMark.mutate({
+    recordCourseEdit(`place ${markName}`, () => createMark.mutateAsync({
       courseId: currentCourse.id,
       name: markName,
       role: "course" as MarkRole,
@@ -1853,15 +2558,14 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       isStartLine: false,
       isFinishLine: false,
       isCourseMark: true,
-    }, {
-      onSuccess: () => {
-        toast({
-          title: "Mark Placed",
-          description: `${markName} placed at long-press location`,
-        });
-      },
+    })).then((placed) => {
+      if (!placed) return;
+      toast({
+        title: "Mark Placed",
+        description: `${markName} placed at long-press location`,
+      });
     });
-  }, [currentCourse, marks, createMark, toast, isPlacingMark, repositioningMarkId, gotoMapClickMarkId, gotoMapClickBuoyId, moveCourseMode]);
+  }, [currentCourse, marks, createMark, toast, isPlacingMark, repositioningMarkId, gotoMapClickMarkId, gotoMapClickBuoyId, moveCourseMode, recordCourseEdit]);
 
   const handleStopPlacement = useCallback(() => {
     setPendingMarkData(null);
@@ -1963,69 +2667,32 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     const newLat = mark.lat + latDelta;
     const newLng = mark.lng + lngDelta;
     
-    updateMark.mutate({ id: markId, data: { lat: newLat, lng: newLng } }, {
-      onSuccess: () => handleMarkMoved(markId, newLat, newLng),
-    });
-  }, [marks, updateMark, handleMarkMoved, getTransformedNudgeDelta, markNudgeMeters]);
+    void moveMark(markId, newLat, newLng, `nudge ${mark.name} ${direction}`);
+  }, [marks, moveMark, getTransformedNudgeDelta, markNudgeMeters]);
 
-  const handleAdjustMarkToWind = useCallback((markId: string, newLat: number, newLng: number) => {
+  const handleAdjustMarkToWind = useCallback(async (markId: string, newLat: number, newLng: number) => {
     const mark = marks.find(m => m.id === markId);
     if (!mark) return;
     
-    setLastMarkMove({
-      markId,
-      prevLat: mark.lat,
-      prevLng: mark.lng,
-      timestamp: Date.now(),
-    });
-    
-    updateMark.mutate({ id: markId, data: { lat: newLat, lng: newLng } }, {
-      onSuccess: () => {
-        handleMarkMoved(markId, newLat, newLng);
-        toast({
-          title: "Point Adjusted",
-          description: "Point position adjusted relative to wind.",
-        });
-      },
-    });
-  }, [marks, updateMark, toast, handleMarkMoved]);
+    if (await moveMark(markId, newLat, newLng, `adjust ${mark.name} to wind`)) {
+      toast({
+        title: "Point Adjusted",
+        description: "Point position adjusted relative to wind.",
+      });
+    }
+  }, [marks, moveMark, toast]);
   
-  const handleAdjustMarkToShape = useCallback((markId: string, newLat: number, newLng: number) => {
+  const handleAdjustMarkToShape = useCallback(async (markId: string, newLat: number, newLng: number) => {
     const mark = marks.find(m => m.id === markId);
     if (!mark) return;
     
-    setLastMarkMove({
-      markId,
-      prevLat: mark.lat,
-      prevLng: mark.lng,
-      timestamp: Date.now(),
-    });
-    
-    updateMark.mutate({ id: markId, data: { lat: newLat, lng: newLng } }, {
-      onSuccess: () => {
-        handleMarkMoved(markId, newLat, newLng);
-        toast({
-          title: "Shape Adjusted",
-          description: "Point moved to achieve target angle.",
-        });
-      },
-    });
-  }, [marks, updateMark, toast, handleMarkMoved]);
-
-  const handleUndoMarkMove = useCallback(() => {
-    if (!lastMarkMove) return;
-    
-    updateMark.mutate({ id: lastMarkMove.markId, data: { lat: lastMarkMove.prevLat, lng: lastMarkMove.prevLng } }, {
-      onSuccess: () => {
-        handleMarkMoved(lastMarkMove.markId, lastMarkMove.prevLat, lastMarkMove.prevLng);
-        setLastMarkMove(null);
-        toast({
-          title: "Undone",
-          description: "Point position restored.",
-        });
-      },
-    });
-  }, [lastMarkMove, updateMark, toast, handleMarkMoved]);
+    if (await moveMark(markId, newLat, newLng, `adjust ${mark.name} to shape`)) {
+      toast({
+        title: "Shape Adjusted",
+        description: "Point moved to achieve target angle.",
+      });
+    }
+  }, [marks, moveMark, toast]);
   
   const handleMoveMarkToGPS = useCallback((markId: string) => {
     const mark = marks.find(m => m.id === markId);
@@ -2045,15 +2712,12 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       (position) => {
         setIsGpsLocating(false);
         const { latitude, longitude } = position.coords;
-        setLastMarkMove({ markId, prevLat: mark.lat, prevLng: mark.lng, timestamp: Date.now() });
-        updateMark.mutate({ id: markId, data: { lat: latitude, lng: longitude } }, {
-          onSuccess: () => {
-            handleMarkMoved(markId, latitude, longitude);
-            toast({
-              title: "Point Moved",
-              description: "Point moved to your current GPS position.",
-            });
-          },
+        moveMark(markId, latitude, longitude, `move ${mark.name} to GPS`).then((moved) => {
+          if (!moved) return;
+          toast({
+            title: "Point Moved",
+            description: "Point moved to your current GPS position.",
+          });
         });
       },
       (error) => {
@@ -2066,23 +2730,19 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       },
       { enableHighAccuracy: true, timeout: 10000 }
     );
-  }, [marks, updateMark, toast, handleMarkMoved]);
+  }, [marks, moveMark, toast]);
   
-  const handleMoveMarkToCoordinates = useCallback((markId: string, lat: number, lng: number) => {
+  const handleMoveMarkToCoordinates = useCallback(async (markId: string, lat: number, lng: number) => {
     const mark = marks.find(m => m.id === markId);
     if (!mark) return;
     
-    setLastMarkMove({ markId, prevLat: mark.lat, prevLng: mark.lng, timestamp: Date.now() });
-    updateMark.mutate({ id: markId, data: { lat, lng } }, {
-      onSuccess: () => {
-        handleMarkMoved(markId, lat, lng);
-        toast({
-          title: "Point Moved",
-          description: `Point moved to ${lat.toFixed(5)}, ${lng.toFixed(5)}.`,
-        });
-      },
-    });
-  }, [marks, updateMark, toast, handleMarkMoved]);
+    if (await moveMark(markId, lat, lng)) {
+      toast({
+        title: "Point Moved",
+        description: `Point moved to ${lat.toFixed(5)}, ${lng.toFixed(5)}.`,
+      });
+    }
+  }, [marks, moveMark, toast]);
 
   const handleBuoyGotoMapClick = useCallback((buoyId: string) => {
     if (gotoMapClickBuoyId === buoyId) {
@@ -2149,7 +2809,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
   }, [marks, updateMark]);
 
   // Save course as immutable snapshot
-  const handleSaveCourse = useCallback(async (data: { name: string; category?: string; description?: string; thumbnailSvg?: string }) => {
+  const handleSaveCourse = useCallback(async (data: { name: string; category?: string; description?: string; thumbnailSvg?: string; parentSnapshotId?: string }) => {
     console.log("[DEBUG CLIENT] handleSaveCourse called with data:", data);
     console.log("[DEBUG CLIENT] category value:", data.category, "type:", typeof data.category);
     if (!currentCourse) {
@@ -2177,13 +2837,17 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         category: data.category,
         description: data.description,
         thumbnailSvg: data.thumbnailSvg,
+        parentSnapshotId: data.parentSnapshotId,
       };
       console.log("[DEBUG CLIENT] Sending to API:", savePayload);
-      await saveCourseSnapshot.mutateAsync(savePayload);
+      const saved = await saveCourseSnapshot.mutateAsync(savePayload);
+      setLoadedSnapshot(saved);
       
       toast({
         title: "Course Saved",
-        description: `Race course "${data.name}" has been saved.`,
+        description: saved.version > 1
+          ? `Race course "${data.name}" has been saved as version ${saved.version}.`
+          : `Race course "${data.name}" has been saved.`,
       });
     } catch (error) {
       toast({
@@ -2247,63 +2911,65 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
       offsetLng = mapCenter.lng - sourceCenter.lng;
     }
     
-    // Clear existing marks first using the bulk delete endpoint
-    // This properly clears the rounding sequence before deleting marks,
-    // avoiding race conditions that occur with individual deletions
-    if (marks.length > 0) {
-      await deleteAllMarks.mutateAsync(currentCourse.id);
-    }
-    
-    // Create new marks from snapshot data
-    // For snapshots, we don't have mark IDs since they're serialized data
-    // We'll track by index for rounding sequence mapping
-    const newMarkIds: string[] = [];
-    
-    for (const sourceMark of sourceMarks) {
-      // Copy shape and metadata but NOT buoy assignments (those are location-specific)
-      const newMark = await createMark.mutateAsync({
-        courseId: currentCourse.id,
-        name: sourceMark.name,
-        role: sourceMark.role,
-        order: sourceMark.order,
-        lat: sourceMark.lat + offsetLat,
-        lng: sourceMark.lng + offsetLng,
-        isStartLine: sourceMark.isStartLine ?? false,
-        isFinishLine: sourceMark.isFinishLine ?? false,
-        isCourseMark: sourceMark.isCourseMark ?? false,
-        isGate: sourceMark.isGate ?? false,
-        gateWidthBoatLengths: sourceMark.gateWidthBoatLengths,
-        boatLengthMeters: sourceMark.boatLengthMeters,
-        gateSide: sourceMark.gateSide,
-      });
-      newMarkIds.push(newMark.id);
-    }
-    
-    // Build new rounding sequence from the loaded marks
-    // Snapshot roundingSequence contains mark names (not IDs) for portability
-    // Also supports backward compatibility with old snapshots that used IDs
-    if (snapshot.roundingSequence && snapshot.roundingSequence.length > 0) {
-      // Create maps for multiple lookup strategies
-      const nameToNewId = new Map<string, string>();
-      const orderToNewId = new Map<number, string>();
-      
-      sourceMarks.forEach((sourceMark, index) => {
-        if (newMarkIds[index]) {
-          nameToNewId.set(sourceMark.name, newMarkIds[index]);
-          orderToNewId.set(sourceMark.order, newMarkIds[index]);
-        }
-      });
+    // Loading, aligning and sizing the course are undone as one step; the group
+    // closes when the setup workflow ends, or here if the load doesn't get that far
+    await beginCourseEditGroup(`load ${snapshot.name}`);
+    let setupStarted = false;
+    try {
+      // Clear existing marks first using the bulk delete endpoint
+      // This properly clears the rounding sequence before deleting marks,
+      // avoiding race conditions that occur with individual deletions
+      if (marks.length > 0) {
+        await deleteAllMarks.mutateAsync(currentCourse.id);
+      }
       
-      // Map the saved rounding sequence to new IDs
-      // Try multiple strategies: name match, order match, index match
-      const newRoundingSequence: string[] = [];
-      for (const item of snapshot.roundingSequence) {
-        if (item === "start" || item === "finish") {
-          newRoundingSequence.push(item);
-        } else {
+      // Create new marks from snapshot data
+      // For snapshots, we don't have mark IDs since they're serialized data
+      // We'll track by index for rounding sequence mapping
+      const newMarkIds: string[] = [];
+      
+      for (const sourceMark of sourceMarks) {
+        // Copy shape and metadata but NOT buoy assignments (those are location-specific)
+        const newMark = await createMark.mutateAsync({
+          courseId: currentCourse.id,
+          name: sourceMark.name,
+          role: sourceMark.role,
+          order: sourceMark.order,
+          lat: sourceMark.lat + offsetLat,
+          lng: sourceMark.lng + offsetLng,
+          isStartLine: sourceMark.isStartLine ?? false,
+          isFinishLine: sourceMark.isFinishLine ?? false,
+          isCourseMark: sourceMark.isCourseMark ?? false,
+          isGate: sourceMark.isGate ?? false,
+          gateWidthBoatLengths: sourceMark.gateWidthBoatLengths,
+          boatLengthMeters: sourceMark.boatLengthMeters,
+          gateSide: sourceMark.gateSide,
+          roundingSide: sourceMark.roundingSide ?? null,
+        });
+        newMarkIds.push(newMark.id);
+      }
+      
+      // Build new rounding sequence from the loaded marks
+      // Snapshot roundingSequence contains mark names (not IDs) for portability
+      // Also supports backward compatibility with old snapshots that used IDs
+      if (snapshot.roundingSequence && snapshot.roundingSequence.length > 0) {
+        // Create maps for multiple lookup strategies
+        const nameToNewId = new Map<string, string>();
+        const orderToNewId = new Map<number, string>();
+      
+        sourceMarks.forEach((sourceMark, index) => {
+          if (newMarkIds[index]) {
+            nameToNewId.set(sourceMark.name, newMarkIds[index]);
+            orderToNewId.set(sourceMark.order, newMarkIds[index]);
+          }
+        });
+      
+        // Map the saved rounding sequence to new IDs
+        // Try multiple strategies: name match, order match, index match
+        const sequenceData = mapSnapshotSequence(snapshot, item => {
           // Strategy 1: Try name match (new snapshots)
           let newId = nameToNewId.get(item);
-          
+        
           // Strategy 2: Try order match (if item looks like a number)
           if (!newId) {
             const orderNum = parseInt(item, 10);
@@ -2311,7 +2977,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               newId = orderToNewId.get(orderNum);
             }
           }
-          
+        
           // Strategy 3: Try finding by index in source marks (legacy with UUIDs)
           if (!newId) {
             const sourceIndex = sourceMarks.findIndex(m => m.name === item);
@@ -2319,56 +2985,63 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               newId = newMarkIds[sourceIndex];
             }
           }
-          
-          if (newId) {
-            newRoundingSequence.push(newId);
-          }
+        
+          return newId;
+        });
+        const newRoundingSequence = sequenceData.roundingSequence ?? [];
+      
+        if (newRoundingSequence.length > 0) {
+          setLocalRoundingSequence(newRoundingSequence);
+          await updateCourse.mutateAsync({
+            id: currentCourse.id,
+            data: sequenceData
+          });
         }
       }
       
-      if (newRoundingSequence.length > 0) {
-        setLocalRoundingSequence(newRoundingSequence);
-        await updateCourse.mutateAsync({
-          id: currentCourse.id,
-          data: { roundingSequence: newRoundingSequence }
-        });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", currentCourse.id, "marks"] });
+      
+      // Only a course loaded where it was saved carries on as that saved course
+      setLoadedSnapshot(mode === "exact" ? snapshot : null);
+      
+      // Capture current wind direction as the "setup" wind for shift detection
+      if (activeWeatherData) {
+        setCourseSetupWindDirection(activeWeatherData.windDirection);
       }
-    }
-    
-    queryClient.invalidateQueries({ queryKey: ["/api/courses", currentCourse.id, "marks"] });
-    
-    // Capture current wind direction as the "setup" wind for shift detection
-    if (activeWeatherData) {
-      setCourseSetupWindDirection(activeWeatherData.windDirection);
-    }
-    
-    toast({
-      title: mode === "exact" ? "Course Loaded" : "Course Shape Loaded",
-      description: mode === "exact" 
-        ? "Race course has been loaded at its saved location."
-        : "Course shape has been placed at your current map location.",
-    });
-    
-    // Start the automated template setup workflow
-    // Order: fetch weather → boat count dialog → resize → align to wind (LAST)
-    if (!activeWeatherData) {
-      setPendingTemplateSetup({ step: "fetch_weather" });
-      // Trigger weather fetch at map center
-      weatherByLocation.mutate({ lat: mapCenter.lat, lng: mapCenter.lng }, {
-        onSuccess: () => {
-          // Weather fetched, move to boat count dialog
-          setPendingTemplateSetup({ step: "boat_count" });
-        },
-        onError: () => {
-          // Weather fetch failed, still show boat count dialog
-          setPendingTemplateSetup({ step: "boat_count" });
-        }
+      
+      toast({
+        title: mode === "exact" ? "Course Loaded" : "Course Shape Loaded",
+        description: mode === "exact" 
+          ? "Race course has been loaded at its saved location."
+          : "Course shape has been placed at your current map location.",
       });
-    } else {
-      // Weather available, proceed to boat count dialog
-      setPendingTemplateSetup({ step: "boat_count" });
+      
+      // Start the automated template setup workflow
+      // Order: fetch weather → boat count dialog → resize → align to wind (LAST)
+      setupStarted = true;
+      if (!activeWeatherData) {
+        setPendingTemplateSetup({ step: "fetch_weather" });
+        // Trigger weather fetch at map center
+        weatherByLocation.mutate({ lat: mapCenter.lat, lng: mapCenter.lng }, {
+          onSuccess: () => {
+            // Weather fetched, move to boat count dialog
+            setPendingTemplateSetup({ step: "boat_count" });
+          },
+          onError: () => {
+            // Weather fetch failed, still show boat count dialog
+            setPendingTemplateSetup({ step: "boat_count" });
+          }
+        });
+      } else {
+        // Weather available, proceed to boat count dialog
+        setPendingTemplateSetup({ step: "boat_count" });
+      }
+    } finally {
+      if (!setupStarted) {
+        void endCourseEditGroup();
+      }
     }
-  }, [currentCourse, marks, mapCenter, createMark, deleteAllMarks, updateCourse, activeWeatherData, toast, weatherByLocation]);
+  }, [currentCourse, marks, mapCenter, createMark, deleteAllMarks, updateCourse, activeWeatherData, toast, weatherByLocation, beginCourseEditGroup, endCourseEditGroup]);
 
   // Clear all marks from the current course and set assigned buoys to idle
   const handleClearAllMarks = useCallback(async () => {
@@ -2412,12 +3085,13 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         }
       }
       
-      // Delete all marks
-      await deleteAllMarks.mutateAsync(currentCourse.id);
-      
-      // Clear the rounding sequence
-      if (currentCourse) {
+      // Delete all marks and clear the rounding sequence, undone as one step
+      const cleared = await recordCourseEdit("clear course", async () => {
+        await deleteAllMarks.mutateAsync(currentCourse.id);
         await updateCourse.mutateAsync({ id: currentCourse.id, data: { roundingSequence: [] } });
+      });
+      if (!cleared) {
+        throw new Error("Failed to clear course");
       }
       
       // Reset all local state
@@ -2436,7 +3110,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         variant: "destructive",
       });
     }
-  }, [currentCourse, marks, demoMode, sendDemoCommand, buoyCommand, deleteAllMarks, updateCourse, toast]);
+  }, [currentCourse, marks, demoMode, sendDemoCommand, buoyCommand, deleteAllMarks, updateCourse, toast, recordCourseEdit]);
 
   // Apply a shape template to auto-generate course marks
   const handleApplyTemplate = useCallback(async (template: ShapeTemplate) => {
@@ -2480,21 +3154,26 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         courseLengthMeters
       );
       
-      // Create marks in the database with proper ordering
+      // Create marks in the database with proper ordering, undone as one step
       const baseOrder = marks.length;
-      for (let i = 0; i < generatedMarks.length; i++) {
-        const genMark = generatedMarks[i];
-        await createMark.mutateAsync({
-          courseId: currentCourse.id,
-          name: genMark.name,
-          role: genMark.role,
-          order: baseOrder + i,
-          lat: genMark.lat,
-          lng: genMark.lng,
-          isStartLine: false,
-          isFinishLine: false,
-          isCourseMark: true,
-        });
+      const applied = await recordCourseEdit(`apply ${template.name}`, async () => {
+        for (let i = 0; i < generatedMarks.length; i++) {
+          const genMark = generatedMarks[i];
+          await createMark.mutateAsync({
+            courseId: currentCourse.id,
+            name: genMark.name,
+            role: genMark.role,
+            order: baseOrder + i,
+            lat: genMark.lat,
+            lng: genMark.lng,
+            isStartLine: false,
+            isFinishLine: false,
+            isCourseMark: true,
+          });
+        }
+      });
+      if (!applied) {
+        throw new Error("Failed to create template marks");
       }
       
       // Capture current wind direction as the "setup" wind for shift detection
@@ -2511,7 +3190,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         variant: "destructive",
       });
     }
-  }, [currentCourse, marks, activeWeatherData, createMark, toast]);
+  }, [currentCourse, marks, activeWeatherData, createMark, toast, recordCourseEdit]);
 
   // Transform course (scale, rotate, move) - shows confirmation if buoys are assigned
   const handleTransformCourse = useCallback((transform: { scale?: number; rotation?: number; translateLat?: number; translateLng?: number }) => {
@@ -2869,108 +3548,56 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
   }, [marks, buoys, activeWeatherData, courseId, demoMode, sendDemoCommand, repositionDemoBuoys, toast]);
 
   const handleAutoAdjustMark = useCallback(async (markId: string, lat: number, lng: number) => {
-    try {
-      await apiRequest("PATCH", `/api/marks/${markId}`, { lat, lng });
-      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
-      handleMarkMoved(markId, lat, lng);
-    } catch (error) {
-      toast({
-        title: "Adjustment Failed",
-        description: error instanceof Error ? error.message : "Failed to adjust point",
-        variant: "destructive",
-      });
-    }
-  }, [courseId, toast, handleMarkMoved]);
+    const mark = marks.find(m => m.id === markId);
+    await recordCourseEdit(`auto-adjust ${mark?.name ?? "point"}`, async () => {
+      try {
+        await apiRequest("PATCH", `/api/marks/${markId}`, { lat, lng });
+        queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
+        handleMarkMoved(markId, lat, lng);
+      } catch (error) {
+        toast({
+          title: "Adjustment Failed",
+          description: error instanceof Error ? error.message : "Failed to adjust point",
+          variant: "destructive",
+        });
+      }
+    });
+  }, [courseId, marks, toast, handleMarkMoved, recordCourseEdit]);
 
   const handleAutoAdjustStartLine = useCallback(async (pinLat: number, pinLng: number, cbLat: number, cbLng: number) => {
     const pinMark = marks.find(m => m.role === "pin");
     const cbMark = marks.find(m => m.role === "start_boat");
     
-    try {
-      if (pinMark) {
-        await apiRequest("PATCH", `/api/marks/${pinMark.id}`, { lat: pinLat, lng: pinLng });
-        handleMarkMoved(pinMark.id, pinLat, pinLng);
-      }
-      if (cbMark) {
-        await apiRequest("PATCH", `/api/marks/${cbMark.id}`, { lat: cbLat, lng: cbLng });
-        handleMarkMoved(cbMark.id, cbLat, cbLng);
+    await recordCourseEdit("auto-adjust start line", async () => {
+      try {
+        if (pinMark) {
+          await apiRequest("PATCH", `/api/marks/${pinMark.id}`, { lat: pinLat, lng: pinLng });
+          handleMarkMoved(pinMark.id, pinLat, pinLng);
+        }
+        if (cbMark) {
+          await apiRequest("PATCH", `/api/marks/${cbMark.id}`, { lat: cbLat, lng: cbLng });
+          handleMarkMoved(cbMark.id, cbLat, cbLng);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
+      } catch (error) {
+        toast({
+          title: "Adjustment Failed",
+          description: error instanceof Error ? error.message : "Failed to adjust start line",
+          variant: "destructive",
+        });
       }
-      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
-    } catch (error) {
-      toast({
-        title: "Adjustment Failed",
-        description: error instanceof Error ? error.message : "Failed to adjust start line",
-        variant: "destructive",
-      });
-    }
-  }, [courseId, marks, toast, handleMarkMoved]);
+    });
+  }, [courseId, marks, toast, handleMarkMoved, recordCourseEdit]);
 
   const handleAutoAdjustComplete = useCallback((originalPositions: Array<{ id: string; lat: number; lng: number }>) => {
     if (originalPositions.length > 0) {
-      setLastAutoAdjust({ positions: originalPositions, timestamp: Date.now() });
       toast({
         title: "Adjustment Complete",
-        description: `${originalPositions.length} items adjusted. Tap Undo to revert.`,
+        description: `${originalPositions.length} items adjusted. Undo reverts one adjustment at a time.`,
       });
     }
   }, [toast]);
   
-  // Undo auto-adjust handler
-  const handleUndoAutoAdjust = useCallback(async () => {
-    if (!lastAutoAdjust) return;
-    
-    try {
-      for (const pos of lastAutoAdjust.positions) {
-        await apiRequest("PATCH", `/api/marks/${pos.id}`, {
-          lat: pos.lat,
-          lng: pos.lng,
-        });
-      }
-      
-      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
-      setLastAutoAdjust(null);
-      
-      toast({
-        title: "Undo Complete",
-        description: "Points restored to previous positions",
-      });
-    } catch (error) {
-      toast({
-        title: "Undo Failed",
-        description: error instanceof Error ? error.message : "Failed to restore points",
-        variant: "destructive",
-      });
-    }
-  }, [lastAutoAdjust, courseId, toast]);
-
-  // Undo course transform handler (for move/rotate/scale)
-  const handleUndoCourseTransform = useCallback(async () => {
-    if (!lastCourseTransform) return;
-    
-    try {
-      for (const pos of lastCourseTransform.positions) {
-        await apiRequest("PATCH", `/api/marks/${pos.id}`, {
-          lat: pos.lat,
-          lng: pos.lng,
-        });
-      }
-      
-      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
-      setLastCourseTransform(null);
-      
-      toast({
-        title: "Undo Complete",
-        description: "Course restored to previous position",
-      });
-    } catch (error) {
-      toast({
-        title: "Undo Failed",
-        description: "Failed to restore course position",
-        variant: "destructive",
-      });
-    }
-  }, [lastCourseTransform, courseId, toast]);
-
   // Resize start line based on boat count or crossing time target
   const resizeStartLine = useCallback(async (params: { 
     raceType: "fleet" | "match" | "team";
@@ -3043,10 +3670,13 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     const newCbLng = centerLng + cbOffset.lng;
     
     try {
-      await Promise.all([
+      const sized = await recordCourseEdit("size start line", () => Promise.all([
         apiRequest("PATCH", `/api/marks/${pinMark.id}`, { lat: newPinLat, lng: newPinLng }),
         apiRequest("PATCH", `/api/marks/${cbMark.id}`, { lat: newCbLat, lng: newCbLng }),
-      ]);
+      ]));
+      if (!sized) {
+        throw new Error("Failed to size start line");
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "marks"] });
       
       toast({
@@ -3062,10 +3692,11 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         variant: "destructive",
       });
     }
-  }, [marks, courseId, toast, currentBoatClass]);
+  }, [marks, courseId, toast, currentBoatClass, recordCourseEdit]);
 
   // Handle boat count dialog confirmation
   const handleBoatCountConfirm = useCallback(async (result: { raceType: "fleet" | "match" | "team"; boatCount?: number }) => {
+    boatCountConfirmedRef.current = true;
     // Switch to course view (marks phase)
     setCurrentSetupPhase("marks");
     setShowBoatCountDialog(false);
@@ -3074,6 +3705,19 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
     setPendingTemplateSetup({ step: "align_wind", fleetConfig: result });
   }, []);
 
+  // Dismissing the dialog instead of confirming it cancels the rest of the setup
+  const handleBoatCountOpenChange = useCallback((open: boolean) => {
+    setShowBoatCountDialog(open);
+    if (open) return;
+    if (boatCountConfirmedRef.current) {
+      boatCountConfirmedRef.current = false;
+      return;
+    }
+    if (pendingTemplateSetup?.step === "boat_count") {
+      stopTemplateSetup();
+    }
+  }, [pendingTemplateSetup, stopTemplateSetup]);
+
   const isLoading = buoysLoading || eventsLoading || coursesLoading;
 
   if (isLoading && !demoMode) {
@@ -3158,6 +3802,14 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               setupWindDirection={courseSetupWindDirection}
               currentWindDirection={activeWeatherData.windDirection}
               onRealign={handleAlignCourseToWind}
+              onChangeNextLeg={runningRace ? () => setShowCourseChange(true) : undefined}
+            />
+          )}
+          {activeShortening && (
+            <ShortenedCourseAlert
+              markName={activeShortening.markName}
+              onRestore={handleRestoreCourse}
+              isPending={isChangingRaceCourse}
             />
           )}
           
@@ -3170,26 +3822,21 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               </div>
             }>
               <LeafletMap 
-                buoys={buoys}
-                marks={marks}
+                buoys={replayFrame?.buoys ?? buoys}
+                marks={replayFrame?.marks ?? marks}
                 selectedBuoyId={selectedBuoyId}
                 selectedMarkId={selectedMarkId}
-                weatherData={activeWeatherData}
+                weatherData={replayFrame ? replayFrame.weatherData : activeWeatherData}
                 onBuoyClick={handleBuoyClick}
                 onMarkClick={handleMarkClick}
                 onMapClick={handleMapClick}
                 onMarkDragEnd={(markId, lat, lng) => {
                   const mark = marks.find(m => m.id === markId);
-                  if (mark) {
-                    setLastMarkMove({ markId, prevLat: mark.lat, prevLng: mark.lng, timestamp: Date.now() });
-                  }
                   const hasAssignedBuoy = !!(mark?.assignedBuoyId || mark?.gatePortBuoyId || mark?.gateStarboardBuoyId);
                   if (hasAssignedBuoy) {
                     setPendingMarkMove({ markId, lat, lng, hasAssignedBuoy: true });
                   } else {
-                    updateMark.mutate({ id: markId, data: { lat, lng } }, {
-                      onSuccess: () => handleMarkMoved(markId, lat, lng),
-                    });
+                    void moveMark(markId, lat, lng);
                   }
                 }}
                 isPlacingMark={isPlacingMark || !!repositioningMarkId || !!gotoMapClickMarkId || !!gotoMapClickBuoyId}
@@ -3202,35 +3849,30 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
                 isWeatherLoading={weatherByLocation.isPending}
                 onAlignCourseToWind={handleAlignCourseToWind}
                 roundingSequence={roundingSequence}
+                roundingSides={currentCourse?.roundingSides ?? undefined}
                 showLabels={showLabels}
                 onToggleLabels={() => setShowLabels(!showLabels)}
                 showWindArrows={showWindArrows}
                 showSidebar={showSidebar}
                 isSidebarCollapsed={isSetupPanelCollapsed}
                 onToggleSidebar={() => setShowSidebar(!showSidebar)}
-                lastMarkMove={lastMarkMove}
-                onUndoMarkMove={() => {
-                  if (lastMarkMove) {
-                    updateMark.mutate({ id: lastMarkMove.markId, data: { lat: lastMarkMove.prevLat, lng: lastMarkMove.prevLng } }, {
-                      onSuccess: () => handleMarkMoved(lastMarkMove.markId, lastMarkMove.prevLat, lastMarkMove.prevLng),
-                    });
-                    setLastMarkMove(null);
-                  }
-                }}
-                lastCourseTransform={lastCourseTransform}
-                onUndoCourseTransform={handleUndoCourseTransform}
+                lastCourseEdit={courseEditHistory.canUndo ? courseEditHistory.lastEdit : null}
+                onUndoCourseEdit={handleUndoCourseEdit}
                 onMapMoveEnd={(lat, lng) => setMapCenter({ lat, lng })}
                 mapLayer={mapLayer}
                 showSeaMarks={showSeaMarks}
-                pendingDeployments={pendingDeployments}
+                pendingDeployments={replayFrame ? [] : pendingDeployments}
                 siblingBuoys={siblingBuoys}
                 showSiblingBuoys={showSiblingBuoys}
                 onLongPress={handleLongPress}
-                trackedBoats={demoMode ? demoBoats.filter(b => 
-                  (b.source === 'vakaros' && integrationSettings.vakaros.enabled) || 
-                  (b.source === 'tractrac' && integrationSettings.tractrac.enabled)
-                ) : []}
-                showBoats={demoMode && (integrationSettings.vakaros.enabled || integrationSettings.tractrac.enabled)}
+                trackedBoats={replayFrame?.boats ?? trackedBoats}
+                showBoats={showBoats || (!!replayFrame && replayFrame.boats.length > 0)}
+                aisTargets={replayFrame ? undefined : nmeaSnapshot?.aisTargets}
+                showAisTargets={integrationSettings.showAisTargets}
+                readOnly={!!replayFrame}
+                versionComparison={replayFrame ? null : versionComparison}
+                fitMarksRequest={fitMarksRequest}
+                onCloseVersionComparison={() => setVersionComparison(null)}
               />
             </Suspense>
           
@@ -3239,16 +3881,8 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             onAlignToWind={handleAlignCourseToWind}
             onDeployAll={handleDeployCourse}
             onHoldAll={handleHoldAll}
-            onUndo={() => {
-              if (lastMarkMove) {
-                updateMark.mutate({ id: lastMarkMove.markId, data: { lat: lastMarkMove.prevLat, lng: lastMarkMove.prevLng } });
-                setLastMarkMove(null);
-              } else if (lastCourseTransform && Date.now() - lastCourseTransform.timestamp < 30000) {
-                handleUndoCourseTransform();
-              } else if (lastAutoAdjust && Date.now() - lastAutoAdjust.timestamp < 30000) {
-                handleUndoAutoAdjust();
-              }
-            }}
+            onUndo={handleUndoCourseEdit}
+            onRedo={handleRedoCourseEdit}
             onFleetClick={() => {
               setShowFleetPanel(!showFleetPanel);
               setSelectedBuoyId(null);
@@ -3257,7 +3891,10 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             canAlign={!!activeWeatherData && marks.length > 0}
             canDeploy={marks.some(m => m.assignedBuoyId || m.gatePortBuoyId || m.gateStarboardBuoyId)}
             canHold={buoys.some(b => b.state === "moving_to_target") || marks.some(m => m.assignedBuoyId || m.gatePortBuoyId || m.gateStarboardBuoyId)}
-            canUndo={!!lastMarkMove || (!!lastCourseTransform && Date.now() - lastCourseTransform.timestamp < 30000) || (!!lastAutoAdjust && Date.now() - lastAutoAdjust.timestamp < 30000)}
+            canUndo={courseEditHistory.canUndo}
+            canRedo={courseEditHistory.canRedo}
+            undoLabel={courseEditHistory.undoLabel}
+            redoLabel={courseEditHistory.redoLabel}
             isDeploying={isDeployingAll}
             deployingCount={marks.filter(m => m.assignedBuoyId || m.gatePortBuoyId || m.gateStarboardBuoyId).length}
             totalBuoys={marks.filter(m => m.assignedBuoyId || m.gatePortBuoyId || m.gateStarboardBuoyId).length}
@@ -3323,10 +3960,94 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             })()}
             showFleet={showFleetPanel}
             hasFaultOrLowBattery={buoys.some(b => b.state === "fault" || (b.batteryLevel !== null && b.batteryLevel < 20))}
-            onWindInsightsClick={() => setShowWindInsightsPanel(!showWindInsightsPanel)}
+            onWindInsightsClick={() => {
+              setShowWindInsightsPanel(!showWindInsightsPanel);
+              setShowStartSequencePanel(false);
+              setShowRacesPanel(false);
+              setShowReplayPanel(false);
+              setShowRaceLogPanel(false);
+            }}
             showWindInsights={showWindInsightsPanel}
+            onStartSequenceClick={() => {
+              setShowStartSequencePanel(!showStartSequencePanel);
+              setShowWindInsightsPanel(false);
+              setShowRacesPanel(false);
+              setShowReplayPanel(false);
+              setShowRaceLogPanel(false);
+            }}
+            showStartSequence={showStartSequencePanel}
+            canStartSequence={!!activeEventId && !demoMode}
+            onRacesClick={() => {
+              setShowRacesPanel(!showRacesPanel);
+              setShowWindInsightsPanel(false);
+              setShowStartSequencePanel(false);
+              setShowReplayPanel(false);
+              setShowRaceLogPanel(false);
+            }}
+            showRaces={showRacesPanel}
+            onReplayClick={() => {
+              setShowReplayPanel(!showReplayPanel);
+              setShowWindInsightsPanel(false);
+              setShowStartSequencePanel(false);
+              setShowRacesPanel(false);
+              setShowRaceLogPanel(false);
+            }}
+            showReplay={showReplayPanel}
+            onRaceLogClick={() => {
+              setShowRaceLogPanel(!showRaceLogPanel);
+              setShowWindInsightsPanel(false);
+              setShowStartSequencePanel(false);
+              setShowRacesPanel(false);
+              setShowReplayPanel(false);
+            }}
+            showRaceLog={showRaceLogPanel}
           />
 
+          {showRacesPanel && activeEventId && !demoMode && (
+            <RacesPanel
+              eventId={activeEventId}
+              marks={marks}
+              trackedBoats={trackedBoats}
+              raceProgress={raceProgress}
+              legEstimates={legEstimates}
+              onChangeCourse={() => setShowCourseChange(true)}
+              onShortenCourse={() => setShowShortenCourse(true)}
+              onAbandonRace={setAbandoningRace}
+              onClose={() => setShowRacesPanel(false)}
+            />
+          )}
+
+          {showRaceLogPanel && activeEventId && !demoMode && (
+            <RaceLogPanel
+              eventId={activeEventId}
+              eventName={currentEvent?.name}
+              windDirection={activeWeatherData?.windDirection}
+              windSpeed={activeWeatherData?.windSpeed}
+              onClose={() => setShowRaceLogPanel(false)}
+            />
+          )}
+
+          {showReplayPanel && activeEventId && !demoMode && (
+            <ReplayPanel
+              eventId={activeEventId}
+              knownBuoys={allBuoys}
+              currentMarks={marks}
+              onFrame={setReplayFrame}
+              onClose={() => setShowReplayPanel(false)}
+            />
+          )}
+
+          {showStartSequencePanel && activeEventId && !demoMode && (
+            <StartSequencePanel
+              eventId={activeEventId}
+              defaultFleetName={currentEvent?.boatClass}
+              marks={marks}
+              trackedBoats={trackedBoats}
+              windDirection={activeWeatherData?.windDirection}
+              onClose={() => setShowStartSequencePanel(false)}
+            />
+          )}
+
           {showWindInsightsPanel && (
             <WeatherInsightsPanel
               analytics={demoMode ? (demoWeatherAnalytics ?? null) : (apiWeatherAnalytics ?? null)}
@@ -3414,12 +4135,8 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               onNudge={(direction) => handleNudgeMark(selectedMark.id, direction)}
               onAdjustToWind={(lat, lng) => handleAdjustMarkToWind(selectedMark.id, lat, lng)}
               onAdjustToShape={(lat, lng) => handleAdjustMarkToShape(selectedMark.id, lat, lng)}
-              lastMovePosition={lastMarkMove && lastMarkMove.markId === selectedMark.id ? {
-                originalLat: lastMarkMove.prevLat,
-                originalLng: lastMarkMove.prevLng,
-                timestamp: lastMarkMove.timestamp
-              } : null}
-              onUndoMove={handleUndoMarkMove}
+              lastCourseEdit={courseEditHistory.canUndo && courseEditHistory.lastEdit?.markIds.includes(selectedMark.id) ? courseEditHistory.lastEdit : null}
+              onUndoCourseEdit={handleUndoCourseEdit}
               isGpsLocating={isGpsLocating}
             />
           ) : (
@@ -3440,6 +4157,9 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               onPlaceMarkOnMap={handlePlaceMarkOnMap}
               onSaveCourse={handleSaveCourse}
               onLoadCourse={handleLoadCourse}
+              loadedSnapshot={loadedSnapshot}
+              onShowCourseVersions={setVersionsSnapshot}
+              onImportCourse={handleImportCourse}
               mapCenter={mapCenter}
               onTransformCourse={handleTransformCourse}
               onFinishLinePreview={handleFinishLinePreview}
@@ -3450,8 +4170,8 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
               onAutoAdjustMark={handleAutoAdjustMark}
               onAutoAdjustStartLine={handleAutoAdjustStartLine}
               onAutoAdjustComplete={handleAutoAdjustComplete}
-              lastAutoAdjust={lastAutoAdjust}
-              onUndoAutoAdjust={handleUndoAutoAdjust}
+              lastCourseEdit={courseEditHistory.canUndo ? courseEditHistory.lastEdit : null}
+              onUndoCourseEdit={handleUndoCourseEdit}
               moveCourseMode={moveCourseMode}
               onSetMoveCourseMode={setMoveCourseMode}
               onDeleteCourse={handleDeleteCourse}
@@ -3480,6 +4200,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         onAlignCourseToWind={handleAlignCourseToWind}
         hasMarks={marks.length > 0}
         hasWeatherData={!!activeWeatherData}
+        eventId={demoMode ? null : activeEventId}
       />
 
       {/* Quick Start wizard for events without a course - non-cancellable for new events */}
@@ -3492,10 +4213,55 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
         isNewEvent={true}
       />
 
+      <CourseChangeDialog
+        open={showCourseChange}
+        onOpenChange={setShowCourseChange}
+        legs={changeableLegs}
+        suggestedLeg={suggestedCourseChangeLeg}
+        leaderSailNumber={raceLeader?.sailNumber}
+        windShift={getWindShift(courseSetupWindDirection, activeWeatherData?.windDirection)}
+        getBuoyName={getCourseChangeBuoyName}
+        onConfirm={handleCourseChange}
+        isPending={updateMark.isPending}
+      />
+
+      <ShortenCourseDialog
+        open={showShortenCourse}
+        onOpenChange={setShowShortenCourse}
+        legs={shortenableLegs}
+        suggestedLeg={suggestedShortenLeg}
+        leaderSailNumber={raceLeader?.sailNumber}
+        buoys={freeBuoys}
+        onConfirm={handleShortenCourse}
+        isPending={isChangingRaceCourse}
+      />
+
+      <AbandonRaceDialog
+        open={abandoningRace !== null}
+        onOpenChange={(open) => !open && setAbandoningRace(null)}
+        race={abandoningRace}
+        canRestoreCourse={activeShortening !== null}
+        onConfirm={handleAbandonRace}
+        isPending={isChangingRaceCourse}
+      />
+
+      <CourseVersionsDialog
+        snapshot={versionsSnapshot}
+        onClose={() => setVersionsSnapshot(null)}
+        onShowOnMap={(comparison) => {
+          setVersionComparison(comparison);
+          setVersionsSnapshot(null);
+        }}
+        onLoadVersion={currentCourse ? (version) => {
+          setVersionsSnapshot(null);
+          handleLoadCourse(version, "exact");
+        } : undefined}
+      />
+
       {/* Boat count dialog for template setup workflow */}
       <BoatCountDialog
         open={showBoatCountDialog}
-        onOpenChange={setShowBoatCountDialog}
+        onOpenChange={handleBoatCountOpenChange}
         onConfirm={handleBoatCountConfirm}
         isCriticalPath={!!pendingTemplateSetup}
       />
@@ -3532,14 +4298,7 @@ export default function RaceControl({ eventId: propEventId }: RaceControlProps)
             <AlertDialogAction
               onClick={() => {
                 if (pendingMarkMove) {
-                  updateMark.mutate({ 
-                    id: pendingMarkMove.markId, 
-                    data: { lat: pendingMarkMove.lat, lng: pendingMarkMove.lng } 
-                  }, {
-                    onSuccess: () => {
-                      handleMarkMoved(pendingMarkMove.markId, pendingMarkMove.lat, pendingMarkMove.lng);
-                    },
-                  });
+                  void moveMark(pendingMarkMove.markId, pendingMarkMove.lat, pendingMarkMove.lng);
                   setPendingMarkMove(null);
                 }
               }}
@@ -0,0 +1,120 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { AuditAction, AuditChanges, AuditEntityType, AuditLogEntry, AuditLogEntryWithUser } from "@shared/schema";
+
+// Audit trail of changes made through the API: who created, changed or deleted
+// which user, club, event, course, mark or buoy, through which route, and what
+// changed. Entries are written after the change is made; failing to write one
+// is logged and never fails the request.
+
+// Never stored, only noted as changed: secrets, and values too large to be worth keeping
+const HIDDEN_FIELDS = new Set(["passwordHash", "thumbnailSvg", "externalInfo"]);
+const HIDDEN_VALUE = "[hidden]";
+
+// Bookkeeping columns that say nothing about the change
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+type AuditedEntity = Record<string, unknown>;
+
+export interface AuditScope {
+  sailClubId?: string | null;
+  eventId?: string | null;
+  // Marks and courses are filed under the event sailing the course
+  courseId?: string | null;
+}
+
+export interface AuditInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  label?: string | null;
+  before?: object | null;
+  after?: object | null;
+  scope?: AuditScope;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Fields that differ between two versions of an entity. Pass null for the side that does not exist. */
+export function diffEntities(before: AuditedEntity | null, after: AuditedEntity | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (sameValue(from, to)) {
+      continue;
+    }
+    changes[field] = HIDDEN_FIELDS.has(field)
+      ? { from: from === null ? null : HIDDEN_VALUE, to: to === null ? null : HIDDEN_VALUE }
+      : { from, to };
+  }
+  return changes;
+}
+
+// Route pattern rather than the URL, so entries for the same endpoint read alike
+function describeRoute(req: Request): string {
+  const path = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.originalUrl.split("?")[0];
+  return `${req.method} ${path}`;
+}
+
+async function resolveScope(scope: AuditScope): Promise<{ sailClubId: string | null; eventId: string | null }> {
+  let { sailClubId = null, eventId = null } = scope;
+  if (!eventId && scope.courseId) {
+    const event = await storage.getEventByCourseId(scope.courseId);
+    eventId = event?.id ?? null;
+    sailClubId = sailClubId ?? event?.sailClubId ?? null;
+  }
+  if (eventId && !sailClubId) {
+    const event = await storage.getEvent(eventId);
+    sailClubId = event?.sailClubId ?? null;
+  }
+  return { sailClubId, eventId };
+}
+
+async function writeAudit(req: Request, input: AuditInput): Promise<void> {
+  const changes = diffEntities(
+    (input.before ?? null) as AuditedEntity | null,
+    (input.after ?? null) as AuditedEntity | null
+  );
+  if (input.action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const entity = (input.after ?? input.before ?? {}) as AuditedEntity;
+  const label = input.label ?? (typeof entity.name === "string" ? entity.name : null);
+  const scope = await resolveScope(input.scope ?? {});
+
+  await storage.createAuditLogEntry({
+    userId: req.session.userId ?? null,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    entityLabel: label,
+    route: describeRoute(req),
+    changes,
+    sailClubId: scope.sailClubId,
+    eventId: scope.eventId,
+  });
+}
+
+/** Records a change the request has made; the request does not wait for it. */
+export function recordAudit(req: Request, input: AuditInput): void {
+  writeAudit(req, input).catch(error => {
+    console.error(`Error recording audit entry (${input.action} ${input.entityType} ${input.entityId}):`, error);
+  });
+}
+
+/** Entries with the username of whoever made the change. */
+export async function withUsernames(entries: AuditLogEntry[]): Promise<AuditLogEntryWithUser[]> {
+  const userIds = Array.from(new Set(entries.flatMap(e => (e.userId ? [e.userId] : []))));
+  const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+  const names = new Map(users.flatMap(u => (u ? [[u.id, u.username] as const] : [])));
+  return entries.map(e => ({ ...e, username: e.userId ? names.get(e.userId) ?? null : null }));
+}
@@ -1,5 +1,6 @@
 import bcrypt from "bcrypt";
-import session from "express-session";
+import { randomBytes, createHash, timingSafeEqual } from "crypto";
+import session, { type SessionData } from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import type { Express, RequestHandler } from "express";
 import { storage } from "./storage";
@@ -25,7 +26,22 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-export function setupSession(app: Express): void {
+// Device keys are 256-bit random secrets, so a fast hash is sufficient (and cheap per telemetry packet)
+export function generateDeviceKey(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashDeviceKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function deviceKeyMatches(key: string, keyHash: string): boolean {
+  const actual = Buffer.from(hashDeviceKey(key), "hex");
+  const expected = Buffer.from(keyHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function setupSession(app: Express): RequestHandler {
   const sessionSecret = process.env.SESSION_SECRET;
   
   if (!sessionSecret) {
@@ -37,24 +53,25 @@ export function setupSession(app: Express): void {
   
   const PgSession = connectPgSimple(session);
   
-  app.use(
-    session({
-      store: new PgSession({
-        pool: pool,
-        tableName: "session",
-        createTableIfMissing: true,
-      }),
-      secret: sessionSecret || "dev-only-insecure-secret-" + Date.now(),
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        secure: process.env.NODE_ENV === "production",
-        httpOnly: true,
-        maxAge: 24 * 60 * 60 * 1000,
-        sameSite: "lax",
-      },
-    })
-  );
+  const sessionMiddleware = session({
+    store: new PgSession({
+      pool: pool,
+      tableName: "session",
+      createTableIfMissing: true,
+    }),
+    secret: sessionSecret || "dev-only-insecure-secret-" + Date.now(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure: process.env.NODE_ENV === "production",
+      httpOnly: true,
+      maxAge: 24 * 60 * 60 * 1000,
+      sameSite: "lax",
+    },
+  });
+  
+  app.use(sessionMiddleware);
+  return sessionMiddleware;
 }
 
 export async function seedSuperAdmin(): Promise<void> {
@@ -614,6 +631,20 @@ export const requireRole = (...roles: UserRole[]): RequestHandler => {
   };
 };
 
+// Shared by requireEventAccess and non-HTTP channels (e.g. the buoy telemetry socket)
+export async function hasEventAccess(sessionData: Partial<SessionData>, eventId: string): Promise<boolean> {
+  if (!sessionData.userId) {
+    return false;
+  }
+  
+  if (sessionData.role === "super_admin" || sessionData.role === "club_manager") {
+    return true;
+  }
+  
+  const accessList = await storage.getUserEventAccess(sessionData.userId);
+  return accessList.some(a => a.eventId === eventId);
+}
+
 export const requireEventAccess: RequestHandler = async (req, res, next) => {
   if (!req.session.userId) {
     return res.status(401).json({ error: "Authentication required" });
@@ -628,10 +659,7 @@ export const requireEventAccess: RequestHandler = async (req, res, next) => {
     return next();
   }
   
-  const accessList = await storage.getUserEventAccess(req.session.userId);
-  const hasAccess = accessList.some(a => a.eventId === eventId);
-  
-  if (!hasAccess) {
+  if (!(await hasEventAccess(req.session, eventId as string))) {
     return res.status(403).json({ error: "No access to this event" });
   }
   
@@ -670,6 +698,26 @@ export const requireCourseAccess: RequestHandler = async (req, res, next) => {
   next();
 };
 
+// Device-facing routes: the buoy identifies itself with its serial number and
+// proves it with the device key issued for that buoy.
+// The resolved buoy is exposed to handlers as res.locals.buoy.
+export const requireBuoyDevice: RequestHandler = async (req, res, next) => {
+  const serialNumber = req.get("X-Buoy-Serial");
+  const deviceKey = req.get("X-Buoy-Key");
+  if (!serialNumber || !deviceKey) {
+    return res.status(401).json({ error: "Buoy serial number and device key required" });
+  }
+
+  const buoy = await storage.getBuoyBySerialNumber(serialNumber);
+  const credential = buoy ? await storage.getBuoyDeviceCredential(buoy.id) : undefined;
+  if (!buoy || !credential || !deviceKeyMatches(deviceKey, credential.keyHash)) {
+    return res.status(401).json({ error: "Invalid device credentials" });
+  }
+
+  res.locals.buoy = buoy;
+  next();
+};
+
 export function safeUserResponse(user: User): Omit<User, "passwordHash"> {
   const { passwordHash, ...safeUser } = user;
   return safeUser;
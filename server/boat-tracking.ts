@@ -0,0 +1,176 @@
+import type { TrackingConnection, TrackingProvider } from "./tracking-provider";
+import { vakarosProvider } from "./tracking-vakaros";
+import { tractracProvider } from "./tracking-tractrac";
+import { createReplayProvider, isTrackingReplayEnabled } from "./tracking-replay";
+import { recordBoatPositions } from "./position-history";
+import type { TrackedBoat, TrackedBoatsResponse, TrackingFeedState, TrackingFeedStatus, TrackingSource } from "@shared/schema";
+
+// Open tracking feeds, one per provider event, shared by everyone viewing it.
+// Feeds open on the first request for their boats and close once nobody has
+// asked for them for a while, so an unattended server stops polling upstream.
+
+const FEED_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30000;
+// Boats that stop reporting drop off the map after this long
+const STALE_BOAT_MS = 5 * 60 * 1000;
+// Upstream polling is shared by the whole server; new feeds wait for a free slot
+const MAX_OPEN_FEEDS = 20;
+
+export interface TrackingSubscription {
+  source: TrackingSource;
+  externalEventId: string;
+}
+
+interface TrackingFeed extends TrackingSubscription {
+  connection: TrackingConnection | null;
+  boats: Map<string, TrackedBoat>;
+  state: TrackingFeedState;
+  error: string | null;
+  lastUpdate: Date | null;
+  lastRequestedAt: number;
+  // Our events viewing this feed; fixes go into each one's position history
+  eventIds: Set<string>;
+}
+
+const feeds: Map<string, TrackingFeed> = new Map();
+// Feeds each of our events follows, so changing an event's IDs lets go of the old feeds
+const eventFeedKeys: Map<string, Set<string>> = new Map();
+const replayProviders: Map<TrackingSource, TrackingProvider> = new Map();
+
+let sweepInterval: NodeJS.Timeout | null = null;
+
+function getProvider(source: TrackingSource): TrackingProvider {
+  if (isTrackingReplayEnabled()) {
+    let provider = replayProviders.get(source);
+    if (!provider) {
+      provider = createReplayProvider(source);
+      replayProviders.set(source, provider);
+    }
+    return provider;
+  }
+  return source === "vakaros" ? vakarosProvider : tractracProvider;
+}
+
+function feedKey({ source, externalEventId }: TrackingSubscription): string {
+  return `${source}:${externalEventId}`;
+}
+
+function openFeed(subscription: TrackingSubscription): TrackingFeed {
+  const feed: TrackingFeed = {
+    ...subscription,
+    connection: null,
+    boats: new Map(),
+    state: "connecting",
+    error: null,
+    lastUpdate: null,
+    lastRequestedAt: Date.now(),
+    eventIds: new Set(),
+  };
+  feeds.set(feedKey(subscription), feed);
+
+  feed.connection = getProvider(subscription.source).connect(subscription.externalEventId, {
+    onPositions(boats) {
+      for (const boat of boats) {
+        const known = feed.boats.get(boat.id);
+        if (!known || known.timestamp.getTime() <= boat.timestamp.getTime()) {
+          feed.boats.set(boat.id, boat);
+        }
+      }
+      feed.state = "live";
+      feed.error = null;
+      feed.lastUpdate = new Date();
+      recordBoatPositions(feed.eventIds, boats);
+    },
+    onError(error) {
+      if (feed.error !== error.message) {
+        console.error(`Tracking feed ${feedKey(feed)} failed:`, error.message);
+      }
+      feed.state = "error";
+      feed.error = error.message;
+    },
+  });
+
+  console.log(`Tracking feed ${feedKey(subscription)} opened`);
+  return feed;
+}
+
+function closeFeed(feed: TrackingFeed): void {
+  feed.connection?.close();
+  feeds.delete(feedKey(feed));
+  console.log(`Tracking feed ${feedKey(feed)} closed`);
+}
+
+// Stops an event following feeds it no longer asks for; a feed nobody follows closes
+function releaseEventFeeds(eventId: string, keep: Set<string>): void {
+  const previous = eventFeedKeys.get(eventId);
+  previous?.forEach(key => {
+    if (keep.has(key)) return;
+    const feed = feeds.get(key);
+    if (!feed) return;
+    feed.eventIds.delete(eventId);
+    if (feed.eventIds.size === 0) {
+      closeFeed(feed);
+    }
+  });
+  eventFeedKeys.set(eventId, keep);
+}
+
+function sweepIdleFeeds(): void {
+  const cutoff = Date.now() - FEED_IDLE_TIMEOUT_MS;
+  Array.from(feeds.values())
+    .filter(feed => feed.lastRequestedAt < cutoff)
+    .forEach(feed => {
+      feed.eventIds.forEach(eventId => eventFeedKeys.get(eventId)?.delete(feedKey(feed)));
+      closeFeed(feed);
+    });
+}
+
+function toStatus(feed: TrackingFeed): TrackingFeedStatus {
+  return {
+    source: feed.source,
+    externalEventId: feed.externalEventId,
+    state: feed.state,
+    error: feed.error,
+    lastUpdate: feed.lastUpdate?.toISOString() ?? null,
+    boatCount: feed.boats.size,
+  };
+}
+
+/**
+ * Latest position of every boat in the event's feeds, opening any feed that
+ * is not running yet. A newly opened feed reports no boats until its first batch;
+ * with MAX_OPEN_FEEDS running, it reports an error instead of opening.
+ * Fixes from the feeds are recorded in the event's position history.
+ */
+export function getTrackedBoats(eventId: string, subscriptions: TrackingSubscription[]): TrackedBoatsResponse {
+  if (!sweepInterval) {
+    sweepInterval = setInterval(sweepIdleFeeds, SWEEP_INTERVAL_MS);
+    sweepInterval.unref();
+  }
+
+  const now = Date.now();
+  const boats: TrackedBoat[] = [];
+  const statuses: TrackingFeedStatus[] = [];
+
+  releaseEventFeeds(eventId, new Set(subscriptions.map(feedKey)));
+
+  for (const subscription of subscriptions) {
+    let feed = feeds.get(feedKey(subscription));
+    if (!feed && feeds.size >= MAX_OPEN_FEEDS) {
+      statuses.push({ ...subscription, state: "error", error: "Too many tracking feeds open", lastUpdate: null, boatCount: 0 });
+      continue;
+    }
+    feed ??= openFeed(subscription);
+    feed.lastRequestedAt = now;
+    feed.eventIds.add(eventId);
+
+    Array.from(feed.boats.entries())
+      .filter(([, boat]) => now - boat.timestamp.getTime() > STALE_BOAT_MS)
+      .forEach(([id]) => feed.boats.delete(id));
+
+    boats.push(...Array.from(feed.boats.values()));
+    statuses.push(toStatus(feed));
+  }
+
+  return { boats, feeds: statuses };
+}
@@ -0,0 +1,148 @@
+import { storage } from "./storage";
+import type { Buoy, BuoyCommand, BuoyCommandReport, InsertBuoy, InsertBuoyCommand } from "@shared/schema";
+
+const MONITOR_INTERVAL_MS = 5000;
+const ACK_TIMEOUT_MS = 15000;
+
+let monitorInterval: NodeJS.Timeout | null = null;
+let isChecking = false;
+
+// Which device reports are valid from each command status
+const ALLOWED_REPORTS: Record<string, BuoyCommandReport["status"][]> = {
+  sent: ["acknowledged", "rejected", "completed", "failed"],
+  acknowledged: ["acknowledged", "completed", "failed"],
+};
+
+export function canApplyCommandReport(command: BuoyCommand, status: BuoyCommandReport["status"]): boolean {
+  return ALLOWED_REPORTS[command.status]?.includes(status) ?? false;
+}
+
+/**
+ * Queues a command for the buoy. Only the operator's intent (the target) is written
+ * to the buoy row here; state changes wait for the device to acknowledge.
+ */
+export async function queueBuoyCommand(buoy: Buoy, command: InsertBuoyCommand): Promise<BuoyCommand> {
+  const queued = await storage.createBuoyCommand(command);
+
+  if (command.command === "move_to_target") {
+    await storage.updateBuoy(buoy.id, {
+      targetLat: command.targetLat ?? buoy.targetLat,
+      targetLng: command.targetLng ?? buoy.targetLng,
+    });
+  }
+
+  return queued;
+}
+
+/**
+ * Hands the buoy its pending commands, marking each as sent. Commands that time out
+ * waiting for an ack are put back to pending and re-delivered on the next poll.
+ */
+export async function deliverQueuedCommands(buoyId: string): Promise<BuoyCommand[]> {
+  const queued = await storage.getQueuedBuoyCommands(buoyId);
+  const delivered: BuoyCommand[] = [];
+
+  for (const command of queued) {
+    const updated = await storage.updateBuoyCommand(command.id, {
+      status: "sent",
+      attempts: command.attempts + 1,
+      lastSentAt: new Date(),
+    });
+    if (updated) {
+      delivered.push(updated);
+    }
+  }
+
+  return delivered;
+}
+
+function getBuoyStateUpdate(command: BuoyCommand, status: BuoyCommandReport["status"]): Partial<InsertBuoy> | null {
+  if (status === "rejected" || status === "failed") {
+    return null;
+  }
+
+  switch (command.command) {
+    case "move_to_target":
+      // Completion means the buoy reached its target and is now station keeping
+      return status === "completed"
+        ? { state: "holding_position", eta: null }
+        : { state: "moving_to_target", targetLat: command.targetLat, targetLng: command.targetLng };
+    case "hold_position":
+      return { state: "holding_position", eta: null };
+    case "cancel":
+      return { state: "idle", targetLat: null, targetLng: null, eta: null };
+    default:
+      return null;
+  }
+}
+
+export async function applyCommandReport(
+  command: BuoyCommand,
+  report: BuoyCommandReport
+): Promise<BuoyCommand | undefined> {
+  const now = new Date();
+  const updated = await storage.updateBuoyCommand(command.id, {
+    status: report.status,
+    acknowledgedAt: report.status === "acknowledged" ? (command.acknowledgedAt ?? now) : command.acknowledgedAt,
+    completedAt: report.status === "acknowledged" ? null : now,
+    errorMessage: report.status === "rejected" || report.status === "failed" ? (report.message ?? null) : null,
+  });
+
+  const buoyUpdate = getBuoyStateUpdate(command, report.status);
+  if (buoyUpdate) {
+    await storage.updateBuoy(command.buoyId, buoyUpdate);
+  }
+
+  return updated;
+}
+
+async function checkCommandTimeouts(): Promise<void> {
+  if (isChecking) {
+    return;
+  }
+
+  isChecking = true;
+
+  try {
+    const expired = await storage.getExpiredBuoyCommands(new Date(Date.now() - ACK_TIMEOUT_MS));
+
+    for (const command of expired) {
+      if (command.attempts < command.maxAttempts) {
+        await storage.updateBuoyCommand(command.id, { status: "pending" });
+      } else {
+        await storage.updateBuoyCommand(command.id, {
+          status: "timed_out",
+          completedAt: new Date(),
+          errorMessage: `No acknowledgement after ${command.attempts} attempts`,
+        });
+      }
+    }
+  } catch (error) {
+    console.error("Error checking buoy command timeouts:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+export function startBuoyCommandMonitor(): void {
+  if (monitorInterval) {
+    console.log("Buoy command monitor already running");
+    return;
+  }
+
+  console.log(`Starting buoy command monitor (ack timeout ${ACK_TIMEOUT_MS / 1000}s)`);
+
+  monitorInterval = setInterval(checkCommandTimeouts, MONITOR_INTERVAL_MS);
+}
+
+export function stopBuoyCommandMonitor(): void {
+  if (monitorInterval) {
+    clearInterval(monitorInterval);
+    monitorInterval = null;
+    console.log("Buoy command monitor stopped");
+  }
+}
+
+export function isBuoyCommandMonitorRunning(): boolean {
+  return monitorInterval !== null;
+}
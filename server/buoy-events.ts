@@ -0,0 +1,25 @@
+import { EventEmitter } from "events";
+import type { Buoy } from "@shared/schema";
+
+// In-process pub/sub for buoy row changes. Storage publishes here after every
+// write so that push channels (WebSocket telemetry) never have to poll the DB.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishBuoyUpdate(buoy: Buoy): void {
+  emitter.emit("updated", buoy);
+}
+
+export function publishBuoyRemoved(buoyId: string): void {
+  emitter.emit("removed", buoyId);
+}
+
+export function onBuoyUpdate(listener: (buoy: Buoy) => void): () => void {
+  emitter.on("updated", listener);
+  return () => emitter.off("updated", listener);
+}
+
+export function onBuoyRemoved(listener: (buoyId: string) => void): () => void {
+  emitter.on("removed", listener);
+  return () => emitter.off("removed", listener);
+}
@@ -0,0 +1,301 @@
+import { storage } from "./storage";
+import { deliverQueuedCommands, applyCommandReport } from "./buoy-commands";
+import { applyDeviceTelemetry } from "./device-telemetry";
+import { normalizeAngle } from "./weather-analytics";
+import type { Buoy } from "@shared/schema";
+
+// Stands in for buoy hardware so the full command/telemetry path can be exercised
+// without devices. Enabled with BUOY_SIMULATOR=true; simulates every buoy assigned
+// to an event and talks to the same modules the device API uses.
+
+const TICK_INTERVAL_MS = 2000;
+const METERS_PER_DEGREE_LAT = 111320;
+const KNOTS_TO_MPS = 0.514444;
+
+const CRUISE_SPEED_KNOTS = 3.5;
+const ACCELERATION_KNOTS_PER_TICK = 0.5;
+const ARRIVAL_RADIUS_METERS = 3;
+const STATION_KEEPING_JITTER_METERS = 1.5;
+// Fraction of the current a holding buoy fails to compensate for
+const STATION_KEEPING_LEAKAGE = 0.05;
+
+// Battery drain in percent per hour
+const BATTERY_DRAIN_IDLE = 0.5;
+const BATTERY_DRAIN_HOLDING = 3;
+const BATTERY_DRAIN_MOVING = 12;
+
+const FAULT_PROBABILITY_PER_TICK = 1 / 20000;
+const FAULT_DURATION_MS = 60000;
+const MISSED_ACK_PROBABILITY = 0.05;
+
+// Wind oscillates around the buoy's starting reading rather than random-walking away
+const WIND_OSCILLATION_DEGREES = 6;
+const WIND_OSCILLATION_PERIOD_MS = 8 * 60 * 1000;
+
+interface SimulatedBuoyState {
+  speedKnots: number;
+  batteryLevel: number;
+  baseSignalStrength: number;
+  baseWindSpeed: number | null;
+  baseWindDirection: number | null;
+  faultUntil: number | null;
+  activeMoveCommandId: string | null;
+}
+
+const simulated: Map<string, SimulatedBuoyState> = new Map();
+
+let tickInterval: NodeJS.Timeout | null = null;
+let isTicking = false;
+
+export function isBuoySimulatorEnabled(): boolean {
+  return process.env.BUOY_SIMULATOR === "true";
+}
+
+function getSimState(buoy: Buoy): SimulatedBuoyState {
+  let state = simulated.get(buoy.id);
+  if (!state) {
+    state = {
+      speedKnots: buoy.speed ?? 0,
+      batteryLevel: buoy.battery,
+      baseSignalStrength: buoy.signalStrength,
+      baseWindSpeed: buoy.windSpeed,
+      baseWindDirection: buoy.windDirection,
+      // A buoy left faulted by a previous run recovers like a fresh fault
+      faultUntil: buoy.state === "fault" ? Date.now() + FAULT_DURATION_MS : null,
+      activeMoveCommandId: null,
+    };
+    simulated.set(buoy.id, state);
+  }
+  return state;
+}
+
+function offsetPosition(lat: number, lng: number, northMeters: number, eastMeters: number): { lat: number; lng: number } {
+  return {
+    lat: lat + northMeters / METERS_PER_DEGREE_LAT,
+    lng: lng + eastMeters / (METERS_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180)),
+  };
+}
+
+function vectorTo(fromLat: number, fromLng: number, toLat: number, toLng: number): { north: number; east: number; distance: number } {
+  const north = (toLat - fromLat) * METERS_PER_DEGREE_LAT;
+  const east = (toLng - fromLng) * METERS_PER_DEGREE_LAT * Math.cos(fromLat * Math.PI / 180);
+  return { north, east, distance: Math.sqrt(north * north + east * east) };
+}
+
+// Current direction is the direction the water flows towards
+function currentDrift(buoy: Buoy, seconds: number): { north: number; east: number } {
+  const speedMps = (buoy.currentSpeed ?? 0) * KNOTS_TO_MPS;
+  const radians = (buoy.currentDirection ?? 0) * Math.PI / 180;
+  return {
+    north: Math.cos(radians) * speedMps * seconds,
+    east: Math.sin(radians) * speedMps * seconds,
+  };
+}
+
+function jitter(amount: number): number {
+  return (Math.random() - 0.5) * 2 * amount;
+}
+
+// A move that ends without arriving must not leave its command acknowledged forever
+async function endActiveMove(sim: SimulatedBuoyState, message: string): Promise<void> {
+  if (!sim.activeMoveCommandId) {
+    return;
+  }
+  const command = await storage.getBuoyCommand(sim.activeMoveCommandId);
+  sim.activeMoveCommandId = null;
+  if (command?.status === "acknowledged") {
+    await applyCommandReport(command, { status: "failed", message });
+  }
+}
+
+async function handleCommands(buoy: Buoy, sim: SimulatedBuoyState): Promise<void> {
+  const commands = await deliverQueuedCommands(buoy.id);
+
+  for (const command of commands) {
+    // Drop the occasional packet so the retry path gets exercised
+    if (Math.random() < MISSED_ACK_PROBABILITY) {
+      continue;
+    }
+
+    if (sim.faultUntil) {
+      await applyCommandReport(command, { status: "rejected", message: "Buoy is in fault state" });
+      continue;
+    }
+
+    if (command.command === "move_to_target" && (command.targetLat === null || command.targetLng === null)) {
+      await applyCommandReport(command, { status: "rejected", message: "No target position" });
+      continue;
+    }
+
+    const acknowledged = await applyCommandReport(command, { status: "acknowledged" });
+    if (sim.activeMoveCommandId !== command.id) {
+      await endActiveMove(sim, "Superseded by a newer command");
+    }
+
+    if (command.command === "move_to_target") {
+      sim.activeMoveCommandId = command.id;
+    } else if (acknowledged) {
+      // hold_position and cancel take effect immediately
+      await applyCommandReport(acknowledged, { status: "completed" });
+    }
+  }
+}
+
+async function simulateBuoy(buoy: Buoy, seconds: number): Promise<void> {
+  const sim = getSimState(buoy);
+  const now = Date.now();
+
+  if (sim.faultUntil && now >= sim.faultUntil) {
+    sim.faultUntil = null;
+    // A buoy that faulted before a restart may still have a move acknowledged from before
+    for (const command of await storage.getBuoyCommands(buoy.id, 10)) {
+      if (command.command === "move_to_target" && command.status === "acknowledged") {
+        await applyCommandReport(command, { status: "failed", message: "Interrupted by a fault" });
+      }
+    }
+    await storage.updateBuoy(buoy.id, { state: "idle", targetLat: null, targetLng: null, eta: null });
+    buoy = { ...buoy, state: "idle", targetLat: null, targetLng: null };
+  } else if (!sim.faultUntil && buoy.state !== "fault" && Math.random() < FAULT_PROBABILITY_PER_TICK) {
+    sim.faultUntil = now + FAULT_DURATION_MS;
+    sim.speedKnots = 0;
+    await endActiveMove(sim, "Buoy faulted before reaching the target");
+    await storage.updateBuoy(buoy.id, { state: "fault", eta: null });
+    console.log(`Simulator: buoy ${buoy.name} faulted`);
+    return;
+  }
+
+  await handleCommands(buoy, sim);
+
+  // Commands may have changed state; work from the stored row
+  const current = await storage.getBuoy(buoy.id);
+  if (!current || current.lat === null || current.lng === null) {
+    return;
+  }
+
+  let north = 0;
+  let east = 0;
+  let heading = current.heading ?? 0;
+  let drain = BATTERY_DRAIN_IDLE;
+  const drift = currentDrift(current, seconds);
+
+  if (sim.faultUntil) {
+    sim.speedKnots = 0;
+    north = drift.north;
+    east = drift.east;
+  } else if (current.state === "moving_to_target" && current.targetLat !== null && current.targetLng !== null) {
+    drain = BATTERY_DRAIN_MOVING;
+    sim.speedKnots = Math.min(CRUISE_SPEED_KNOTS, sim.speedKnots + ACCELERATION_KNOTS_PER_TICK);
+
+    const toTarget = vectorTo(current.lat, current.lng, current.targetLat, current.targetLng);
+    const step = Math.min(sim.speedKnots * KNOTS_TO_MPS * seconds, toTarget.distance);
+    if (toTarget.distance > 0) {
+      north = (toTarget.north / toTarget.distance) * step + drift.north * STATION_KEEPING_LEAKAGE;
+      east = (toTarget.east / toTarget.distance) * step + drift.east * STATION_KEEPING_LEAKAGE;
+      heading = normalizeAngle(Math.atan2(toTarget.east, toTarget.north) * 180 / Math.PI);
+    }
+
+    if (toTarget.distance - step <= ARRIVAL_RADIUS_METERS && sim.activeMoveCommandId) {
+      const command = await storage.getBuoyCommand(sim.activeMoveCommandId);
+      sim.activeMoveCommandId = null;
+      sim.speedKnots = 0;
+      if (command?.status === "acknowledged") {
+        await applyCommandReport(command, { status: "completed" });
+      }
+    }
+  } else if (current.state === "holding_position" || current.state === "station_keeping_degraded") {
+    drain = BATTERY_DRAIN_HOLDING;
+    sim.speedKnots = 0;
+
+    // The tracker may have declared arrival before we got inside our own radius
+    if (sim.activeMoveCommandId) {
+      const command = await storage.getBuoyCommand(sim.activeMoveCommandId);
+      sim.activeMoveCommandId = null;
+      if (command?.status === "acknowledged") {
+        await applyCommandReport(command, { status: "completed" });
+      }
+    }
+
+    // Hover around the target (or current spot) with a little uncompensated current
+    const anchorLat = current.targetLat ?? current.lat;
+    const anchorLng = current.targetLng ?? current.lng;
+    const toAnchor = vectorTo(current.lat, current.lng, anchorLat, anchorLng);
+    north = toAnchor.north * 0.5 + drift.north * STATION_KEEPING_LEAKAGE + jitter(STATION_KEEPING_JITTER_METERS);
+    east = toAnchor.east * 0.5 + drift.east * STATION_KEEPING_LEAKAGE + jitter(STATION_KEEPING_JITTER_METERS);
+  } else {
+    sim.speedKnots = 0;
+    north = drift.north;
+    east = drift.east;
+  }
+
+  sim.batteryLevel = Math.max(0, sim.batteryLevel - (drain * seconds) / 3600);
+  const position = offsetPosition(current.lat, current.lng, north, east);
+
+  await applyDeviceTelemetry(current, {
+    lat: position.lat,
+    lng: position.lng,
+    heading,
+    speed: Math.round(sim.speedKnots * 10) / 10,
+    battery: Math.round(sim.batteryLevel),
+    signalStrength: Math.max(0, Math.min(100, Math.round(sim.baseSignalStrength + jitter(3)))),
+    ...(sim.baseWindSpeed !== null && sim.baseWindDirection !== null
+      ? {
+          windSpeed: Math.max(0, sim.baseWindSpeed + jitter(1)),
+          windDirection: normalizeAngle(
+            sim.baseWindDirection +
+            WIND_OSCILLATION_DEGREES * Math.sin((2 * Math.PI * now) / WIND_OSCILLATION_PERIOD_MS) +
+            jitter(2)
+          ),
+        }
+      : {}),
+  });
+}
+
+async function tick(): Promise<void> {
+  if (isTicking) {
+    return;
+  }
+
+  isTicking = true;
+
+  try {
+    const buoys = await storage.getBuoys();
+    for (const buoy of buoys) {
+      if (!buoy.eventId) {
+        continue;
+      }
+      try {
+        await simulateBuoy(buoy, TICK_INTERVAL_MS / 1000);
+      } catch (error) {
+        console.error(`Simulator error for buoy ${buoy.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error in buoy simulator:", error);
+  } finally {
+    isTicking = false;
+  }
+}
+
+export function startBuoySimulator(): void {
+  if (tickInterval) {
+    console.log("Buoy simulator already running");
+    return;
+  }
+
+  console.log(`Starting buoy simulator (every ${TICK_INTERVAL_MS / 1000}s)`);
+
+  tickInterval = setInterval(tick, TICK_INTERVAL_MS);
+}
+
+export function stopBuoySimulator(): void {
+  if (tickInterval) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+    simulated.clear();
+    console.log("Buoy simulator stopped");
+  }
+}
+
+export function isBuoySimulatorRunning(): boolean {
+  return tickInterval !== null;
+}
@@ -0,0 +1,175 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response, RequestHandler } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { hasEventAccess } from "./auth";
+import { onBuoyUpdate, onBuoyRemoved } from "./buoy-events";
+import type { Buoy, BuoyTelemetryMessage } from "@shared/schema";
+
+const TELEMETRY_PATH = "/ws/buoys";
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface Subscriber {
+  eventId: string;
+  knownBuoyIds: Set<string>;
+  isAlive: boolean;
+}
+
+const subscribers: Map<WebSocket, Subscriber> = new Map();
+
+// Last state pushed for each buoy, used to compute per-field deltas
+const lastKnownBuoys: Map<string, Buoy> = new Map();
+
+let wss: WebSocketServer | null = null;
+
+function send(ws: WebSocket, message: BuoyTelemetryMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function diffBuoy(previous: Buoy | undefined, next: Buoy): Partial<Buoy> {
+  if (!previous) {
+    return next;
+  }
+
+  const changes: Record<string, unknown> = {};
+  for (const key of Object.keys(next) as Array<keyof Buoy>) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changes[key] = next[key];
+    }
+  }
+  return changes as Partial<Buoy>;
+}
+
+function handleBuoyUpdate(buoy: Buoy): void {
+  const previous = lastKnownBuoys.get(buoy.id);
+  lastKnownBuoys.set(buoy.id, buoy);
+
+  const changes = diffBuoy(previous, buoy);
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  const timestamp = new Date().toISOString();
+  subscribers.forEach((subscriber, ws) => {
+    const inEvent = buoy.eventId === subscriber.eventId;
+    const known = subscriber.knownBuoyIds.has(buoy.id);
+
+    if (inEvent && known) {
+      send(ws, { type: "buoy_delta", buoyId: buoy.id, changes, timestamp });
+    } else if (inEvent) {
+      subscriber.knownBuoyIds.add(buoy.id);
+      send(ws, { type: "buoy_added", buoy });
+    } else if (known) {
+      subscriber.knownBuoyIds.delete(buoy.id);
+      send(ws, { type: "buoy_removed", buoyId: buoy.id });
+    }
+  });
+}
+
+function handleBuoyRemoved(buoyId: string): void {
+  lastKnownBuoys.delete(buoyId);
+
+  subscribers.forEach((subscriber, ws) => {
+    if (subscriber.knownBuoyIds.delete(buoyId)) {
+      send(ws, { type: "buoy_removed", buoyId });
+    }
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleConnection(ws: WebSocket, eventId: string): Promise<void> {
+  const subscriber: Subscriber = { eventId, knownBuoyIds: new Set(), isAlive: true };
+  subscribers.set(ws, subscriber);
+
+  ws.on("pong", () => {
+    subscriber.isAlive = true;
+  });
+  ws.on("close", () => {
+    subscribers.delete(ws);
+  });
+  ws.on("error", (error) => {
+    console.error("Buoy telemetry socket error:", error);
+  });
+
+  try {
+    const buoys = await storage.getBuoysForEvent(eventId);
+    for (const buoy of buoys) {
+      subscriber.knownBuoyIds.add(buoy.id);
+      if (!lastKnownBuoys.has(buoy.id)) {
+        lastKnownBuoys.set(buoy.id, buoy);
+      }
+    }
+    send(ws, { type: "snapshot", eventId, buoys });
+  } catch (error) {
+    console.error("Error sending buoy telemetry snapshot:", error);
+    ws.close(1011, "Failed to load buoys");
+  }
+}
+
+export function setupBuoyTelemetry(httpServer: Server, sessionMiddleware: RequestHandler): void {
+  if (wss) {
+    console.log("Buoy telemetry already running");
+    return;
+  }
+
+  // noServer so the Vite HMR socket on the same httpServer keeps its own upgrades
+  wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== TELEMETRY_PATH) {
+      return;
+    }
+
+    const eventId = url.searchParams.get("eventId");
+    if (!eventId) {
+      rejectUpgrade(socket, 400, "Bad Request");
+      return;
+    }
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        const session = (req as Request).session;
+        if (!session?.userId) {
+          rejectUpgrade(socket, 401, "Unauthorized");
+          return;
+        }
+        if (!(await hasEventAccess(session, eventId))) {
+          rejectUpgrade(socket, 403, "Forbidden");
+          return;
+        }
+
+        wss!.handleUpgrade(req, socket, head, (ws) => {
+          handleConnection(ws, eventId);
+        });
+      } catch (error) {
+        console.error("Error authorizing buoy telemetry connection:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      }
+    });
+  });
+
+  onBuoyUpdate(handleBuoyUpdate);
+  onBuoyRemoved(handleBuoyRemoved);
+
+  setInterval(() => {
+    subscribers.forEach((subscriber, ws) => {
+      if (!subscriber.isAlive) {
+        ws.terminate();
+        subscribers.delete(ws);
+        return;
+      }
+      subscriber.isAlive = false;
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  console.log(`Buoy telemetry listening on ${TELEMETRY_PATH}`);
+}
@@ -0,0 +1,194 @@
+import { storage } from "./storage";
+import { onBuoyUpdate, onBuoyRemoved } from "./buoy-events";
+import type { Buoy, InsertBuoy } from "@shared/schema";
+
+// Derives motion state from the stream of buoy updates: ETA while moving, arrival,
+// and drift off station while holding. Runs on every buoy write rather than on a
+// timer so it reacts as soon as a telemetry packet lands.
+
+const METERS_PER_DEGREE_LAT = 111320;
+const KNOTS_TO_MPS = 0.514444;
+
+const ARRIVAL_RADIUS_METERS = 5;
+const DRIFT_TOLERANCE_METERS = 15;
+// A degraded buoy must come back well inside the tolerance before it is cleared,
+// so it doesn't flap on the boundary
+const DRIFT_RECOVERY_METERS = 9;
+// Below this the buoy is effectively stopped and an ETA would be meaningless
+const MIN_ETA_SPEED_KNOTS = 0.2;
+// Weight of the newest sample in the observed speed average
+const SPEED_SMOOTHING = 0.4;
+
+interface TrackedBuoy {
+  lat: number;
+  lng: number;
+  at: number;
+  observedSpeedKnots: number | null;
+  // Where a buoy told to hold without a target was when it started holding
+  holdAnchor: { lat: number; lng: number } | null;
+}
+
+const tracked: Map<string, TrackedBuoy> = new Map();
+const updating: Set<string> = new Set();
+// Newest update that landed while the tracker's own write was in flight; run once it finishes
+const pending: Map<string, Buoy> = new Map();
+
+let unsubscribers: Array<() => void> = [];
+
+function distanceMeters(fromLat: number, fromLng: number, toLat: number, toLng: number): number {
+  const north = (toLat - fromLat) * METERS_PER_DEGREE_LAT;
+  const east = (toLng - fromLng) * METERS_PER_DEGREE_LAT * Math.cos(fromLat * Math.PI / 180);
+  return Math.sqrt(north * north + east * east);
+}
+
+function isHolding(state: string): boolean {
+  return state === "holding_position" || state === "station_keeping_degraded";
+}
+
+// Speed over ground from successive fixes, smoothed; falls back to the reported speed
+function observeSpeed(buoy: Buoy, lat: number, lng: number): number {
+  const now = Date.now();
+  const previous = tracked.get(buoy.id);
+
+  if (!previous) {
+    tracked.set(buoy.id, { lat, lng, at: now, observedSpeedKnots: null, holdAnchor: null });
+    return buoy.speed;
+  }
+
+  if (previous.lat !== lat || previous.lng !== lng) {
+    const seconds = (now - previous.at) / 1000;
+    if (seconds > 0) {
+      const sample = distanceMeters(previous.lat, previous.lng, lat, lng) / seconds / KNOTS_TO_MPS;
+      previous.observedSpeedKnots = previous.observedSpeedKnots === null
+        ? sample
+        : previous.observedSpeedKnots + SPEED_SMOOTHING * (sample - previous.observedSpeedKnots);
+    }
+    previous.lat = lat;
+    previous.lng = lng;
+    previous.at = now;
+  }
+
+  return previous.observedSpeedKnots ?? buoy.speed;
+}
+
+function computeUpdate(buoy: Buoy): Partial<InsertBuoy> {
+  if (buoy.lat === null || buoy.lng === null) {
+    return {};
+  }
+
+  const speedKnots = observeSpeed(buoy, buoy.lat, buoy.lng);
+  const entry = tracked.get(buoy.id)!;
+  const hasTarget = buoy.targetLat !== null && buoy.targetLng !== null;
+
+  if (buoy.state === "moving_to_target" && hasTarget) {
+    entry.holdAnchor = null;
+    const distance = distanceMeters(buoy.lat, buoy.lng, buoy.targetLat!, buoy.targetLng!);
+
+    if (distance <= ARRIVAL_RADIUS_METERS) {
+      return { state: "holding_position", eta: null, driftDistance: Math.round(distance) };
+    }
+
+    const eta = speedKnots >= MIN_ETA_SPEED_KNOTS
+      ? Math.round(distance / (speedKnots * KNOTS_TO_MPS))
+      : null;
+    return { eta, driftDistance: null };
+  }
+
+  if (isHolding(buoy.state)) {
+    if (!hasTarget && !entry.holdAnchor) {
+      entry.holdAnchor = { lat: buoy.lat, lng: buoy.lng };
+    }
+    const anchorLat = hasTarget ? buoy.targetLat! : entry.holdAnchor!.lat;
+    const anchorLng = hasTarget ? buoy.targetLng! : entry.holdAnchor!.lng;
+    const drift = Math.round(distanceMeters(buoy.lat, buoy.lng, anchorLat, anchorLng));
+
+    let state = buoy.state;
+    if (drift > DRIFT_TOLERANCE_METERS) {
+      state = "station_keeping_degraded";
+    } else if (drift <= DRIFT_RECOVERY_METERS) {
+      state = "holding_position";
+    }
+
+    return { state, eta: null, driftDistance: drift };
+  }
+
+  entry.holdAnchor = null;
+  return { eta: null, driftDistance: null };
+}
+
+// Only the fields that actually differ, so the tracker's own write doesn't trigger another
+function changedFields(buoy: Buoy, update: Partial<InsertBuoy>): Partial<InsertBuoy> {
+  const changes: Partial<InsertBuoy> = {};
+  for (const key of Object.keys(update) as Array<keyof InsertBuoy>) {
+    if (update[key] !== buoy[key as keyof Buoy]) {
+      (changes as Record<string, unknown>)[key] = update[key];
+    }
+  }
+  return changes;
+}
+
+async function trackBuoy(buoy: Buoy): Promise<void> {
+  if (updating.has(buoy.id)) {
+    pending.set(buoy.id, buoy);
+    return;
+  }
+
+  const changes = changedFields(buoy, computeUpdate(buoy));
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  if (changes.state === "holding_position" && buoy.state === "moving_to_target") {
+    console.log(`Buoy ${buoy.name} arrived on station`);
+  } else if (changes.state === "station_keeping_degraded") {
+    console.log(`Buoy ${buoy.name} drifted ${changes.driftDistance ?? buoy.driftDistance}m off station`);
+  }
+
+  updating.add(buoy.id);
+  try {
+    await storage.updateBuoy(buoy.id, changes);
+  } catch (error) {
+    console.error(`Error tracking buoy ${buoy.id}:`, error);
+  } finally {
+    updating.delete(buoy.id);
+  }
+
+  const next = pending.get(buoy.id);
+  if (next) {
+    pending.delete(buoy.id);
+    await trackBuoy(next);
+  }
+}
+
+export function startBuoyTracker(): void {
+  if (unsubscribers.length > 0) {
+    console.log("Buoy tracker already running");
+    return;
+  }
+
+  console.log("Starting buoy tracker");
+
+  unsubscribers = [
+    onBuoyUpdate((buoy) => {
+      void trackBuoy(buoy);
+    }),
+    onBuoyRemoved((buoyId) => {
+      tracked.delete(buoyId);
+      pending.delete(buoyId);
+    }),
+  ];
+}
+
+export function stopBuoyTracker(): void {
+  if (unsubscribers.length > 0) {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    unsubscribers = [];
+    tracked.clear();
+    pending.clear();
+    console.log("Buoy tracker stopped");
+  }
+}
+
+export function isBuoyTrackerRunning(): boolean {
+  return unsubscribers.length > 0;
+}
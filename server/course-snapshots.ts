@@ -0,0 +1,100 @@
+import type { Course, Mark, RoundingSide, SnapshotMark, InsertCourseSnapshot, CourseSnapshot } from "@shared/schema";
+
+export type SnapshotCourseData = Pick<InsertCourseSnapshot,
+  "shape" | "centerLat" | "centerLng" | "rotation" | "scale" | "roundingSequence" | "designation" | "roundingSides" | "snapshotMarks"
+>;
+
+export type SnapshotVersionData = Pick<InsertCourseSnapshot, "lineageId" | "parentSnapshotId" | "version">;
+
+export interface SnapshotViewer {
+  userId: string;
+  role: string;
+  sailClubId: string | null;
+}
+
+const SNAPSHOT_CATEGORIES = ["triangle", "trapezoid", "windward_leeward"];
+
+export function snapshotCategoryForShape(shape: string): string {
+  return SNAPSHOT_CATEGORIES.includes(shape) ? shape : "other";
+}
+
+/**
+ * Copies a course and its marks into snapshot form. The rounding sequence is
+ * converted from mark IDs to mark names so the snapshot is portable and can be
+ * loaded into any course. Per-entry rounding sides follow their entries when
+ * entries for missing marks are dropped.
+ */
+export function buildSnapshotCourseData(course: Course, marks: Mark[]): SnapshotCourseData {
+  const markIdToName = new Map<string, string>();
+  marks.forEach(m => markIdToName.set(m.id, m.name));
+
+  const roundingSequence: string[] = [];
+  const roundingSides: Record<number, RoundingSide> = {};
+  (course.roundingSequence ?? []).forEach((item, index) => {
+    const entry = item === "start" || item === "finish" ? item : markIdToName.get(item);
+    if (!entry) return;
+    const side = course.roundingSides?.[index];
+    if (side) {
+      roundingSides[roundingSequence.length] = side;
+    }
+    roundingSequence.push(entry);
+  });
+
+  const snapshotMarks: SnapshotMark[] = marks.map(m => ({
+    name: m.name,
+    role: m.role,
+    order: m.order,
+    lat: m.lat,
+    lng: m.lng,
+    isStartLine: m.isStartLine,
+    isFinishLine: m.isFinishLine,
+    isCourseMark: m.isCourseMark,
+    isGate: m.isGate,
+    gateWidthBoatLengths: m.gateWidthBoatLengths,
+    boatLengthMeters: m.boatLengthMeters,
+    gatePartnerId: m.gatePartnerId,
+    gateSide: m.gateSide,
+    roundingSide: m.roundingSide,
+  }));
+
+  return {
+    shape: course.shape,
+    centerLat: course.centerLat,
+    centerLng: course.centerLng,
+    rotation: course.rotation,
+    scale: course.scale,
+    roundingSequence,
+    designation: course.designation ?? null,
+    roundingSides: Object.keys(roundingSides).length > 0 ? roundingSides : null,
+    snapshotMarks,
+  };
+}
+
+export function canViewCourseSnapshot(snapshot: CourseSnapshot, viewer: SnapshotViewer): boolean {
+  return (
+    viewer.role === "super_admin" ||
+    snapshot.visibilityScope === "global" ||
+    (snapshot.visibilityScope === "club" && snapshot.sailClubId === viewer.sailClubId) ||
+    (snapshot.visibilityScope === "user" && snapshot.ownerId === viewer.userId) ||
+    (snapshot.visibilityScope === "race" && snapshot.sailClubId === viewer.sailClubId)
+  );
+}
+
+/** The id every version of a saved course is filed under: the first version's. */
+export function snapshotLineageId(snapshot: CourseSnapshot): string {
+  return snapshot.lineageId ?? snapshot.id;
+}
+
+/**
+ * Lineage of a version saved from `parent`. It is numbered after the newest
+ * version rather than its parent, so saving from an older version branches
+ * without reusing a number.
+ */
+export function nextSnapshotVersion(parent: CourseSnapshot, versions: CourseSnapshot[]): SnapshotVersionData {
+  const latest = versions.reduce((max, v) => Math.max(max, v.version), parent.version);
+  return {
+    lineageId: snapshotLineageId(parent),
+    parentSnapshotId: parent.id,
+    version: latest + 1,
+  };
+}
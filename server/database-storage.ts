@@ -1,4 +1,4 @@
-import { eq, and, sql, or, ilike, desc, gt, lt } from "drizzle-orm";
+import { eq, and, sql, or, ilike, desc, asc, gt, gte, lt, lte, ne, inArray } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
@@ -12,6 +12,15 @@ import {
   userSettings,
   courseSnapshots,
   buoyWeatherHistory,
+  buoyCommands,
+  buoyDeviceCredentials,
+  startSequences,
+  races,
+  raceFinishes,
+  positionHistory,
+  raceLogEntries,
+  auditLogEntries,
+  openBuoyCommandStatuses,
   type User,
   type InsertUser,
   type SailClub,
@@ -34,8 +43,24 @@ import {
   type InsertCourseSnapshot,
   type BuoyWeatherHistory,
   type InsertBuoyWeatherHistory,
+  type BuoyCommand,
+  type InsertBuoyCommand,
+  type BuoyDeviceCredential,
+  type StartSequence,
+  type InsertStartSequence,
+  type Race,
+  type InsertRace,
+  type RaceFinish,
+  type InsertRaceFinish,
+  type PositionRecord,
+  type InsertPositionRecord,
+  type RaceLogEntry,
+  type InsertRaceLogEntry,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
 } from "@shared/schema";
-import type { IStorage, CourseSnapshotListParams, CourseSnapshotListResult } from "./storage";
+import type { IStorage, CourseSnapshotListParams, CourseSnapshotListResult, BuoyCommandUpdate, AuditLogFilter } from "./storage";
+import { publishBuoyUpdate, publishBuoyRemoved } from "./buoy-events";
 
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
@@ -170,9 +195,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteEvent(id: string): Promise<boolean> {
-    return await db.transaction(async (tx) => {
+    let releasedBuoys: Buoy[] = [];
+    const deleted = await db.transaction(async (tx) => {
       // Release all buoys assigned to this event - reset state and clear eventId
-      await tx.update(buoys)
+      releasedBuoys = await tx.update(buoys)
         .set({ 
           eventId: null, 
           state: "idle",
@@ -180,7 +206,8 @@ export class DatabaseStorage implements IStorage {
           targetLng: null,
           eta: null
         })
-        .where(eq(buoys.eventId, id));
+        .where(eq(buoys.eventId, id))
+        .returning();
       
       // Close all active buoy assignments for this event
       await tx.update(buoyAssignments)
@@ -196,10 +223,23 @@ export class DatabaseStorage implements IStorage {
       // Delete event access records
       await tx.delete(userEventAccess).where(eq(userEventAccess.eventId, id));
       
+      await tx.delete(startSequences).where(eq(startSequences.eventId, id));
+      await tx.delete(raceFinishes).where(inArray(
+        raceFinishes.raceId,
+        tx.select({ id: races.id }).from(races).where(eq(races.eventId, id))
+      ));
+      await tx.delete(races).where(eq(races.eventId, id));
+      await tx.delete(positionHistory).where(eq(positionHistory.eventId, id));
+      await tx.delete(raceLogEntries).where(eq(raceLogEntries.eventId, id));
+      
       // Delete the event
       const result = await tx.delete(events).where(eq(events.id, id)).returning();
       return result.length > 0;
     });
+    
+    // Publish only after commit so subscribers never see rolled-back state
+    releasedBuoys.forEach(publishBuoyUpdate);
+    return deleted;
   }
 
   async getCourse(id: string): Promise<Course | undefined> {
@@ -261,6 +301,7 @@ export class DatabaseStorage implements IStorage {
       gateSide: mark.gateSide ?? null,
       gatePortBuoyId: mark.gatePortBuoyId ?? null,
       gateStarboardBuoyId: mark.gateStarboardBuoyId ?? null,
+      roundingSide: mark.roundingSide ?? null,
     }).returning();
     return newMark;
   }
@@ -314,6 +355,7 @@ export class DatabaseStorage implements IStorage {
       sailClubId: buoy.sailClubId ?? null,
       state: buoy.state ?? "idle",
       speed: buoy.speed ?? 0,
+      heading: buoy.heading ?? null,
       battery: buoy.battery ?? 100,
       signalStrength: buoy.signalStrength ?? 100,
       targetLat: buoy.targetLat ?? null,
@@ -323,6 +365,7 @@ export class DatabaseStorage implements IStorage {
       currentSpeed: buoy.currentSpeed ?? null,
       currentDirection: buoy.currentDirection ?? null,
       eta: buoy.eta ?? null,
+      driftDistance: buoy.driftDistance ?? null,
       ownershipType: buoy.ownershipType ?? "platform_owned",
       inventoryStatus: buoy.inventoryStatus ?? "in_inventory",
       weatherSensorModel: buoy.weatherSensorModel ?? null,
@@ -332,6 +375,7 @@ export class DatabaseStorage implements IStorage {
       otherEquipment: buoy.otherEquipment ?? null,
       hardwareConfig: buoy.hardwareConfig as Buoy["hardwareConfig"] ?? null,
     }).returning();
+    publishBuoyUpdate(newBuoy);
     return newBuoy;
   }
 
@@ -341,11 +385,14 @@ export class DatabaseStorage implements IStorage {
       updateData.hardwareConfig = buoy.hardwareConfig as Buoy["hardwareConfig"];
     }
     const [updated] = await db.update(buoys).set(updateData).where(eq(buoys.id, id)).returning();
+    if (updated) {
+      publishBuoyUpdate(updated);
+    }
     return updated;
   }
 
   async deleteBuoy(id: string): Promise<boolean> {
-    return await db.transaction(async (tx) => {
+    const deleted = await db.transaction(async (tx) => {
       // Clear buoy references from all marks that reference this buoy
       await tx.update(marks)
         .set({ assignedBuoyId: null })
@@ -360,10 +407,183 @@ export class DatabaseStorage implements IStorage {
       // Delete associated buoy assignments
       await tx.delete(buoyAssignments).where(eq(buoyAssignments.buoyId, id));
       
+      // Delete queued and historical commands
+      await tx.delete(buoyCommands).where(eq(buoyCommands.buoyId, id));
+      
+      // Revoke device credentials
+      await tx.delete(buoyDeviceCredentials).where(eq(buoyDeviceCredentials.buoyId, id));
+      
       // Delete the buoy
       const result = await tx.delete(buoys).where(eq(buoys.id, id)).returning();
       return result.length > 0;
     });
+    if (deleted) {
+      publishBuoyRemoved(id);
+    }
+    return deleted;
+  }
+
+  async getBuoyBySerialNumber(serialNumber: string): Promise<Buoy | undefined> {
+    const [buoy] = await db.select().from(buoys).where(eq(buoys.serialNumber, serialNumber));
+    return buoy;
+  }
+
+  async getBuoyDeviceCredential(buoyId: string): Promise<BuoyDeviceCredential | undefined> {
+    const [credential] = await db.select().from(buoyDeviceCredentials).where(eq(buoyDeviceCredentials.buoyId, buoyId));
+    return credential;
+  }
+
+  async setBuoyDeviceCredential(buoyId: string, keyHash: string): Promise<BuoyDeviceCredential> {
+    const [credential] = await db.insert(buoyDeviceCredentials)
+      .values({ buoyId, keyHash })
+      .onConflictDoUpdate({
+        target: buoyDeviceCredentials.buoyId,
+        set: { keyHash, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  async getBuoyCommand(id: string): Promise<BuoyCommand | undefined> {
+    const [command] = await db.select().from(buoyCommands).where(eq(buoyCommands.id, id));
+    return command;
+  }
+
+  async getBuoyCommands(buoyId: string, limit: number = 20): Promise<BuoyCommand[]> {
+    return db.select().from(buoyCommands)
+      .where(eq(buoyCommands.buoyId, buoyId))
+      .orderBy(desc(buoyCommands.createdAt))
+      .limit(limit);
+  }
+
+  async getQueuedBuoyCommands(buoyId: string): Promise<BuoyCommand[]> {
+    return db.select().from(buoyCommands)
+      .where(and(
+        eq(buoyCommands.buoyId, buoyId),
+        eq(buoyCommands.status, "pending")
+      ))
+      .orderBy(buoyCommands.createdAt);
+  }
+
+  async getExpiredBuoyCommands(sentBefore: Date): Promise<BuoyCommand[]> {
+    return db.select().from(buoyCommands)
+      .where(and(
+        eq(buoyCommands.status, "sent"),
+        lt(buoyCommands.lastSentAt, sentBefore)
+      ));
+  }
+
+  async createBuoyCommand(command: InsertBuoyCommand): Promise<BuoyCommand> {
+    return await db.transaction(async (tx) => {
+      // A new command replaces anything the buoy has not finished yet
+      await tx.update(buoyCommands)
+        .set({ status: "superseded" })
+        .where(and(
+          eq(buoyCommands.buoyId, command.buoyId),
+          inArray(buoyCommands.status, openBuoyCommandStatuses)
+        ));
+      
+      const [newCommand] = await tx.insert(buoyCommands).values({
+        buoyId: command.buoyId,
+        command: command.command,
+        targetLat: command.targetLat ?? null,
+        targetLng: command.targetLng ?? null,
+        maxAttempts: command.maxAttempts ?? 3,
+        issuedBy: command.issuedBy ?? null,
+      }).returning();
+      return newCommand;
+    });
+  }
+
+  async updateBuoyCommand(id: string, update: BuoyCommandUpdate): Promise<BuoyCommand | undefined> {
+    const [updated] = await db.update(buoyCommands).set(update).where(eq(buoyCommands.id, id)).returning();
+    return updated;
+  }
+
+  async getRace(id: string): Promise<Race | undefined> {
+    const [race] = await db.select().from(races).where(eq(races.id, id));
+    return race;
+  }
+
+  async getRacesForEvent(eventId: string): Promise<Race[]> {
+    return db.select().from(races).where(eq(races.eventId, eventId)).orderBy(asc(races.raceNumber));
+  }
+
+  async createRace(race: InsertRace): Promise<Race> {
+    const [created] = await db.insert(races).values(race).returning();
+    return created;
+  }
+
+  async updateRace(id: string, race: Partial<InsertRace>): Promise<Race | undefined> {
+    const [updated] = await db.update(races)
+      .set({ ...race, updatedAt: new Date() })
+      .where(eq(races.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRace(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(raceFinishes).where(eq(raceFinishes.raceId, id));
+      const result = await tx.delete(races).where(eq(races.id, id)).returning();
+      return result.length > 0;
+    });
+  }
+
+  async getRaceFinish(id: string): Promise<RaceFinish | undefined> {
+    const [finish] = await db.select().from(raceFinishes).where(eq(raceFinishes.id, id));
+    return finish;
+  }
+
+  async getRaceFinishes(raceId: string): Promise<RaceFinish[]> {
+    // Postgres sorts nulls last ascending, so code-only entries follow the finishers
+    return db.select().from(raceFinishes)
+      .where(eq(raceFinishes.raceId, raceId))
+      .orderBy(asc(raceFinishes.finishTime), asc(raceFinishes.createdAt));
+  }
+
+  async createRaceFinish(finish: InsertRaceFinish): Promise<RaceFinish> {
+    const [created] = await db.insert(raceFinishes).values(finish).returning();
+    return created;
+  }
+
+  async updateRaceFinish(id: string, finish: Partial<InsertRaceFinish>): Promise<RaceFinish | undefined> {
+    const [updated] = await db.update(raceFinishes)
+      .set({ ...finish, updatedAt: new Date() })
+      .where(eq(raceFinishes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteRaceFinish(id: string): Promise<boolean> {
+    const result = await db.delete(raceFinishes).where(eq(raceFinishes.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getStartSequence(id: string): Promise<StartSequence | undefined> {
+    const [sequence] = await db.select().from(startSequences).where(eq(startSequences.id, id));
+    return sequence;
+  }
+
+  async getLatestStartSequence(eventId: string): Promise<StartSequence | undefined> {
+    const [sequence] = await db.select().from(startSequences)
+      .where(eq(startSequences.eventId, eventId))
+      .orderBy(desc(startSequences.createdAt))
+      .limit(1);
+    return sequence;
+  }
+
+  async createStartSequence(sequence: InsertStartSequence): Promise<StartSequence> {
+    const [created] = await db.insert(startSequences).values(sequence).returning();
+    return created;
+  }
+
+  async updateStartSequence(id: string, sequence: Partial<InsertStartSequence>): Promise<StartSequence | undefined> {
+    const [updated] = await db.update(startSequences)
+      .set({ ...sequence, updatedAt: new Date() })
+      .where(eq(startSequences.id, id))
+      .returning();
+    return updated;
   }
 
   async getBuoysForEvent(eventId: string): Promise<Buoy[]> {
@@ -539,7 +759,8 @@ export class DatabaseStorage implements IStorage {
     }
     
     // Build base conditions (shared between count and paginated queries)
-    const baseConditions: ReturnType<typeof eq>[] = [];
+    // Race records are reached through their race, never listed
+    const baseConditions: ReturnType<typeof eq>[] = [ne(courseSnapshots.visibilityScope, "race")];
     
     // Add visibility filter (only for non-super-admin)
     if (visibilityConditions.length > 0) {
@@ -607,11 +828,24 @@ export class DatabaseStorage implements IStorage {
       rotation: snapshot.rotation ?? 0,
       scale: snapshot.scale ?? 1,
       roundingSequence: snapshot.roundingSequence ?? null,
+      designation: snapshot.designation ?? null,
+      roundingSides: snapshot.roundingSides ?? null,
       snapshotMarks: snapshot.snapshotMarks,
+      lineageId: snapshot.lineageId ?? null,
+      parentSnapshotId: snapshot.parentSnapshotId ?? null,
+      version: snapshot.version ?? 1,
     }).returning();
     return newSnapshot;
   }
 
+  async getCourseSnapshotVersions(lineageId: string): Promise<CourseSnapshot[]> {
+    return db
+      .select()
+      .from(courseSnapshots)
+      .where(or(eq(courseSnapshots.id, lineageId), eq(courseSnapshots.lineageId, lineageId)))
+      .orderBy(asc(courseSnapshots.version));
+  }
+
   async deleteCourseSnapshot(id: string): Promise<boolean> {
     const result = await db.delete(courseSnapshots).where(eq(courseSnapshots.id, id)).returning();
     return result.length > 0;
@@ -670,6 +904,88 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return result.length;
   }
+
+  async getEventWeatherHistoryRange(eventId: string, from: Date, to: Date): Promise<BuoyWeatherHistory[]> {
+    return db
+      .select()
+      .from(buoyWeatherHistory)
+      .where(
+        and(
+          eq(buoyWeatherHistory.eventId, eventId),
+          gte(buoyWeatherHistory.timestamp, from),
+          lte(buoyWeatherHistory.timestamp, to)
+        )
+      )
+      .orderBy(asc(buoyWeatherHistory.timestamp));
+  }
+
+  async createPositionRecords(records: InsertPositionRecord[]): Promise<PositionRecord[]> {
+    if (records.length === 0) {
+      return [];
+    }
+    return db.insert(positionHistory).values(records.map(record => ({
+      ...record,
+      data: record.data ?? null,
+    }))).returning();
+  }
+
+  async getPositionHistory(eventId: string, from: Date, to: Date): Promise<PositionRecord[]> {
+    // Marks only get a record when edited, so earlier ones are kept to give the course as it stood at `from`
+    return db
+      .select()
+      .from(positionHistory)
+      .where(
+        and(
+          eq(positionHistory.eventId, eventId),
+          lte(positionHistory.recordedAt, to),
+          or(gte(positionHistory.recordedAt, from), eq(positionHistory.kind, "mark"))
+        )
+      )
+      .orderBy(asc(positionHistory.recordedAt));
+  }
+
+  async getRaceLog(eventId: string, raceId?: string): Promise<RaceLogEntry[]> {
+    return db
+      .select()
+      .from(raceLogEntries)
+      .where(
+        raceId
+          ? and(eq(raceLogEntries.eventId, eventId), eq(raceLogEntries.raceId, raceId))
+          : eq(raceLogEntries.eventId, eventId)
+      )
+      .orderBy(asc(raceLogEntries.createdAt));
+  }
+
+  async createRaceLogEntry(entry: InsertRaceLogEntry): Promise<RaceLogEntry> {
+    const [newEntry] = await db.insert(raceLogEntries).values({
+      ...entry,
+      data: entry.data ?? null,
+    }).returning();
+    return newEntry;
+  }
+
+  async getAuditLog(filter: AuditLogFilter): Promise<AuditLogEntry[]> {
+    const conditions = [
+      filter.sailClubId ? eq(auditLogEntries.sailClubId, filter.sailClubId) : undefined,
+      filter.eventId ? eq(auditLogEntries.eventId, filter.eventId) : undefined,
+      filter.userId ? eq(auditLogEntries.userId, filter.userId) : undefined,
+      filter.entityType ? eq(auditLogEntries.entityType, filter.entityType) : undefined,
+    ];
+    return db
+      .select()
+      .from(auditLogEntries)
+      .where(and(...conditions))
+      .orderBy(desc(auditLogEntries.createdAt))
+      .limit(filter.limit);
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [newEntry] = await db.insert(auditLogEntries).values({
+      ...entry,
+      changes: entry.changes ?? null,
+    }).returning();
+    return newEntry;
+  }
 }
 
 export const databaseStorage = new DatabaseStorage();
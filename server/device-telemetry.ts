@@ -0,0 +1,46 @@
+import { storage } from "./storage";
+import { recordWeatherSample } from "./weather-collection";
+import type { Buoy, BuoyTelemetry, InsertBuoy } from "@shared/schema";
+
+/**
+ * Applies a validated telemetry packet from a buoy unit: position, motion, power
+ * and sensor readings go to the buoy row, the firmware version into hardwareConfig,
+ * and wind/current samples straight into weather history.
+ */
+export async function applyDeviceTelemetry(buoy: Buoy, telemetry: BuoyTelemetry): Promise<Buoy | undefined> {
+  const updates: Partial<InsertBuoy> = {
+    lastTelemetryAt: new Date(),
+  };
+
+  if (telemetry.lat !== undefined && telemetry.lng !== undefined) {
+    updates.lat = telemetry.lat;
+    updates.lng = telemetry.lng;
+  }
+  if (telemetry.heading !== undefined) updates.heading = telemetry.heading;
+  if (telemetry.speed !== undefined) updates.speed = telemetry.speed;
+  if (telemetry.battery !== undefined) updates.battery = telemetry.battery;
+  if (telemetry.signalStrength !== undefined) updates.signalStrength = telemetry.signalStrength;
+  if (telemetry.windSpeed !== undefined) updates.windSpeed = telemetry.windSpeed;
+  if (telemetry.windDirection !== undefined) updates.windDirection = telemetry.windDirection;
+  if (telemetry.currentSpeed !== undefined) updates.currentSpeed = telemetry.currentSpeed;
+  if (telemetry.currentDirection !== undefined) updates.currentDirection = telemetry.currentDirection;
+
+  if (telemetry.firmwareVersion && telemetry.firmwareVersion !== buoy.hardwareConfig?.firmwareVersion) {
+    updates.hardwareConfig = { ...buoy.hardwareConfig, firmwareVersion: telemetry.firmwareVersion };
+  }
+
+  const updated = await storage.updateBuoy(buoy.id, updates);
+
+  if (updated && telemetry.windSpeed !== undefined && telemetry.windDirection !== undefined) {
+    await recordWeatherSample(updated, {
+      windSpeed: telemetry.windSpeed,
+      windDirection: telemetry.windDirection,
+      gustSpeed: telemetry.gustSpeed,
+      currentSpeed: telemetry.currentSpeed,
+      currentDirection: telemetry.currentDirection,
+      sensorQuality: telemetry.sensorQuality,
+    });
+  }
+
+  return updated;
+}
@@ -3,7 +3,12 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { setupSession, seedSuperAdmin, seedBoatClasses } from "./auth";
-import { startWeatherCollection } from "./weather-collection";
+import { startBuoyCommandMonitor } from "./buoy-commands";
+import { startBuoyTracker } from "./buoy-tracker";
+import { startBuoySimulator, isBuoySimulatorEnabled } from "./buoy-simulator";
+import { setupBuoyTelemetry } from "./buoy-telemetry";
+import { startNmeaListeners, isNmeaListenerEnabled } from "./nmea-ingest";
+import { startPositionHistory } from "./position-history";
 
 const app = express();
 const httpServer = createServer(app);
@@ -29,7 +34,7 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
-setupSession(app);
+const sessionMiddleware = setupSession(app);
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -73,7 +78,16 @@ app.use((req, res, next) => {
   await seedBoatClasses();
   await registerRoutes(httpServer, app);
   
-  startWeatherCollection();
+  startBuoyCommandMonitor();
+  startBuoyTracker();
+  startPositionHistory();
+  if (isBuoySimulatorEnabled()) {
+    startBuoySimulator();
+  }
+  setupBuoyTelemetry(httpServer, sessionMiddleware);
+  if (isNmeaListenerEnabled()) {
+    startNmeaListeners();
+  }
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
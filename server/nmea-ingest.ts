@@ -0,0 +1,306 @@
+import dgram from "dgram";
+import net from "net";
+import { NmeaParser, type NmeaReading } from "./nmea";
+import type { AisTarget, InstrumentWind, NmeaSnapshot, OwnShipState } from "@shared/schema";
+
+// Committee boat NMEA 0183 feed, held per event. Sentences arrive from the
+// TCP/UDP listener (NMEA_TCP_PORT / NMEA_UDP_PORT on NMEA_HOST, feeding NMEA_EVENT_ID) or
+// through the API. Live sentences are stamped on arrival. A recorded log is
+// replayed on its own RMC/ZDA clock and shifted so that its end is now, which
+// leaves the state as it was at the end of the recording.
+
+// Wind is averaged so the course isn't chasing every gust reading
+const WIND_AVERAGE_MS = 30000;
+// Bounds the average of a log without a clock, where every sample has one stamp
+const MAX_WIND_SAMPLES = 600;
+// AIS class B transponders may report only every 3 minutes
+const AIS_STALE_MS = 10 * 60 * 1000;
+// A sentence is at most 82 characters; a client sending this much without a
+// line break is not talking NMEA
+const MAX_TCP_BUFFER = 4096;
+
+interface WindSample {
+  // True wind as an east/north vector in knots, blowing from windDirection
+  x: number;
+  y: number;
+  reference: InstrumentWind["reference"];
+  at: number;
+}
+
+interface EventNmeaState {
+  parser: NmeaParser;
+  ownShip: OwnShipState;
+  windSamples: WindSample[];
+  aisStatic: Map<number, Pick<AisTarget, "name" | "callSign" | "shipType">>;
+  aisTargets: Map<number, AisTarget>;
+}
+
+const eventStates: Map<string, EventNmeaState> = new Map();
+
+function getEventState(eventId: string): EventNmeaState {
+  let state = eventStates.get(eventId);
+  if (!state) {
+    state = {
+      parser: new NmeaParser(),
+      ownShip: { lat: null, lng: null, cog: null, sog: null, heading: null, updatedAt: null },
+      windSamples: [],
+      aisStatic: new Map(),
+      aisTargets: new Map(),
+    };
+    eventStates.set(eventId, state);
+  }
+  return state;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * True wind from an instrument reading. Angles are relative to the bow; an
+ * apparent reading has the boat's own motion taken out using SOG and COG.
+ */
+function toTrueWind(reading: Extract<NmeaReading, { kind: "wind" }>, ownShip: OwnShipState): { x: number; y: number } | null {
+  const heading = ownShip.heading ?? ownShip.cog;
+  if (heading === null) {
+    return null;
+  }
+
+  // Vector the wind blows from, in the earth frame
+  const from = toRadians(heading + reading.angle);
+  let x = Math.sin(from) * reading.speed;
+  let y = Math.cos(from) * reading.speed;
+
+  if (reading.reference === "apparent" && ownShip.sog && ownShip.cog !== null) {
+    // Apparent wind includes the headwind of the boat's own motion
+    const course = toRadians(ownShip.cog);
+    x -= Math.sin(course) * ownShip.sog;
+    y -= Math.cos(course) * ownShip.sog;
+  }
+  return { x, y };
+}
+
+function applyReading(state: EventNmeaState, reading: NmeaReading, now: Date): void {
+  const ownShip = state.ownShip;
+  const updatedAt = now.toISOString();
+
+  switch (reading.kind) {
+    case "position":
+      Object.assign(ownShip, {
+        lat: reading.lat,
+        lng: reading.lng,
+        cog: reading.cog ?? ownShip.cog,
+        sog: reading.sog ?? ownShip.sog,
+        updatedAt,
+      });
+      break;
+    case "course":
+      Object.assign(ownShip, { cog: reading.cog ?? ownShip.cog, sog: reading.sog ?? ownShip.sog, updatedAt });
+      break;
+    case "time":
+      break;
+    case "heading":
+      Object.assign(ownShip, { heading: reading.heading, updatedAt });
+      break;
+    case "wind": {
+      const vector = toTrueWind(reading, ownShip);
+      if (vector) {
+        const at = now.getTime();
+        state.windSamples = state.windSamples.filter(s => at - s.at <= WIND_AVERAGE_MS).slice(-(MAX_WIND_SAMPLES - 1));
+        state.windSamples.push({ ...vector, reference: reading.reference, at });
+      }
+      break;
+    }
+    case "ais_position":
+      if (reading.own) {
+        Object.assign(ownShip, { lat: reading.lat, lng: reading.lng, cog: reading.cog, sog: reading.sog, heading: reading.heading ?? ownShip.heading, updatedAt });
+      } else {
+        const details = state.aisStatic.get(reading.mmsi);
+        state.aisTargets.set(reading.mmsi, {
+          mmsi: reading.mmsi,
+          name: details?.name ?? null,
+          callSign: details?.callSign ?? null,
+          shipType: details?.shipType ?? null,
+          lat: reading.lat,
+          lng: reading.lng,
+          cog: reading.cog,
+          sog: reading.sog,
+          heading: reading.heading,
+          updatedAt,
+        });
+      }
+      break;
+    case "ais_static": {
+      if (reading.own) break;
+      // Class B sends name and type in separate messages, so merge what arrives
+      const known = state.aisStatic.get(reading.mmsi) ?? { name: null, callSign: null, shipType: null };
+      const details = {
+        name: reading.name ?? known.name,
+        callSign: reading.callSign ?? known.callSign,
+        shipType: reading.shipType ?? known.shipType,
+      };
+      state.aisStatic.set(reading.mmsi, details);
+      const target = state.aisTargets.get(reading.mmsi);
+      if (target) {
+        Object.assign(target, details);
+      }
+      break;
+    }
+  }
+}
+
+export interface NmeaIngestResult {
+  sentences: number;
+  readings: number;
+}
+
+// Moves what a replayed log stamped by `offsetMs`, from log time to now
+function shiftReplayedState(state: EventNmeaState, offsetMs: number, ownShipUpdated: boolean, aisUpdated: Set<number>): void {
+  const shift = (iso: string) => new Date(new Date(iso).getTime() + offsetMs).toISOString();
+  state.windSamples.forEach(sample => { sample.at += offsetMs; });
+  if (ownShipUpdated && state.ownShip.updatedAt) {
+    state.ownShip.updatedAt = shift(state.ownShip.updatedAt);
+  }
+  aisUpdated.forEach(mmsi => {
+    const target = state.aisTargets.get(mmsi);
+    if (target) target.updatedAt = shift(target.updatedAt);
+  });
+}
+
+/**
+ * Feeds a block of NMEA text (one sentence per line) into an event's state.
+ * A `recording` replaces the instrument wind and is replayed on the log's own
+ * clock; readings before its first RMC/ZDA time are skipped. A recording
+ * without a clock is stamped on arrival like live sentences.
+ */
+export function ingestNmea(eventId: string, text: string, options: { recording?: boolean } = {}): NmeaIngestResult {
+  const state = getEventState(eventId);
+  const now = new Date();
+  const result: NmeaIngestResult = { sentences: 0, readings: 0 };
+  const replay = !!options.recording && /\$..(RMC|ZDA),/.test(text);
+
+  let logTime: Date | null = null;
+  let ownShipUpdated = false;
+  const aisUpdated = new Set<number>();
+  if (replay) {
+    state.windSamples = [];
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    result.sentences++;
+    const reading = state.parser.parseLine(line);
+    if (!reading) continue;
+
+    if (replay) {
+      if ((reading.kind === "time" || reading.kind === "position") && reading.time) {
+        logTime = reading.time;
+      }
+      if (!logTime) continue;
+      if (reading.kind === "ais_position" && !reading.own) {
+        aisUpdated.add(reading.mmsi);
+      } else if (reading.kind !== "wind" && reading.kind !== "time" && reading.kind !== "ais_static") {
+        ownShipUpdated = true;
+      }
+    }
+    applyReading(state, reading, replay ? logTime! : now);
+    result.readings++;
+  }
+
+  if (replay && logTime) {
+    shiftReplayedState(state, now.getTime() - logTime.getTime(), ownShipUpdated, aisUpdated);
+  }
+  return result;
+}
+
+function averageWind(samples: WindSample[]): InstrumentWind | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  const x = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const y = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const latest = samples[samples.length - 1];
+  return {
+    windDirection: ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360,
+    windSpeed: Math.hypot(x, y),
+    sampleCount: samples.length,
+    reference: latest.reference,
+    updatedAt: new Date(latest.at).toISOString(),
+  };
+}
+
+export function getNmeaSnapshot(eventId: string): NmeaSnapshot {
+  const state = eventStates.get(eventId);
+  if (!state) {
+    return { ownShip: null, wind: null, aisTargets: [] };
+  }
+
+  const now = Date.now();
+  state.windSamples = state.windSamples.filter(s => now - s.at <= WIND_AVERAGE_MS);
+  Array.from(state.aisTargets.values())
+    .filter(target => now - new Date(target.updatedAt).getTime() > AIS_STALE_MS)
+    .forEach(target => state.aisTargets.delete(target.mmsi));
+
+  return {
+    ownShip: state.ownShip.updatedAt ? { ...state.ownShip } : null,
+    wind: averageWind(state.windSamples),
+    aisTargets: Array.from(state.aisTargets.values()),
+  };
+}
+
+export function isNmeaListenerEnabled(): boolean {
+  return !!process.env.NMEA_EVENT_ID && !!(process.env.NMEA_TCP_PORT || process.env.NMEA_UDP_PORT);
+}
+
+/**
+ * Listens for sentences from the committee boat's multiplexer. TCP clients and
+ * UDP datagrams may carry several sentences; a TCP line can span packets.
+ */
+export function startNmeaListeners(): void {
+  const eventId = process.env.NMEA_EVENT_ID!;
+  // Only the local multiplexer by default; set NMEA_HOST=0.0.0.0 to take feeds off the boat's network
+  const host = process.env.NMEA_HOST || "127.0.0.1";
+  const tcpPort = parseInt(process.env.NMEA_TCP_PORT || "", 10);
+  const udpPort = parseInt(process.env.NMEA_UDP_PORT || "", 10);
+
+  if (!isNaN(tcpPort)) {
+    const server = net.createServer((socket) => {
+      let buffered = "";
+      socket.setEncoding("ascii");
+      socket.on("data", (chunk: string) => {
+        buffered += chunk;
+        const end = buffered.lastIndexOf("\n");
+        if (end >= 0) {
+          ingestNmea(eventId, buffered.slice(0, end));
+          buffered = buffered.slice(end + 1);
+        }
+        if (buffered.length > MAX_TCP_BUFFER) {
+          console.error("NMEA TCP client sent an over-long line, closing");
+          socket.destroy();
+        }
+      });
+      socket.on("error", (error) => {
+        console.error("NMEA TCP client error:", error.message);
+      });
+    });
+    server.on("error", (error) => {
+      console.error("NMEA TCP listener error:", error.message);
+    });
+    server.listen(tcpPort, host, () => {
+      console.log(`NMEA TCP listener on ${host}:${tcpPort} feeding event ${eventId}`);
+    });
+  }
+
+  if (!isNaN(udpPort)) {
+    const socket = dgram.createSocket("udp4");
+    socket.on("message", (message) => {
+      ingestNmea(eventId, message.toString("ascii"));
+    });
+    socket.on("error", (error) => {
+      console.error("NMEA UDP listener error:", error.message);
+    });
+    socket.bind(udpPort, host, () => {
+      console.log(`NMEA UDP listener on ${host}:${udpPort} feeding event ${eventId}`);
+    });
+  }
+}
@@ -0,0 +1,306 @@
+// NMEA 0183 sentence parsing for the committee boat feed: own ship position,
+// course and heading (RMC, VTG, HDG), UTC time (RMC, ZDA), wind instruments
+// (MWV) and AIS traffic (AIVDM/AIVDO). Anything else is ignored.
+
+const KMH_TO_KNOTS = 0.539957;
+const MPS_TO_KNOTS = 1.943844;
+
+export type NmeaReading =
+  | { kind: "position"; lat: number; lng: number; cog: number | null; sog: number | null; time: Date | null }
+  | { kind: "time"; time: Date }
+  | { kind: "course"; cog: number | null; sog: number | null }
+  | { kind: "heading"; heading: number }
+  | { kind: "wind"; angle: number; reference: "true" | "apparent"; speed: number }
+  | { kind: "ais_position"; own: boolean; mmsi: number; lat: number; lng: number; cog: number | null; sog: number | null; heading: number | null }
+  | { kind: "ais_static"; own: boolean; mmsi: number; name?: string; callSign?: string; shipType?: number };
+
+interface NmeaSentence {
+  type: string;
+  fields: string[];
+}
+
+function computeChecksum(body: string): number {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum;
+}
+
+/** Splits a sentence into its type and fields, or null when malformed or the checksum fails. */
+function splitSentence(line: string): NmeaSentence | null {
+  const trimmed = line.trim();
+  const start = trimmed.search(/[$!]/);
+  if (start < 0) {
+    return null;
+  }
+
+  const sentence = trimmed.slice(start);
+  const star = sentence.indexOf("*");
+  const body = sentence.slice(1, star >= 0 ? star : undefined);
+  if (star >= 0) {
+    const expected = parseInt(sentence.slice(star + 1, star + 3), 16);
+    if (isNaN(expected) || expected !== computeChecksum(body)) {
+      return null;
+    }
+  }
+
+  const [address, ...fields] = body.split(",");
+  if (address.length < 5 || address.startsWith("P")) {
+    return null;
+  }
+  // Drop the two-letter talker ID: GPRMC, IIMWV and AIVDM all parse the same
+  return { type: address.slice(2), fields };
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+}
+
+/** ddmm.mmmm / dddmm.mmmm with hemisphere to signed decimal degrees. */
+function parseCoordinate(value: string | undefined, hemisphere: string | undefined): number | null {
+  const raw = parseNumber(value);
+  if (raw === null || !hemisphere) {
+    return null;
+  }
+  const degrees = Math.floor(raw / 100);
+  const decimal = degrees + (raw - degrees * 100) / 60;
+  return hemisphere === "S" || hemisphere === "W" ? -decimal : decimal;
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/** hhmmss.ss on the given UTC day, or null when either part is missing or out of range. */
+function parseUtcTime(value: string | undefined, day: number | null, month: number | null, year: number | null): Date | null {
+  const match = /^(\d{2})(\d{2})(\d{2}(?:\.\d+)?)$/.exec(value?.trim() ?? "");
+  if (!match || day === null || month === null || year === null) {
+    return null;
+  }
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (hours > 23 || minutes > 59 || seconds >= 61 || day < 1 || day > 31 || month < 1 || month > 12) {
+    return null;
+  }
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, 0) + Math.round(seconds * 1000));
+}
+
+function parseRmc(fields: string[]): NmeaReading | null {
+  // ddmmyy; two-digit years are this century
+  const date = /^(\d{2})(\d{2})(\d{2})$/.exec(fields[8]?.trim() ?? "");
+  const time = date ? parseUtcTime(fields[0], Number(date[1]), Number(date[2]), 2000 + Number(date[3])) : null;
+  if (fields[1] !== "A") {
+    // No fix, but the receiver clock still dates the log
+    return time ? { kind: "time", time } : null;
+  }
+  const lat = parseCoordinate(fields[2], fields[3]);
+  const lng = parseCoordinate(fields[4], fields[5]);
+  if (lat === null || lng === null) {
+    return time ? { kind: "time", time } : null;
+  }
+  return { kind: "position", lat, lng, sog: parseNumber(fields[6]), cog: parseNumber(fields[7]), time };
+}
+
+function parseZda(fields: string[]): NmeaReading | null {
+  const time = parseUtcTime(fields[0], parseNumber(fields[1]), parseNumber(fields[2]), parseNumber(fields[3]));
+  return time ? { kind: "time", time } : null;
+}
+
+function parseVtg(fields: string[]): NmeaReading | null {
+  const cog = parseNumber(fields[0]);
+  const sogKnots = parseNumber(fields[4]);
+  const sogKmh = parseNumber(fields[6]);
+  const sog = sogKnots ?? (sogKmh !== null ? sogKmh * KMH_TO_KNOTS : null);
+  if (cog === null && sog === null) {
+    return null;
+  }
+  return { kind: "course", cog, sog };
+}
+
+function parseHdg(fields: string[]): NmeaReading | null {
+  const magnetic = parseNumber(fields[0]);
+  if (magnetic === null) {
+    return null;
+  }
+  const signed = (value: string | undefined, direction: string | undefined) =>
+    (parseNumber(value) ?? 0) * (direction === "W" ? -1 : 1);
+  const heading = magnetic + signed(fields[1], fields[2]) + signed(fields[3], fields[4]);
+  return { kind: "heading", heading: normalizeDegrees(heading) };
+}
+
+function parseMwv(fields: string[]): NmeaReading | null {
+  const angle = parseNumber(fields[0]);
+  const speed = parseNumber(fields[2]);
+  if (angle === null || speed === null || fields[4] !== "A") {
+    return null;
+  }
+  const unit = fields[3];
+  const knots = unit === "M" ? speed * MPS_TO_KNOTS : unit === "K" ? speed * KMH_TO_KNOTS : speed;
+  return { kind: "wind", angle: normalizeDegrees(angle), reference: fields[1] === "T" ? "true" : "apparent", speed: knots };
+}
+
+// AIS payloads are six-bit ASCII armoured bit strings (ITU-R M.1371)
+
+function payloadToBits(payload: string, fillBits: number): string {
+  let bits = "";
+  for (let i = 0; i < payload.length; i++) {
+    let value = payload.charCodeAt(i) - 48;
+    if (value > 40) value -= 8;
+    bits += value.toString(2).padStart(6, "0");
+  }
+  return fillBits > 0 ? bits.slice(0, -fillBits) : bits;
+}
+
+function readUnsigned(bits: string, start: number, length: number): number {
+  return parseInt(bits.slice(start, start + length) || "0", 2);
+}
+
+function readSigned(bits: string, start: number, length: number): number {
+  const value = readUnsigned(bits, start, length);
+  return bits[start] === "1" ? value - 2 ** length : value;
+}
+
+function readText(bits: string, start: number, length: number): string {
+  let text = "";
+  for (let i = start; i + 6 <= Math.min(start + length, bits.length); i += 6) {
+    const value = readUnsigned(bits, i, 6);
+    text += String.fromCharCode(value < 32 ? value + 64 : value);
+  }
+  return text.replace(/@.*$/, "").trim();
+}
+
+function decodeAisPosition(bits: string, own: boolean, offsets: { sog: number; lng: number; lat: number; cog: number; heading: number }): NmeaReading | null {
+  const lng = readSigned(bits, offsets.lng, 28) / 600000;
+  const lat = readSigned(bits, offsets.lat, 27) / 600000;
+  // 181 and 91 degrees mean "not available"
+  if (Math.abs(lng) > 180 || Math.abs(lat) > 90) {
+    return null;
+  }
+  const sog = readUnsigned(bits, offsets.sog, 10);
+  const cog = readUnsigned(bits, offsets.cog, 12);
+  const heading = readUnsigned(bits, offsets.heading, 9);
+  return {
+    kind: "ais_position",
+    own,
+    mmsi: readUnsigned(bits, 8, 30),
+    lat,
+    lng,
+    sog: sog === 1023 ? null : sog / 10,
+    cog: cog >= 3600 ? null : cog / 10,
+    heading: heading === 511 ? null : heading,
+  };
+}
+
+export function decodeAisMessage(bits: string, own: boolean): NmeaReading | null {
+  const messageType = readUnsigned(bits, 0, 6);
+  const mmsi = readUnsigned(bits, 8, 30);
+
+  switch (messageType) {
+    case 1:
+    case 2:
+    case 3:
+      return bits.length >= 137 ? decodeAisPosition(bits, own, { sog: 50, lng: 61, lat: 89, cog: 116, heading: 128 }) : null;
+    case 18:
+      return bits.length >= 133 ? decodeAisPosition(bits, own, { sog: 46, lng: 57, lat: 85, cog: 112, heading: 124 }) : null;
+    case 5:
+      if (bits.length < 240) return null;
+      return {
+        kind: "ais_static",
+        own,
+        mmsi,
+        callSign: readText(bits, 70, 42) || undefined,
+        name: readText(bits, 112, 120) || undefined,
+        shipType: readUnsigned(bits, 232, 8) || undefined,
+      };
+    case 24: {
+      const part = readUnsigned(bits, 38, 2);
+      if (part === 0 && bits.length >= 160) {
+        return { kind: "ais_static", own, mmsi, name: readText(bits, 40, 120) || undefined };
+      }
+      if (part === 1 && bits.length >= 132) {
+        return {
+          kind: "ais_static",
+          own,
+          mmsi,
+          shipType: readUnsigned(bits, 40, 8) || undefined,
+          callSign: readText(bits, 90, 42) || undefined,
+        };
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a stream of NMEA 0183 sentences. AIS messages split over several
+ * sentences are held until their last fragment arrives, so one parser should be
+ * kept per source.
+ */
+export class NmeaParser {
+  private fragments: Map<string, { parts: string[]; received: number }> = new Map();
+
+  parseLine(line: string): NmeaReading | null {
+    const sentence = splitSentence(line);
+    if (!sentence) {
+      return null;
+    }
+
+    switch (sentence.type) {
+      case "RMC":
+        return parseRmc(sentence.fields);
+      case "VTG":
+        return parseVtg(sentence.fields);
+      case "HDG":
+        return parseHdg(sentence.fields);
+      case "MWV":
+        return parseMwv(sentence.fields);
+      case "ZDA":
+        return parseZda(sentence.fields);
+      case "VDM":
+      case "VDO":
+        return this.parseAis(sentence.fields, sentence.type === "VDO");
+      default:
+        return null;
+    }
+  }
+
+  private parseAis(fields: string[], own: boolean): NmeaReading | null {
+    const count = parseNumber(fields[0]);
+    const number = parseNumber(fields[1]);
+    const payload = fields[4];
+    const fillBits = parseNumber(fields[5]) ?? 0;
+    if (count === null || number === null || !payload || number < 1 || number > count) {
+      return null;
+    }
+
+    if (count === 1) {
+      return decodeAisMessage(payloadToBits(payload, fillBits), own);
+    }
+
+    const key = `${fields[2]}:${fields[3]}:${count}`;
+    if (number === 1) {
+      this.fragments.set(key, { parts: new Array(count).fill(""), received: 0 });
+    }
+    const pending = this.fragments.get(key);
+    if (!pending) {
+      return null;
+    }
+    pending.parts[number - 1] = payload;
+    pending.received++;
+    if (number < count) {
+      return null;
+    }
+
+    this.fragments.delete(key);
+    if (pending.received !== count) {
+      return null;
+    }
+    return decodeAisMessage(payloadToBits(pending.parts.join(""), fillBits), own);
+  }
+}
@@ -0,0 +1,134 @@
+import { storage } from "./storage";
+import { onBuoyUpdate, onBuoyRemoved } from "./buoy-events";
+import type { Buoy, InsertPositionRecord, Mark, TrackedBoat } from "@shared/schema";
+
+// Records where buoys, marks and tracked boats were over time so a race can be
+// replayed afterwards. Buoys and boats report far more often than a replay
+// needs, so they are thinned per entity; marks get a record on every edit.
+
+const BUOY_SAMPLE_INTERVAL_MS = 10000;
+const BOAT_SAMPLE_INTERVAL_MS = 5000;
+
+interface BuoySample {
+  at: number;
+  state: string;
+}
+
+const lastBuoySamples: Map<string, BuoySample> = new Map();
+const lastBoatSampleAt: Map<string, number> = new Map();
+
+let unsubscribers: Array<() => void> = [];
+
+async function saveRecords(records: InsertPositionRecord[]): Promise<void> {
+  try {
+    await storage.createPositionRecords(records);
+  } catch (error) {
+    console.error("Error recording position history:", error);
+  }
+}
+
+function recordBuoy(buoy: Buoy): void {
+  if (!buoy.eventId || buoy.lat === null || buoy.lng === null) {
+    return;
+  }
+
+  // A state change (e.g. holding -> fault) is always kept, whatever the interval
+  const now = Date.now();
+  const last = lastBuoySamples.get(buoy.id);
+  if (last && now - last.at < BUOY_SAMPLE_INTERVAL_MS && last.state === buoy.state) {
+    return;
+  }
+  lastBuoySamples.set(buoy.id, { at: now, state: buoy.state });
+
+  void saveRecords([{
+    eventId: buoy.eventId,
+    kind: "buoy",
+    entityId: buoy.id,
+    label: buoy.name,
+    lat: buoy.lat,
+    lng: buoy.lng,
+    heading: buoy.heading,
+    speed: buoy.speed,
+    state: buoy.state,
+    recordedAt: new Date(now),
+  }]);
+}
+
+/**
+ * Records a mark as it now stands, or that it was removed. The full mark row is
+ * kept so a replay can rebuild the course at any point.
+ */
+export async function recordMarkChange(mark: Mark, removed = false): Promise<void> {
+  try {
+    const event = await storage.getEventByCourseId(mark.courseId);
+    if (!event) {
+      return;
+    }
+    await storage.createPositionRecords([{
+      eventId: event.id,
+      kind: "mark",
+      entityId: mark.id,
+      label: mark.name,
+      lat: mark.lat,
+      lng: mark.lng,
+      state: removed ? "removed" : null,
+      data: { ...mark },
+      recordedAt: new Date(),
+    }]);
+  } catch (error) {
+    console.error(`Error recording history for mark ${mark.id}:`, error);
+  }
+}
+
+/** Records a batch of tracked boat fixes against every event watching the feed. */
+export function recordBoatPositions(eventIds: Iterable<string>, boats: TrackedBoat[]): void {
+  const events = Array.from(eventIds);
+  if (events.length === 0) {
+    return;
+  }
+
+  const records: InsertPositionRecord[] = [];
+  for (const boat of boats) {
+    const at = boat.timestamp.getTime();
+    if (at - (lastBoatSampleAt.get(boat.id) ?? 0) < BOAT_SAMPLE_INTERVAL_MS) {
+      continue;
+    }
+    lastBoatSampleAt.set(boat.id, at);
+
+    for (const eventId of events) {
+      records.push({
+        eventId,
+        kind: "boat",
+        entityId: boat.id,
+        label: boat.sailNumber,
+        lat: boat.lat,
+        lng: boat.lng,
+        heading: boat.heading,
+        speed: boat.speed,
+        state: boat.source,
+        data: boat.fleetId ? { fleetId: boat.fleetId } : null,
+        recordedAt: boat.timestamp,
+      });
+    }
+  }
+
+  if (records.length > 0) {
+    void saveRecords(records);
+  }
+}
+
+export function startPositionHistory(): void {
+  if (unsubscribers.length > 0) {
+    console.log("Position history already running");
+    return;
+  }
+
+  console.log("Starting position history");
+
+  unsubscribers = [
+    onBuoyUpdate(recordBuoy),
+    onBuoyRemoved((buoyId) => {
+      lastBuoySamples.delete(buoyId);
+    }),
+  ];
+}
@@ -0,0 +1,63 @@
+import type { Race, RaceFinish } from "@shared/schema";
+
+// Finishes can still be corrected after the race is marked finished
+const RECORDING_STATUSES = ["racing", "finished"];
+
+export function canRecordFinishes(race: Race): boolean {
+  return RECORDING_STATUSES.includes(race.status);
+}
+
+/** "gre  123" and "GRE 123" are the same boat. */
+export function normalizeSailNumber(sailNumber: string): string {
+  return sailNumber.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+export function findFinishBySailNumber(
+  finishes: RaceFinish[],
+  sailNumber: string,
+  excludeId?: string
+): RaceFinish | undefined {
+  const normalized = normalizeSailNumber(sailNumber);
+  return finishes.find(f =>
+    f.id !== excludeId && f.sailNumber !== null && normalizeSailNumber(f.sailNumber) === normalized
+  );
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Finish sheet as CSV, in finish order. Boats with a scoring code get no place;
+ * elapsed time is measured from the race start signal.
+ */
+export function buildFinishesCsv(race: Race, finishes: RaceFinish[]): string {
+  const rows = [["Place", "Sail Number", "Finish Time (UTC)", "Elapsed", "Code", "Source"]];
+  let place = 0;
+
+  for (const finish of finishes) {
+    const placed = finish.finishTime && !finish.scoringCode;
+    const elapsed = finish.finishTime && race.startTime
+      ? formatElapsed(finish.finishTime.getTime() - race.startTime.getTime())
+      : "";
+
+    rows.push([
+      placed ? String(++place) : "",
+      finish.sailNumber ?? "",
+      finish.finishTime ? finish.finishTime.toISOString() : "",
+      elapsed,
+      finish.scoringCode ?? "",
+      finish.source,
+    ]);
+  }
+
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
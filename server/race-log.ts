@@ -0,0 +1,232 @@
+import { storage } from "./storage";
+import type { Buoy, BuoyCommandType, Mark, Race, RaceLogEntry, RaceLogEntryWithAuthor, RaceLogKind, RaceStatus, StartSequence } from "@shared/schema";
+
+// The race committee's official record: signals, course changes, mark moves,
+// buoy commands and notes, each with the time, who made it and the wind then.
+// Actions the server carries out are recorded here as they happen; decisions
+// made on the client (course changes, shortening, notes) arrive through the
+// race log API. Entries are only ever added.
+
+const METERS_PER_DEGREE_LAT = 110540;
+
+export interface RaceLogInput {
+  eventId: string;
+  kind: RaceLogKind;
+  summary: string;
+  raceId?: string | null;
+  data?: Record<string, unknown> | null;
+  windDirection?: number | null;
+  windSpeed?: number | null;
+  userId?: string | null;
+}
+
+/** Mean wind over the buoys reporting it. Directions are averaged as vectors, so 350° and 10° give 0°. */
+export function meanBuoyWind(buoys: Buoy[]): { windDirection: number; windSpeed: number } | null {
+  const reporting = buoys.filter(b => b.windDirection !== null && b.windSpeed !== null);
+  if (reporting.length === 0) {
+    return null;
+  }
+  let north = 0;
+  let east = 0;
+  for (const buoy of reporting) {
+    const rad = (buoy.windDirection! * Math.PI) / 180;
+    north += Math.cos(rad);
+    east += Math.sin(rad);
+  }
+  const direction = (Math.atan2(east, north) * 180) / Math.PI;
+  return {
+    windDirection: Math.round(((direction % 360) + 360) % 360),
+    windSpeed: Math.round((reporting.reduce((sum, b) => sum + b.windSpeed!, 0) / reporting.length) * 10) / 10,
+  };
+}
+
+// Entries made without a race are filed under the one under way, if any
+function currentRaceId(races: Race[]): string | null {
+  const race = races.find(r => r.status === "racing") ?? races.find(r => r.status === "in_sequence");
+  return race?.id ?? null;
+}
+
+/** Adds an entry, filling in the race under way and the buoys' wind when the caller gives none. */
+export async function addRaceLogEntry(input: RaceLogInput): Promise<RaceLogEntry> {
+  const needsWind = input.windDirection == null || input.windSpeed == null;
+  const [buoys, races] = await Promise.all([
+    needsWind ? storage.getBuoysForEvent(input.eventId) : Promise.resolve([]),
+    input.raceId ? Promise.resolve([]) : storage.getRacesForEvent(input.eventId),
+  ]);
+  const wind = needsWind ? meanBuoyWind(buoys) : null;
+
+  return storage.createRaceLogEntry({
+    eventId: input.eventId,
+    raceId: input.raceId ?? currentRaceId(races),
+    kind: input.kind,
+    summary: input.summary,
+    data: input.data ?? null,
+    windDirection: input.windDirection ?? wind?.windDirection ?? null,
+    windSpeed: input.windSpeed ?? wind?.windSpeed ?? null,
+    createdBy: input.userId ?? null,
+  });
+}
+
+/** Records an entry for an action that has already happened; a failure is logged, not raised. */
+export function recordRaceLog(input: RaceLogInput): void {
+  addRaceLogEntry(input).catch(error => {
+    console.error(`Error recording race log entry (${input.kind}):`, error);
+  });
+}
+
+function distanceMeters(fromLat: number, fromLng: number, toLat: number, toLng: number): number {
+  const north = (toLat - fromLat) * METERS_PER_DEGREE_LAT;
+  const east = (toLng - fromLng) * METERS_PER_DEGREE_LAT * Math.cos(fromLat * Math.PI / 180);
+  return Math.sqrt(north * north + east * east);
+}
+
+function formatPosition(lat: number, lng: number): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+function formatUtcTime(iso: string | Date): string {
+  return new Date(iso).toISOString().slice(11, 19);
+}
+
+/** A mark moved to a new position. */
+export async function recordMarkMove(previous: Mark, mark: Mark, userId: string | undefined): Promise<void> {
+  if (previous.lat === mark.lat && previous.lng === mark.lng) {
+    return;
+  }
+  try {
+    const event = await storage.getEventByCourseId(mark.courseId);
+    if (!event) {
+      return;
+    }
+    const moved = Math.round(distanceMeters(previous.lat, previous.lng, mark.lat, mark.lng));
+    recordRaceLog({
+      eventId: event.id,
+      kind: "mark_move",
+      summary: `${mark.name} moved ${moved} m`,
+      data: {
+        markId: mark.id,
+        markName: mark.name,
+        previous: { lat: previous.lat, lng: previous.lng },
+        next: { lat: mark.lat, lng: mark.lng },
+        distanceMeters: moved,
+      },
+      userId,
+    });
+  } catch (error) {
+    console.error(`Error recording race log for mark ${mark.id}:`, error);
+  }
+}
+
+const BUOY_COMMAND_LABELS: Record<BuoyCommandType, string> = {
+  move_to_target: "sent to",
+  hold_position: "told to hold position",
+  cancel: "command cancelled",
+};
+
+/** A command queued for one of the event's buoys. */
+export function recordBuoyCommand(
+  buoy: Buoy,
+  command: BuoyCommandType,
+  target: { lat: number; lng: number } | null,
+  commandId: string,
+  userId: string | undefined
+): void {
+  if (!buoy.eventId) {
+    return;
+  }
+  recordRaceLog({
+    eventId: buoy.eventId,
+    kind: "buoy_command",
+    summary: `${buoy.name} ${BUOY_COMMAND_LABELS[command]}${target ? ` ${formatPosition(target.lat, target.lng)}` : ""}`,
+    data: { buoyId: buoy.id, buoyName: buoy.name, command, target, commandId },
+    userId,
+  });
+}
+
+export type StartSequenceAction = "started" | "postponed" | "general_recall" | "resumed" | "cancelled";
+
+/** A start sequence action: the signals as scheduled, or AP, First Substitute, their removal or a cancellation. */
+export function recordStartSequenceSignal(
+  sequence: StartSequence,
+  action: StartSequenceAction,
+  userId: string | undefined,
+  fleetIndex?: number
+): void {
+  const starts = sequence.fleets
+    .filter(f => f.startAt !== null)
+    .map(f => `${f.name} ${formatUtcTime(f.startAt!)}`)
+    .join(", ");
+  const summaries: Record<StartSequenceAction, string> = {
+    started: `Start sequence, ${sequence.preparatoryFlag} preparatory. Starts: ${starts}`,
+    postponed: "AP: start postponed",
+    general_recall: `First Substitute: general recall of ${sequence.fleets[fleetIndex ?? 0]?.name ?? "fleet"}`,
+    resumed: `Postponement signal removed. Starts: ${starts}`,
+    cancelled: "Start sequence cancelled",
+  };
+  recordRaceLog({
+    eventId: sequence.eventId,
+    kind: "signal",
+    summary: summaries[action],
+    data: { startSequenceId: sequence.id, action, fleetIndex: fleetIndex ?? null, fleets: sequence.fleets },
+    userId,
+  });
+}
+
+const RACE_STATUS_SUMMARIES: Partial<Record<RaceStatus, string>> = {
+  scheduled: "postponed",
+  in_sequence: "in sequence",
+  racing: "started",
+  finished: "finished",
+};
+
+/**
+ * A race moving through its lifecycle. Abandonment is recorded with its signal
+ * by the abandon workflow instead.
+ */
+export function recordRaceStatus(race: Race, previousStatus: string, userId: string | undefined): void {
+  const label = RACE_STATUS_SUMMARIES[race.status as RaceStatus];
+  if (!label || race.status === previousStatus) {
+    return;
+  }
+  recordRaceLog({
+    eventId: race.eventId,
+    raceId: race.id,
+    kind: "race_status",
+    summary: `Race ${race.raceNumber}${race.fleet ? ` (${race.fleet})` : ""} ${label}`,
+    data: { status: race.status, previousStatus },
+    userId,
+  });
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** The log as CSV, oldest first, for protest hearings. */
+export function buildRaceLogCsv(entries: RaceLogEntryWithAuthor[], races: Race[]): string {
+  const raceNumbers = new Map(races.map(r => [r.id, r.raceNumber]));
+  const rows = [["Time (UTC)", "Race", "Kind", "Entry", "By", "Wind Direction", "Wind Speed (kn)"]];
+
+  for (const entry of entries) {
+    const raceNumber = entry.raceId ? raceNumbers.get(entry.raceId) : undefined;
+    rows.push([
+      new Date(entry.createdAt).toISOString(),
+      raceNumber !== undefined ? String(raceNumber) : "",
+      entry.kind,
+      entry.summary,
+      entry.createdByName ?? "",
+      entry.windDirection !== null ? String(Math.round(entry.windDirection)) : "",
+      entry.windSpeed !== null ? entry.windSpeed.toFixed(1) : "",
+    ]);
+  }
+
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/** Entries with the username of whoever made them. */
+export async function withAuthors(entries: RaceLogEntry[]): Promise<RaceLogEntryWithAuthor[]> {
+  const userIds = Array.from(new Set(entries.flatMap(e => (e.createdBy ? [e.createdBy] : []))));
+  const users = await Promise.all(userIds.map(id => storage.getUser(id)));
+  const names = new Map(users.flatMap(u => (u ? [[u.id, u.username] as const] : [])));
+  return entries.map(e => ({ ...e, createdByName: e.createdBy ? names.get(e.createdBy) ?? null : null }));
+}
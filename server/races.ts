@@ -0,0 +1,82 @@
+import { storage } from "./storage";
+import { buildSnapshotCourseData, snapshotCategoryForShape } from "./course-snapshots";
+import type { Event, InsertRace, Race, RaceStatus, User } from "@shared/schema";
+
+// Which statuses a race can move to from each status
+const ALLOWED_TRANSITIONS: Record<string, RaceStatus[]> = {
+  scheduled: ["in_sequence", "racing", "abandoned"],
+  // Back to scheduled covers a postponement before the start
+  in_sequence: ["scheduled", "racing", "abandoned"],
+  racing: ["finished", "abandoned"],
+};
+
+export function canTransitionRace(race: Race, status: RaceStatus): boolean {
+  return race.status === status || (ALLOWED_TRANSITIONS[race.status]?.includes(status) ?? false);
+}
+
+export async function getNextRaceNumber(eventId: string): Promise<number> {
+  const races = await storage.getRacesForEvent(eventId);
+  return races.reduce((max, r) => Math.max(max, r.raceNumber), 0) + 1;
+}
+
+/**
+ * Freezes the event's current course into a "race" course snapshot so the course
+ * actually sailed is kept even after the live course is moved for the next race.
+ * Returns null when the event has no course yet.
+ */
+export async function freezeRaceCourse(race: Race, event: Event, user: User): Promise<string | null> {
+  if (!event.courseId) {
+    return null;
+  }
+
+  const [course, marks, club] = await Promise.all([
+    storage.getCourse(event.courseId),
+    storage.getMarksByCourse(event.courseId),
+    storage.getSailClub(event.sailClubId),
+  ]);
+  if (!course) {
+    return null;
+  }
+
+  const snapshot = await storage.createCourseSnapshot({
+    name: `${event.name} - Race ${race.raceNumber}${race.fleet ? ` (${race.fleet})` : ""}`,
+    ownerId: user.id,
+    ownerUsername: user.username,
+    sailClubId: event.sailClubId,
+    sailClubName: club?.name ?? null,
+    visibilityScope: "race",
+    category: snapshotCategoryForShape(course.shape),
+    description: null,
+    thumbnailSvg: null,
+    ...buildSnapshotCourseData(course, marks),
+  });
+
+  return snapshot.id;
+}
+
+/**
+ * Builds the update for a status change: the course is frozen when the race
+ * starts, and start/finish times are filled in if not already set.
+ */
+export async function getRaceStatusUpdate(
+  race: Race,
+  status: RaceStatus,
+  event: Event,
+  user: User
+): Promise<Partial<InsertRace>> {
+  if (status === race.status) {
+    return {};
+  }
+
+  const now = new Date();
+  const update: Partial<InsertRace> = { status };
+
+  if (status === "racing") {
+    update.startTime = race.startTime ?? now;
+    update.courseSnapshotId = (await freezeRaceCourse(race, event, user)) ?? race.courseSnapshotId;
+  } else if (status === "finished") {
+    update.finishedAt = now;
+  }
+
+  return update;
+}
@@ -1,5 +1,6 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
+import type { SessionData } from "express-session";
 import { eq } from "drizzle-orm";
 import { storage } from "./storage";
 import { db } from "./db";
@@ -15,9 +16,25 @@ import {
   insertBoatClassSchema,
   insertBuoyWeatherHistorySchema,
   snapshotMarkSchema,
+  buoyCommandTypeSchema,
+  buoyCommandReportSchema,
+  buoyTelemetrySchema,
+  preparatoryFlagSchema,
+  startSequencePresetSchema,
+  startSequencePresets,
+  raceStatusSchema,
+  scoringCodeSchema,
+  finishSourceSchema,
+  trackingSourceSchema,
+  committeeRaceLogKindSchema,
+  auditEntityTypeSchema,
+  type Buoy,
+  type CourseSnapshot,
+  type InsertCourseSnapshot,
+  type StartSequence,
+  type PositionHistoryResponse,
   boatClasses,
   type UserRole,
-  type SnapshotMark,
   type Event as DbEvent,
 } from "@shared/schema";
 import { z } from "zod";
@@ -31,13 +48,44 @@ import {
   safeUserResponse,
   requireEventAccess,
   requireCourseAccess,
+  requireBuoyDevice,
+  generateDeviceKey,
+  hashDeviceKey,
 } from "./auth";
+import { queueBuoyCommand, deliverQueuedCommands, applyCommandReport, canApplyCommandReport } from "./buoy-commands";
+import { applyDeviceTelemetry } from "./device-telemetry";
+import { buildSnapshotCourseData, canViewCourseSnapshot, nextSnapshotVersion, snapshotLineageId, type SnapshotVersionData } from "./course-snapshots";
+import { canTransitionRace, getNextRaceNumber, getRaceStatusUpdate } from "./races";
+import { canRecordFinishes, findFinishBySailNumber, normalizeSailNumber, buildFinishesCsv } from "./race-finishes";
+import { getTrackedBoats, type TrackingSubscription } from "./boat-tracking";
+import { recordMarkChange } from "./position-history";
+import {
+  addRaceLogEntry,
+  buildRaceLogCsv,
+  recordBuoyCommand,
+  recordMarkMove,
+  recordRaceStatus,
+  recordStartSequenceSignal,
+  withAuthors,
+} from "./race-log";
+import { recordAudit, withUsernames } from "./audit";
+import { ingestNmea, getNmeaSnapshot } from "./nmea-ingest";
+import { removeSequenceMarks } from "@shared/course-designations";
+import {
+  buildStartSequence,
+  isStartSequenceActive,
+  postponeStartSequence,
+  generalRecallStartSequence,
+  resumeStartSequence,
+  cancelStartSequence,
+} from "./start-sequence";
 import {
   validateCoordinates,
   validateGateWidth,
   validateMarkRoleConsistency,
   validateBuoyNotAssignedToOtherMarks,
   validateRoundingSequence,
+  validateCourseDesignation,
   validateCourseTransformBounds,
   validateGateSide,
   validateDuplicateBuoyOnSameMark,
@@ -98,6 +146,156 @@ const grantEventAccessSchema = z.object({
   eventId: z.string(),
 });
 
+const buoyCommandRequestSchema = z.object({
+  command: buoyCommandTypeSchema,
+  targetLat: z.number().min(-90).max(90).optional(),
+  targetLng: z.number().min(-180).max(180).optional(),
+}).refine(data => (data.targetLat === undefined) === (data.targetLng === undefined), {
+  message: "targetLat and targetLng must be given together",
+});
+
+// Timings come from a preset or are given explicitly; defaults to the standard 5-4-1-0
+const startSequenceRequestSchema = z.object({
+  preset: startSequencePresetSchema.optional(),
+  warningSeconds: z.number().int().min(60).max(1800).optional(),
+  preparatorySeconds: z.number().int().min(30).max(1800).optional(),
+  oneMinuteSeconds: z.number().int().min(10).max(600).optional(),
+  preparatoryFlag: preparatoryFlagSchema.default("P"),
+  fleets: z.array(z.object({
+    name: z.string().min(1).max(50),
+    classFlag: z.string().min(1).max(50),
+  })).min(1).max(12),
+  warningAt: z.string().datetime().optional(),
+}).transform(({ preset, warningSeconds, preparatorySeconds, oneMinuteSeconds, ...rest }) => {
+  const defaults = startSequencePresets[preset ?? "5-4-1-0"];
+  return {
+    ...rest,
+    timing: preset ? { ...defaults } : {
+      warningSeconds: warningSeconds ?? defaults.warningSeconds,
+      preparatorySeconds: preparatorySeconds ?? defaults.preparatorySeconds,
+      oneMinuteSeconds: oneMinuteSeconds ?? defaults.oneMinuteSeconds,
+    },
+  };
+}).refine(({ timing }) => timing.warningSeconds > timing.preparatorySeconds && timing.preparatorySeconds > timing.oneMinuteSeconds, {
+  message: "Signals must be in order: warning, preparatory, one-minute",
+});
+
+const createRaceRequestSchema = z.object({
+  raceNumber: z.number().int().min(1).optional(),
+  fleet: z.string().min(1).max(50).nullable().optional(),
+  startTime: z.coerce.date().nullable().optional(),
+});
+
+const updateRaceRequestSchema = z.object({
+  raceNumber: z.number().int().min(1).optional(),
+  fleet: z.string().min(1).max(50).nullable().optional(),
+  startTime: z.coerce.date().nullable().optional(),
+  status: raceStatusSchema.optional(),
+});
+
+// A tap-to-record finish may come in without a sail number, to be filled in later
+const createRaceFinishRequestSchema = z.object({
+  sailNumber: z.string().trim().min(1).max(20).nullable().optional(),
+  finishTime: z.coerce.date().nullable().optional(),
+  scoringCode: scoringCodeSchema.nullable().optional(),
+  source: finishSourceSchema.optional(),
+});
+
+const updateRaceFinishRequestSchema = z.object({
+  sailNumber: z.string().trim().min(1).max(20).nullable().optional(),
+  finishTime: z.coerce.date().nullable().optional(),
+  scoringCode: scoringCodeSchema.nullable().optional(),
+});
+
+const generalRecallRequestSchema = z.object({
+  fleetIndex: z.number().int().min(0),
+});
+
+// A replay covers one race, so windows are capped to keep responses small
+const MAX_REPLAY_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+const positionHistoryQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(({ from, to }) => to > from, {
+  message: "to must be after from",
+  path: ["to"],
+}).refine(({ from, to }) => to.getTime() - from.getTime() <= MAX_REPLAY_WINDOW_MS, {
+  message: "Replay window cannot exceed 12 hours",
+  path: ["to"],
+});
+
+const raceLogQuerySchema = z.object({
+  raceId: z.string().min(1).optional(),
+});
+
+// Wind is what the committee saw when the entry was made, else the event buoys' reading;
+// the author comes from the session
+const raceLogEntryRequestSchema = z.object({
+  raceId: z.string().min(1).nullable().optional(),
+  kind: committeeRaceLogKindSchema,
+  summary: z.string().trim().min(1).max(500),
+  data: z.record(z.unknown()).nullable().optional(),
+  windDirection: z.number().min(0).max(360).nullable().optional(),
+  windSpeed: z.number().min(0).max(100).nullable().optional(),
+});
+
+const auditLogQuerySchema = z.object({
+  sailClubId: z.string().optional(),
+  eventId: z.string().optional(),
+  userId: z.string().optional(),
+  entityType: auditEntityTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+// Finishes have no name, so audit entries read "Race 3 · GRE 123"
+function finishLabel(raceNumber: number, sailNumber: string | null): string {
+  return `Race ${raceNumber} · ${sailNumber ?? "no sail number"}`;
+}
+
+// Who a saved course belongs to and who can see it, from the role of the user saving it
+async function snapshotOwnership(session: Partial<SessionData>, username: string) {
+  const userRole = session.role;
+  const sailClubId = session.sailClubId || null;
+  const visibilityScope = userRole === "super_admin" ? "global" : userRole === "club_manager" ? "club" : "user";
+  const snapshotSailClubId = visibilityScope === "global" ? null : sailClubId;
+  const club = snapshotSailClubId ? await storage.getSailClub(snapshotSailClubId) : undefined;
+  return {
+    ownerId: session.userId!,
+    ownerUsername: username,
+    sailClubId: snapshotSailClubId,
+    sailClubName: club?.name || null,
+    visibilityScope,
+  };
+}
+
+function snapshotViewer(session: Partial<SessionData>) {
+  return { userId: session.userId!, role: session.role!, sailClubId: session.sailClubId || null };
+}
+
+// Saves racing on the same lineage can both number themselves after the same
+// newest version; the (lineage, version) index rejects the second, which renumbers
+const MAX_VERSION_ATTEMPTS = 3;
+
+async function createSnapshotVersion(
+  parent: CourseSnapshot,
+  snapshot: Omit<InsertCourseSnapshot, keyof SnapshotVersionData>,
+): Promise<CourseSnapshot> {
+  for (let attempt = 1; ; attempt++) {
+    const versions = await storage.getCourseSnapshotVersions(snapshotLineageId(parent));
+    try {
+      return await storage.createCourseSnapshot({ ...snapshot, ...nextSnapshotVersion(parent, versions) });
+    } catch (error: any) {
+      if (error?.code !== "23505" || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+// Clients count down against serverTime rather than their own clock
+function startSequenceResponse(sequence: StartSequence | undefined) {
+  return { sequence: sequence ?? null, serverTime: new Date().toISOString() };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -213,6 +411,7 @@ export async function registerRoutes(
         sailClubId: data.sailClubId,
         createdBy: req.session.userId,
       });
+      recordAudit(req, { action: "create", entityType: "user", entityId: user.id, label: user.username, after: user, scope: { sailClubId: user.sailClubId } });
       
       res.status(201).json(safeUserResponse(user));
     } catch (error) {
@@ -242,6 +441,7 @@ export async function registerRoutes(
       }
       
       await storage.deleteUser(userId);
+      recordAudit(req, { action: "delete", entityType: "user", entityId: user.id, label: user.username, before: user, scope: { sailClubId: user.sailClubId } });
       res.json({ message: "User deleted successfully" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete user" });
@@ -276,6 +476,14 @@ export async function registerRoutes(
         eventId,
         grantedBy: req.session.userId,
       });
+      recordAudit(req, {
+        action: "create",
+        entityType: "event_access",
+        entityId: access.id,
+        label: `${user.username} → ${event.name}`,
+        after: access,
+        scope: { sailClubId: event.sailClubId, eventId: event.id },
+      });
       
       res.status(201).json(access);
     } catch (error) {
@@ -299,13 +507,47 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Cannot manage users from other clubs" });
       }
       
+      const [access, event] = await Promise.all([
+        storage.getUserEventAccess(userId).then(list => list.find(a => a.eventId === eventId)),
+        storage.getEvent(eventId),
+      ]);
       await storage.revokeEventAccess(userId, eventId);
+      if (access) {
+        recordAudit(req, {
+          action: "delete",
+          entityType: "event_access",
+          entityId: access.id,
+          label: `${user.username} → ${event?.name ?? eventId}`,
+          before: access,
+          scope: { sailClubId: event?.sailClubId ?? user.sailClubId, eventId },
+        });
+      }
       res.json({ message: "Access revoked successfully" });
     } catch (error) {
       res.status(500).json({ error: "Failed to revoke access" });
     }
   });
 
+  // Audit trail, newest first. Club managers only see their own club's entries.
+  app.get("/api/audit-log", requireAuth, requireRole("super_admin", "club_manager"), async (req, res) => {
+    try {
+      const filter = auditLogQuerySchema.parse(req.query);
+      if (req.session.role === "club_manager") {
+        if (!req.session.sailClubId) {
+          return res.status(403).json({ error: "Club manager has no club assigned" });
+        }
+        filter.sailClubId = req.session.sailClubId;
+      }
+      const entries = await storage.getAuditLog(filter);
+      res.json(await withUsernames(entries));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid audit log filter", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
   app.get("/api/users/:id/events", requireAuth, async (req, res) => {
     try {
       const userId = req.params.id as string;
@@ -371,6 +613,7 @@ export async function registerRoutes(
     try {
       const validatedData = insertSailClubSchema.parse(req.body);
       const club = await storage.createSailClub(validatedData);
+      recordAudit(req, { action: "create", entityType: "sail_club", entityId: club.id, after: club, scope: { sailClubId: club.id } });
       res.status(201).json(club);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -384,10 +627,12 @@ export async function registerRoutes(
     try {
       const clubId = req.params.id as string;
       const validatedData = insertSailClubSchema.partial().parse(req.body);
+      const existingClub = await storage.getSailClub(clubId);
       const club = await storage.updateSailClub(clubId, validatedData);
       if (!club) {
         return res.status(404).json({ error: "Club not found" });
       }
+      recordAudit(req, { action: "update", entityType: "sail_club", entityId: club.id, before: existingClub, after: club, scope: { sailClubId: club.id } });
       res.json(club);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -400,10 +645,12 @@ export async function registerRoutes(
   app.delete("/api/sail-clubs/:id", requireAuth, requireRole("super_admin"), async (req, res) => {
     try {
       const clubId = req.params.id as string;
+      const existingClub = await storage.getSailClub(clubId);
       const deleted = await storage.deleteSailClub(clubId);
       if (!deleted) {
         return res.status(404).json({ error: "Club not found" });
       }
+      recordAudit(req, { action: "delete", entityType: "sail_club", entityId: clubId, before: existingClub, scope: { sailClubId: clubId } });
       res.json({ message: "Club deleted successfully" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete club" });
@@ -442,6 +689,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid boat class data", details: parsed.error.errors });
       }
       const [newBoatClass] = await db.insert(boatClasses).values(parsed.data).returning();
+      recordAudit(req, { action: "create", entityType: "boat_class", entityId: newBoatClass.id, after: newBoatClass });
       res.status(201).json(newBoatClass);
     } catch (error: any) {
       if (error?.code === "23505") {
@@ -460,10 +708,12 @@ export async function registerRoutes(
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid boat class data", details: parsed.error.errors });
       }
+      const [existing] = await db.select().from(boatClasses).where(eq(boatClasses.id, boatClassId));
       const [updated] = await db.update(boatClasses).set(parsed.data).where(eq(boatClasses.id, boatClassId)).returning();
       if (!updated) {
         return res.status(404).json({ error: "Boat class not found" });
       }
+      recordAudit(req, { action: "update", entityType: "boat_class", entityId: updated.id, before: existing, after: updated });
       res.json(updated);
     } catch (error: any) {
       if (error?.code === "23505") {
@@ -481,6 +731,7 @@ export async function registerRoutes(
       if (!deleted) {
         return res.status(404).json({ error: "Boat class not found" });
       }
+      recordAudit(req, { action: "delete", entityType: "boat_class", entityId: deleted.id, before: deleted });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting boat class:", error);
@@ -578,6 +829,7 @@ export async function registerRoutes(
       }
       const validatedData = insertEventSchema.parse(body);
       const event = await storage.createEvent(validatedData);
+      recordAudit(req, { action: "create", entityType: "event", entityId: event.id, after: event, scope: { sailClubId: event.sailClubId, eventId: event.id } });
       res.status(201).json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -599,10 +851,12 @@ export async function registerRoutes(
         body.endDate = new Date(body.endDate);
       }
       const validatedData = insertEventSchema.partial().parse(body);
+      const existingEvent = await storage.getEvent(eventId);
       const event = await storage.updateEvent(eventId, validatedData);
       if (!event) {
         return res.status(404).json({ error: "Event not found" });
       }
+      recordAudit(req, { action: "update", entityType: "event", entityId: event.id, before: existingEvent, after: event, scope: { sailClubId: event.sailClubId, eventId: event.id } });
       res.json(event);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -614,10 +868,13 @@ export async function registerRoutes(
 
   app.delete("/api/events/:id", requireAuth, requireRole("super_admin", "club_manager"), async (req, res) => {
     try {
-      const deleted = await storage.deleteEvent(req.params.id as string);
+      const eventId = req.params.id as string;
+      const existingEvent = await storage.getEvent(eventId);
+      const deleted = await storage.deleteEvent(eventId);
       if (!deleted) {
         return res.status(404).json({ error: "Event not found" });
       }
+      recordAudit(req, { action: "delete", entityType: "event", entityId: eventId, before: existingEvent, scope: { sailClubId: existingEvent?.sailClubId, eventId } });
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ error: "Failed to delete event" });
@@ -650,6 +907,7 @@ export async function registerRoutes(
     try {
       const validatedData = insertCourseSchema.parse(req.body);
       const course = await storage.createCourse(validatedData);
+      recordAudit(req, { action: "create", entityType: "course", entityId: course.id, after: course, scope: { courseId: course.id } });
       res.status(201).json(course);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -685,14 +943,40 @@ export async function registerRoutes(
         }
       }
       
-      if (validatedData.roundingSequence !== undefined) {
-        const sequenceResult = await validateRoundingSequence(storage, courseId, validatedData.roundingSequence || []);
+      if (validatedData.designation && validatedData.roundingSequence === undefined) {
+        return res.status(400).json({ error: "A course designation must be sent with its rounding sequence" });
+      }
+      
+      if (validatedData.roundingSequence !== undefined || validatedData.roundingSides) {
+        const sequence = validatedData.roundingSequence !== undefined
+          ? validatedData.roundingSequence || []
+          : existingCourse.roundingSequence || [];
+        const sequenceResult = await validateRoundingSequence(storage, courseId, sequence, false, validatedData.roundingSides);
         if (!sequenceResult.valid) {
           return res.status(400).json({ error: sequenceResult.error });
         }
       }
       
+      if (validatedData.designation) {
+        const designationResult = await validateCourseDesignation(
+          storage,
+          courseId,
+          validatedData.designation,
+          validatedData.roundingSequence || [],
+          validatedData.roundingSides
+        );
+        if (!designationResult.valid) {
+          return res.status(400).json({ error: designationResult.error });
+        }
+      } else if (validatedData.roundingSequence !== undefined) {
+        // A sequence edited by hand is no longer the designated course, and
+        // its rounding sides no longer line up with the entries
+        validatedData.designation = null;
+        validatedData.roundingSides = validatedData.roundingSides ?? null;
+      }
+      
       const course = await storage.updateCourse(courseId, validatedData);
+      recordAudit(req, { action: "update", entityType: "course", entityId: courseId, before: existingCourse, after: course, scope: { courseId } });
       res.json(course);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -710,8 +994,11 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Course not found" });
       }
       
+      // Resolved before the course goes, or the event it belonged to can no longer be found
+      const event = await storage.getEventByCourseId(courseId);
       const deleted = await storage.deleteCourse(courseId);
       if (deleted) {
+        recordAudit(req, { action: "delete", entityType: "course", entityId: courseId, before: existingCourse, scope: { sailClubId: event?.sailClubId, eventId: event?.id } });
         res.json({ success: true });
       } else {
         res.status(500).json({ error: "Failed to delete course" });
@@ -723,12 +1010,10 @@ export async function registerRoutes(
 
   // Course Snapshots - Immutable saved courses
   
-  // Save a course snapshot
+  // Save a course snapshot, as a new version of the one it was loaded from when parentSnapshotId is given
   app.post("/api/course-snapshots", requireAuth, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const userRole = req.session.role!;
-      const sailClubId = req.session.sailClubId;
       
       // Get the current user for username
       const user = await storage.getUser(userId);
@@ -737,7 +1022,7 @@ export async function registerRoutes(
       }
       
       // Get the current course and marks
-      const { courseId, name, category, description, thumbnailSvg } = req.body;
+      const { courseId, name, category, description, thumbnailSvg, parentSnapshotId } = req.body;
       console.log("[DEBUG] Save course - category:", category, "type:", typeof category);
       if (!courseId || !name) {
         return res.status(400).json({ error: "Course ID and name are required" });
@@ -757,86 +1042,35 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Course not found" });
       }
       
-      // Create a map of mark IDs to mark names for rounding sequence conversion
-      const markIdToName = new Map<string, string>();
-      marks.forEach(m => markIdToName.set(m.id, m.name));
-      
-      // Convert rounding sequence from mark IDs to mark names
-      // This ensures the snapshot is portable and can be loaded into any course
-      const snapshotRoundingSequence: string[] = [];
-      if (course.roundingSequence) {
-        for (const item of course.roundingSequence) {
-          if (item === "start" || item === "finish") {
-            snapshotRoundingSequence.push(item);
-          } else {
-            const markName = markIdToName.get(item);
-            if (markName) {
-              snapshotRoundingSequence.push(markName);
-            }
-          }
+      let parent: CourseSnapshot | undefined;
+      if (parentSnapshotId) {
+        parent = await storage.getCourseSnapshot(parentSnapshotId);
+        if (!parent || !canViewCourseSnapshot(parent, snapshotViewer(req.session))) {
+          return res.status(404).json({ error: "Saved course to version not found" });
         }
-      }
-      
-      // Convert marks to snapshot format
-      const snapshotMarks: SnapshotMark[] = marks.map(m => ({
-        name: m.name,
-        role: m.role,
-        order: m.order,
-        lat: m.lat,
-        lng: m.lng,
-        isStartLine: m.isStartLine,
-        isFinishLine: m.isFinishLine,
-        isCourseMark: m.isCourseMark,
-        isGate: m.isGate,
-        gateWidthBoatLengths: m.gateWidthBoatLengths,
-        boatLengthMeters: m.boatLengthMeters,
-        gatePartnerId: m.gatePartnerId,
-        gateSide: m.gateSide,
-      }));
-      
-      // Determine visibility scope based on role
-      let visibilityScope: string;
-      let snapshotSailClubId: string | null = null;
-      let sailClubName: string | null = null;
-      
-      if (userRole === "super_admin") {
-        visibilityScope = "global";
-      } else if (userRole === "club_manager") {
-        visibilityScope = "club";
-        snapshotSailClubId = sailClubId || null;
-        if (snapshotSailClubId) {
-          const club = await storage.getSailClub(snapshotSailClubId);
-          sailClubName = club?.name || null;
-        }
-      } else {
-        visibilityScope = "user";
-        snapshotSailClubId = sailClubId || null;
-        if (snapshotSailClubId) {
-          const club = await storage.getSailClub(snapshotSailClubId);
-          sailClubName = club?.name || null;
+        if (parent.visibilityScope === "race") {
+          return res.status(409).json({ error: "Race course records cannot be versioned" });
         }
       }
       
+      const snapshotCourse = buildSnapshotCourseData(course, marks);
+      
+      // Visibility scope is determined by role
+      const ownership = await snapshotOwnership(req.session, user.username);
+      
       const snapshotData = {
         name,
-        ownerId: userId,
-        ownerUsername: user.username,
-        sailClubId: snapshotSailClubId,
-        sailClubName,
-        visibilityScope,
+        ...ownership,
         category: snapshotCategory,
         description: description || null,
         thumbnailSvg: thumbnailSvg || null,
-        shape: course.shape,
-        centerLat: course.centerLat,
-        centerLng: course.centerLng,
-        rotation: course.rotation,
-        scale: course.scale,
-        roundingSequence: snapshotRoundingSequence,
-        snapshotMarks,
+        ...snapshotCourse,
       };
       
-      const snapshot = await storage.createCourseSnapshot(snapshotData);
+      const snapshot = parent
+        ? await createSnapshotVersion(parent, snapshotData)
+        : await storage.createCourseSnapshot(snapshotData);
+      recordAudit(req, { action: "create", entityType: "course_snapshot", entityId: snapshot.id, after: snapshot, scope: { sailClubId: snapshot.sailClubId } });
       res.status(201).json(snapshot);
     } catch (error) {
       console.error("Failed to create course snapshot:", error);
@@ -880,17 +1114,7 @@ export async function registerRoutes(
       }
       
       // Check visibility permissions
-      const userId = req.session.userId!;
-      const userRole = req.session.role!;
-      const userSailClubId = req.session.sailClubId || null;
-      
-      const canAccess = 
-        userRole === "super_admin" ||
-        snapshot.visibilityScope === "global" ||
-        (snapshot.visibilityScope === "club" && snapshot.sailClubId === userSailClubId) ||
-        (snapshot.visibilityScope === "user" && snapshot.ownerId === userId);
-      
-      if (!canAccess) {
+      if (!canViewCourseSnapshot(snapshot, snapshotViewer(req.session))) {
         return res.status(403).json({ error: "Access denied" });
       }
       
@@ -900,6 +1124,72 @@ export async function registerRoutes(
     }
   });
   
+  // Every version of a saved course the user can see, oldest first
+  app.get("/api/course-snapshots/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const snapshot = await storage.getCourseSnapshot(req.params.id as string);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      
+      const viewer = snapshotViewer(req.session);
+      if (!canViewCourseSnapshot(snapshot, viewer)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const versions = await storage.getCourseSnapshotVersions(snapshotLineageId(snapshot));
+      res.json(versions.filter(v => canViewCourseSnapshot(v, viewer)));
+    } catch (error) {
+      console.error("Failed to list course snapshot versions:", error);
+      res.status(500).json({ error: "Failed to load course versions" });
+    }
+  });
+  
+  // Revert a saved course: saves a copy of an earlier version as its newest version
+  app.post("/api/course-snapshots/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      const source = await storage.getCourseSnapshot(req.params.id as string);
+      if (!source) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      if (!canViewCourseSnapshot(source, snapshotViewer(req.session))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      if (source.visibilityScope === "race") {
+        return res.status(409).json({ error: "Race course records cannot be versioned" });
+      }
+      
+      const ownership = await snapshotOwnership(req.session, user.username);
+      
+      const snapshot = await createSnapshotVersion(source, {
+        name: source.name,
+        ...ownership,
+        category: source.category,
+        description: source.description,
+        thumbnailSvg: source.thumbnailSvg,
+        shape: source.shape,
+        centerLat: source.centerLat,
+        centerLng: source.centerLng,
+        rotation: source.rotation,
+        scale: source.scale,
+        roundingSequence: source.roundingSequence,
+        designation: source.designation,
+        roundingSides: source.roundingSides,
+        snapshotMarks: source.snapshotMarks,
+      });
+      recordAudit(req, { action: "create", entityType: "course_snapshot", entityId: snapshot.id, after: snapshot, scope: { sailClubId: snapshot.sailClubId } });
+      res.status(201).json(snapshot);
+    } catch (error) {
+      console.error("Failed to restore course snapshot:", error);
+      res.status(500).json({ error: "Failed to restore course version" });
+    }
+  });
+  
   // Delete a course snapshot
   app.delete("/api/course-snapshots/:id", requireAuth, async (req, res) => {
     try {
@@ -919,8 +1209,14 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Access denied" });
       }
       
+      // The course a race sailed is a permanent record
+      if (snapshot.visibilityScope === "race") {
+        return res.status(409).json({ error: "Race course records cannot be deleted" });
+      }
+      
       const deleted = await storage.deleteCourseSnapshot(snapshotId);
       if (deleted) {
+        recordAudit(req, { action: "delete", entityType: "course_snapshot", entityId: snapshotId, before: snapshot, scope: { sailClubId: snapshot.sailClubId } });
         res.json({ message: "Course deleted successfully" });
       } else {
         res.status(500).json({ error: "Failed to delete course" });
@@ -981,6 +1277,8 @@ export async function registerRoutes(
       }
       
       const mark = await storage.createMark(validatedData);
+      void recordMarkChange(mark);
+      recordAudit(req, { action: "create", entityType: "mark", entityId: mark.id, after: mark, scope: { courseId: mark.courseId } });
       res.status(201).json(mark);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1052,6 +1350,11 @@ export async function registerRoutes(
       }
       
       const mark = await storage.updateMark(markId, validatedData);
+      if (mark) {
+        void recordMarkChange(mark);
+        void recordMarkMove(existingMark, mark, req.session.userId);
+        recordAudit(req, { action: "update", entityType: "mark", entityId: mark.id, before: existingMark, after: mark, scope: { courseId: mark.courseId } });
+      }
       res.json(mark);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1076,13 +1379,16 @@ export async function registerRoutes(
       if (!deleted) {
         return res.status(404).json({ error: "Mark not found" });
       }
+      void recordMarkChange(mark, true);
+      recordAudit(req, { action: "delete", entityType: "mark", entityId: mark.id, before: mark, scope: { courseId: mark.courseId } });
       
-      // Clean up rounding sequence atomically
+      // Clean up rounding sequence atomically; the course no longer matches its
+      // designation, and the remaining entries keep their own rounding sides
       const course = await storage.getCourse(mark.courseId);
       if (course && course.roundingSequence) {
-        const cleanedSequence = course.roundingSequence.filter(entry => entry !== markId);
-        if (cleanedSequence.length !== course.roundingSequence.length) {
-          await storage.updateCourse(course.id, { roundingSequence: cleanedSequence });
+        const cleaned = removeSequenceMarks(course.roundingSequence, course.roundingSides, new Set([markId]));
+        if (cleaned.roundingSequence.length !== course.roundingSequence.length) {
+          await storage.updateCourse(course.id, { ...cleaned, designation: null });
         }
       }
       
@@ -1096,10 +1402,15 @@ export async function registerRoutes(
     try {
       const courseId = req.params.id as string;
       
-      // Clear the rounding sequence first
-      await storage.updateCourse(courseId, { roundingSequence: [] });
+      // Clear the rounding sequence, and the designation and sides that go with it, first
+      await storage.updateCourse(courseId, { roundingSequence: [], designation: null, roundingSides: null });
       
+      const marks = await storage.getMarksByCourse(courseId);
       const count = await storage.deleteMarksByCourse(courseId);
+      marks.forEach(mark => {
+        void recordMarkChange(mark, true);
+        recordAudit(req, { action: "delete", entityType: "mark", entityId: mark.id, before: mark, scope: { courseId } });
+      });
       res.json({ deleted: count });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete marks" });
@@ -1143,6 +1454,7 @@ export async function registerRoutes(
     try {
       const validatedData = insertBuoySchema.parse(req.body);
       const buoy = await storage.createBuoy(validatedData);
+      recordAudit(req, { action: "create", entityType: "buoy", entityId: buoy.id, after: buoy, scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId } });
       res.status(201).json(buoy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1156,10 +1468,12 @@ export async function registerRoutes(
     try {
       const buoyId = req.params.id as string;
       const validatedData = insertBuoySchema.partial().parse(req.body);
+      const existingBuoy = await storage.getBuoy(buoyId);
       const buoy = await storage.updateBuoy(buoyId, validatedData);
       if (!buoy) {
         return res.status(404).json({ error: "Buoy not found" });
       }
+      recordAudit(req, { action: "update", entityType: "buoy", entityId: buoy.id, before: existingBuoy, after: buoy, scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId } });
       res.json(buoy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1169,63 +1483,156 @@ export async function registerRoutes(
     }
   });
 
+  // Queue a command for delivery to the buoy; state changes once the device acknowledges
   app.post("/api/buoys/:id/command", requireAuth, async (req, res) => {
     try {
       const buoyId = req.params.id as string;
-      const { command, targetLat, targetLng } = req.body;
+      const { command, targetLat, targetLng } = buoyCommandRequestSchema.parse(req.body);
       const buoy = await storage.getBuoy(buoyId);
       
       if (!buoy) {
         return res.status(404).json({ error: "Buoy not found" });
       }
 
-      let updates: Record<string, unknown> = {};
-
-      switch (command) {
-        case "move_to_target":
-          updates = {
-            state: "moving_to_target",
-            targetLat: targetLat ?? buoy.targetLat,
-            targetLng: targetLng ?? buoy.targetLng,
-            speed: 2.5,
-            eta: 180,
-          };
-          break;
-        case "hold_position":
-          updates = {
-            state: "holding_position",
-            speed: 0,
-            eta: null,
-          };
-          break;
-        case "cancel":
-          updates = {
-            state: "idle",
-            targetLat: null,
-            targetLng: null,
-            speed: 0,
-            eta: null,
-          };
-          break;
-        default:
-          return res.status(400).json({ error: "Invalid command" });
-      }
-
-      const updated = await storage.updateBuoy(buoyId, updates);
-      res.json(updated);
+      // The given position, or else the buoy's stored target; never half of each
+      const target = targetLat !== undefined && targetLng !== undefined
+        ? { lat: targetLat, lng: targetLng }
+        : buoy.targetLat != null && buoy.targetLng != null
+          ? { lat: buoy.targetLat, lng: buoy.targetLng }
+          : null;
+      if (command === "move_to_target" && !target) {
+        return res.status(400).json({ error: "move_to_target requires a target position" });
+      }
+
+      const queued = await queueBuoyCommand(buoy, {
+        buoyId,
+        command,
+        targetLat: command === "move_to_target" ? target!.lat : null,
+        targetLng: command === "move_to_target" ? target!.lng : null,
+        issuedBy: req.session.userId,
+      });
+      const queuedTarget = queued.targetLat !== null && queued.targetLng !== null ? { lat: queued.targetLat, lng: queued.targetLng } : null;
+      recordBuoyCommand(buoy, command, queuedTarget, queued.id, req.session.userId);
+      recordAudit(req, { action: "create", entityType: "buoy_command", entityId: queued.id, label: `${buoy.name} · ${command}`, after: queued, scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId } });
+      res.status(202).json(queued);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid command", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to execute command" });
     }
   });
 
+  // Recent commands for a buoy, newest first
+  app.get("/api/buoys/:id/commands", requireAuth, async (req, res) => {
+    try {
+      const buoyId = req.params.id as string;
+      const commands = await storage.getBuoyCommands(buoyId, 10);
+      res.json(commands);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch buoy commands" });
+    }
+  });
+
+  // Issue (or rotate) the device key a buoy uses for the device API. The key is only returned once.
+  app.post("/api/buoys/:id/device-key", requireAuth, requireRole("super_admin"), async (req, res) => {
+    try {
+      const buoyId = req.params.id as string;
+      const buoy = await storage.getBuoy(buoyId);
+      if (!buoy) {
+        return res.status(404).json({ error: "Buoy not found" });
+      }
+      if (!buoy.serialNumber) {
+        return res.status(400).json({ error: "Buoy must have a serial number before a device key can be issued" });
+      }
+
+      const deviceKey = generateDeviceKey();
+      await storage.setBuoyDeviceCredential(buoyId, hashDeviceKey(deviceKey));
+      recordAudit(req, {
+        action: "update",
+        entityType: "buoy",
+        entityId: buoy.id,
+        label: buoy.name,
+        before: { deviceKey: null },
+        after: { deviceKey: "issued" },
+        scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId },
+      });
+      res.status(201).json({ serialNumber: buoy.serialNumber, deviceKey });
+    } catch (error) {
+      console.error("Error issuing device key:", error);
+      res.status(500).json({ error: "Failed to issue device key" });
+    }
+  });
+
+  // Device API: buoy reports position, power and sensor readings
+  app.post("/api/device/telemetry", requireBuoyDevice, async (req, res) => {
+    try {
+      const buoy = res.locals.buoy as Buoy;
+      const telemetry = buoyTelemetrySchema.parse(req.body);
+      await applyDeviceTelemetry(buoy, telemetry);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid telemetry data", details: error.errors });
+      }
+      console.error("Error applying buoy telemetry:", error);
+      res.status(500).json({ error: "Failed to record telemetry" });
+    }
+  });
+
+  // Device API: buoy polls for pending commands
+  app.get("/api/device/commands", requireBuoyDevice, async (req, res) => {
+    try {
+      const buoy = res.locals.buoy as Buoy;
+      const commands = await deliverQueuedCommands(buoy.id);
+      res.json(commands.map(c => ({
+        id: c.id,
+        command: c.command,
+        targetLat: c.targetLat,
+        targetLng: c.targetLng,
+        attempt: c.attempts,
+      })));
+    } catch (error) {
+      console.error("Error delivering buoy commands:", error);
+      res.status(500).json({ error: "Failed to fetch commands" });
+    }
+  });
+
+  // Device API: buoy reports ack/nack/completion for a delivered command
+  app.post("/api/device/commands/:commandId/report", requireBuoyDevice, async (req, res) => {
+    try {
+      const buoy = res.locals.buoy as Buoy;
+      const report = buoyCommandReportSchema.parse(req.body);
+      const command = await storage.getBuoyCommand(req.params.commandId as string);
+      
+      if (!command || command.buoyId !== buoy.id) {
+        return res.status(404).json({ error: "Command not found" });
+      }
+      if (!canApplyCommandReport(command, report.status)) {
+        return res.status(409).json({ error: `Cannot report '${report.status}' for a command that is ${command.status}` });
+      }
+
+      const updated = await applyCommandReport(command, report);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid command report", details: error.errors });
+      }
+      console.error("Error applying buoy command report:", error);
+      res.status(500).json({ error: "Failed to record command report" });
+    }
+  });
+
   // Delete buoy (super admin only)
   app.delete("/api/buoys/:id", requireAuth, requireRole("super_admin"), async (req, res) => {
     try {
       const buoyId = req.params.id as string;
+      const existingBuoy = await storage.getBuoy(buoyId);
       const deleted = await storage.deleteBuoy(buoyId);
       if (!deleted) {
         return res.status(404).json({ error: "Buoy not found" });
       }
+      recordAudit(req, { action: "delete", entityType: "buoy", entityId: buoyId, before: existingBuoy, scope: { sailClubId: existingBuoy?.sailClubId, eventId: existingBuoy?.eventId } });
       res.json({ message: "Buoy deleted successfully" });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete buoy" });
@@ -1295,10 +1702,11 @@ export async function registerRoutes(
       });
 
       // Update buoy status
-      await storage.updateBuoy(buoyId, {
+      const updated = await storage.updateBuoy(buoyId, {
         sailClubId,
         inventoryStatus: "assigned_club",
       });
+      recordAudit(req, { action: "update", entityType: "buoy", entityId: buoyId, before: buoy, after: updated, scope: { sailClubId } });
 
       res.status(201).json(assignment);
     } catch (error) {
@@ -1346,10 +1754,11 @@ export async function registerRoutes(
       });
 
       // Update buoy status and eventId
-      await storage.updateBuoy(buoyId, {
+      const updated = await storage.updateBuoy(buoyId, {
         inventoryStatus: "assigned_event",
         eventId,
       });
+      recordAudit(req, { action: "update", entityType: "buoy", entityId: buoyId, before: buoy, after: updated, scope: { sailClubId: buoy.sailClubId, eventId } });
 
       res.status(201).json(assignment);
     } catch (error) {
@@ -1383,7 +1792,7 @@ export async function registerRoutes(
       }
 
       // Update buoy status back to club, clear eventId, and reset state
-      await storage.updateBuoy(buoyId, {
+      const updated = await storage.updateBuoy(buoyId, {
         inventoryStatus: "assigned_club",
         eventId: null,
         state: "idle",
@@ -1392,6 +1801,8 @@ export async function registerRoutes(
         eta: null,
       });
 
+      // Filed under the event it left
+      recordAudit(req, { action: "update", entityType: "buoy", entityId: buoyId, before: buoy, after: updated, scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId } });
       res.json({ message: "Buoy released from event" });
     } catch (error) {
       res.status(500).json({ error: "Failed to release buoy from event" });
@@ -1417,7 +1828,7 @@ export async function registerRoutes(
       }
 
       // Update buoy status, clear eventId, and reset state
-      await storage.updateBuoy(buoyId, {
+      const updated = await storage.updateBuoy(buoyId, {
         sailClubId: null,
         eventId: null,
         inventoryStatus: "in_inventory",
@@ -1427,6 +1838,7 @@ export async function registerRoutes(
         eta: null,
       });
 
+      recordAudit(req, { action: "update", entityType: "buoy", entityId: buoyId, before: buoy, after: updated, scope: { sailClubId: buoy.sailClubId, eventId: buoy.eventId } });
       res.json({ message: "Buoy returned to inventory" });
     } catch (error) {
       res.status(500).json({ error: "Failed to return buoy to inventory" });
@@ -1712,6 +2124,7 @@ export async function registerRoutes(
       
       // Update event with parsed info
       const updated = await storage.updateEvent(id, { externalInfo });
+      recordAudit(req, { action: "update", entityType: "event", entityId: event.id, before: event, after: updated, scope: { sailClubId: event.sailClubId, eventId: event.id } });
       
       res.json({ success: true, externalInfo, event: updated });
     } catch (error) {
@@ -1773,6 +2186,7 @@ export async function registerRoutes(
       }
 
       const updated = await storage.updateEvent(id, updateData);
+      recordAudit(req, { action: "update", entityType: "event", entityId: event.id, before: event, after: updated, scope: { sailClubId: event.sailClubId, eventId: event.id } });
       res.json(updated);
     } catch (error) {
       console.error("Error updating external URLs:", error);
@@ -1780,5 +2194,535 @@ export async function registerRoutes(
     }
   });
 
+  // Races within an event, in race number order
+  app.get("/api/events/:id/races", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const races = await storage.getRacesForEvent(req.params.id as string);
+      res.json(races);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch races" });
+    }
+  });
+
+  app.post("/api/events/:id/races", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const data = createRaceRequestSchema.parse(req.body);
+
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const race = await storage.createRace({
+        eventId,
+        raceNumber: data.raceNumber ?? await getNextRaceNumber(eventId),
+        fleet: data.fleet ?? null,
+        startTime: data.startTime ?? null,
+      });
+      recordAudit(req, { action: "create", entityType: "race", entityId: race.id, label: `Race ${race.raceNumber}`, after: race, scope: { sailClubId: event.sailClubId, eventId } });
+      res.status(201).json(race);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid race data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create race" });
+    }
+  });
+
+  app.get("/api/events/:id/races/:raceId", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const race = await storage.getRace(req.params.raceId as string);
+      if (!race || race.eventId !== req.params.id) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      res.json(race);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch race" });
+    }
+  });
+
+  // Update race details or move it through its lifecycle. Starting a race freezes the course.
+  app.patch("/api/events/:id/races/:raceId", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const { status, ...details } = updateRaceRequestSchema.parse(req.body);
+
+      const [race, event, user] = await Promise.all([
+        storage.getRace(req.params.raceId as string),
+        storage.getEvent(eventId),
+        storage.getUser(req.session.userId!),
+      ]);
+      if (!race || race.eventId !== eventId || !event) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      if (status && !canTransitionRace(race, status)) {
+        return res.status(409).json({ error: `Cannot change a ${race.status} race to ${status}` });
+      }
+
+      const statusUpdate = status ? await getRaceStatusUpdate(race, status, event, user) : {};
+      const updated = await storage.updateRace(race.id, { ...details, ...statusUpdate });
+      if (updated && status) {
+        recordRaceStatus(updated, race.status, req.session.userId);
+      }
+      recordAudit(req, { action: "update", entityType: "race", entityId: race.id, label: `Race ${race.raceNumber}`, before: race, after: updated, scope: { sailClubId: event.sailClubId, eventId } });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid race data", details: error.errors });
+      }
+      console.error("Failed to update race:", error);
+      res.status(500).json({ error: "Failed to update race" });
+    }
+  });
+
+  // Only races that never got under way can be deleted; others are abandoned instead
+  app.delete("/api/events/:id/races/:raceId", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const race = await storage.getRace(req.params.raceId as string);
+      if (!race || race.eventId !== req.params.id) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      if (race.status !== "scheduled") {
+        return res.status(409).json({ error: "Only scheduled races can be deleted" });
+      }
+
+      await storage.deleteRace(race.id);
+      recordAudit(req, { action: "delete", entityType: "race", entityId: race.id, label: `Race ${race.raceNumber}`, before: race, scope: { eventId: race.eventId } });
+      res.json({ message: "Race deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete race" });
+    }
+  });
+
+  // The course snapshot frozen when the race started
+  app.get("/api/events/:id/races/:raceId/course", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const race = await storage.getRace(req.params.raceId as string);
+      if (!race || race.eventId !== req.params.id) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      if (!race.courseSnapshotId) {
+        return res.status(404).json({ error: "No course recorded for this race yet" });
+      }
+
+      const snapshot = await storage.getCourseSnapshot(race.courseSnapshotId);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Race course not found" });
+      }
+      res.json(snapshot);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch race course" });
+    }
+  });
+
+  app.get("/api/events/:id/races/:raceId/finishes", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const race = await storage.getRace(req.params.raceId as string);
+      if (!race || race.eventId !== req.params.id) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      const finishes = await storage.getRaceFinishes(race.id);
+      res.json(finishes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch finishes" });
+    }
+  });
+
+  app.post("/api/events/:id/races/:raceId/finishes", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const data = createRaceFinishRequestSchema.parse(req.body);
+      const race = await storage.getRace(req.params.raceId as string);
+      if (!race || race.eventId !== req.params.id) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+      if (!canRecordFinishes(race)) {
+        return res.status(409).json({ error: `Cannot record finishes for a ${race.status} race` });
+      }
+
+      const sailNumber = data.sailNumber ? normalizeSailNumber(data.sailNumber) : null;
+      if (sailNumber) {
+        const finishes = await storage.getRaceFinishes(race.id);
+        if (findFinishBySailNumber(finishes, sailNumber)) {
+          return res.status(409).json({ error: `${sailNumber} is already recorded` });
+        }
+      }
+
+      const finish = await storage.createRaceFinish({
+        raceId: race.id,
+        sailNumber,
+        // A plain tap records the time it reached the server; a scoring code alone has no time
+        finishTime: data.finishTime !== undefined ? data.finishTime : (data.scoringCode ? null : new Date()),
+        scoringCode: data.scoringCode ?? null,
+        source: data.source ?? "manual",
+      });
+      recordAudit(req, { action: "create", entityType: "race_finish", entityId: finish.id, label: finishLabel(race.raceNumber, finish.sailNumber), after: finish, scope: { eventId: race.eventId } });
+      res.status(201).json(finish);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid finish data", details: error.errors });
+      }
+      console.error("Failed to record finish:", error);
+      res.status(500).json({ error: "Failed to record finish" });
+    }
+  });
+
+  app.patch("/api/events/:id/races/:raceId/finishes/:finishId", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const data = updateRaceFinishRequestSchema.parse(req.body);
+      const [race, finish] = await Promise.all([
+        storage.getRace(req.params.raceId as string),
+        storage.getRaceFinish(req.params.finishId as string),
+      ]);
+      if (!race || race.eventId !== req.params.id || !finish || finish.raceId !== race.id) {
+        return res.status(404).json({ error: "Finish not found" });
+      }
+
+      if (data.sailNumber) {
+        data.sailNumber = normalizeSailNumber(data.sailNumber);
+        const finishes = await storage.getRaceFinishes(race.id);
+        if (findFinishBySailNumber(finishes, data.sailNumber, finish.id)) {
+          return res.status(409).json({ error: `${data.sailNumber} is already recorded` });
+        }
+      }
+
+      const updated = await storage.updateRaceFinish(finish.id, data);
+      recordAudit(req, { action: "update", entityType: "race_finish", entityId: finish.id, label: finishLabel(race.raceNumber, updated?.sailNumber ?? finish.sailNumber), before: finish, after: updated, scope: { eventId: race.eventId } });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid finish data", details: error.errors });
+      }
+      console.error("Failed to update finish:", error);
+      res.status(500).json({ error: "Failed to update finish" });
+    }
+  });
+
+  app.delete("/api/events/:id/races/:raceId/finishes/:finishId", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const [race, finish] = await Promise.all([
+        storage.getRace(req.params.raceId as string),
+        storage.getRaceFinish(req.params.finishId as string),
+      ]);
+      if (!race || race.eventId !== req.params.id || !finish || finish.raceId !== race.id) {
+        return res.status(404).json({ error: "Finish not found" });
+      }
+
+      await storage.deleteRaceFinish(finish.id);
+      recordAudit(req, { action: "delete", entityType: "race_finish", entityId: finish.id, label: finishLabel(race.raceNumber, finish.sailNumber), before: finish, scope: { eventId: race.eventId } });
+      res.json({ message: "Finish deleted" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete finish" });
+    }
+  });
+
+  // Finish sheet download for scoring
+  app.get("/api/events/:id/races/:raceId/finishes/export", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const [race, event] = await Promise.all([
+        storage.getRace(req.params.raceId as string),
+        storage.getEvent(req.params.id as string),
+      ]);
+      if (!race || race.eventId !== req.params.id || !event) {
+        return res.status(404).json({ error: "Race not found" });
+      }
+
+      const finishes = await storage.getRaceFinishes(race.id);
+      const filename = `${event.name}-race-${race.raceNumber}-finishes.csv`.replace(/[^\w.-]+/g, "_");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buildFinishesCsv(race, finishes));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export finishes" });
+    }
+  });
+
+  // Latest positions from the Vakaros/TracTrac feeds set on this event,
+  // limited to the providers listed in ?sources= (comma separated)
+  app.get("/api/events/:id/tracked-boats", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id as string);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      const sources = z.array(trackingSourceSchema).safeParse(
+        typeof req.query.sources === "string" ? req.query.sources.split(",").filter(Boolean) : []
+      );
+      if (!sources.success) {
+        return res.status(400).json({ error: "Unknown tracking source" });
+      }
+      const enabled = new Set(sources.data);
+      const tracking = event.trackingEventIds ?? {};
+      const subscriptions: TrackingSubscription[] = [];
+      if (tracking.vakaros && enabled.has("vakaros")) {
+        subscriptions.push({ source: "vakaros", externalEventId: tracking.vakaros });
+      }
+      if (tracking.tractrac && enabled.has("tractrac")) {
+        subscriptions.push({ source: "tractrac", externalEventId: tracking.tractrac });
+      }
+      res.json(getTrackedBoats(event.id, subscriptions));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tracked boats" });
+    }
+  });
+
+  // Committee boat instruments and AIS traffic from the NMEA feed
+  app.get("/api/events/:id/nmea", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      res.json(getNmeaSnapshot(req.params.id as string));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch NMEA data" });
+    }
+  });
+
+  // Raw NMEA 0183 sentences, one per line: a recorded log or a relay from the boat
+  app.post("/api/events/:id/nmea", requireAuth, requireEventAccess, express.text({ type: "text/plain", limit: "20mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ error: "NMEA sentences required as text/plain" });
+      }
+      // The settings dialog uploads recorded logs; a relay from the boat is live
+      res.json(ingestNmea(req.params.id as string, req.body, { recording: req.query.recording === "true" }));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to ingest NMEA data" });
+    }
+  });
+
+  // Recorded buoy, mark and boat positions plus wind readings, for race replay
+  app.get("/api/events/:id/position-history", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const { from, to } = positionHistoryQuerySchema.parse(req.query);
+      const [positions, wind] = await Promise.all([
+        storage.getPositionHistory(eventId, from, to),
+        storage.getEventWeatherHistoryRange(eventId, from, to),
+      ]);
+      const response: PositionHistoryResponse = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        positions,
+        wind,
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid replay window", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch position history" });
+    }
+  });
+
+  // Race committee log, oldest first. Entries are only ever added, never edited or removed.
+  app.get("/api/events/:id/race-log", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const { raceId } = raceLogQuerySchema.parse(req.query);
+      const entries = await storage.getRaceLog(req.params.id as string, raceId);
+      res.json(await withAuthors(entries));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid race log query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch race log" });
+    }
+  });
+
+  app.post("/api/events/:id/race-log", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const data = raceLogEntryRequestSchema.parse(req.body);
+
+      if (data.raceId) {
+        const race = await storage.getRace(data.raceId);
+        if (!race || race.eventId !== eventId) {
+          return res.status(404).json({ error: "Race not found" });
+        }
+      }
+
+      const entry = await addRaceLogEntry({ eventId, ...data, userId: req.session.userId });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid race log entry", details: error.errors });
+      }
+      console.error("Failed to record race log entry:", error);
+      res.status(500).json({ error: "Failed to record race log entry" });
+    }
+  });
+
+  app.get("/api/events/:id/race-log/export", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const { raceId } = raceLogQuerySchema.parse(req.query);
+      const [event, races, entries] = await Promise.all([
+        storage.getEvent(eventId),
+        storage.getRacesForEvent(eventId),
+        storage.getRaceLog(eventId, raceId),
+      ]);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const race = raceId ? races.find(r => r.id === raceId) : undefined;
+      const filename = `${event.name}-${race ? `race-${race.raceNumber}-` : ""}race-log.csv`.replace(/[^\w.-]+/g, "_");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(buildRaceLogCsv(await withAuthors(entries), races));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid race log query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to export race log" });
+    }
+  });
+
+  // Current (most recent) start sequence for an event
+  app.get("/api/events/:id/start-sequence", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const sequence = await storage.getLatestStartSequence(eventId);
+      res.json(startSequenceResponse(sequence));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch start sequence" });
+    }
+  });
+
+  app.post("/api/events/:id/start-sequence", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const eventId = req.params.id as string;
+      const { fleets, timing, preparatoryFlag, warningAt } = startSequenceRequestSchema.parse(req.body);
+
+      const event = await storage.getEvent(eventId);
+      if (!event) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const now = new Date();
+      const current = await storage.getLatestStartSequence(eventId);
+      if (current && isStartSequenceActive(current, now)) {
+        return res.status(409).json({ error: "A start sequence is already in progress" });
+      }
+
+      const firstWarning = warningAt ? new Date(warningAt) : now;
+      if (firstWarning.getTime() < now.getTime() - 1000) {
+        return res.status(400).json({ error: "Warning signal time is in the past" });
+      }
+
+      const sequence = await storage.createStartSequence(
+        buildStartSequence(eventId, fleets, timing, preparatoryFlag, firstWarning, req.session.userId ?? null)
+      );
+      recordStartSequenceSignal(sequence, "started", req.session.userId);
+      recordAudit(req, { action: "create", entityType: "start_sequence", entityId: sequence.id, label: "Start sequence", after: sequence, scope: { eventId } });
+      res.status(201).json(startSequenceResponse(sequence));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid start sequence", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to start sequence" });
+    }
+  });
+
+  // AP - postpone every fleet that has not started
+  app.post("/api/events/:id/start-sequence/postpone", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const sequence = await storage.getLatestStartSequence(req.params.id as string);
+      if (!sequence) {
+        return res.status(404).json({ error: "No start sequence" });
+      }
+
+      const update = postponeStartSequence(sequence, new Date());
+      if (!update) {
+        return res.status(409).json({ error: "Nothing left to postpone" });
+      }
+
+      const updated = await storage.updateStartSequence(sequence.id, update);
+      if (updated) {
+        recordStartSequenceSignal(updated, "postponed", req.session.userId);
+        recordAudit(req, { action: "update", entityType: "start_sequence", entityId: updated.id, label: "Start sequence", before: sequence, after: updated, scope: { eventId: updated.eventId } });
+      }
+      res.json(startSequenceResponse(updated));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to postpone start sequence" });
+    }
+  });
+
+  // First Substitute - general recall of a fleet that has just started
+  app.post("/api/events/:id/start-sequence/general-recall", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const { fleetIndex } = generalRecallRequestSchema.parse(req.body);
+      const sequence = await storage.getLatestStartSequence(req.params.id as string);
+      if (!sequence) {
+        return res.status(404).json({ error: "No start sequence" });
+      }
+
+      const update = generalRecallStartSequence(sequence, fleetIndex, new Date());
+      if (!update) {
+        return res.status(409).json({ error: "Only a fleet that started in the last 3 minutes can be recalled" });
+      }
+
+      const updated = await storage.updateStartSequence(sequence.id, update);
+      if (updated) {
+        recordStartSequenceSignal(updated, "general_recall", req.session.userId, fleetIndex);
+        recordAudit(req, { action: "update", entityType: "start_sequence", entityId: updated.id, label: "Start sequence", before: sequence, after: updated, scope: { eventId: updated.eventId } });
+      }
+      res.json(startSequenceResponse(updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid general recall", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to signal general recall" });
+    }
+  });
+
+  // Lower AP / First Substitute - the next warning signal follows one minute later
+  app.post("/api/events/:id/start-sequence/resume", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const sequence = await storage.getLatestStartSequence(req.params.id as string);
+      if (!sequence) {
+        return res.status(404).json({ error: "No start sequence" });
+      }
+
+      const update = resumeStartSequence(sequence, new Date());
+      if (!update) {
+        return res.status(409).json({ error: "Start sequence is not postponed or recalled" });
+      }
+
+      const updated = await storage.updateStartSequence(sequence.id, update);
+      if (updated) {
+        recordStartSequenceSignal(updated, "resumed", req.session.userId);
+        recordAudit(req, { action: "update", entityType: "start_sequence", entityId: updated.id, label: "Start sequence", before: sequence, after: updated, scope: { eventId: updated.eventId } });
+      }
+      res.json(startSequenceResponse(updated));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resume start sequence" });
+    }
+  });
+
+  app.post("/api/events/:id/start-sequence/cancel", requireAuth, requireEventAccess, async (req, res) => {
+    try {
+      const sequence = await storage.getLatestStartSequence(req.params.id as string);
+      if (!sequence) {
+        return res.status(404).json({ error: "No start sequence" });
+      }
+
+      const update = cancelStartSequence(sequence);
+      if (!update) {
+        return res.status(409).json({ error: "Start sequence is already cancelled" });
+      }
+
+      const updated = await storage.updateStartSequence(sequence.id, update);
+      if (updated) {
+        recordStartSequenceSignal(updated, "cancelled", req.session.userId);
+        recordAudit(req, { action: "update", entityType: "start_sequence", entityId: updated.id, label: "Start sequence", before: sequence, after: updated, scope: { eventId: updated.eventId } });
+      }
+      res.json(startSequenceResponse(updated));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel start sequence" });
+    }
+  });
+
   return httpServer;
 }
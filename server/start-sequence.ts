@@ -0,0 +1,133 @@
+import { GENERAL_RECALL_WINDOW_MS, type InsertStartSequence, type PreparatoryFlag, type StartSequence, type StartSequenceFleet } from "@shared/schema";
+
+// Start sequence timing per RRS 26. Start times are computed and stored here so every
+// client counts down to the same server timestamps; signals are derived from them.
+
+// RRS 27.3 / 29.2: the new warning signal is made one minute after AP or the First
+// Substitute is removed
+const RESUME_DELAY_SECONDS = 60;
+
+export interface StartSequenceTiming {
+  warningSeconds: number;
+  preparatorySeconds: number;
+  oneMinuteSeconds: number;
+}
+
+export type StartSequenceUpdate = Partial<InsertStartSequence>;
+
+export function hasFleetStarted(fleet: StartSequenceFleet, now: Date): boolean {
+  return fleet.startAt !== null && new Date(fleet.startAt).getTime() <= now.getTime();
+}
+
+// Still has fleets to start (or is held by AP / First Substitute)
+export function isStartSequenceActive(sequence: StartSequence, now: Date): boolean {
+  if (sequence.status === "cancelled") {
+    return false;
+  }
+  return sequence.status !== "running" || sequence.fleets.some(f => !hasFleetStarted(f, now));
+}
+
+// Gives every unscheduled fleet a start, in order, with the first warning signal at warningAt.
+// Each following fleet's warning signal is the previous fleet's start signal.
+function scheduleFleets(fleets: StartSequenceFleet[], warningAt: Date, warningSeconds: number): StartSequenceFleet[] {
+  let nextStart = warningAt.getTime() + warningSeconds * 1000;
+  return fleets.map(fleet => {
+    if (fleet.startAt !== null) {
+      return fleet;
+    }
+    const scheduled = { ...fleet, startAt: new Date(nextStart).toISOString() };
+    nextStart += warningSeconds * 1000;
+    return scheduled;
+  });
+}
+
+export function buildStartSequence(
+  eventId: string,
+  fleets: Array<{ name: string; classFlag: string }>,
+  timing: StartSequenceTiming,
+  preparatoryFlag: PreparatoryFlag,
+  warningAt: Date,
+  createdBy: string | null
+): InsertStartSequence {
+  return {
+    eventId,
+    status: "running",
+    ...timing,
+    preparatoryFlag,
+    fleets: scheduleFleets(
+      fleets.map(f => ({ name: f.name, classFlag: f.classFlag, startAt: null, recalls: 0 })),
+      warningAt,
+      timing.warningSeconds
+    ),
+    createdBy,
+  };
+}
+
+/**
+ * AP hoisted: every fleet that has not started loses its start time until the
+ * postponement is lifted. Returns null if there is nothing left to postpone.
+ */
+export function postponeStartSequence(sequence: StartSequence, now: Date): StartSequenceUpdate | null {
+  if (sequence.status !== "running" || sequence.fleets.every(f => hasFleetStarted(f, now))) {
+    return null;
+  }
+
+  return {
+    status: "postponed",
+    postponedAt: now,
+    fleets: sequence.fleets.map(f => (hasFleetStarted(f, now) ? f : { ...f, startAt: null })),
+  };
+}
+
+/**
+ * First Substitute hoisted for a fleet that has just started. The recalled fleet
+ * restarts first and any fleets still in their sequence follow it (RRS 29.2).
+ * Returns null once the recall window after its start has passed.
+ */
+export function generalRecallStartSequence(
+  sequence: StartSequence,
+  fleetIndex: number,
+  now: Date
+): StartSequenceUpdate | null {
+  const fleet = sequence.fleets[fleetIndex];
+  if (sequence.status !== "running" || !fleet?.startAt || !hasFleetStarted(fleet, now)) {
+    return null;
+  }
+  if (now.getTime() - new Date(fleet.startAt).getTime() >= GENERAL_RECALL_WINDOW_MS) {
+    return null;
+  }
+
+  return {
+    status: "general_recall",
+    recalledAt: now,
+    fleets: sequence.fleets.map((f, index) => {
+      if (index === fleetIndex) {
+        return { ...f, startAt: null, recalls: f.recalls + 1 };
+      }
+      return index > fleetIndex && !hasFleetStarted(f, now) ? { ...f, startAt: null } : f;
+    }),
+  };
+}
+
+/**
+ * AP or First Substitute lowered: unscheduled fleets resume with a warning signal
+ * one minute later. Returns null if the sequence is not being held.
+ */
+export function resumeStartSequence(sequence: StartSequence, now: Date): StartSequenceUpdate | null {
+  if (sequence.status !== "postponed" && sequence.status !== "general_recall") {
+    return null;
+  }
+
+  const warningAt = new Date(now.getTime() + RESUME_DELAY_SECONDS * 1000);
+  return {
+    status: "running",
+    fleets: scheduleFleets(sequence.fleets, warningAt, sequence.warningSeconds),
+  };
+}
+
+export function cancelStartSequence(sequence: StartSequence): StartSequenceUpdate | null {
+  if (sequence.status === "cancelled") {
+    return null;
+  }
+  return { status: "cancelled" };
+}
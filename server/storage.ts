@@ -10,8 +10,18 @@ import {
   type UserEventAccess, type InsertUserEventAccess,
   type CourseSnapshot, type InsertCourseSnapshot,
   type BuoyWeatherHistory, type InsertBuoyWeatherHistory,
+  type BuoyCommand, type InsertBuoyCommand,
+  type BuoyDeviceCredential,
+  type StartSequence, type InsertStartSequence,
+  type Race, type InsertRace,
+  type RaceFinish, type InsertRaceFinish,
+  type PositionRecord, type InsertPositionRecord,
+  type RaceLogEntry, type InsertRaceLogEntry,
+  type AuditLogEntry, type InsertAuditLogEntry,
+  openBuoyCommandStatuses,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { publishBuoyUpdate, publishBuoyRemoved } from "./buoy-events";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -60,6 +70,37 @@ export interface IStorage {
   createBuoy(buoy: InsertBuoy): Promise<Buoy>;
   updateBuoy(id: string, buoy: Partial<InsertBuoy>): Promise<Buoy | undefined>;
   deleteBuoy(id: string): Promise<boolean>;
+  getBuoyBySerialNumber(serialNumber: string): Promise<Buoy | undefined>;
+  getBuoyDeviceCredential(buoyId: string): Promise<BuoyDeviceCredential | undefined>;
+  setBuoyDeviceCredential(buoyId: string, keyHash: string): Promise<BuoyDeviceCredential>;
+
+  // Buoy command queue
+  getBuoyCommand(id: string): Promise<BuoyCommand | undefined>;
+  getBuoyCommands(buoyId: string, limit?: number): Promise<BuoyCommand[]>;
+  getQueuedBuoyCommands(buoyId: string): Promise<BuoyCommand[]>;
+  getExpiredBuoyCommands(sentBefore: Date): Promise<BuoyCommand[]>;
+  createBuoyCommand(command: InsertBuoyCommand): Promise<BuoyCommand>;
+  updateBuoyCommand(id: string, update: BuoyCommandUpdate): Promise<BuoyCommand | undefined>;
+
+  // Races
+  getRace(id: string): Promise<Race | undefined>;
+  getRacesForEvent(eventId: string): Promise<Race[]>;
+  createRace(race: InsertRace): Promise<Race>;
+  updateRace(id: string, race: Partial<InsertRace>): Promise<Race | undefined>;
+  deleteRace(id: string): Promise<boolean>;
+
+  // Race finishes
+  getRaceFinish(id: string): Promise<RaceFinish | undefined>;
+  getRaceFinishes(raceId: string): Promise<RaceFinish[]>;
+  createRaceFinish(finish: InsertRaceFinish): Promise<RaceFinish>;
+  updateRaceFinish(id: string, finish: Partial<InsertRaceFinish>): Promise<RaceFinish | undefined>;
+  deleteRaceFinish(id: string): Promise<boolean>;
+
+  // Start sequences
+  getStartSequence(id: string): Promise<StartSequence | undefined>;
+  getLatestStartSequence(eventId: string): Promise<StartSequence | undefined>;
+  createStartSequence(sequence: InsertStartSequence): Promise<StartSequence>;
+  updateStartSequence(id: string, sequence: Partial<InsertStartSequence>): Promise<StartSequence | undefined>;
 
   getBuoyAssignment(id: string): Promise<BuoyAssignment | undefined>;
   getBuoyAssignments(buoyId: string): Promise<BuoyAssignment[]>;
@@ -75,6 +116,8 @@ export interface IStorage {
   getCourseSnapshot(id: string): Promise<CourseSnapshot | undefined>;
   listCourseSnapshots(params: CourseSnapshotListParams): Promise<CourseSnapshotListResult>;
   createCourseSnapshot(snapshot: InsertCourseSnapshot): Promise<CourseSnapshot>;
+  // Every version of a saved course, oldest first
+  getCourseSnapshotVersions(lineageId: string): Promise<CourseSnapshot[]>;
   deleteCourseSnapshot(id: string): Promise<boolean>;
   
   // Weather History
@@ -82,8 +125,26 @@ export interface IStorage {
   getEventWeatherHistory(eventId: string, sinceMinutes: number): Promise<BuoyWeatherHistory[]>;
   createWeatherReading(reading: InsertBuoyWeatherHistory): Promise<BuoyWeatherHistory>;
   deleteOldWeatherHistory(olderThanHours: number): Promise<number>;
+  getEventWeatherHistoryRange(eventId: string, from: Date, to: Date): Promise<BuoyWeatherHistory[]>;
+
+  // Position history (race replay)
+  createPositionRecords(records: InsertPositionRecord[]): Promise<PositionRecord[]>;
+  getPositionHistory(eventId: string, from: Date, to: Date): Promise<PositionRecord[]>;
+
+  // Race committee log (append-only)
+  getRaceLog(eventId: string, raceId?: string): Promise<RaceLogEntry[]>;
+  createRaceLogEntry(entry: InsertRaceLogEntry): Promise<RaceLogEntry>;
+
+  // Audit trail (append-only), newest first
+  getAuditLog(filter: AuditLogFilter): Promise<AuditLogEntry[]>;
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
 }
 
+// Delivery-state fields a command can move through after it is queued
+export type BuoyCommandUpdate = Partial<Pick<BuoyCommand,
+  "status" | "attempts" | "lastSentAt" | "acknowledgedAt" | "completedAt" | "errorMessage"
+>>;
+
 // Pagination and filtering params for course snapshot listing
 export interface CourseSnapshotListParams {
   // Visibility filtering based on user role
@@ -100,6 +161,14 @@ export interface CourseSnapshotListParams {
   limit?: number;          // Items per page (default 25)
 }
 
+export interface AuditLogFilter {
+  sailClubId?: string;
+  eventId?: string;
+  userId?: string;
+  entityType?: string;
+  limit: number;
+}
+
 export interface CourseSnapshotListResult {
   snapshots: CourseSnapshot[];
   nextCursor: string | null;  // ID to use for next page, null if no more
@@ -118,6 +187,14 @@ export class MemStorage implements IStorage {
   private userSettings: Map<string, UserSettings> = new Map();
   private courseSnapshots: Map<string, CourseSnapshot> = new Map();
   private weatherHistory: Map<string, BuoyWeatherHistory> = new Map();
+  private buoyCommands: Map<string, BuoyCommand> = new Map();
+  private buoyDeviceCredentials: Map<string, BuoyDeviceCredential> = new Map();
+  private startSequences: Map<string, StartSequence> = new Map();
+  private races: Map<string, Race> = new Map();
+  private raceFinishes: Map<string, RaceFinish> = new Map();
+  private positionHistory: Map<string, PositionRecord> = new Map();
+  private raceLog: Map<string, RaceLogEntry> = new Map();
+  private auditLog: Map<string, AuditLogEntry> = new Map();
 
   constructor() {
     this.seedData();
@@ -144,6 +221,8 @@ export class MemStorage implements IStorage {
       rotation: 0,
       scale: 1,
       roundingSequence: null,
+      designation: null,
+      roundingSides: null,
     });
 
     const eventId = randomUUID();
@@ -346,14 +425,16 @@ export class MemStorage implements IStorage {
     // Release all buoys assigned to this event - reset state and clear eventId
     for (const buoy of this.buoys.values()) {
       if (buoy.eventId === id) {
-        this.buoys.set(buoy.id, {
+        const released: Buoy = {
           ...buoy,
           eventId: null,
           state: "idle",
           targetLat: null,
           targetLng: null,
           eta: null
-        });
+        };
+        this.buoys.set(buoy.id, released);
+        publishBuoyUpdate(released);
       }
     }
     
@@ -375,6 +456,19 @@ export class MemStorage implements IStorage {
         this.userEventAccess.delete(accessId);
       }
     }
+    
+    Array.from(this.startSequences.values())
+      .filter(s => s.eventId === id)
+      .forEach(s => this.startSequences.delete(s.id));
+    Array.from(this.races.values())
+      .filter(r => r.eventId === id)
+      .forEach(r => this.deleteRace(r.id));
+    Array.from(this.positionHistory.values())
+      .filter(p => p.eventId === id)
+      .forEach(p => this.positionHistory.delete(p.id));
+    Array.from(this.raceLog.values())
+      .filter(e => e.eventId === id)
+      .forEach(e => this.raceLog.delete(e.id));
     return this.events.delete(id);
   }
 
@@ -395,6 +489,8 @@ export class MemStorage implements IStorage {
       rotation: course.rotation ?? 0,
       scale: course.scale ?? 1,
       roundingSequence: course.roundingSequence ?? null,
+      designation: course.designation ?? null,
+      roundingSides: course.roundingSides ?? null,
     };
     this.courses.set(id, newCourse);
     return newCourse;
@@ -446,6 +542,7 @@ export class MemStorage implements IStorage {
       gateSide: mark.gateSide ?? null,
       gatePortBuoyId: mark.gatePortBuoyId ?? null,
       gateStarboardBuoyId: mark.gateStarboardBuoyId ?? null,
+      roundingSide: mark.roundingSide ?? null,
     };
     this.marks.set(id, newMark);
     return newMark;
@@ -508,6 +605,7 @@ export class MemStorage implements IStorage {
       lat: buoy.lat,
       lng: buoy.lng,
       speed: buoy.speed ?? 0,
+      heading: buoy.heading ?? null,
       battery: buoy.battery ?? 100,
       signalStrength: buoy.signalStrength ?? 100,
       targetLat: buoy.targetLat ?? null,
@@ -517,12 +615,14 @@ export class MemStorage implements IStorage {
       currentSpeed: buoy.currentSpeed ?? null,
       currentDirection: buoy.currentDirection ?? null,
       eta: buoy.eta ?? null,
+      driftDistance: buoy.driftDistance ?? null,
       ownershipType: buoy.ownershipType ?? "platform_owned",
       inventoryStatus: buoy.inventoryStatus ?? "in_inventory",
       hardwareConfig: buoy.hardwareConfig as Buoy["hardwareConfig"] ?? null,
       createdAt: new Date(),
     };
     this.buoys.set(id, newBuoy);
+    publishBuoyUpdate(newBuoy);
     return newBuoy;
   }
 
@@ -537,6 +637,7 @@ export class MemStorage implements IStorage {
         : existing.hardwareConfig,
     };
     this.buoys.set(id, updated);
+    publishBuoyUpdate(updated);
     return updated;
   }
 
@@ -571,7 +672,221 @@ export class MemStorage implements IStorage {
       }
     }
     
-    return this.buoys.delete(id);
+    // Delete queued and historical commands
+    Array.from(this.buoyCommands.values())
+      .filter(c => c.buoyId === id)
+      .forEach(c => this.buoyCommands.delete(c.id));
+    
+    this.buoyDeviceCredentials.delete(id);
+    
+    const deleted = this.buoys.delete(id);
+    if (deleted) {
+      publishBuoyRemoved(id);
+    }
+    return deleted;
+  }
+
+  async getBuoyBySerialNumber(serialNumber: string): Promise<Buoy | undefined> {
+    return Array.from(this.buoys.values()).find(b => b.serialNumber === serialNumber);
+  }
+
+  async getBuoyDeviceCredential(buoyId: string): Promise<BuoyDeviceCredential | undefined> {
+    return this.buoyDeviceCredentials.get(buoyId);
+  }
+
+  async setBuoyDeviceCredential(buoyId: string, keyHash: string): Promise<BuoyDeviceCredential> {
+    const credential: BuoyDeviceCredential = {
+      id: this.buoyDeviceCredentials.get(buoyId)?.id ?? randomUUID(),
+      buoyId,
+      keyHash,
+      createdAt: new Date(),
+    };
+    this.buoyDeviceCredentials.set(buoyId, credential);
+    return credential;
+  }
+
+  async getBuoyCommand(id: string): Promise<BuoyCommand | undefined> {
+    return this.buoyCommands.get(id);
+  }
+
+  async getBuoyCommands(buoyId: string, limit: number = 20): Promise<BuoyCommand[]> {
+    return Array.from(this.buoyCommands.values())
+      .filter(c => c.buoyId === buoyId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getQueuedBuoyCommands(buoyId: string): Promise<BuoyCommand[]> {
+    return Array.from(this.buoyCommands.values())
+      .filter(c => c.buoyId === buoyId && c.status === "pending")
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getExpiredBuoyCommands(sentBefore: Date): Promise<BuoyCommand[]> {
+    return Array.from(this.buoyCommands.values())
+      .filter(c => c.status === "sent" && c.lastSentAt !== null && c.lastSentAt < sentBefore);
+  }
+
+  async createBuoyCommand(command: InsertBuoyCommand): Promise<BuoyCommand> {
+    // A new command replaces anything the buoy has not finished yet
+    Array.from(this.buoyCommands.values())
+      .filter(c => c.buoyId === command.buoyId && openBuoyCommandStatuses.includes(c.status))
+      .forEach(c => this.buoyCommands.set(c.id, { ...c, status: "superseded" }));
+    
+    const id = randomUUID();
+    const newCommand: BuoyCommand = {
+      id,
+      buoyId: command.buoyId,
+      command: command.command,
+      targetLat: command.targetLat ?? null,
+      targetLng: command.targetLng ?? null,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: command.maxAttempts ?? 3,
+      lastSentAt: null,
+      acknowledgedAt: null,
+      completedAt: null,
+      errorMessage: null,
+      issuedBy: command.issuedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.buoyCommands.set(id, newCommand);
+    return newCommand;
+  }
+
+  async updateBuoyCommand(id: string, update: BuoyCommandUpdate): Promise<BuoyCommand | undefined> {
+    const existing = this.buoyCommands.get(id);
+    if (!existing) return undefined;
+    const updated: BuoyCommand = { ...existing, ...update };
+    this.buoyCommands.set(id, updated);
+    return updated;
+  }
+
+  async getRace(id: string): Promise<Race | undefined> {
+    return this.races.get(id);
+  }
+
+  async getRacesForEvent(eventId: string): Promise<Race[]> {
+    return Array.from(this.races.values())
+      .filter(r => r.eventId === eventId)
+      .sort((a, b) => a.raceNumber - b.raceNumber);
+  }
+
+  async createRace(race: InsertRace): Promise<Race> {
+    const id = randomUUID();
+    const now = new Date();
+    const newRace: Race = {
+      id,
+      eventId: race.eventId,
+      raceNumber: race.raceNumber,
+      fleet: race.fleet ?? null,
+      status: race.status ?? "scheduled",
+      startTime: race.startTime ?? null,
+      finishedAt: race.finishedAt ?? null,
+      courseSnapshotId: race.courseSnapshotId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.races.set(id, newRace);
+    return newRace;
+  }
+
+  async updateRace(id: string, race: Partial<InsertRace>): Promise<Race | undefined> {
+    const existing = this.races.get(id);
+    if (!existing) return undefined;
+    const updated: Race = { ...existing, ...race, updatedAt: new Date() };
+    this.races.set(id, updated);
+    return updated;
+  }
+
+  async deleteRace(id: string): Promise<boolean> {
+    Array.from(this.raceFinishes.values())
+      .filter(f => f.raceId === id)
+      .forEach(f => this.raceFinishes.delete(f.id));
+    return this.races.delete(id);
+  }
+
+  async getRaceFinish(id: string): Promise<RaceFinish | undefined> {
+    return this.raceFinishes.get(id);
+  }
+
+  async getRaceFinishes(raceId: string): Promise<RaceFinish[]> {
+    // Finish order; code-only entries (no time) go last
+    return Array.from(this.raceFinishes.values())
+      .filter(f => f.raceId === raceId)
+      .sort((a, b) =>
+        (a.finishTime?.getTime() ?? Infinity) - (b.finishTime?.getTime() ?? Infinity) ||
+        (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0)
+      );
+  }
+
+  async createRaceFinish(finish: InsertRaceFinish): Promise<RaceFinish> {
+    const id = randomUUID();
+    const now = new Date();
+    const newFinish: RaceFinish = {
+      id,
+      raceId: finish.raceId,
+      sailNumber: finish.sailNumber ?? null,
+      finishTime: finish.finishTime ?? null,
+      scoringCode: finish.scoringCode ?? null,
+      source: finish.source ?? "manual",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.raceFinishes.set(id, newFinish);
+    return newFinish;
+  }
+
+  async updateRaceFinish(id: string, finish: Partial<InsertRaceFinish>): Promise<RaceFinish | undefined> {
+    const existing = this.raceFinishes.get(id);
+    if (!existing) return undefined;
+    const updated: RaceFinish = { ...existing, ...finish, updatedAt: new Date() };
+    this.raceFinishes.set(id, updated);
+    return updated;
+  }
+
+  async deleteRaceFinish(id: string): Promise<boolean> {
+    return this.raceFinishes.delete(id);
+  }
+
+  async getStartSequence(id: string): Promise<StartSequence | undefined> {
+    return this.startSequences.get(id);
+  }
+
+  async getLatestStartSequence(eventId: string): Promise<StartSequence | undefined> {
+    return Array.from(this.startSequences.values())
+      .filter(s => s.eventId === eventId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+  }
+
+  async createStartSequence(sequence: InsertStartSequence): Promise<StartSequence> {
+    const id = randomUUID();
+    const now = new Date();
+    const newSequence: StartSequence = {
+      id,
+      eventId: sequence.eventId,
+      status: sequence.status ?? "running",
+      warningSeconds: sequence.warningSeconds ?? 300,
+      preparatorySeconds: sequence.preparatorySeconds ?? 240,
+      oneMinuteSeconds: sequence.oneMinuteSeconds ?? 60,
+      preparatoryFlag: sequence.preparatoryFlag ?? "P",
+      fleets: sequence.fleets,
+      postponedAt: sequence.postponedAt ?? null,
+      recalledAt: sequence.recalledAt ?? null,
+      createdBy: sequence.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.startSequences.set(id, newSequence);
+    return newSequence;
+  }
+
+  async updateStartSequence(id: string, sequence: Partial<InsertStartSequence>): Promise<StartSequence | undefined> {
+    const existing = this.startSequences.get(id);
+    if (!existing) return undefined;
+    const updated: StartSequence = { ...existing, ...sequence, updatedAt: new Date() };
+    this.startSequences.set(id, updated);
+    return updated;
   }
 
   async getBuoysForEvent(eventId: string): Promise<Buoy[]> {
@@ -704,6 +1019,9 @@ export class MemStorage implements IStorage {
     
     // Get all snapshots and filter by visibility
     let snapshots = Array.from(this.courseSnapshots.values()).filter(s => {
+      // Race records are reached through their race, never listed
+      if (s.visibilityScope === "race") return false;
+      
       // Super admin sees all
       if (userRole === "super_admin") return true;
       
@@ -757,6 +1075,12 @@ export class MemStorage implements IStorage {
   }
 
   async createCourseSnapshot(snapshot: InsertCourseSnapshot): Promise<CourseSnapshot> {
+    // Same unique (lineage, version) rule as the database, with Postgres' error code
+    const lineageId = snapshot.lineageId ?? null;
+    const version = snapshot.version ?? 1;
+    if (lineageId && Array.from(this.courseSnapshots.values()).some(s => s.lineageId === lineageId && s.version === version)) {
+      throw Object.assign(new Error(`Version ${version} of course ${lineageId} already exists`), { code: "23505" });
+    }
     const id = randomUUID();
     const newSnapshot: CourseSnapshot = {
       id,
@@ -775,13 +1099,24 @@ export class MemStorage implements IStorage {
       rotation: snapshot.rotation ?? 0,
       scale: snapshot.scale ?? 1,
       roundingSequence: snapshot.roundingSequence ?? null,
+      designation: snapshot.designation ?? null,
+      roundingSides: snapshot.roundingSides ?? null,
       snapshotMarks: snapshot.snapshotMarks,
+      lineageId: snapshot.lineageId ?? null,
+      parentSnapshotId: snapshot.parentSnapshotId ?? null,
+      version: snapshot.version ?? 1,
       createdAt: new Date(),
     };
     this.courseSnapshots.set(id, newSnapshot);
     return newSnapshot;
   }
 
+  async getCourseSnapshotVersions(lineageId: string): Promise<CourseSnapshot[]> {
+    return Array.from(this.courseSnapshots.values())
+      .filter(s => s.id === lineageId || s.lineageId === lineageId)
+      .sort((a, b) => a.version - b.version);
+  }
+
   async deleteCourseSnapshot(id: string): Promise<boolean> {
     return this.courseSnapshots.delete(id);
   }
@@ -840,6 +1175,93 @@ export class MemStorage implements IStorage {
     }
     return count;
   }
+
+  async getEventWeatherHistoryRange(eventId: string, from: Date, to: Date): Promise<BuoyWeatherHistory[]> {
+    return Array.from(this.weatherHistory.values())
+      .filter(r => r.eventId === eventId && r.timestamp >= from && r.timestamp <= to)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async createPositionRecords(records: InsertPositionRecord[]): Promise<PositionRecord[]> {
+    return records.map(record => {
+      const newRecord: PositionRecord = {
+        id: randomUUID(),
+        eventId: record.eventId,
+        kind: record.kind,
+        entityId: record.entityId,
+        label: record.label ?? null,
+        lat: record.lat,
+        lng: record.lng,
+        heading: record.heading ?? null,
+        speed: record.speed ?? null,
+        state: record.state ?? null,
+        data: record.data ?? null,
+        recordedAt: record.recordedAt ?? new Date(),
+      };
+      this.positionHistory.set(newRecord.id, newRecord);
+      return newRecord;
+    });
+  }
+
+  async getPositionHistory(eventId: string, from: Date, to: Date): Promise<PositionRecord[]> {
+    // Marks only get a record when edited, so earlier ones are kept to give the course as it stood at `from`
+    return Array.from(this.positionHistory.values())
+      .filter(p => p.eventId === eventId && p.recordedAt <= to && (p.recordedAt >= from || p.kind === "mark"))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async getRaceLog(eventId: string, raceId?: string): Promise<RaceLogEntry[]> {
+    return Array.from(this.raceLog.values())
+      .filter(e => e.eventId === eventId && (!raceId || e.raceId === raceId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createRaceLogEntry(entry: InsertRaceLogEntry): Promise<RaceLogEntry> {
+    const newEntry: RaceLogEntry = {
+      id: randomUUID(),
+      eventId: entry.eventId,
+      raceId: entry.raceId ?? null,
+      kind: entry.kind,
+      summary: entry.summary,
+      data: entry.data ?? null,
+      windDirection: entry.windDirection ?? null,
+      windSpeed: entry.windSpeed ?? null,
+      createdBy: entry.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.raceLog.set(newEntry.id, newEntry);
+    return newEntry;
+  }
+
+  async getAuditLog(filter: AuditLogFilter): Promise<AuditLogEntry[]> {
+    return Array.from(this.auditLog.values())
+      .filter(e =>
+        (!filter.sailClubId || e.sailClubId === filter.sailClubId) &&
+        (!filter.eventId || e.eventId === filter.eventId) &&
+        (!filter.userId || e.userId === filter.userId) &&
+        (!filter.entityType || e.entityType === filter.entityType)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filter.limit);
+  }
+
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const newEntry: AuditLogEntry = {
+      id: randomUUID(),
+      userId: entry.userId ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      entityLabel: entry.entityLabel ?? null,
+      route: entry.route,
+      changes: entry.changes ?? null,
+      sailClubId: entry.sailClubId ?? null,
+      eventId: entry.eventId ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLog.set(newEntry.id, newEntry);
+    return newEntry;
+  }
 }
 
 import { databaseStorage } from "./database-storage";
@@ -0,0 +1,91 @@
+import type { TrackedBoat, TrackingSource } from "@shared/schema";
+
+// Common shape of the race tracking connectors. Each provider turns whatever its
+// upstream service sends into TrackedBoat; boat-tracking.ts owns the open feeds.
+
+const FETCH_TIMEOUT_MS = 10000;
+
+export interface TrackingFeedHandlers {
+  onPositions(boats: TrackedBoat[]): void;
+  onError(error: Error): void;
+}
+
+export interface TrackingConnection {
+  close(): void;
+}
+
+export interface TrackingProvider {
+  readonly source: TrackingSource;
+  /**
+   * Starts ingesting positions for an event on the provider's side. Batches may
+   * hold every boat or only those with new fixes; they keep coming until closed.
+   */
+  connect(externalEventId: string, handlers: TrackingFeedHandlers): TrackingConnection;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Runs fetchBoats every intervalMs, waiting for each request to settle before
+ * scheduling the next so a slow upstream never has requests piling up.
+ */
+export function pollFeed(
+  fetchBoats: () => Promise<TrackedBoat[]>,
+  intervalMs: number,
+  handlers: TrackingFeedHandlers
+): TrackingConnection {
+  let closed = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const poll = async () => {
+    try {
+      const boats = await fetchBoats();
+      if (!closed) {
+        handlers.onPositions(boats);
+      }
+    } catch (error) {
+      if (!closed) {
+        handlers.onError(toError(error));
+      }
+    } finally {
+      if (!closed) {
+        timer = setTimeout(poll, intervalMs);
+      }
+    }
+  };
+  poll();
+
+  return {
+    close() {
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+export async function fetchJson(url: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json", ...headers },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/** Accepts ISO strings and epoch times in seconds or milliseconds. */
+export function parseFixTime(value: string | number): Date | null {
+  const date = typeof value === "number"
+    ? new Date(value < 1e12 ? value * 1000 : value)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function normalizeHeading(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
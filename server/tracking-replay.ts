@@ -0,0 +1,116 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { normalizeHeading, type TrackingProvider } from "./tracking-provider";
+import { trackingSourceSchema, type TrackedBoat } from "@shared/schema";
+
+// Plays back recorded tracks in place of the live Vakaros and TracTrac feeds so
+// boat tracking can be worked on offline. Enabled with TRACKING_REPLAY=true;
+// TRACKING_REPLAY_FILE points at another recording. The recording loops, and
+// fixes are stamped with the current time as they are played.
+
+const DEFAULT_FIXTURE_PATH = "server/fixtures/tracking-replay.json";
+const REPLAY_TICK_MS = 1000;
+
+// [seconds from start, lat, lng, heading, speed in knots]
+const replayFixSchema = z.tuple([z.number(), z.number(), z.number(), z.number(), z.number()]);
+
+const replayTrackSchema = z.object({
+  id: z.string(),
+  sailNumber: z.string(),
+  source: trackingSourceSchema,
+  fleetId: z.string().optional(),
+  fixes: z.array(replayFixSchema).min(1),
+});
+
+const replayFixtureSchema = z.object({
+  name: z.string(),
+  durationSeconds: z.number().positive(),
+  tracks: z.array(replayTrackSchema),
+});
+
+type ReplayTrack = z.infer<typeof replayTrackSchema>;
+type ReplayFixture = z.infer<typeof replayFixtureSchema>;
+
+let cachedFixture: ReplayFixture | null = null;
+
+export function isTrackingReplayEnabled(): boolean {
+  return process.env.TRACKING_REPLAY === "true";
+}
+
+function loadFixture(): ReplayFixture {
+  if (!cachedFixture) {
+    const fixturePath = path.resolve(process.cwd(), process.env.TRACKING_REPLAY_FILE || DEFAULT_FIXTURE_PATH);
+    cachedFixture = replayFixtureSchema.parse(JSON.parse(readFileSync(fixturePath, "utf-8")));
+    console.log(`Tracking replay loaded "${cachedFixture.name}" (${cachedFixture.tracks.length} boats)`);
+  }
+  return cachedFixture;
+}
+
+/** The track's position at a point in the recording, or null outside its fixes. */
+function positionAt(track: ReplayTrack, seconds: number): Omit<TrackedBoat, "timestamp"> | null {
+  const { fixes } = track;
+  if (seconds < fixes[0][0] || seconds > fixes[fixes.length - 1][0]) {
+    return null;
+  }
+
+  let i = 0;
+  while (i < fixes.length - 2 && fixes[i + 1][0] <= seconds) {
+    i++;
+  }
+  const [t0, lat0, lng0, heading0, speed0] = fixes[i];
+  const [t1, lat1, lng1, heading1, speed1] = fixes[Math.min(i + 1, fixes.length - 1)];
+  const f = t1 > t0 ? Math.min(1, (seconds - t0) / (t1 - t0)) : 0;
+  // Turn the short way round through north
+  const turn = ((heading1 - heading0 + 540) % 360) - 180;
+
+  return {
+    id: track.id,
+    sailNumber: track.sailNumber,
+    lat: lat0 + (lat1 - lat0) * f,
+    lng: lng0 + (lng1 - lng0) * f,
+    heading: normalizeHeading(heading0 + turn * f),
+    speed: speed0 + (speed1 - speed0) * f,
+    source: track.source,
+    ...(track.fleetId && { fleetId: track.fleetId }),
+  };
+}
+
+/** Replays the recorded boats from one source, whatever event ID is asked for. */
+export function createReplayProvider(source: TrackedBoat["source"]): TrackingProvider {
+  return {
+    source,
+    connect(_externalEventId, handlers) {
+      let fixture: ReplayFixture;
+      try {
+        fixture = loadFixture();
+      } catch (error) {
+        handlers.onError(error instanceof Error ? error : new Error(String(error)));
+        return { close() {} };
+      }
+
+      const tracks = fixture.tracks.filter(t => t.source === source);
+      const startedAt = Date.now();
+      const tick = () => {
+        const now = new Date();
+        const seconds = ((now.getTime() - startedAt) / 1000) % fixture.durationSeconds;
+        const boats: TrackedBoat[] = [];
+        for (const track of tracks) {
+          const position = positionAt(track, seconds);
+          if (position) {
+            boats.push({ ...position, timestamp: now });
+          }
+        }
+        handlers.onPositions(boats);
+      };
+
+      tick();
+      const timer = setInterval(tick, REPLAY_TICK_MS);
+      return {
+        close() {
+          clearInterval(timer);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { fetchJson, normalizeHeading, parseFixTime, pollFeed, type TrackingProvider } from "./tracking-provider";
+import type { TrackedBoat } from "@shared/schema";
+
+// TracTrac live event feed. Configured with TRACTRAC_API_URL (and
+// TRACTRAC_API_KEY where the event is not public); the feed is polled for the
+// last known position of each competitor in the TracTrac event.
+
+const POLL_INTERVAL_MS = 2000;
+
+const tractracCompetitorSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  sailNumber: z.string().optional(),
+  shortName: z.string().optional(),
+  className: z.string().optional(),
+  lastPosition: z.object({
+    lat: z.number(),
+    lon: z.number(),
+    // Course over ground in degrees true, speed over ground in knots
+    cog: z.number().optional(),
+    sog: z.number().optional(),
+    time: z.union([z.string(), z.number()]),
+  }).nullable().optional(),
+});
+
+const tractracResponseSchema = z.object({
+  competitors: z.array(z.unknown()),
+});
+
+export function normalizeTractracCompetitors(payload: unknown): TrackedBoat[] {
+  const { competitors } = tractracResponseSchema.parse(payload);
+  const boats: TrackedBoat[] = [];
+
+  for (const entry of competitors) {
+    const parsed = tractracCompetitorSchema.safeParse(entry);
+    if (!parsed.success || !parsed.data.lastPosition) continue;
+
+    const competitor = parsed.data;
+    const position = parsed.data.lastPosition;
+    const timestamp = parseFixTime(position.time);
+    if (!timestamp) continue;
+
+    boats.push({
+      id: `tractrac-${competitor.id}`,
+      sailNumber: competitor.sailNumber || competitor.shortName || competitor.id,
+      lat: position.lat,
+      lng: position.lon,
+      heading: normalizeHeading(position.cog ?? 0),
+      speed: position.sog ?? 0,
+      timestamp,
+      source: "tractrac",
+      ...(competitor.className && { fleetId: competitor.className }),
+    });
+  }
+
+  return boats;
+}
+
+export const tractracProvider: TrackingProvider = {
+  source: "tractrac",
+  connect(externalEventId, handlers) {
+    const baseUrl = process.env.TRACTRAC_API_URL;
+    const apiKey = process.env.TRACTRAC_API_KEY;
+
+    return pollFeed(async () => {
+      if (!baseUrl) {
+        throw new Error("TRACTRAC_API_URL must be set");
+      }
+      const url = `${baseUrl.replace(/\/$/, "")}/events/${encodeURIComponent(externalEventId)}/competitors`;
+      const payload = await fetchJson(url, apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+      return normalizeTractracCompetitors(payload);
+    }, POLL_INTERVAL_MS, handlers);
+  },
+};
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { fetchJson, normalizeHeading, parseFixTime, pollFeed, type TrackingProvider } from "./tracking-provider";
+import type { TrackedBoat } from "@shared/schema";
+
+// Vakaros Connect live positions. Configured with VAKAROS_API_URL and
+// VAKAROS_API_KEY; the feed is polled for the latest fix of every boat entered
+// in the Vakaros event set in the integration settings.
+
+const POLL_INTERVAL_MS = 2000;
+const MPS_TO_KNOTS = 1.943844;
+
+const vakarosPositionSchema = z.object({
+  boatId: z.union([z.string(), z.number()]).transform(String),
+  sailNumber: z.string().optional(),
+  boatName: z.string().optional(),
+  latitude: z.number(),
+  longitude: z.number(),
+  // Course and speed over ground, degrees true and metres per second
+  cog: z.number().optional(),
+  sog: z.number().optional(),
+  timestamp: z.union([z.string(), z.number()]),
+  division: z.string().optional(),
+});
+
+const vakarosResponseSchema = z.object({
+  positions: z.array(z.unknown()),
+});
+
+export function normalizeVakarosPositions(payload: unknown): TrackedBoat[] {
+  const { positions } = vakarosResponseSchema.parse(payload);
+  const boats: TrackedBoat[] = [];
+
+  for (const entry of positions) {
+    const parsed = vakarosPositionSchema.safeParse(entry);
+    if (!parsed.success) continue;
+
+    const position = parsed.data;
+    const timestamp = parseFixTime(position.timestamp);
+    if (!timestamp) continue;
+
+    boats.push({
+      id: `vakaros-${position.boatId}`,
+      sailNumber: position.sailNumber || position.boatName || position.boatId,
+      lat: position.latitude,
+      lng: position.longitude,
+      heading: normalizeHeading(position.cog ?? 0),
+      speed: (position.sog ?? 0) * MPS_TO_KNOTS,
+      timestamp,
+      source: "vakaros",
+      ...(position.division && { fleetId: position.division }),
+    });
+  }
+
+  return boats;
+}
+
+export const vakarosProvider: TrackingProvider = {
+  source: "vakaros",
+  connect(externalEventId, handlers) {
+    const baseUrl = process.env.VAKAROS_API_URL;
+    const apiKey = process.env.VAKAROS_API_KEY;
+
+    return pollFeed(async () => {
+      if (!baseUrl || !apiKey) {
+        throw new Error("VAKAROS_API_URL and VAKAROS_API_KEY must be set");
+      }
+      const url = `${baseUrl.replace(/\/$/, "")}/events/${encodeURIComponent(externalEventId)}/positions/latest`;
+      const payload = await fetchJson(url, { Authorization: `Bearer ${apiKey}` });
+      return normalizeVakarosPositions(payload);
+    }, POLL_INTERVAL_MS, handlers);
+  },
+};
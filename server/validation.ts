@@ -1,4 +1,5 @@
-import type { Mark, InsertMark } from "@shared/schema";
+import type { Mark, InsertMark, RoundingSide } from "@shared/schema";
+import { expandCourseDesignation } from "@shared/course-designations";
 import type { IStorage } from "./storage";
 
 export interface ValidationResult {
@@ -168,7 +169,8 @@ export async function validateRoundingSequence(
   storage: IStorage,
   courseId: string,
   sequence: string[],
-  isFinal: boolean = false
+  isFinal: boolean = false,
+  roundingSides?: Record<number, RoundingSide> | null
 ): Promise<ValidationResult> {
   if (!sequence || sequence.length === 0) {
     return { valid: true };
@@ -207,6 +209,56 @@ export async function validateRoundingSequence(
     return { valid: false, error: "'finish' can only appear once in the rounding sequence" };
   }
   
+  // Laps may come back to a mark, but never straight round it again
+  for (let i = 1; i < sequence.length; i++) {
+    if (sequence[i] === sequence[i - 1]) {
+      return { valid: false, error: `Rounding sequence rounds the same mark twice in a row at position ${i + 1}` };
+    }
+  }
+  
+  for (const [key, side] of Object.entries(roundingSides ?? {})) {
+    const index = Number(key);
+    const entry = sequence[index];
+    if (entry === undefined) {
+      return { valid: false, error: `Rounding side given for position ${index + 1}, past the end of the rounding sequence` };
+    }
+    if (entry === "start" || entry === "finish") {
+      return { valid: false, error: `Rounding side can't be set for '${entry}'` };
+    }
+    if (side !== "port" && side !== "starboard") {
+      return { valid: false, error: "Rounding side must be 'port' or 'starboard'" };
+    }
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Checks that a course designation (e.g. "L2") expands over the course's marks
+ * to exactly the given rounding sequence and sides.
+ */
+export async function validateCourseDesignation(
+  storage: IStorage,
+  courseId: string,
+  designation: string,
+  sequence: string[],
+  roundingSides: Record<number, RoundingSide> | null | undefined
+): Promise<ValidationResult> {
+  const courseMarks = await storage.getMarksByCourse(courseId);
+  let expanded;
+  try {
+    expanded = expandCourseDesignation(designation, courseMarks);
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : "Invalid course designation" };
+  }
+  
+  const sides = roundingSides ?? {};
+  const sameSides = Object.keys(sides).length === Object.keys(expanded.roundingSides).length &&
+    Object.entries(expanded.roundingSides).every(([index, side]) => sides[Number(index)] === side);
+  if (expanded.roundingSequence.join(",") !== sequence.join(",") || !sameSides) {
+    return { valid: false, error: `Rounding sequence does not match course ${expanded.designation}` };
+  }
+  
   return { valid: true };
 }
 
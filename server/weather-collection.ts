@@ -1,11 +1,11 @@
 import { databaseStorage } from "./database-storage";
 import type { Buoy, InsertBuoyWeatherHistory } from "@shared/schema";
 
-const COLLECTION_INTERVAL_MS = 10000;
-const ROLLING_AVG_WINDOW_MS = 5 * 60 * 1000;
+const SAMPLE_INTERVAL_MS = 10000;
 
-let collectionInterval: NodeJS.Timeout | null = null;
-let isCollecting = false;
+const lastRecordedAt: Map<string, number> = new Map();
+const peakGusts: Map<string, number> = new Map();
+const pendingBuoys: Set<string> = new Set();
 
 async function calculateRollingAverages(
   buoyId: string,
@@ -43,80 +43,58 @@ async function calculateRollingAverages(
   }
 }
 
-async function collectWeatherReadings(): Promise<void> {
-  if (isCollecting) {
+export interface WeatherSample {
+  windSpeed: number;
+  windDirection: number;
+  gustSpeed?: number | null;
+  currentSpeed?: number | null;
+  currentDirection?: number | null;
+  sensorQuality?: number | null;
+}
+
+/**
+ * Records a wind/current sample pushed by a buoy (telemetry ingest). Units report
+ * far more often than we keep history, so samples are thinned to one row per buoy
+ * per SAMPLE_INTERVAL_MS; the gust column keeps the peak seen in that window.
+ */
+export async function recordWeatherSample(buoy: Buoy, sample: WeatherSample): Promise<void> {
+  if (!buoy.eventId) {
     return;
   }
 
-  isCollecting = true;
-
-  try {
-    const buoys = await databaseStorage.getBuoys();
-    
-    const buoysWithWeatherData = buoys.filter(
-      (buoy) => 
-        buoy.windSpeed !== null && 
-        buoy.windDirection !== null &&
-        buoy.eventId !== null
-    );
-
-    if (buoysWithWeatherData.length === 0) {
-      return;
-    }
-
-    for (const buoy of buoysWithWeatherData) {
-      try {
-        const { avgDirection, avgSpeed } = await calculateRollingAverages(
-          buoy.id,
-          buoy.eventId
-        );
-
-        const reading: InsertBuoyWeatherHistory = {
-          buoyId: buoy.id,
-          eventId: buoy.eventId,
-          windDirection: buoy.windDirection!,
-          windSpeed: buoy.windSpeed!,
-          gustSpeed: null,
-          currentDirection: buoy.currentDirection,
-          currentSpeed: buoy.currentSpeed,
-          sensorQuality: buoy.signalStrength,
-          rollingAvgDirection: avgDirection,
-          rollingAvgSpeed: avgSpeed,
-        };
-
-        await databaseStorage.createWeatherReading(reading);
-      } catch (error) {
-        console.error(`Error recording weather for buoy ${buoy.id}:`, error);
-      }
-    }
-  } catch (error) {
-    console.error("Error in weather collection:", error);
-  } finally {
-    isCollecting = false;
-  }
-}
+  const gust = Math.max(sample.gustSpeed ?? sample.windSpeed, peakGusts.get(buoy.id) ?? 0);
+  peakGusts.set(buoy.id, gust);
 
-export function startWeatherCollection(): void {
-  if (collectionInterval) {
-    console.log("Weather collection already running");
+  const now = Date.now();
+  const lastRecorded = lastRecordedAt.get(buoy.id) ?? 0;
+  if (now - lastRecorded < SAMPLE_INTERVAL_MS || pendingBuoys.has(buoy.id)) {
     return;
   }
 
-  console.log(`Starting weather collection (every ${COLLECTION_INTERVAL_MS / 1000}s)`);
-  
-  collectWeatherReadings();
-  
-  collectionInterval = setInterval(collectWeatherReadings, COLLECTION_INTERVAL_MS);
-}
+  pendingBuoys.add(buoy.id);
+  lastRecordedAt.set(buoy.id, now);
+  peakGusts.delete(buoy.id);
 
-export function stopWeatherCollection(): void {
-  if (collectionInterval) {
-    clearInterval(collectionInterval);
-    collectionInterval = null;
-    console.log("Weather collection stopped");
+  try {
+    const { avgDirection, avgSpeed } = await calculateRollingAverages(buoy.id, buoy.eventId);
+
+    const reading: InsertBuoyWeatherHistory = {
+      buoyId: buoy.id,
+      eventId: buoy.eventId,
+      windDirection: sample.windDirection,
+      windSpeed: sample.windSpeed,
+      gustSpeed: gust,
+      currentDirection: sample.currentDirection ?? buoy.currentDirection,
+      currentSpeed: sample.currentSpeed ?? buoy.currentSpeed,
+      sensorQuality: sample.sensorQuality ?? buoy.signalStrength,
+      rollingAvgDirection: avgDirection,
+      rollingAvgSpeed: avgSpeed,
+    };
+
+    await databaseStorage.createWeatherReading(reading);
+  } catch (error) {
+    console.error(`Error recording weather for buoy ${buoy.id}:`, error);
+  } finally {
+    pendingBuoys.delete(buoy.id);
   }
 }
-
-export function isWeatherCollectionRunning(): boolean {
-  return collectionInterval !== null;
-}
@@ -0,0 +1,214 @@
+import type { Mark, RoundingSide } from "./schema";
+
+// Course designations as the sailing instructions give them: a course type and
+// a lap count, e.g. "L2" or "TL3". Each expands to a rounding sequence over the
+// course marks numbered 1-4, with the rounding side where the course sets one.
+//
+//   Ln   windward/leeward, finishing downwind   Start – (1 – 2s/2p) ×(n-1) – 1 – Finish
+//   Wn   windward/leeward, finishing upwind     Start – (1 – 2s/2p) ×n – Finish
+//   On   outer trapezoid loop                   Start – 1 – 2 – (3s/3p – 2) ×(n-1) – 3p – Finish
+//   In   inner trapezoid loop                   Start – (1 – 4s/4p) ×(n-1) – 1 – 2 – 3p – Finish
+//   Tn   triangle                               Start – (1 – 2 – 3) ×n – Finish
+//   TLn  triangle, then windward/leeward laps   Start – 1 – 2 – 3 – (1 – 3) ×(n-1) – Finish
+//
+// "2s/2p" is a gate: boats choose either end. Marks are left to port unless
+// the entry or the mark itself says otherwise.
+
+export const COURSE_TYPES = ["L", "W", "O", "I", "T", "TL"] as const;
+export type CourseType = typeof COURSE_TYPES[number];
+
+export const COURSE_TYPE_LABELS: Record<CourseType, string> = {
+  L: "Windward/leeward, leeward finish",
+  W: "Windward/leeward, windward finish",
+  O: "Trapezoid outer loop",
+  I: "Trapezoid inner loop",
+  T: "Triangle",
+  TL: "Triangle, then windward/leeward",
+};
+
+export const MAX_COURSE_LAPS = 9;
+
+export interface CourseDesignation {
+  type: CourseType;
+  laps: number;
+}
+
+export interface DesignationEntry {
+  kind: "start" | "mark" | "finish";
+  markNumber?: number;
+  // Gate: boats choose which end to round
+  gate?: boolean;
+  side?: RoundingSide;
+}
+
+export interface ExpandedCourse {
+  designation: string;
+  roundingSequence: string[];
+  // By rounding sequence index
+  roundingSides: Record<number, RoundingSide>;
+}
+
+/** Parses "L2", "tl3" etc. Returns null when the code is not a known course. */
+export function parseCourseDesignation(code: string): CourseDesignation | null {
+  const match = code.trim().toUpperCase().match(/^(TL|L|W|O|I|T)(\d)$/);
+  if (!match) return null;
+  const laps = parseInt(match[2], 10);
+  if (laps < 1 || laps > MAX_COURSE_LAPS) return null;
+  return { type: match[1] as CourseType, laps };
+}
+
+export function formatCourseDesignation({ type, laps }: CourseDesignation): string {
+  return `${type}${laps}`;
+}
+
+const mark = (markNumber: number, side?: RoundingSide): DesignationEntry => ({ kind: "mark", markNumber, ...(side && { side }) });
+const gate = (markNumber: number): DesignationEntry => ({ kind: "mark", markNumber, gate: true });
+const repeat = (entries: DesignationEntry[], times: number): DesignationEntry[] =>
+  Array.from({ length: Math.max(0, times) }, () => entries).flat();
+
+/** The course a designation describes, in mark numbers. */
+export function getDesignationEntries({ type, laps }: CourseDesignation): DesignationEntry[] {
+  let course: DesignationEntry[];
+  switch (type) {
+    case "L":
+      course = [...repeat([mark(1), gate(2)], laps - 1), mark(1)];
+      break;
+    case "W":
+      course = repeat([mark(1), gate(2)], laps);
+      break;
+    case "O":
+      course = [mark(1), mark(2), ...repeat([gate(3), mark(2)], laps - 1), mark(3, "port")];
+      break;
+    case "I":
+      course = [...repeat([mark(1), gate(4)], laps - 1), mark(1), mark(2), mark(3, "port")];
+      break;
+    case "T":
+      course = repeat([mark(1), mark(2), mark(3)], laps);
+      break;
+    case "TL":
+      course = [mark(1), mark(2), mark(3), ...repeat([mark(1), mark(3)], laps - 1)];
+      break;
+  }
+  return [{ kind: "start" }, ...course, { kind: "finish" }];
+}
+
+/** Mark numbers a course type rounds. */
+export function getDesignationMarkNumbers(type: CourseType): number[] {
+  return Array.from(new Set(
+    getDesignationEntries({ type, laps: 2 }).flatMap(e => (e.markNumber ? [e.markNumber] : []))
+  )).sort((a, b) => a - b);
+}
+
+function describeEntry(entry: DesignationEntry): string {
+  if (entry.kind === "start") return "Start";
+  if (entry.kind === "finish") return "Finish";
+  if (entry.gate) return `${entry.markNumber}s/${entry.markNumber}p`;
+  return entry.side ? `${entry.markNumber}${entry.side === "port" ? "p" : "s"}` : `${entry.markNumber}`;
+}
+
+/** The course as a course board shows it, e.g. "Start – 1 – 2s/2p – 1 – Finish". */
+export function describeCourseDesignation(designation: CourseDesignation): string {
+  return getDesignationEntries(designation).map(describeEntry).join(" – ");
+}
+
+/**
+ * Course marks by the number the sailing instructions use. A mark's number is
+ * the first number in its name ("M1", "Point 2 (Wing)"); marks without one fill
+ * the remaining numbers in mark order.
+ */
+export function numberCourseMarks(marks: Mark[]): Map<number, Mark> {
+  const courseMarks = marks
+    .filter(m => m.isCourseMark !== false && !m.isStartLine && !m.isFinishLine)
+    .sort((a, b) => a.order - b.order);
+
+  const numbered = new Map<number, Mark>();
+  const unnumbered: Mark[] = [];
+  for (const m of courseMarks) {
+    const match = m.name.match(/\d+/);
+    const number = match ? parseInt(match[0], 10) : null;
+    if (number !== null && number > 0 && !numbered.has(number)) {
+      numbered.set(number, m);
+    } else {
+      unnumbered.push(m);
+    }
+  }
+  let next = 1;
+  for (const m of unnumbered) {
+    while (numbered.has(next)) next++;
+    numbered.set(next, m);
+  }
+  return numbered;
+}
+
+/**
+ * Expands a designation over the course's marks. Throws with a readable
+ * message when the code is unknown or the course lacks a mark it rounds.
+ * A gate entry on a single mark is rounded on that mark's own side.
+ */
+export function expandCourseDesignation(code: string, marks: Mark[]): ExpandedCourse {
+  const designation = parseCourseDesignation(code);
+  if (!designation) {
+    throw new Error(`'${code}' is not a course designation. Use a course type (${COURSE_TYPES.join(", ")}) and 1-${MAX_COURSE_LAPS} laps, e.g. L2`);
+  }
+
+  const numbered = numberCourseMarks(marks);
+  const missing = getDesignationMarkNumbers(designation.type).filter(n => !numbered.has(n));
+  if (missing.length > 0) {
+    throw new Error(`Course ${formatCourseDesignation(designation)} needs mark${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`);
+  }
+
+  const roundingSequence: string[] = [];
+  const roundingSides: Record<number, RoundingSide> = {};
+  for (const entry of getDesignationEntries(designation)) {
+    if (entry.kind !== "mark") {
+      roundingSequence.push(entry.kind);
+      continue;
+    }
+    const m = numbered.get(entry.markNumber!)!;
+    if (entry.side) {
+      roundingSides[roundingSequence.length] = entry.side;
+    }
+    roundingSequence.push(m.id);
+  }
+  return { designation: formatCourseDesignation(designation), roundingSequence, roundingSides };
+}
+
+/**
+ * Side each mark in the rounding sequence is left on, by sequence index: the
+ * course's side for that entry, else the mark's own default, else port. Start,
+ * finish and gates have no side.
+ */
+export function resolveRoundingSides(
+  roundingSequence: string[],
+  marks: Pick<Mark, "id" | "isGate" | "roundingSide">[],
+  entrySides: Record<number, RoundingSide> = {}
+): Record<number, RoundingSide> {
+  const markMap = new Map(marks.map(m => [m.id, m]));
+  const sides: Record<number, RoundingSide> = {};
+  roundingSequence.forEach((item, index) => {
+    const m = markMap.get(item);
+    if (!m || m.isGate) return;
+    sides[index] = entrySides[index] ?? m.roundingSide ?? "port";
+  });
+  return sides;
+}
+
+/**
+ * The rounding sequence without the entries for the given marks. Per-entry
+ * rounding sides move along with the entries they belong to.
+ */
+export function removeSequenceMarks(
+  roundingSequence: string[],
+  entrySides: Record<number, RoundingSide> | null | undefined,
+  markIds: Set<string>
+): { roundingSequence: string[]; roundingSides: Record<number, RoundingSide> | null } {
+  const kept: string[] = [];
+  const sides: Record<number, RoundingSide> = {};
+  roundingSequence.forEach((item, index) => {
+    if (markIds.has(item)) return;
+    const side = entrySides?.[index];
+    if (side) sides[kept.length] = side;
+    kept.push(item);
+  });
+  return { roundingSequence: kept, roundingSides: Object.keys(sides).length > 0 ? sides : null };
+}
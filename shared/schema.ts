@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -30,6 +30,108 @@ export type BuoyInventoryStatus = z.infer<typeof buoyInventoryStatusSchema>;
 export const buoyAssignmentStatusSchema = z.enum(["active", "completed"]);
 export type BuoyAssignmentStatus = z.infer<typeof buoyAssignmentStatusSchema>;
 
+export const buoyCommandTypeSchema = z.enum(["move_to_target", "hold_position", "cancel"]);
+export type BuoyCommandType = z.infer<typeof buoyCommandTypeSchema>;
+
+// pending -> sent -> acknowledged -> completed; rejected/failed/timed_out/superseded are terminal
+export const buoyCommandStatusSchema = z.enum([
+  "pending",
+  "sent",
+  "acknowledged",
+  "completed",
+  "rejected",
+  "failed",
+  "timed_out",
+  "superseded",
+]);
+export type BuoyCommandStatus = z.infer<typeof buoyCommandStatusSchema>;
+
+// Statuses that still expect a device response
+export const openBuoyCommandStatuses: string[] = ["pending", "sent", "acknowledged"];
+
+// Race lifecycle: scheduled -> in_sequence -> racing -> finished; abandoned from any unfinished state
+export const raceStatusSchema = z.enum(["scheduled", "in_sequence", "racing", "finished", "abandoned"]);
+export type RaceStatus = z.infer<typeof raceStatusSchema>;
+
+// Scoring abbreviations (RRS Appendix A11) recorded in place of a finish time
+export const scoringCodeSchema = z.enum(["DNF", "DNS", "OCS", "RET", "DSQ"]);
+export type ScoringCode = z.infer<typeof scoringCodeSchema>;
+
+export const finishSourceSchema = z.enum(["manual", "tracking"]);
+export type FinishSource = z.infer<typeof finishSourceSchema>;
+
+// What a position history record tracks
+export const positionKindSchema = z.enum(["buoy", "mark", "boat"]);
+export type PositionKind = z.infer<typeof positionKindSchema>;
+
+// What a race log entry records
+export const raceLogKindSchema = z.enum([
+  "signal",
+  "race_status",
+  "course_change",
+  "course_transform",
+  "shorten_course",
+  "course_restored",
+  "abandon",
+  "mark_move",
+  "buoy_command",
+  "note",
+]);
+export type RaceLogKind = z.infer<typeof raceLogKindSchema>;
+
+// Kinds the committee writes from the client; signals, race statuses, mark moves and
+// buoy commands are only ever recorded by the server as they happen
+export const committeeRaceLogKindSchema = raceLogKindSchema.extract([
+  "course_change",
+  "course_transform",
+  "shorten_course",
+  "course_restored",
+  "abandon",
+  "note",
+]);
+export type CommitteeRaceLogKind = z.infer<typeof committeeRaceLogKindSchema>;
+
+// What an audit entry records being done, and to what
+export const auditActionSchema = z.enum(["create", "update", "delete"]);
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+export const auditEntityTypeSchema = z.enum([
+  "user",
+  "event_access",
+  "sail_club",
+  "boat_class",
+  "event",
+  "course",
+  "course_snapshot",
+  "mark",
+  "buoy",
+  "race",
+  "race_finish",
+  "buoy_command",
+  "start_sequence",
+]);
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+// Start sequence (RRS 26). A sequence is running until every fleet has started;
+// postponed (AP) and general_recall (First Substitute) hold the unstarted fleets.
+export const startSequenceStatusSchema = z.enum(["running", "postponed", "general_recall", "cancelled"]);
+export type StartSequenceStatus = z.infer<typeof startSequenceStatusSchema>;
+
+// Preparatory signal flag (RRS 26, 30.1-30.4)
+export const preparatoryFlagSchema = z.enum(["P", "I", "Z", "U", "black"]);
+export type PreparatoryFlag = z.infer<typeof preparatoryFlagSchema>;
+
+// Signal timings in seconds before each start
+export const startSequencePresets = {
+  "5-4-1-0": { warningSeconds: 300, preparatorySeconds: 240, oneMinuteSeconds: 60 },
+  "3-2-1-0": { warningSeconds: 180, preparatorySeconds: 120, oneMinuteSeconds: 60 },
+} as const;
+export const startSequencePresetSchema = z.enum(["5-4-1-0", "3-2-1-0"]);
+export type StartSequencePreset = z.infer<typeof startSequencePresetSchema>;
+
+// A fleet can only be generally recalled this soon after its start signal
+export const GENERAL_RECALL_WINDOW_MS = 3 * 60 * 1000;
+
 export const markRoleSchema = z.enum([
   "start_boat",    // Committee boat at starboard end of start line
   "pin",           // Pin mark at port end of start line
@@ -44,10 +146,14 @@ export const markRoleSchema = z.enum([
 ]);
 export type MarkRole = z.infer<typeof markRoleSchema>;
 
+// Side a mark is left on when rounding it
+export const roundingSideSchema = z.enum(["port", "starboard"]);
+export type RoundingSide = z.infer<typeof roundingSideSchema>;
+
 export const courseShapeSchema = z.enum(["triangle", "trapezoid", "windward_leeward", "custom"]);
 export type CourseShape = z.infer<typeof courseShapeSchema>;
 
-export const windSourceSchema = z.enum(["api", "buoy", "manual"]);
+export const windSourceSchema = z.enum(["api", "buoy", "manual", "instrument"]);
 export type WindSource = z.infer<typeof windSourceSchema>;
 
 export const distanceUnitSchema = z.enum(["meters", "kilometers", "nautical_miles", "miles"]);
@@ -59,9 +165,25 @@ export type SpeedUnit = z.infer<typeof speedUnitSchema>;
 export const hullTypeSchema = z.enum(["displacement", "planing", "foiling"]);
 export type HullType = z.infer<typeof hullTypeSchema>;
 
+// Boat speed polar: speeds[i][j] is the boat speed in knots at angles[i] true
+// wind angle and windSpeeds[j] true wind speed. Both axes ascend.
+const ascending = (values: number[]) => values.every((v, i) => i === 0 || v > values[i - 1]);
+
+export const polarTableSchema = z.object({
+  windSpeeds: z.array(z.number().positive().max(60)).min(1).max(40).refine(ascending, "Wind speeds must ascend"),
+  angles: z.array(z.number().min(0).max(180)).min(2).max(181).refine(ascending, "Angles must ascend"),
+  speeds: z.array(z.array(z.number().min(0).max(60))),
+  source: z.string().max(200).optional(),
+}).refine(
+  polar => polar.speeds.length === polar.angles.length && polar.speeds.every(row => row.length === polar.windSpeeds.length),
+  { message: "Speeds must have one row per angle and one column per wind speed", path: ["speeds"] }
+);
+export type PolarTable = z.infer<typeof polarTableSchema>;
+
 // Database Tables
 
-// Boat Classes with simplified performance data for race time estimation
+// Boat Classes with performance data for race time estimation: a full polar
+// where one has been imported, otherwise the light/medium/heavy bands
 export const boatClasses = pgTable("boat_classes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -95,6 +217,9 @@ export const boatClasses = pgTable("boat_classes", {
   
   // No-go zone boundaries (degrees from wind)
   noGoZoneAngle: real("no_go_zone_angle").notNull().default(40),
+  
+  // Imported polar (ORC/Expedition); takes over from the bands above when set
+  polar: jsonb("polar").$type<PolarTable>(),
 });
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -121,6 +246,13 @@ export const sailClubs = pgTable("sail_clubs", {
   location: jsonb("location").$type<{ lat: number; lng: number }>(),
 });
 
+// Provider event IDs an event follows; omitted providers are off
+export const eventTrackingSchema = z.object({
+  vakaros: z.string().trim().min(1).max(100).optional(),
+  tractrac: z.string().trim().min(1).max(100).optional(),
+});
+export type EventTracking = z.infer<typeof eventTrackingSchema>;
+
 export const events = pgTable("events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -162,6 +294,7 @@ export const events = pgTable("events", {
       fetchedAt?: string;
     };
   }>(),
+  trackingEventIds: jsonb("tracking_event_ids").$type<EventTracking>(), // Vakaros/TracTrac feeds for this event
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -174,6 +307,8 @@ export const courses = pgTable("courses", {
   rotation: real("rotation").notNull().default(0),
   scale: real("scale").notNull().default(1),
   roundingSequence: text("rounding_sequence").array(),
+  designation: text("designation"),                        // course code from the sailing instructions, e.g. "L2"
+  roundingSides: jsonb("rounding_sides").$type<Record<number, RoundingSide>>(), // by rounding sequence index
 });
 
 export const marks = pgTable("marks", {
@@ -195,6 +330,7 @@ export const marks = pgTable("marks", {
   gateSide: text("gate_side"),
   gatePortBuoyId: varchar("gate_port_buoy_id"),
   gateStarboardBuoyId: varchar("gate_starboard_buoy_id"),
+  roundingSide: text("rounding_side").$type<RoundingSide>(), // default side to leave the mark on; null = port
 });
 
 export const buoys = pgTable("buoys", {
@@ -208,13 +344,15 @@ export const buoys = pgTable("buoys", {
   targetLat: real("target_lat"),
   targetLng: real("target_lng"),
   speed: real("speed").notNull().default(0),
+  heading: real("heading"),                               // degrees true, from GPS
   battery: integer("battery").notNull().default(100),
   signalStrength: integer("signal_strength").notNull().default(100),
   windSpeed: real("wind_speed"),
   windDirection: real("wind_direction"),
   currentSpeed: real("current_speed"),
   currentDirection: real("current_direction"),
-  eta: integer("eta"),
+  eta: integer("eta"),                                     // seconds to target, computed by the buoy tracker
+  driftDistance: real("drift_distance"),                  // meters off station while holding
   ownershipType: text("ownership_type").notNull().default("platform_owned"),
   inventoryStatus: text("inventory_status").notNull().default("in_inventory"),
   eventId: varchar("event_id"),
@@ -229,6 +367,15 @@ export const buoys = pgTable("buoys", {
     hardwareRevision?: string;
     notes?: string;
   }>(),
+  lastTelemetryAt: timestamp("last_telemetry_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-buoy device credentials; kept out of the buoys table so the key hash is never serialized to clients
+export const buoyDeviceCredentials = pgTable("buoy_device_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  buoyId: varchar("buoy_id").notNull().unique(),
+  keyHash: text("key_hash").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -273,8 +420,9 @@ export const userSettings = pgTable("user_settings", {
   integrations: jsonb("integrations"),
 });
 
-// Visibility scope for saved course snapshots
-export const visibilityScopeSchema = z.enum(["global", "club", "user"]);
+// Visibility scope for saved course snapshots. "race" snapshots are the frozen record of
+// the course a race sailed; they are never listed as templates.
+export const visibilityScopeSchema = z.enum(["global", "club", "user", "race"]);
 export type VisibilityScope = z.infer<typeof visibilityScopeSchema>;
 
 // Snapshot of a mark at save time (stored as JSON)
@@ -292,6 +440,7 @@ export const snapshotMarkSchema = z.object({
   boatLengthMeters: z.number().nullable(),
   gatePartnerId: z.string().nullable(),
   gateSide: z.string().nullable(),
+  roundingSide: roundingSideSchema.nullable().optional(),
 });
 export type SnapshotMark = z.infer<typeof snapshotMarkSchema>;
 
@@ -323,11 +472,47 @@ export const courseSnapshots = pgTable("course_snapshots", {
   rotation: real("rotation").notNull().default(0),
   scale: real("scale").notNull().default(1),
   roundingSequence: text("rounding_sequence").array(),
+  designation: text("designation"),                        // course code, as on the course
+  roundingSides: jsonb("rounding_sides").$type<Record<number, RoundingSide>>(), // by rounding sequence index
   
   // Snapshot of all marks as JSON array - immutable copy
   snapshotMarks: jsonb("snapshot_marks").$type<SnapshotMark[]>().notNull(),
   
+  // Version lineage: saving a saved course again adds a version instead of replacing it
+  lineageId: varchar("lineage_id"),               // First version's id, shared by its later versions (null on the first)
+  parentSnapshotId: varchar("parent_snapshot_id"), // Version this one was saved from
+  version: integer("version").notNull().default(1),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // One of each version number per lineage; first versions have no lineage and don't collide
+  uniqueIndex("course_snapshots_lineage_version_idx").on(table.lineageId, table.version),
+]);
+
+// Individual races within an event; the course sailed is frozen into a course snapshot at the start
+export const races = pgTable("races", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  raceNumber: integer("race_number").notNull(),
+  fleet: text("fleet"),                                    // fleet/class; null when the whole event races together
+  status: text("status").notNull().default("scheduled"),
+  startTime: timestamp("start_time"),
+  finishedAt: timestamp("finished_at"),
+  courseSnapshotId: varchar("course_snapshot_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Finishers recorded for a race, in place of the finish boat clipboard
+export const raceFinishes = pgTable("race_finishes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  raceId: varchar("race_id").notNull(),
+  sailNumber: text("sail_number"),                         // null until filled in after a tap-to-record
+  finishTime: timestamp("finish_time"),                    // null for boats scored with a code only
+  scoringCode: text("scoring_code"),
+  source: text("source").notNull().default("manual"),      // manual | tracking
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Buoy weather history - stores historical wind/current data per buoy
@@ -354,6 +539,100 @@ export const buoyWeatherHistory = pgTable("buoy_weather_history", {
   rollingAvgSpeed: real("rolling_avg_speed"),             // 5-min rolling average
 });
 
+// Position history - where buoys, marks and tracked boats were over time, for race replay.
+// Buoys and boats are sampled as they report; marks get a record on every change.
+export const positionHistory = pgTable("position_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  kind: text("kind").notNull(),                            // buoy | mark | boat
+  entityId: varchar("entity_id").notNull(),                // buoy, mark or tracked boat ID
+  label: text("label"),                                    // name or sail number
+  lat: real("lat").notNull(),
+  lng: real("lng").notNull(),
+  heading: real("heading"),
+  speed: real("speed"),                                    // knots
+  state: text("state"),                                    // buoy state, boat source, or "removed" for a deleted mark
+  data: jsonb("data").$type<Record<string, unknown>>(),    // full mark row for marks
+  recordedAt: timestamp("recorded_at").notNull().defaultNow(),
+});
+
+// Race committee log - append-only record of decisions made on the water, kept for protest hearings
+export const raceLogEntries = pgTable("race_log_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  raceId: varchar("race_id"),                              // null when no race was under way
+  kind: text("kind").notNull(),
+  summary: text("summary").notNull(),                      // one line, as it would be read out
+  data: jsonb("data").$type<Record<string, unknown>>(),    // detail by kind, e.g. the mark's old and new position
+  windDirection: real("wind_direction"),                  // wind when the entry was made
+  windSpeed: real("wind_speed"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Field -> value before and after; a created entity has every `from` null, a deleted one every `to`
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Audit trail - who created, changed or deleted what through the API
+export const auditLogEntries = pgTable("audit_log_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),                              // who did it
+  action: text("action").notNull(),                        // create | update | delete
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id").notNull(),
+  entityLabel: text("entity_label"),                       // name at the time, so deleted entities stay readable
+  route: text("route").notNull(),                          // e.g. "PATCH /api/marks/:id"
+  changes: jsonb("changes").$type<AuditChanges>(),
+  sailClubId: varchar("sail_club_id"),                     // club and event the entity belongs to, for filtering
+  eventId: varchar("event_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Buoy command queue - operator commands awaiting delivery to / confirmation from the device
+export const buoyCommands = pgTable("buoy_commands", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  buoyId: varchar("buoy_id").notNull(),
+  command: text("command").notNull(),
+  targetLat: real("target_lat"),
+  targetLng: real("target_lng"),
+  status: text("status").notNull().default("pending"),
+  
+  // Delivery tracking
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lastSentAt: timestamp("last_sent_at"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  completedAt: timestamp("completed_at"),
+  errorMessage: text("error_message"),
+  
+  issuedBy: varchar("issued_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export interface StartSequenceFleet {
+  name: string;
+  classFlag: string;            // class flag shown at the warning signal
+  startAt: string | null;       // ISO start signal time; null while postponed or recalled
+  recalls: number;              // general recalls so far
+}
+
+// Start sequences - fleets start in order, each warning signal made at the previous start (rolling starts)
+export const startSequences = pgTable("start_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  status: text("status").notNull().default("running"),
+  warningSeconds: integer("warning_seconds").notNull().default(300),
+  preparatorySeconds: integer("preparatory_seconds").notNull().default(240),
+  oneMinuteSeconds: integer("one_minute_seconds").notNull().default(60),
+  preparatoryFlag: text("preparatory_flag").notNull().default("P"),
+  fleets: jsonb("fleets").$type<StartSequenceFleet[]>().notNull(),
+  postponedAt: timestamp("postponed_at"),                 // AP hoisted
+  recalledAt: timestamp("recalled_at"),                   // First Substitute hoisted
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Wind pattern type enum
 export const windPatternTypeSchema = z.enum(["oscillating", "persistent", "oscillating_persistent", "stable"]);
 export type WindPatternType = z.infer<typeof windPatternTypeSchema>;
@@ -400,6 +679,9 @@ export const insertEventSchema = createInsertSchema(events).pick({
   manage2SailUrl: true,
   racingRulesUrl: true,
   externalInfo: true,
+  trackingEventIds: true,
+}).extend({
+  trackingEventIds: eventTrackingSchema.nullable().optional(),
 });
 
 export const insertBoatClassSchema = createInsertSchema(boatClasses).pick({
@@ -422,6 +704,9 @@ export const insertBoatClassSchema = createInsertSchema(boatClasses).pick({
   jibeTime: true,
   markRoundingTime: true,
   noGoZoneAngle: true,
+  polar: true,
+}).extend({
+  polar: polarTableSchema.nullable().optional(),
 });
 
 export const insertCourseSchema = createInsertSchema(courses).pick({
@@ -432,6 +717,9 @@ export const insertCourseSchema = createInsertSchema(courses).pick({
   rotation: true,
   scale: true,
   roundingSequence: true,
+  designation: true,
+}).extend({
+  roundingSides: z.record(z.string().regex(/^\d+$/), roundingSideSchema).nullable().optional(),
 });
 
 export const insertMarkSchema = createInsertSchema(marks).pick({
@@ -452,6 +740,8 @@ export const insertMarkSchema = createInsertSchema(marks).pick({
   gateSide: true,
   gatePortBuoyId: true,
   gateStarboardBuoyId: true,
+}).extend({
+  roundingSide: roundingSideSchema.nullable().optional(),
 });
 
 export const insertBuoySchema = createInsertSchema(buoys).pick({
@@ -464,6 +754,7 @@ export const insertBuoySchema = createInsertSchema(buoys).pick({
   targetLat: true,
   targetLng: true,
   speed: true,
+  heading: true,
   battery: true,
   signalStrength: true,
   windSpeed: true,
@@ -471,6 +762,8 @@ export const insertBuoySchema = createInsertSchema(buoys).pick({
   currentSpeed: true,
   currentDirection: true,
   eta: true,
+  driftDistance: true,
+  lastTelemetryAt: true,
   ownershipType: true,
   inventoryStatus: true,
   eventId: true,
@@ -527,10 +820,38 @@ export const insertCourseSnapshotSchema = createInsertSchema(courseSnapshots).pi
   rotation: true,
   scale: true,
   roundingSequence: true,
+  designation: true,
+  lineageId: true,
+  parentSnapshotId: true,
+  version: true,
 }).extend({
+  roundingSides: z.record(z.string().regex(/^\d+$/), roundingSideSchema).nullable().optional(),
   snapshotMarks: z.array(snapshotMarkSchema),
 });
 
+export const insertRaceSchema = createInsertSchema(races).pick({
+  eventId: true,
+  raceNumber: true,
+  fleet: true,
+  status: true,
+  startTime: true,
+  finishedAt: true,
+  courseSnapshotId: true,
+}).extend({
+  status: raceStatusSchema.optional(),
+});
+
+export const insertRaceFinishSchema = createInsertSchema(raceFinishes).pick({
+  raceId: true,
+  sailNumber: true,
+  finishTime: true,
+  scoringCode: true,
+  source: true,
+}).extend({
+  scoringCode: scoringCodeSchema.nullable().optional(),
+  source: finishSourceSchema.optional(),
+});
+
 export const insertBuoyWeatherHistorySchema = createInsertSchema(buoyWeatherHistory).pick({
   buoyId: true,
   eventId: true,
@@ -544,6 +865,117 @@ export const insertBuoyWeatherHistorySchema = createInsertSchema(buoyWeatherHist
   rollingAvgSpeed: true,
 });
 
+export const insertPositionRecordSchema = createInsertSchema(positionHistory).pick({
+  eventId: true,
+  kind: true,
+  entityId: true,
+  label: true,
+  lat: true,
+  lng: true,
+  heading: true,
+  speed: true,
+  state: true,
+  data: true,
+  recordedAt: true,
+}).extend({
+  kind: positionKindSchema,
+  data: z.record(z.unknown()).nullable().optional(),
+});
+
+export const insertRaceLogEntrySchema = createInsertSchema(raceLogEntries).pick({
+  eventId: true,
+  raceId: true,
+  kind: true,
+  summary: true,
+  data: true,
+  windDirection: true,
+  windSpeed: true,
+  createdBy: true,
+}).extend({
+  kind: raceLogKindSchema,
+  data: z.record(z.unknown()).nullable().optional(),
+});
+
+export const insertAuditLogEntrySchema = createInsertSchema(auditLogEntries).pick({
+  userId: true,
+  action: true,
+  entityType: true,
+  entityId: true,
+  entityLabel: true,
+  route: true,
+  changes: true,
+  sailClubId: true,
+  eventId: true,
+}).extend({
+  action: auditActionSchema,
+  entityType: auditEntityTypeSchema,
+  changes: z.custom<AuditChanges>().nullable().optional(),
+});
+
+export const insertBuoyCommandSchema = createInsertSchema(buoyCommands).pick({
+  buoyId: true,
+  command: true,
+  targetLat: true,
+  targetLng: true,
+  maxAttempts: true,
+  issuedBy: true,
+}).extend({
+  command: buoyCommandTypeSchema,
+});
+
+// Device-reported outcome for a delivered command
+export const buoyCommandReportSchema = z.object({
+  status: z.enum(["acknowledged", "rejected", "completed", "failed"]),
+  message: z.string().max(500).optional(),
+});
+export type BuoyCommandReport = z.infer<typeof buoyCommandReportSchema>;
+
+export const insertStartSequenceSchema = createInsertSchema(startSequences).pick({
+  eventId: true,
+  status: true,
+  warningSeconds: true,
+  preparatorySeconds: true,
+  oneMinuteSeconds: true,
+  preparatoryFlag: true,
+  fleets: true,
+  postponedAt: true,
+  recalledAt: true,
+  createdBy: true,
+}).extend({
+  status: startSequenceStatusSchema.optional(),
+  preparatoryFlag: preparatoryFlagSchema.optional(),
+  fleets: z.array(z.object({
+    name: z.string().min(1).max(50),
+    classFlag: z.string().min(1).max(50),
+    startAt: z.string().nullable(),
+    recalls: z.number().int().min(0),
+  })).min(1),
+});
+
+// Device telemetry packet - every field optional so units can report what they have
+export const buoyTelemetrySchema = z.object({
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  heading: z.number().min(0).lt(360).optional(),
+  speed: z.number().min(0).max(50).optional(),                // knots
+  battery: z.number().int().min(0).max(100).optional(),
+  signalStrength: z.number().int().min(0).max(100).optional(),
+  windSpeed: z.number().min(0).max(150).optional(),           // knots
+  windDirection: z.number().min(0).lt(360).optional(),
+  gustSpeed: z.number().min(0).max(200).optional(),
+  currentSpeed: z.number().min(0).max(20).optional(),
+  currentDirection: z.number().min(0).lt(360).optional(),
+  sensorQuality: z.number().int().min(0).max(100).optional(),
+  firmwareVersion: z.string().min(1).max(64).optional(),
+})
+  .refine(d => (d.lat === undefined) === (d.lng === undefined), {
+    message: "lat and lng must be reported together",
+  })
+  .refine(d => (d.windSpeed === undefined) === (d.windDirection === undefined), {
+    message: "windSpeed and windDirection must be reported together",
+  });
+export type BuoyTelemetry = z.infer<typeof buoyTelemetrySchema>;
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -569,6 +1001,8 @@ export type Mark = typeof marks.$inferSelect;
 export type InsertBuoy = z.infer<typeof insertBuoySchema>;
 export type Buoy = typeof buoys.$inferSelect;
 
+export type BuoyDeviceCredential = typeof buoyDeviceCredentials.$inferSelect;
+
 export type InsertBuoyAssignment = z.infer<typeof insertBuoyAssignmentSchema>;
 export type BuoyAssignment = typeof buoyAssignments.$inferSelect;
 
@@ -578,6 +1012,26 @@ export type UserSettings = typeof userSettings.$inferSelect;
 export type InsertCourseSnapshot = z.infer<typeof insertCourseSnapshotSchema>;
 export type CourseSnapshot = typeof courseSnapshots.$inferSelect;
 
+export type InsertRace = z.infer<typeof insertRaceSchema>;
+export type Race = typeof races.$inferSelect;
+export type InsertRaceFinish = z.infer<typeof insertRaceFinishSchema>;
+export type RaceFinish = typeof raceFinishes.$inferSelect;
+
+export type InsertPositionRecord = z.infer<typeof insertPositionRecordSchema>;
+export type PositionRecord = typeof positionHistory.$inferSelect;
+
+export type InsertRaceLogEntry = z.infer<typeof insertRaceLogEntrySchema>;
+export type RaceLogEntry = typeof raceLogEntries.$inferSelect;
+
+// As the race log API returns it, with the author's username
+export type RaceLogEntryWithAuthor = RaceLogEntry & { createdByName: string | null };
+
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogEntrySchema>;
+export type AuditLogEntry = typeof auditLogEntries.$inferSelect;
+
+// As the audit API returns it, with the username of whoever made the change
+export type AuditLogEntryWithUser = AuditLogEntry & { username: string | null };
+
 // Frontend-only types for services
 export interface WeatherData {
   windSpeed: number;
@@ -622,6 +1076,11 @@ export interface LegTimeEstimate {
   boatSpeed: number;          // boat speed through water in knots
   legTimeSeconds: number;     // estimated leg time
   tacksOrJibes: number;       // number of maneuvers required
+  // Current at the leg from the nearest reporting buoy; absent when none reports
+  currentSpeed?: number;      // knots
+  currentDirection?: number;  // degrees, direction the water flows towards
+  currentDeltaSeconds?: number; // leg time with the current minus leg time in still water
+  groundTracks?: [number, number]; // course over ground on each tack/gybe (upwind and downwind legs)
 }
 
 export interface RaceTimeEstimate {
@@ -640,6 +1099,12 @@ export interface SiblingBuoy extends Buoy {
   sourceEventId: string;
 }
 
+export type InsertBuoyCommand = z.infer<typeof insertBuoyCommandSchema>;
+export type BuoyCommand = typeof buoyCommands.$inferSelect;
+
+export type InsertStartSequence = z.infer<typeof insertStartSequenceSchema>;
+export type StartSequence = typeof startSequences.$inferSelect;
+
 // Weather history types
 export type InsertBuoyWeatherHistory = z.infer<typeof insertBuoyWeatherHistorySchema>;
 export type BuoyWeatherHistory = typeof buoyWeatherHistory.$inferSelect;
@@ -699,3 +1164,88 @@ export interface WindAnalytics {
     trend: VelocityTrend;
   }>;
 }
+
+// Buoy telemetry push channel (/ws/buoys)
+export type BuoyTelemetryMessage =
+  | { type: "snapshot"; eventId: string; buoys: Buoy[] }
+  | { type: "buoy_added"; buoy: Buoy }
+  | { type: "buoy_delta"; buoyId: string; changes: Partial<Buoy>; timestamp: string }
+  | { type: "buoy_removed"; buoyId: string };
+
+// Race tracking feeds (Vakaros, TracTrac), ingested on the server
+export const trackingSourceSchema = z.enum(["vakaros", "tractrac"]);
+export type TrackingSource = z.infer<typeof trackingSourceSchema>;
+
+export interface TrackedBoat {
+  id: string;
+  sailNumber: string;
+  lat: number;
+  lng: number;
+  heading: number;              // degrees true
+  speed: number;                // knots
+  timestamp: Date;
+  source: TrackingSource;
+  fleetId?: string;
+}
+
+export type TrackingFeedState = "connecting" | "live" | "error";
+
+export interface TrackingFeedStatus {
+  source: TrackingSource;
+  externalEventId: string;
+  state: TrackingFeedState;
+  error: string | null;
+  lastUpdate: string | null;
+  boatCount: number;
+}
+
+export interface TrackedBoatsResponse {
+  boats: TrackedBoat[];
+  feeds: TrackingFeedStatus[];
+}
+
+// Committee boat NMEA 0183 feed: own ship instruments and AIS traffic
+export interface OwnShipState {
+  lat: number | null;
+  lng: number | null;
+  cog: number | null;           // degrees true
+  sog: number | null;           // knots
+  heading: number | null;       // degrees true
+  updatedAt: string | null;
+}
+
+export interface InstrumentWind {
+  windDirection: number;        // degrees true, direction the wind blows from
+  windSpeed: number;            // knots, true wind
+  // Averaged over the last samples; apparent readings are corrected for boat motion
+  sampleCount: number;
+  reference: "true" | "apparent";
+  updatedAt: string;
+}
+
+export interface AisTarget {
+  mmsi: number;
+  name: string | null;
+  callSign: string | null;
+  shipType: number | null;      // ITU-R M.1371 ship and cargo type
+  lat: number;
+  lng: number;
+  cog: number | null;
+  sog: number | null;
+  heading: number | null;
+  updatedAt: string;
+}
+
+export interface NmeaSnapshot {
+  ownShip: OwnShipState | null;
+  wind: InstrumentWind | null;
+  aisTargets: AisTarget[];
+}
+
+// Race replay: recorded positions and the wind readings over the same window
+export interface PositionHistoryResponse {
+  from: string;
+  to: string;
+  positions: PositionRecord[];
+  wind: BuoyWeatherHistory[];
+}